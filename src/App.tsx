@@ -29,16 +29,19 @@ installNetworkInterceptor()
  * @param root0.savedWallets - Array of previously saved wallet metadata entries.
  * @param root0.onCreateNew - Callback invoked when the user clicks "Create New Wallet".
  * @param root0.onImportNew - Callback invoked when the user clicks "Import Seed Phrase".
+ * @param root0.onWatchNew - Callback invoked when the user clicks "Add Watch-Only Wallet".
  * @returns The unlock screen UI with password input and wallet action buttons.
  */
 function UnlockScreen ({
   savedWallets,
   onCreateNew,
   onImportNew,
+  onWatchNew,
 }: {
   savedWallets: SavedWalletMetadata[]
   onCreateNew: () => void
   onImportNew: () => void
+  onWatchNew: () => void
 }) {
   const { switchWallet } = useWalletStore()
   const [password, setPassword] = useState('')
@@ -110,6 +113,9 @@ function UnlockScreen ({
         <button className='secondary-button' onClick={onImportNew}>
           Import Seed Phrase
         </button>
+        <button className='secondary-button' onClick={onWatchNew}>
+          Add Watch-Only Wallet
+        </button>
       </div>
     </div>
   )
@@ -125,21 +131,28 @@ export default function App () {
     lastError,
     createWallet,
     importWallet,
+    importWatchOnlyWallet,
+    importViewingKeyBundle,
+    addAccount,
     loadSavedWallets,
     lockWallet,
     isPasswordSet,
     savedWallets,
+    currentWallet,
   } = useWalletStore()
 
   const { hasAcceptedTerms, acceptTerms } = useLegalStore()
 
   const [showWalletManagement, setShowWalletManagement] = useState(false)
   const [showWalletList, setShowWalletList] = useState(false)
-  const [walletModalMode, setWalletModalMode] = useState<'create' | 'import'>('create')
+  const [walletModalMode, setWalletModalMode] = useState<
+    'create' | 'import' | 'watch-only' | 'account'
+  >('create')
   const [activeTab, setActiveTab] = useState<TabType>('balances')
   const [sessionTimedOut, setSessionTimedOut] = useState(false)
   const [createdWallet, setCreatedWallet] = useState<RailgunWallet | null>(null)
   const [showSettings, setShowSettings] = useState(false)
+  const isWatchOnly = !!currentWallet?.watchOnly
 
   // Handle session timeout - clears ALL sensitive data from memory
   const handleSessionTimeout = useCallback(() => {
@@ -178,6 +191,13 @@ export default function App () {
     }
   }, [isInitialized, isPasswordSet, handleSessionTimeout, lockWallet])
 
+  // Watch-only wallets have no Transact tab; leave it if the active wallet changes to one
+  useEffect(() => {
+    if (isWatchOnly && activeTab === 'transact') {
+      setActiveTab('balances')
+    }
+  }, [isWatchOnly, activeTab])
+
   // Reset session timeout notification when user re-authenticates
   useEffect(() => {
     if (isPasswordSet && sessionTimedOut) {
@@ -189,10 +209,11 @@ export default function App () {
    * Creates a new wallet with the given nickname and password, then shows the created wallet modal.
    * @param nickname - The display name for the new wallet.
    * @param password - The encryption password for the wallet.
+   * @param passphrase - Optional BIP39 passphrase; empty for none.
    */
-  const handleCreateWallet = async (nickname: string, password: string) => {
+  const handleCreateWallet = async (nickname: string, password: string, passphrase: string) => {
     try {
-      const wallet = await createWallet(nickname, password)
+      const wallet = await createWallet(nickname, password, passphrase || undefined)
       setShowWalletManagement(false)
       setCreatedWallet(wallet)
     } catch (error) {
@@ -206,10 +227,16 @@ export default function App () {
    * @param mnemonic - The BIP-39 seed phrase to import.
    * @param nickname - The display name for the imported wallet.
    * @param password - The encryption password for the wallet.
+   * @param passphrase - Optional BIP39 passphrase; empty for none.
    */
-  const handleImportWallet = async (mnemonic: string, nickname: string, password: string) => {
+  const handleImportWallet = async (
+    mnemonic: string,
+    nickname: string,
+    password: string,
+    passphrase: string
+  ) => {
     try {
-      await importWallet(mnemonic, nickname, password)
+      await importWallet(mnemonic, nickname, password, passphrase ? { passphrase } : undefined)
       setShowWalletManagement(false)
     } catch (error) {
       console.error('Failed to import wallet:', error)
@@ -217,6 +244,76 @@ export default function App () {
     }
   }
 
+  /**
+   * Adds a watch-only wallet from a 0zk address and its viewing and nullifying keys.
+   * @param keys - The address and keys to watch.
+   * @param keys.address - The 0zk address to watch.
+   * @param keys.viewingKey - The private viewing key.
+   * @param keys.nullifyingKey - The nullifying key.
+   * @param nickname - The display name for the wallet.
+   * @param password - The encryption password for the stored keys.
+   */
+  const handleImportWatchOnly = async (
+    keys: { address: string; viewingKey: string; nullifyingKey: string },
+    nickname: string,
+    password: string
+  ) => {
+    try {
+      await importWatchOnlyWallet(
+        keys.address,
+        keys.viewingKey,
+        keys.nullifyingKey,
+        nickname,
+        password
+      )
+      setShowWalletManagement(false)
+    } catch (error) {
+      console.error('Failed to add watch-only wallet:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Adds a watch-only wallet from an encrypted viewing key bundle.
+   * @param bundle - The bundle string.
+   * @param bundlePassword - The password the bundle was encrypted with.
+   * @param nickname - The display name for the wallet.
+   * @param password - The encryption password for the stored keys.
+   */
+  const handleImportViewingKeyBundle = async (
+    bundle: string,
+    bundlePassword: string,
+    nickname: string,
+    password: string
+  ) => {
+    try {
+      await importViewingKeyBundle(bundle, bundlePassword, nickname, password)
+      setShowWalletManagement(false)
+    } catch (error) {
+      console.error('Failed to import viewing key bundle:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Derives another account from a saved wallet's seed phrase and saves it.
+   * @param sourceWalletId - The saved wallet whose seed phrase is used.
+   * @param derivationIndex - The account index to derive.
+   * @param nickname - The display name for the account.
+   */
+  const handleAddAccount = async (
+    sourceWalletId: string,
+    derivationIndex: number,
+    nickname: string
+  ) => {
+    try {
+      await addAccount(sourceWalletId, derivationIndex, nickname || undefined)
+    } catch (error) {
+      console.error('Failed to add account:', error)
+      throw error
+    }
+  }
+
   /**
    * Opens the wallet management modal in "create" mode.
    */
@@ -235,6 +332,24 @@ export default function App () {
     setShowWalletList(false)
   }
 
+  /**
+   * Opens the wallet management modal in "watch-only" mode.
+   */
+  const handleOpenWatchOnlyModal = () => {
+    setWalletModalMode('watch-only')
+    setShowWalletManagement(true)
+    setShowWalletList(false)
+  }
+
+  /**
+   * Opens the wallet management modal in "account" mode.
+   */
+  const handleOpenAccountModal = () => {
+    setWalletModalMode('account')
+    setShowWalletManagement(true)
+    setShowWalletList(false)
+  }
+
   /**
    * Renders the page component corresponding to the currently active tab.
    * @returns The React element for the selected tab page.
@@ -269,6 +384,7 @@ export default function App () {
                 savedWallets={savedWallets}
                 onCreateNew={handleOpenCreateModal}
                 onImportNew={handleOpenImportModal}
+                onWatchNew={handleOpenWatchOnlyModal}
               />
               )
             : (
@@ -279,6 +395,9 @@ export default function App () {
                 <button className='secondary-button' onClick={handleOpenImportModal}>
                   Import Seed Phrase
                 </button>
+                <button className='secondary-button' onClick={handleOpenWatchOnlyModal}>
+                  Add Watch-Only Wallet
+                </button>
               </div>
               )}
         </div>
@@ -288,6 +407,9 @@ export default function App () {
           onClose={() => setShowWalletManagement(false)}
           onCreateWallet={handleCreateWallet}
           onImportWallet={handleImportWallet}
+          onImportWatchOnly={handleImportWatchOnly}
+          onImportViewingKeyBundle={handleImportViewingKeyBundle}
+          onAddAccount={handleAddAccount}
           mode={walletModalMode}
         />
       </div>
@@ -313,7 +435,7 @@ export default function App () {
       </div>
 
       {/* Global Mode Toggle */}
-      <Navigation activeTab={activeTab} onTabChange={setActiveTab} />
+      <Navigation activeTab={activeTab} onTabChange={setActiveTab} showTransact={!isWatchOnly} />
 
       <main className='tab-content'>{renderTabContent()}</main>
 
@@ -334,6 +456,8 @@ export default function App () {
         onClose={() => setShowWalletList(false)}
         onCreateNew={handleOpenCreateModal}
         onImportNew={handleOpenImportModal}
+        onWatchNew={handleOpenWatchOnlyModal}
+        onAddAccount={handleOpenAccountModal}
       />
 
       <WalletManagementModal
@@ -341,6 +465,9 @@ export default function App () {
         onClose={() => setShowWalletManagement(false)}
         onCreateWallet={handleCreateWallet}
         onImportWallet={handleImportWallet}
+        onImportWatchOnly={handleImportWatchOnly}
+        onImportViewingKeyBundle={handleImportViewingKeyBundle}
+        onAddAccount={handleAddAccount}
         mode={walletModalMode}
       />
 
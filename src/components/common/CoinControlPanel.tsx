@@ -0,0 +1,159 @@
+import React, { useMemo } from 'react'
+
+import { BalanceScannerRouter } from '@/services/BalanceScannerRouter'
+import { POIService } from '@/services/POIService'
+import { useWalletStore } from '@/stores/walletStore'
+import type { NetworkName } from '@/types/network'
+import type { DecryptedCommitment, UTXOReference } from '@/types/wallet'
+import { blindedCommitmentOf } from '@/utils/blinded-commitment'
+import { formatTokenAmount } from '@/utils/format'
+import './CoinControlPanel.css'
+
+interface CoinControlPanelProps {
+  tokenAddress: string
+  symbol: string
+  decimals: number
+  requiredAmount?: bigint
+  selected: UTXOReference[]
+  onChange: (selected: UTXOReference[]) => void
+  disabled?: boolean
+}
+
+interface CoinControlNote {
+  commitment: DecryptedCommitment
+  poiStatus: string
+  isSpendable: boolean
+}
+
+/**
+ * Check whether a note reference is part of the current selection.
+ * @param selected - The currently selected note references
+ * @param commitment - The note to look up
+ * @returns True if the note is selected
+ */
+const isNoteSelected = (selected: UTXOReference[], commitment: DecryptedCommitment): boolean =>
+  selected.some(
+    (ref) => ref.treeNumber === commitment.treeNumber && ref.position === commitment.position
+  )
+
+/**
+ * Manual coin control: lists the wallet's unspent notes for one token and lets the user
+ * pin exactly which notes a transaction spends.
+ * @param root0 - The component props
+ * @param root0.tokenAddress - The token whose notes are listed
+ * @param root0.symbol - The token symbol for display
+ * @param root0.decimals - The token decimals for formatting values
+ * @param root0.requiredAmount - Optional amount the selection must cover
+ * @param root0.selected - The currently pinned note references
+ * @param root0.onChange - Callback invoked with the new selection
+ * @param root0.disabled - Whether selection changes are disabled
+ * @returns The rendered coin control panel
+ */
+export const CoinControlPanel: React.FC<CoinControlPanelProps> = ({
+  tokenAddress,
+  symbol,
+  decimals,
+  requiredAmount,
+  selected,
+  onChange,
+  disabled = false,
+}) => {
+  const { currentWallet, currentNetwork, balances } = useWalletStore()
+
+  // Recomputed when balances refresh so newly scanned notes and PPOI statuses show up
+  const notes = useMemo((): CoinControlNote[] => {
+    if (!currentWallet || !tokenAddress) return []
+    const poiService = POIService.getInstance()
+
+    return BalanceScannerRouter.getInstance()
+      .getDecryptedCommitmentsForWallet(currentWallet.id, currentNetwork)
+      .filter(
+        (c) =>
+          !c.isSpent &&
+          !c.isSentToOther &&
+          c.tokenAddress.toLowerCase() === tokenAddress.toLowerCase()
+      )
+      .map((commitment) => {
+        const blindedCommitment = blindedCommitmentOf(commitment)
+        const commitmentType =
+          commitment.commitmentType === 'ShieldCommitment' ? 'Shield' : 'Transact'
+        const cachedStatus = poiService.getPOIStatusForCommitmentsFromCacheOnly(
+          currentNetwork as NetworkName,
+          [{ blindedCommitment, type: commitmentType as 'Shield' | 'Transact' | 'Unshield' }]
+        )
+        const poiStatus = cachedStatus[blindedCommitment]?.status || 'unknown'
+        return { commitment, poiStatus, isSpendable: poiStatus === 'valid' }
+      })
+      .sort((a, b) =>
+        a.commitment.treeNumber !== b.commitment.treeNumber
+          ? a.commitment.treeNumber - b.commitment.treeNumber
+          : a.commitment.position - b.commitment.position
+      )
+  }, [currentWallet, currentNetwork, tokenAddress, balances])
+
+  const selectedTotal = notes
+    .filter((n) => isNoteSelected(selected, n.commitment))
+    .reduce((sum, n) => sum + n.commitment.value, 0n)
+
+  /**
+   * Toggle a note in or out of the selection.
+   * @param commitment - The note to toggle
+   */
+  const toggleNote = (commitment: DecryptedCommitment) => {
+    if (isNoteSelected(selected, commitment)) {
+      onChange(
+        selected.filter(
+          (ref) =>
+            !(ref.treeNumber === commitment.treeNumber && ref.position === commitment.position)
+        )
+      )
+    } else {
+      onChange([...selected, { treeNumber: commitment.treeNumber, position: commitment.position }])
+    }
+  }
+
+  if (notes.length === 0) {
+    return <div className='coin-control-empty'>No unspent notes for this token.</div>
+  }
+
+  return (
+    <div className='coin-control'>
+      <div className='coin-control-list'>
+        {notes.map(({ commitment, poiStatus, isSpendable }) => (
+          <label
+            key={`${commitment.treeNumber}:${commitment.position}`}
+            className={`coin-control-row ${!isSpendable ? 'unspendable' : ''}`}
+            title={!isSpendable ? 'Only notes with a valid PPOI status can be spent' : undefined}
+          >
+            <input
+              type='checkbox'
+              checked={isNoteSelected(selected, commitment)}
+              onChange={() => toggleNote(commitment)}
+              disabled={disabled || !isSpendable}
+            />
+            <span className='coin-control-value'>
+              {formatTokenAmount(commitment.value, decimals)} {symbol}
+            </span>
+            <span className='coin-control-location'>
+              {commitment.treeNumber}:{commitment.position}
+            </span>
+            <span className={`coin-control-status status-${poiStatus}`}>{poiStatus}</span>
+            {commitment.memoText && (
+              <span className='coin-control-memo'>{commitment.memoText}</span>
+            )}
+          </label>
+        ))}
+      </div>
+      <div className='coin-control-summary'>
+        <span>
+          {selected.length} selected: {formatTokenAmount(selectedTotal, decimals)} {symbol}
+        </span>
+        {requiredAmount !== undefined && selected.length > 0 && selectedTotal < requiredAmount && (
+          <span className='coin-control-warning'>
+            Need {formatTokenAmount(requiredAmount - selectedTotal, decimals)} {symbol} more
+          </span>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -84,11 +84,11 @@ export const GasWalletSelector: React.FC<GasWalletSelectorProps> = ({
 
   // Get other wallets that can be used for gas
   /**
-   * Get the list of saved wallets excluding the current active wallet.
+   * Get the list of saved wallets excluding the current active wallet and watch-only wallets.
    * @returns Array of saved wallets available for gas payment selection
    */
   const getOtherWallets = () => {
-    return savedWallets.filter((w) => w.id !== currentWallet?.id)
+    return savedWallets.filter((w) => w.id !== currentWallet?.id && !w.watchOnly)
   }
 
   // Check if a wallet is unlocked for gas
@@ -0,0 +1,214 @@
+import React, { useRef, useState } from 'react'
+
+import { GasWalletSelector } from '@/components/common/GasWalletSelector'
+import type { OfflineRequestFile, OfflineSignedFile } from '@/services/OfflineTransactionService'
+import { OfflineTransactionService } from '@/services/OfflineTransactionService'
+import { useWalletStore } from '@/stores/walletStore'
+import { getBlockExplorerUrl } from '@/types/network'
+import { downloadTextFile } from '@/utils/download'
+import { createProvider } from '@/utils/rpc'
+import './OfflineSigningPanel.css'
+
+interface OfflineSigningPanelProps {
+  onBroadcast?: () => void // called after a broadcast attempt, e.g. to reload the outbox
+}
+
+const KIND_LABELS: Record<OfflineSignedFile['kind'], string> = {
+  'private-send': 'Private send',
+  unshield: 'Unshield',
+  'unshield-native': 'Unshield to ETH',
+}
+
+/**
+ * Signs offline signing requests with the current wallet and broadcasts signed transaction files.
+ * Requests are exported from the transaction form of a networked machine, typically holding a
+ * watch-only copy of the wallet.
+ * @param root0 - The component props
+ * @param root0.onBroadcast - Called after each broadcast attempt
+ * @returns The rendered panel
+ */
+export const OfflineSigningPanel: React.FC<OfflineSigningPanelProps> = ({ onBroadcast }) => {
+  const { currentWallet, getGasPayerWallet, refreshBalances } = useWalletStore()
+  const [request, setRequest] = useState<OfflineRequestFile | null>(null)
+  const [signed, setSigned] = useState<OfflineSignedFile | null>(null)
+  const [busy, setBusy] = useState<'sign' | 'broadcast' | null>(null)
+  const [status, setStatus] = useState('')
+  const [error, setError] = useState('')
+  const [explorerUrl, setExplorerUrl] = useState<string | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
+
+  /**
+   * Reset the messages shown below the panel.
+   */
+  const clearMessages = () => {
+    setStatus('')
+    setError('')
+    setExplorerUrl(null)
+  }
+
+  /**
+   * Read a signing request from the selected file.
+   * @param file - The selected file, if any
+   */
+  const handleRequestFile = async (file: File | undefined) => {
+    clearMessages()
+    setRequest(null)
+    if (!file) return
+    try {
+      setRequest(OfflineTransactionService.getInstance().readRequest(await file.text()))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read the signing request')
+    }
+  }
+
+  /**
+   * Read a signed transaction from the selected file.
+   * @param file - The selected file, if any
+   */
+  const handleSignedFile = async (file: File | undefined) => {
+    clearMessages()
+    setSigned(null)
+    if (!file) return
+    try {
+      setSigned(OfflineTransactionService.getInstance().readSigned(await file.text()))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read the signed transaction')
+    }
+  }
+
+  /**
+   * Prove the loaded request with the current wallet and download the signed file.
+   */
+  const handleSign = async () => {
+    if (!currentWallet || !request) return
+    clearMessages()
+    setBusy('sign')
+    abortRef.current = new AbortController()
+    try {
+      const contents = await OfflineTransactionService.getInstance().signRequest(
+        currentWallet,
+        request,
+        setStatus,
+        abortRef.current.signal
+      )
+      downloadTextFile(
+        contents,
+        `railgun-offline-signed-${new Date().toISOString().slice(0, 19).replace(/:/g, '-')}.json`
+      )
+      setStatus('Signed transaction downloaded. Broadcast it from a networked machine.')
+      setRequest(null)
+    } catch (err) {
+      setStatus('')
+      if (abortRef.current.signal.aborted) {
+        setStatus('Proof generation cancelled')
+      } else {
+        setError(err instanceof Error ? err.message : 'Signing failed')
+      }
+    } finally {
+      abortRef.current = null
+      setBusy(null)
+    }
+  }
+
+  /**
+   * Broadcast the loaded signed transaction and wait for confirmation.
+   */
+  const handleBroadcast = async () => {
+    if (!currentWallet || !signed) return
+    clearMessages()
+    setBusy('broadcast')
+    try {
+      const result = await OfflineTransactionService.getInstance().broadcastSigned(
+        currentWallet,
+        signed,
+        createProvider(signed.networkName),
+        getGasPayerWallet() ?? undefined,
+        setStatus
+      )
+      setExplorerUrl(getBlockExplorerUrl(signed.networkName, result.txHash))
+      setStatus(`Confirmed.${result.ppoiData ? ' Submit its PPOI from the History page.' : ''}`)
+      setSigned(null)
+      await refreshBalances()
+    } catch (err) {
+      setStatus('')
+      setError(err instanceof Error ? err.message : 'Broadcast failed')
+    } finally {
+      setBusy(null)
+      onBroadcast?.()
+    }
+  }
+
+  return (
+    <details className='offline-signing'>
+      <summary>Offline signing</summary>
+      <p className='offline-signing-hint'>
+        Keep the spending key on an offline machine: export a signing request from the transaction
+        form, sign it here on the offline machine, then broadcast the signed file from a networked one.
+      </p>
+
+      <div className='offline-signing-step'>
+        <h4>Sign a request</h4>
+        <input
+          type='file'
+          accept='application/json,.json'
+          disabled={busy !== null}
+          onChange={(e) => handleRequestFile(e.target.files?.[0])}
+        />
+        {request && (
+          <div className='offline-signing-summary'>
+            {KIND_LABELS[request.transaction.kind]} on {request.networkName} ·{' '}
+            {request.notes.length} note(s) · exported{' '}
+            {new Date(request.createdAt).toLocaleString()}
+          </div>
+        )}
+        <div className='offline-signing-actions'>
+          <button
+            type='button'
+            onClick={handleSign}
+            disabled={!request || busy !== null || !currentWallet || currentWallet.watchOnly}
+          >
+            {busy === 'sign' ? 'Signing...' : 'Sign and download'}
+          </button>
+          {busy === 'sign' && (
+            <button type='button' onClick={() => abortRef.current?.abort()}>
+              Cancel
+            </button>
+          )}
+        </div>
+        {currentWallet?.watchOnly && (
+          <div className='offline-signing-hint'>Watch-only wallets cannot sign.</div>
+        )}
+      </div>
+
+      <div className='offline-signing-step'>
+        <h4>Broadcast a signed transaction</h4>
+        <input
+          type='file'
+          accept='application/json,.json'
+          disabled={busy !== null}
+          onChange={(e) => handleSignedFile(e.target.files?.[0])}
+        />
+        {signed && (
+          <div className='offline-signing-summary'>
+            {KIND_LABELS[signed.kind]} on {signed.networkName} · {signed.transactions.length}{' '}
+            transaction(s) · signed {new Date(signed.createdAt).toLocaleString()}
+          </div>
+        )}
+        <GasWalletSelector disabled={busy !== null} />
+        <div className='offline-signing-actions'>
+          <button type='button' onClick={handleBroadcast} disabled={!signed || busy !== null}>
+            {busy === 'broadcast' ? 'Broadcasting...' : 'Broadcast'}
+          </button>
+        </div>
+      </div>
+
+      {status && <div className='offline-signing-status'>{status}</div>}
+      {error && <div className='offline-signing-error'>{error}</div>}
+      {explorerUrl && (
+        <a href={explorerUrl} target='_blank' rel='noopener noreferrer'>
+          View transaction
+        </a>
+      )}
+    </details>
+  )
+}
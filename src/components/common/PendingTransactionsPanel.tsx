@@ -0,0 +1,243 @@
+import React, { useCallback, useEffect, useState } from 'react'
+
+import type { OutboxEntry, OutboxValidity } from '@/services/TransactionOutboxService'
+import { TransactionOutboxService } from '@/services/TransactionOutboxService'
+import { useWalletStore } from '@/stores/walletStore'
+import type { NetworkName } from '@/types/network'
+import { getBlockExplorerUrl } from '@/types/network'
+import { createProvider } from '@/utils/rpc'
+import './PendingTransactionsPanel.css'
+
+interface PendingTransactionsPanelProps {
+  refreshKey?: number // bump to reload the outbox, e.g. after a transaction attempt
+}
+
+const KIND_LABELS: Record<OutboxEntry['kind'], string> = {
+  'private-send': 'Private send',
+  unshield: 'Unshield',
+  'unshield-native': 'Unshield to ETH',
+}
+
+/**
+ * Shorten an address or hash for display.
+ * @param value - The full address or hash
+ * @returns The first 6 and last 4 characters
+ */
+const shorten = (value: string): string => `${value.slice(0, 6)}...${value.slice(-4)}`
+
+/**
+ * Lists proved transactions that were not confirmed on-chain and lets the user re-broadcast,
+ * re-price or discard them without generating the proof again.
+ * @param root0 - The component props
+ * @param root0.refreshKey - Changes whenever the outbox should be reloaded
+ * @returns The rendered panel, or null when there is nothing pending
+ */
+export const PendingTransactionsPanel: React.FC<PendingTransactionsPanelProps> = ({
+  refreshKey = 0,
+}) => {
+  const { currentWallet, currentNetwork, unlockedGasWallets, refreshBalances } = useWalletStore()
+  const [entries, setEntries] = useState<OutboxEntry[]>([])
+  const [validity, setValidity] = useState<Record<string, OutboxValidity>>({})
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [status, setStatus] = useState('')
+  const [error, setError] = useState('')
+
+  /**
+   * Reload the current wallet's outbox entries for the current network.
+   * @returns The reloaded entries
+   */
+  const loadEntries = useCallback((): OutboxEntry[] => {
+    if (!currentWallet) return []
+    const loaded = TransactionOutboxService.getInstance().getEntries(
+      currentWallet.id,
+      currentNetwork as NetworkName
+    )
+    setEntries(loaded)
+    return loaded
+  }, [currentWallet, currentNetwork])
+
+  // Reload the outbox, complete entries that were mined meanwhile, and check the rest are still valid
+  useEffect(() => {
+    const loaded = loadEntries()
+    if (loaded.length === 0) return
+
+    let cancelled = false
+    /**
+     * Check each entry against the chain.
+     */
+    const checkEntries = async () => {
+      const outbox = TransactionOutboxService.getInstance()
+      const provider = createProvider(currentNetwork as NetworkName)
+      const results: Record<string, OutboxValidity> = {}
+      let confirmed = false
+      for (const entry of loaded) {
+        try {
+          if (await outbox.checkConfirmation(entry, provider)) {
+            confirmed = true
+            continue
+          }
+          results[entry.id] = await outbox.checkValidity(entry, provider)
+        } catch {
+          // Leave unchecked; the checks run again before any broadcast
+        }
+      }
+      if (cancelled) return
+      setValidity(results)
+      if (confirmed) {
+        loadEntries()
+        await refreshBalances()
+      }
+    }
+    checkEntries().catch(() => {})
+
+    return () => {
+      cancelled = true
+    }
+  }, [loadEntries, refreshKey])
+
+  /**
+   * Find the unlocked wallet that must sign an entry.
+   * @param entry - The outbox entry
+   * @returns The signing wallet
+   */
+  const getSigner = (entry: OutboxEntry) => {
+    if (currentWallet && entry.signer.walletId === currentWallet.id) return currentWallet
+    const gasWallet = unlockedGasWallets.find((w) => w.id === entry.signer.walletId)
+    if (!gasWallet) {
+      throw new Error(
+        `Unlock the gas wallet ${shorten(entry.signer.address)} to broadcast this transaction.`
+      )
+    }
+    return gasWallet
+  }
+
+  /**
+   * Broadcast an entry again, or replace its pending broadcast with a higher gas price.
+   * @param entry - The outbox entry
+   * @param reprice - Whether to re-price the pending broadcast
+   */
+  const handleBroadcast = async (entry: OutboxEntry, reprice: boolean) => {
+    setBusyId(entry.id)
+    setError('')
+    setStatus('')
+    try {
+      const txHash = await TransactionOutboxService.getInstance().rebroadcast(
+        entry,
+        createProvider(entry.networkName),
+        getSigner(entry),
+        reprice,
+        setStatus
+      )
+      setStatus(
+        `Confirmed ${shorten(txHash)}.${entry.ppoiData ? ' Submit its PPOI from the History page.' : ''}`
+      )
+      await refreshBalances()
+    } catch (err) {
+      setStatus('')
+      setError(err instanceof Error ? err.message : 'Broadcast failed')
+    } finally {
+      setBusyId(null)
+      loadEntries()
+    }
+  }
+
+  /**
+   * Discard an entry after confirmation from the user.
+   * @param entry - The outbox entry
+   */
+  const handleDiscard = (entry: OutboxEntry) => {
+    if (
+      !window.confirm(
+        'Discard this proved transaction? If it was already broadcast it may still confirm.'
+      )
+    ) {
+      return
+    }
+    if (!currentWallet) return
+    TransactionOutboxService.getInstance().discard(currentWallet.id, entry.id)
+    loadEntries()
+  }
+
+  if (entries.length === 0) return null
+
+  return (
+    <div className='pending-txs'>
+      <div className='pending-txs-header'>
+        <h3>Pending transactions</h3>
+        <span className='pending-txs-hint'>Proved but not confirmed. No new proof is needed.</span>
+      </div>
+
+      {status && <div className='pending-txs-status'>{status}</div>}
+      {error && <div className='pending-txs-error'>{error}</div>}
+
+      <ul className='pending-txs-list'>
+        {entries.map((entry) => {
+          const check = validity[entry.id]
+          const explorerUrl = entry.txHash
+            ? getBlockExplorerUrl(entry.networkName, entry.txHash)
+            : null
+          return (
+            <li key={entry.id} className='pending-txs-row'>
+              <div className='pending-txs-info'>
+                <span className='pending-txs-kind'>{KIND_LABELS[entry.kind]}</span>
+                <span className='pending-txs-recipient'>
+                  to {shorten(entry.metadata.recipientAddress)}
+                </span>
+                <span className={`pending-txs-state state-${entry.status}`}>{entry.status}</span>
+                {entry.txHash &&
+                  (explorerUrl
+                    ? (
+                      <a href={explorerUrl} target='_blank' rel='noopener noreferrer'>
+                        {shorten(entry.txHash)}
+                      </a>
+                      )
+                    : (
+                      <span>{shorten(entry.txHash)}</span>
+                      ))}
+              </div>
+              <div className='pending-txs-details'>
+                Signer {shorten(entry.signer.address)} ·{' '}
+                {new Date(entry.createdAt).toLocaleString()}
+                {check && !check.valid && (
+                  <span className='pending-txs-invalid'> · {check.reason}</span>
+                )}
+                {entry.lastError && (
+                  <span className='pending-txs-last-error' title={entry.lastError}>
+                    {' '}
+                    · Last attempt: {entry.lastError.slice(0, 120)}
+                  </span>
+                )}
+              </div>
+              <div className='pending-txs-actions'>
+                <button
+                  type='button'
+                  onClick={() => handleBroadcast(entry, false)}
+                  disabled={busyId !== null || check?.valid === false}
+                >
+                  {busyId === entry.id ? 'Broadcasting...' : 'Re-broadcast'}
+                </button>
+                {entry.txHash && (
+                  <button
+                    type='button'
+                    onClick={() => handleBroadcast(entry, true)}
+                    disabled={busyId !== null || check?.valid === false}
+                  >
+                    Re-price gas
+                  </button>
+                )}
+                <button
+                  type='button'
+                  className='pending-txs-discard'
+                  onClick={() => handleDiscard(entry)}
+                  disabled={busyId !== null}
+                >
+                  Discard
+                </button>
+              </div>
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
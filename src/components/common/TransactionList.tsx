@@ -176,6 +176,7 @@ const TransactionRow: React.FC<TransactionRowProps> = ({
   const [expanded, setExpanded] = useState(false)
   const [showCommitments, setShowCommitments] = useState(false)
   const savedWallets = useWalletStore((s) => s.savedWallets)
+  const isWatchOnly = useWalletStore((s) => !!s.currentWallet?.watchOnly)
 
   /**
    * Attempts to find a user-friendly wallet name for the recipient address, if available in saved wallets.
@@ -355,12 +356,14 @@ const TransactionRow: React.FC<TransactionRowProps> = ({
               {transaction.transferredTokens.some((t) => t.direction === 'received') &&
                 (transaction.metadata?.senderAddress ||
                   transaction.metadata?.senderMasterPublicKey ||
+                  transaction.metadata?.senderHidden ||
                   !transaction.transferredTokens.some((t) => t.direction === 'sent')) && (
                     <div className='detail-row'>
                       <span>
                         {transaction.type === 'Shield' ? 'Shielded from:' : 'Sender:'}
                         {!transaction.metadata?.senderAddress &&
-                        !transaction.metadata?.senderMasterPublicKey && (
+                        !transaction.metadata?.senderMasterPublicKey &&
+                        !transaction.metadata?.senderHidden && (
                           <span
                             className='info-icon'
                             title="Sender information not available. For RAILGUN payments, the sender's identity can be derived from encrypted on-chain data using your private key. If this field is empty, it may indicate: (1) The transaction data hasn't been fully processed yet, or (2) There was an issue during decryption."
@@ -397,9 +400,18 @@ const TransactionRow: React.FC<TransactionRowProps> = ({
                               </button>
                             </div>
                             )
-                          : (
-                            <span style={{ color: '#888', fontStyle: 'italic' }}>Not Available</span>
-                            )}
+                          : transaction.metadata?.senderHidden
+                            ? (
+                              <span
+                                style={{ color: '#888', fontStyle: 'italic' }}
+                                title='The sender chose to hide their RAILGUN address for this transfer.'
+                              >
+                                Hidden sender
+                              </span>
+                              )
+                            : (
+                              <span style={{ color: '#888', fontStyle: 'italic' }}>Not Available</span>
+                              )}
                       </span>
                     </div>
               )}
@@ -433,6 +445,37 @@ const TransactionRow: React.FC<TransactionRowProps> = ({
               )}
             </div>
 
+            {transaction.recipients && transaction.recipients.length > 1 && (
+              <div className='detail-section'>
+                <h4>Recipients ({transaction.recipients.length})</h4>
+                {transaction.recipients.map((recipient, index) => (
+                  <div key={index} className='token-row'>
+                    <span className='hash-container'>
+                      <code className='hash-value' style={{ fontSize: '0.85em' }}>
+                        {getRecipientWalletName(recipient.recipientAddress) ||
+                          shortenAddress(recipient.recipientAddress)}
+                      </code>
+                      <button
+                        className='icon-btn'
+                        onClick={() => copyToClipboard(recipient.recipientAddress)}
+                        title='Copy recipient address'
+                      >
+                        📋
+                      </button>
+                      {recipient.memoText && (
+                        <span style={{ fontStyle: 'italic', color: '#888' }}>
+                          {recipient.memoText}
+                        </span>
+                      )}
+                    </span>
+                    <span className='token-amount'>
+                      -{formatTokenAmount(recipient.amount, recipient.decimals)} {recipient.symbol}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
             {transaction.transferredTokens.length > 0 && (
               <div className='detail-section'>
                 <h4>Tokens ({transaction.transferredTokens.length})</h4>
@@ -497,27 +540,37 @@ const TransactionRow: React.FC<TransactionRowProps> = ({
                               </span>
                             </div>
                             )
-                          : allCommitmentsChecked
+                          : isWatchOnly
                             ? (
-                              <button
-                                className='submit-poi-btn'
-                                onClick={(e) => {
-                                  e.stopPropagation()
-                                  onSubmitPOI(transaction)
-                                }}
-                                disabled={isSubmittingPOI}
-                              >
-                                {isSubmittingPOI ? '⏳ Submitting...' : '🛡️ Submit PPOI'}
-                              </button>
-                              )
-                            : (
                               <div className='ppoi-received-notice'>
                                 <span className='ppoi-notice-icon'>ℹ️</span>
                                 <span className='ppoi-notice-text'>
-                                  Check status first to confirm PPOI is missing before submitting.
+                                  This is a watch-only wallet. PPOI must be submitted from the
+                                  wallet that holds the spending key.
                                 </span>
                               </div>
-                              )}
+                              )
+                            : allCommitmentsChecked
+                              ? (
+                                <button
+                                  className='submit-poi-btn'
+                                  onClick={(e) => {
+                                    e.stopPropagation()
+                                    onSubmitPOI(transaction)
+                                  }}
+                                  disabled={isSubmittingPOI}
+                                >
+                                  {isSubmittingPOI ? '⏳ Submitting...' : '🛡️ Submit PPOI'}
+                                </button>
+                                )
+                              : (
+                                <div className='ppoi-received-notice'>
+                                  <span className='ppoi-notice-icon'>ℹ️</span>
+                                  <span className='ppoi-notice-text'>
+                                    Check status first to confirm PPOI is missing before submitting.
+                                  </span>
+                                </div>
+                                )}
                         <button
                           className='refresh-poi-btn'
                           onClick={() => {
@@ -916,7 +969,8 @@ export const TransactionList: React.FC<TransactionListProps> = ({ className }) =
           const generateResult = await transactionHistoryService.generatePOIProofForTransaction(
             transaction,
             network,
-            currentWallet
+            currentWallet,
+            (status) => showStatus(status, 'info', 0)
           )
 
           if (generateResult.success) {
@@ -992,7 +1046,8 @@ export const TransactionList: React.FC<TransactionListProps> = ({ className }) =
       const result = await transactionHistoryService.generatePOIProofForTransaction(
         transaction,
         network,
-        currentWallet
+        currentWallet,
+        (status) => showStatus(status, 'info', 0)
       )
 
       if (result.success) {
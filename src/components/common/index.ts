@@ -1,3 +1,6 @@
+export { CoinControlPanel } from './CoinControlPanel'
 export { ErrorBoundary } from './ErrorBoundary'
 export { GasWalletSelector } from './GasWalletSelector'
+export { OfflineSigningPanel } from './OfflineSigningPanel'
+export { PendingTransactionsPanel } from './PendingTransactionsPanel'
 export { TransactionList } from './TransactionList'
@@ -1,23 +1,35 @@
 import { ethers } from 'ethers'
 import React, { useEffect, useMemo, useRef, useState } from 'react'
 
+import { CoinControlPanel } from '@/components/common/CoinControlPanel'
 import { GasWalletSelector } from '@/components/common/GasWalletSelector'
+import { BalanceScannerRouter } from '@/services/BalanceScannerRouter'
+import type { FeeRange } from '@/services/FeeService'
+import { FeeService } from '@/services/FeeService'
+import type { OfflineTransactionParams } from '@/services/OfflineTransactionService'
+import { OfflineTransactionService } from '@/services/OfflineTransactionService'
 import { POIService } from '@/services/POIService'
+import type { SendRecipient } from '@/services/PrivateSendService'
 import { PrivateSendService } from '@/services/PrivateSendService'
 import { PublicTransferService } from '@/services/PublicTransferService'
 import { SubsquidBalanceScanner } from '@/services/SubsquidBalanceScanner'
 import { TokenService } from '@/services/TokenService'
 import { TransactionHistoryService } from '@/services/TransactionHistoryService'
+import type { TransactionSimulation } from '@/services/TransactionOutboxService'
+import type { UnshieldParams } from '@/services/UnshieldService'
 import { UnshieldService } from '@/services/UnshieldService'
+import { useSettingsStore } from '@/stores/settingsStore'
 import { useWalletStore } from '@/stores/walletStore'
-import type { NetworkName } from '@/types/network'
+import type { FeeSpeed, NetworkName } from '@/types/network'
 import {
   NETWORK_CONFIG,
   getBlockExplorerUrl,
   getEffectiveRpcUrl,
   isWrappedBaseToken,
 } from '@/types/network'
-import type { ShieldTransactionParams, TokenBalance } from '@/types/wallet'
+import type { ShieldTransactionParams, TokenBalance, UTXOReference } from '@/types/wallet'
+import { blindedCommitmentOf } from '@/utils/blinded-commitment'
+import { downloadTextFile } from '@/utils/download'
 import './TransactForm.css'
 
 interface TransactFormProps {
@@ -81,11 +93,21 @@ const PATH_ICONS: Record<TransactionPath, string> = {
   undetermined: '\u{2194}',
 }
 
-type GasSpeed = 'slow' | 'standard' | 'fast'
-const GAS_MULTIPLIERS: Record<GasSpeed, { label: string; multiplier: number }> = {
-  slow: { label: 'Slow', multiplier: 0.85 },
-  standard: { label: 'Standard', multiplier: 1.0 },
-  fast: { label: 'Fast', multiplier: 1.5 },
+const FEE_SPEED_LABELS: Record<FeeSpeed, string> = {
+  slow: 'Slow',
+  standard: 'Standard',
+  fast: 'Fast',
+}
+
+/**
+ * Format a network fee range in ETH, collapsing it when both ends round to the same value.
+ * @param range - The expected and highest fee, in wei
+ * @returns The formatted range
+ */
+function formatFeeRange (range: FeeRange): string {
+  const min = Number(ethers.formatEther(range.min)).toFixed(6)
+  const max = Number(ethers.formatEther(range.max)).toFixed(6)
+  return min === max ? `${max} ETH` : `${min} – ${max} ETH`
 }
 
 /**
@@ -118,6 +140,17 @@ interface AddressOption {
   isSelf: boolean
 }
 
+interface ExtraRecipientRow {
+  id: number
+  address: string
+  tokenAddress: string
+  amount: string
+  memoText: string
+}
+
+// One transaction holds 5 outputs; with a single token one is kept for change
+const MAX_PRIVATE_SEND_RECIPIENTS = 4
+
 /**
  * Main transaction form component supporting public transfers, shields, private sends, and unshields.
  * @param root0 - The component props
@@ -140,6 +173,7 @@ export const TransactForm: React.FC<TransactFormProps> = ({ onSuccess, onError }
     balanceMode,
     refreshBalances,
   } = useWalletStore()
+  const hideSenderAddressByDefault = useSettingsStore((s) => s.hideSenderAddressByDefault)
 
   // From address is always derived from the selected wallet + balance mode
   const fromAddress = useMemo(() => {
@@ -161,9 +195,23 @@ export const TransactForm: React.FC<TransactFormProps> = ({ onSuccess, onError }
   const [amount, setAmount] = useState<string>('')
   const [toAddress, setToAddress] = useState<string>('')
   const [memoText, setMemoText] = useState<string>('')
+  const [hideSenderAddress, setHideSenderAddress] = useState<boolean>(hideSenderAddressByDefault)
+  const [extraRecipients, setExtraRecipients] = useState<ExtraRecipientRow[]>([])
+  const nextRecipientRowIdRef = useRef(0)
+
+  // Manual coin control (private spends only)
+  const [coinControlEnabled, setCoinControlEnabled] = useState(false)
+  const [selectedUTXOs, setSelectedUTXOs] = useState<UTXOReference[]>([])
 
   // Transaction execution state
   const [busy, setBusy] = useState(false)
+  // Aborts proof generation of the running private send or unshield; cleared once it is submitted
+  const proofAbortRef = useRef<AbortController | null>(null)
+  const [canCancelProof, setCanCancelProof] = useState(false)
+  // Successful simulation of the proved transaction, awaiting the user's confirmation to broadcast
+  const [simulation, setSimulation] = useState<TransactionSimulation | null>(null)
+  const simulationResolveRef = useRef<((confirmed: boolean) => void) | null>(null)
+  const simulationDeclinedRef = useRef(false)
   const [status, setStatus] = useState<string>('')
   const [error, setError] = useState<string>('')
   const [suggestionDisplay, setSuggestionDisplay] = useState<string | null>(null)
@@ -178,7 +226,15 @@ export const TransactForm: React.FC<TransactFormProps> = ({ onSuccess, onError }
     setSelectedToken('')
     setAmount('')
     setMemoText('')
-  }, [currentWallet])
+    setHideSenderAddress(hideSenderAddressByDefault)
+    setExtraRecipients([])
+    setCoinControlEnabled(false)
+  }, [currentWallet, hideSenderAddressByDefault])
+
+  // Pinned notes only make sense for the token they were picked from
+  useEffect(() => {
+    setSelectedUTXOs([])
+  }, [selectedToken, currentWallet])
 
   // Close dropdown on click outside
   useEffect(() => {
@@ -236,6 +292,7 @@ export const TransactForm: React.FC<TransactFormProps> = ({ onSuccess, onError }
     null
   )
   const [poiError, setPoiError] = useState<string | null>(null)
+  const [poiProgress, setPoiProgress] = useState('')
   const [balancesRefreshed, setBalancesRefreshed] = useState(false)
   const [isRefreshingBalances, setIsRefreshingBalances] = useState(false)
 
@@ -252,10 +309,9 @@ export const TransactForm: React.FC<TransactFormProps> = ({ onSuccess, onError }
   const [canShield, setCanShield] = useState(true)
 
   // Gas & fee state
-  const [gasSpeed, setGasSpeed] = useState<GasSpeed>('standard')
+  const [gasSpeed, setGasSpeed] = useState<FeeSpeed>('standard')
   const [gasEstimate, setGasEstimate] = useState<{
-    totalCostWei: bigint
-    totalCostEth: string
+    feeRange: FeeRange | null
     isEstimating: boolean
     error: string | null
   } | null>(null)
@@ -328,8 +384,9 @@ export const TransactForm: React.FC<TransactFormProps> = ({ onSuccess, onError }
     // The store's balanceBucket can be stale if PPOI was submitted/confirmed after the last scan.
     const scanner = SubsquidBalanceScanner.getInstance()
     const poiService = POIService.getInstance()
+    const router = BalanceScannerRouter.getInstance()
     const commitments = currentWallet
-      ? scanner.getDecryptedCommitmentsForWallet(currentWallet.id)
+      ? router.getDecryptedCommitmentsForWallet(currentWallet.id, currentNetwork)
       : []
     const unspentCommitments = commitments.filter((c) => !c.isSpent && !c.isSentToOther)
 
@@ -339,7 +396,7 @@ export const TransactForm: React.FC<TransactFormProps> = ({ onSuccess, onError }
 
       for (const commitment of unspentCommitments) {
         const tokenKey = commitment.tokenAddress.toLowerCase()
-        const blindedCommitment = scanner.blindedCommitmentOf(commitment)
+        const blindedCommitment = blindedCommitmentOf(commitment)
         const commitmentType =
           commitment.commitmentType === 'ShieldCommitment' ? 'Shield' : 'Transact'
         const cachedStatus = poiService.getPOIStatusForCommitmentsFromCacheOnly(
@@ -574,15 +631,13 @@ export const TransactForm: React.FC<TransactFormProps> = ({ onSuccess, onError }
       setGasEstimate((prev) =>
         prev
           ? { ...prev, isEstimating: true, error: null }
-          : { totalCostWei: 0n, totalCostEth: '0', isEstimating: true, error: null }
+          : { feeRange: null, isEstimating: true, error: null }
       )
 
       try {
         const provider = getOrCreateProvider()
-        const feeData = await provider.getFeeData()
-        const baseGasPrice = feeData.maxFeePerGas || feeData.gasPrice || BigInt(20_000_000_000)
-        const multiplier = GAS_MULTIPLIERS[gasSpeed].multiplier
-        const adjustedGasPrice = (baseGasPrice * BigInt(Math.floor(multiplier * 100))) / 100n
+        const feeService = FeeService.getInstance()
+        const quote = await feeService.getFeeQuote(provider)
 
         let gasLimit: bigint
 
@@ -607,23 +662,20 @@ export const TransactForm: React.FC<TransactFormProps> = ({ onSuccess, onError }
             gasLimit = BigInt(250_000)
         }
 
-        const totalCostWei = gasLimit * adjustedGasPrice
-        const totalCostEth = ethers.formatEther(totalCostWei)
+        const feeRange = feeService.getFeeRange(
+          quote.tiers[gasSpeed],
+          gasLimit,
+          quote.baseFeePerGas
+        )
 
         // Discard stale results
         if (version !== gasEstimateVersionRef.current) return
 
-        setGasEstimate({
-          totalCostWei,
-          totalCostEth: parseFloat(totalCostEth).toFixed(6),
-          isEstimating: false,
-          error: null,
-        })
+        setGasEstimate({ feeRange, isEstimating: false, error: null })
       } catch (err) {
         if (version !== gasEstimateVersionRef.current) return
         setGasEstimate({
-          totalCostWei: 0n,
-          totalCostEth: '0',
+          feeRange: null,
           isEstimating: false,
           error: 'Failed to estimate gas',
         })
@@ -742,6 +794,7 @@ export const TransactForm: React.FC<TransactFormProps> = ({ onSuccess, onError }
       tokenAddress: selectedToken,
       amount: amountWei.toString(),
       recipientAddress: toAddress,
+      feeSpeed: gasSpeed,
     })
 
     setCompletedTxHash(result.txHash)
@@ -765,6 +818,7 @@ export const TransactForm: React.FC<TransactFormProps> = ({ onSuccess, onError }
       tokenAddress: selectedToken,
       amount: amountWei.toString(),
       recipientRailgunAddress: toAddress,
+      feeSpeed: gasSpeed,
     }
 
     const result = await executeShieldTransaction(params)
@@ -777,37 +831,168 @@ export const TransactForm: React.FC<TransactFormProps> = ({ onSuccess, onError }
   }
 
   /**
-   * Execute a private send transaction between two 0zk RAILGUN addresses.
+   * Add an empty additional-recipient row, defaulting to the currently selected token.
    */
-  const executePrivateSend = async () => {
-    if (!currentWallet) throw new Error('No wallet')
+  const addRecipientRow = () => {
+    const id = nextRecipientRowIdRef.current++
+    setExtraRecipients((rows) => [
+      ...rows,
+      { id, address: '', tokenAddress: selectedToken, amount: '', memoText: '' },
+    ])
+  }
+
+  /**
+   * Update one field of an additional-recipient row.
+   * @param id - The row identifier
+   * @param changes - The fields to overwrite on the row
+   */
+  const updateRecipientRow = (id: number, changes: Partial<Omit<ExtraRecipientRow, 'id'>>) => {
+    setExtraRecipients((rows) => rows.map((r) => (r.id === id ? { ...r, ...changes } : r)))
+  }
+
+  /**
+   * Remove an additional-recipient row.
+   * @param id - The row identifier
+   */
+  const removeRecipientRow = (id: number) => {
+    setExtraRecipients((rows) => rows.filter((r) => r.id !== id))
+  }
+
+  /**
+   * Start a cancellable proving run for a private send or unshield.
+   * @returns The abort signal to pass to the service
+   */
+  const beginProof = (): AbortSignal => {
+    proofAbortRef.current = new AbortController()
+    setCanCancelProof(true)
+    return proofAbortRef.current.signal
+  }
+
+  /**
+   * Show a service status update; once the transaction is being submitted it can no longer be cancelled.
+   * @param s - The status message
+   */
+  const onProofStatus = (s: string) => {
+    setStatus(s)
+    if (s.startsWith('Simulating') || s.startsWith('Submitting')) setCanCancelProof(false)
+  }
+
+  /**
+   * Show the simulation of a proved transaction and wait for the user to confirm or cancel it.
+   * @param result - The successful simulation with its gas estimate and fee
+   * @returns Whether the user confirmed the broadcast
+   */
+  const confirmSimulation = (result: TransactionSimulation): Promise<boolean> => {
+    return new Promise((resolve) => {
+      simulationResolveRef.current = resolve
+      setSimulation(result)
+    })
+  }
+
+  /**
+   * Answer the pending simulation confirmation.
+   * @param confirmed - Whether to broadcast the simulated transaction
+   */
+  const handleSimulationDecision = (confirmed: boolean) => {
+    simulationDeclinedRef.current = !confirmed
+    simulationResolveRef.current?.(confirmed)
+    simulationResolveRef.current = null
+    setSimulation(null)
+  }
+
+  /**
+   * Cancel the proof currently being generated.
+   */
+  const handleCancelProof = () => {
+    proofAbortRef.current?.abort()
+    setCanCancelProof(false)
+  }
+
+  /**
+   * Build the private send recipients from the form: the main recipient and any additional rows.
+   * @returns The recipients with amounts in smallest token units
+   */
+  const buildSendRecipients = async (): Promise<SendRecipient[]> => {
     if (!toAddress.startsWith('0zk') || !toAddress.includes('1')) {
       throw new Error('Invalid 0zk recipient address')
     }
 
+    const tokenService = TokenService.getInstance()
+    const recipients: SendRecipient[] = []
+    const rows = [
+      { address: toAddress, tokenAddress: selectedToken, amount, memoText },
+      ...extraRecipients,
+    ]
+    for (const row of rows) {
+      const tokenInfo = await tokenService.getTokenInfo(
+        row.tokenAddress,
+        currentNetwork as NetworkName
+      )
+      recipients.push({
+        recipientRailgunAddress: row.address.trim(),
+        tokenAddress: row.tokenAddress,
+        amount: ethers.parseUnits(row.amount, tokenInfo.decimals).toString(),
+        ...(row.memoText ? { memoText: row.memoText } : {}),
+      })
+    }
+    return recipients
+  }
+
+  /**
+   * Build the unshield parameters from the form.
+   * @returns The token, amount in smallest units, recipient and any pinned notes
+   */
+  const buildUnshieldParams = async (): Promise<UnshieldParams> => {
+    if (!ethers.isAddress(toAddress)) throw new Error('Invalid 0x recipient address')
+
     const tokenInfo = await TokenService.getInstance().getTokenInfo(
       selectedToken,
       currentNetwork as NetworkName
     )
-    const amountSmallest = ethers.parseUnits(amount, tokenInfo.decimals).toString()
+    const effectiveAmount = addFeeToAmount ? adjustedAmount : amount
+    return {
+      tokenAddress: selectedToken,
+      amount: ethers.parseUnits(effectiveAmount, tokenInfo.decimals).toString(),
+      recipient: toAddress,
+      ...(pinnedUTXOs ? { selectedUTXOs: pinnedUTXOs } : {}),
+    }
+  }
+
+  /**
+   * Execute a private send to one or more 0zk RAILGUN addresses in a single transaction.
+   */
+  const executePrivateSend = async () => {
+    if (!currentWallet) throw new Error('No wallet')
+    const recipients = await buildSendRecipients()
+
     const provider = getOrCreateProvider()
     const svc = PrivateSendService.getInstance()
     const gasPayerWallet = getGasPayerWallet()
 
     setIsWaitingForConfirmation(true)
     setStatus('Submitting transaction and waiting for confirmation...')
+    const signal = beginProof()
 
-    const result = await svc.executePrivateSend(
+    const result = await svc.executeBatchPrivateSend(
       currentWallet,
       currentNetwork as NetworkName,
-      { tokenAddress: selectedToken, amount: amountSmallest, recipientRailgunAddress: toAddress, ...(memoText ? { memoText } : {}) },
+      {
+        recipients,
+        showSenderAddressToRecipient: !hideSenderAddress,
+        ...(pinnedUTXOs ? { selectedUTXOs: pinnedUTXOs } : {}),
+      },
       provider,
-      (s: string) => setStatus(s),
+      onProofStatus,
       false,
-      gasPayerWallet?.mnemonic
+      gasPayerWallet ?? undefined,
+      signal,
+      confirmSimulation,
+      gasSpeed
     )
 
     setIsWaitingForConfirmation(false)
+    setExtraRecipients([])
+    setSelectedUTXOs([])
     const { txHash } = result
 
     if (txHash.length === 66 && txHash.startsWith('0x') && !txHash.startsWith('0x00000000')) {
@@ -824,30 +1009,20 @@ export const TransactForm: React.FC<TransactFormProps> = ({ onSuccess, onError }
    */
   const executeUnshield = async () => {
     if (!currentWallet) throw new Error('No wallet')
-    if (!ethers.isAddress(toAddress)) throw new Error('Invalid 0x recipient address')
-
-    const tokenInfo = await TokenService.getInstance().getTokenInfo(
-      selectedToken,
-      currentNetwork as NetworkName
-    )
-    const effectiveAmount = addFeeToAmount ? adjustedAmount : amount
-    const amountSmallest = ethers.parseUnits(effectiveAmount, tokenInfo.decimals).toString()
+    const unshieldParams = await buildUnshieldParams()
     const provider = getOrCreateProvider()
     const svc = UnshieldService.getInstance()
     const gasPayerWallet = getGasPayerWallet()
 
     // Pre-flight check: ensure gas payer has enough ETH for gas
-    const gasPayerMnemonic = gasPayerWallet?.mnemonic || currentWallet.mnemonic
-    if (!gasPayerMnemonic) throw new Error('No mnemonic available for gas payment')
-    const gasPayerSigner = ethers.Wallet.fromPhrase(gasPayerMnemonic)
-    const gasPayerAddress = gasPayerSigner.address
-    const [ethBalance, feeData] = await Promise.all([
+    const gasPayerAddress = gasPayerWallet?.ethereumAddress || currentWallet.ethereumAddress
+    if (!gasPayerAddress) throw new Error('No account available for gas payment')
+    const [ethBalance, quote] = await Promise.all([
       provider.getBalance(gasPayerAddress),
-      provider.getFeeData(),
+      FeeService.getInstance().getFeeQuote(provider),
     ])
-    const estimatedGasPrice = feeData.gasPrice
-      ? (feeData.gasPrice * 150n) / 100n
-      : ethers.parseUnits('50', 'gwei')
+    const fees = quote.tiers[gasSpeed]
+    const estimatedGasPrice = fees.type === 2 ? fees.maxFeePerGas : fees.gasPrice
     // Unshield to native needs extra gas for unwrap + transfer (~1.5M + 100k)
     const gasMultiplier = unshieldToNative ? 1_700_000n : 1_500_000n
     const estimatedGasCost = estimatedGasPrice * gasMultiplier
@@ -864,6 +1039,7 @@ export const TransactForm: React.FC<TransactFormProps> = ({ onSuccess, onError }
 
     setIsWaitingForConfirmation(true)
     setStatus('Submitting transaction and waiting for confirmation...')
+    const signal = beginProof()
 
     let txHash: string
     if (unshieldToNative) {
@@ -871,10 +1047,13 @@ export const TransactForm: React.FC<TransactFormProps> = ({ onSuccess, onError }
       const result = await svc.executeUnshieldToNative(
         currentWallet,
         currentNetwork as NetworkName,
-        { tokenAddress: selectedToken, amount: amountSmallest, recipient: toAddress },
+        unshieldParams,
         provider,
-        (s: string) => setStatus(s),
-        gasPayerWallet?.mnemonic
+        onProofStatus,
+        gasPayerWallet ?? undefined,
+        signal,
+        confirmSimulation,
+        gasSpeed
       )
       txHash = result.txHash
     } else {
@@ -882,10 +1061,13 @@ export const TransactForm: React.FC<TransactFormProps> = ({ onSuccess, onError }
       const result = await svc.executeUnshield(
         currentWallet,
         currentNetwork as NetworkName,
-        { tokenAddress: selectedToken, amount: amountSmallest, recipient: toAddress },
+        unshieldParams,
         provider,
-        (s: string) => setStatus(s),
-        gasPayerWallet?.mnemonic
+        onProofStatus,
+        gasPayerWallet ?? undefined,
+        signal,
+        confirmSimulation,
+        gasSpeed
       )
       txHash = result.txHash
     }
@@ -916,6 +1098,7 @@ export const TransactForm: React.FC<TransactFormProps> = ({ onSuccess, onError }
       setCompletedTxHash('')
       setPoiStatus(null)
       setBalancesRefreshed(false)
+      simulationDeclinedRef.current = false
 
       switch (transactionPath) {
         case 'public-transfer':
@@ -933,6 +1116,14 @@ export const TransactForm: React.FC<TransactFormProps> = ({ onSuccess, onError }
       }
     } catch (err: unknown) {
       setIsWaitingForConfirmation(false)
+      if (proofAbortRef.current?.signal.aborted) {
+        setStatus('Proof generation cancelled')
+        return
+      }
+      if (simulationDeclinedRef.current) {
+        setStatus('Transaction cancelled. Nothing was broadcast.')
+        return
+      }
       const rawMsg = err instanceof Error ? err.message : 'Transaction failed'
       const msg = formatTransactionError(rawMsg)
       setError(msg)
@@ -952,6 +1143,54 @@ export const TransactForm: React.FC<TransactFormProps> = ({ onSuccess, onError }
       } else {
         onError?.(msg)
       }
+    } finally {
+      proofAbortRef.current = null
+      setCanCancelProof(false)
+      setBusy(false)
+    }
+  }
+
+  /**
+   * Export the private send or unshield in the form as an offline signing request file.
+   */
+  const handleExportOfflineRequest = async () => {
+    if (!currentWallet) return
+    setBusy(true)
+    setError('')
+    setStatus('')
+    try {
+      const transaction: OfflineTransactionParams =
+        transactionPath === 'private-send'
+          ? {
+              kind: 'private-send',
+              params: {
+                recipients: await buildSendRecipients(),
+                showSenderAddressToRecipient: !hideSenderAddress,
+                ...(pinnedUTXOs ? { selectedUTXOs: pinnedUTXOs } : {}),
+              },
+            }
+          : {
+              kind: unshieldToNative ? 'unshield-native' : 'unshield',
+              params: await buildUnshieldParams(),
+            }
+
+      const contents = await OfflineTransactionService.getInstance().exportRequest(
+        currentWallet,
+        currentNetwork as NetworkName,
+        transaction,
+        getOrCreateProvider(),
+        setStatus
+      )
+      downloadTextFile(
+        contents,
+        `railgun-offline-request-${new Date().toISOString().slice(0, 19).replace(/:/g, '-')}.json`
+      )
+      setStatus(
+        'Signing request downloaded. Sign it with the offline wallet, then broadcast the signed file here.'
+      )
+    } catch (err: unknown) {
+      setStatus('')
+      setError(formatTransactionError(err instanceof Error ? err.message : 'Export failed'))
     } finally {
       setBusy(false)
     }
@@ -990,6 +1229,7 @@ export const TransactForm: React.FC<TransactFormProps> = ({ onSuccess, onError }
     if (!currentWallet || !currentNetwork || !completedTxHash) return
     setPoiStatus('submitting')
     setPoiError(null)
+    setPoiProgress('')
 
     try {
       const txHistoryService = TransactionHistoryService.getInstance()
@@ -1018,7 +1258,8 @@ export const TransactForm: React.FC<TransactFormProps> = ({ onSuccess, onError }
       const result = await txHistoryService.generatePOIProofForTransaction(
         transaction,
         currentNetwork as NetworkName,
-        currentWallet
+        currentWallet,
+        setPoiProgress
       )
 
       if (result.success) {
@@ -1031,6 +1272,8 @@ export const TransactForm: React.FC<TransactFormProps> = ({ onSuccess, onError }
     } catch (err: unknown) {
       setPoiStatus('error')
       setPoiError(err instanceof Error ? err.message : 'Failed to submit PPOI')
+    } finally {
+      setPoiProgress('')
     }
   }
 
@@ -1063,6 +1306,110 @@ export const TransactForm: React.FC<TransactFormProps> = ({ onSuccess, onError }
     }
   }, [fromType, selectedToken, amount, selectedTokenSpendable, selectedTokenBalance])
 
+  // Sum every private-send row per token so a batch can't exceed any token's spendable balance
+  const batchExceedsSpendable = useMemo(() => {
+    if (transactionPath !== 'private-send' || extraRecipients.length === 0) return false
+    const totals = new Map<string, bigint>()
+    const rows = [
+      { tokenAddress: selectedToken, amount },
+      ...extraRecipients.map((r) => ({ tokenAddress: r.tokenAddress, amount: r.amount })),
+    ]
+    for (const row of rows) {
+      const token = availableTokens.find(
+        (t) => t.tokenAddress.toLowerCase() === row.tokenAddress.toLowerCase()
+      )
+      if (!token || !row.amount) continue
+      try {
+        const amountWei = ethers.parseUnits(row.amount, token.decimals)
+        const key = token.tokenAddress.toLowerCase()
+        totals.set(key, (totals.get(key) ?? 0n) + amountWei)
+      } catch {
+        // Invalid amounts are caught by row validation
+      }
+    }
+    for (const [tokenKey, total] of totals) {
+      const token = availableTokens.find((t) => t.tokenAddress.toLowerCase() === tokenKey)
+      const spendable = (token as (TokenBalance & { spendableBalance: bigint }) | undefined)
+        ?.spendableBalance
+      if (spendable !== undefined && total > spendable) return true
+    }
+    return false
+  }, [transactionPath, extraRecipients, selectedToken, amount, availableTokens])
+
+  // Every additional recipient row needs a 0zk address, a token and a positive amount
+  const hasIncompleteRecipientRow =
+    transactionPath === 'private-send' &&
+    extraRecipients.some(
+      (r) =>
+        !r.address.startsWith('0zk') ||
+        !r.tokenAddress ||
+        !r.amount ||
+        !(parseFloat(r.amount) > 0)
+    )
+
+  const showCoinControl =
+    fromType === '0zk' &&
+    !!selectedToken &&
+    (transactionPath === 'private-send' || transactionPath === 'unshield')
+
+  // Total the pinned notes must cover: every row spending the selected token
+  const coinControlRequiredAmount = useMemo((): bigint | undefined => {
+    if (!showCoinControl || !selectedTokenBalance) return undefined
+    const primaryAmount = transactionPath === 'unshield' && addFeeToAmount ? adjustedAmount : amount
+    const rowAmounts = [
+      primaryAmount,
+      ...(transactionPath === 'private-send'
+        ? extraRecipients
+          .filter((r) => r.tokenAddress.toLowerCase() === selectedToken.toLowerCase())
+          .map((r) => r.amount)
+        : []),
+    ]
+    let total = 0n
+    for (const rowAmount of rowAmounts) {
+      if (!rowAmount) continue
+      try {
+        total += ethers.parseUnits(rowAmount, selectedTokenBalance.decimals)
+      } catch {
+        // Invalid amounts are caught by the regular amount checks
+      }
+    }
+    return total
+  }, [
+    showCoinControl,
+    selectedTokenBalance,
+    transactionPath,
+    addFeeToAmount,
+    adjustedAmount,
+    amount,
+    extraRecipients,
+    selectedToken,
+  ])
+
+  // With coin control on, a non-empty selection must cover the amount being spent
+  const coinControlSelectionTooSmall = useMemo(() => {
+    if (!showCoinControl || !coinControlEnabled || selectedUTXOs.length === 0) return false
+    if (!currentWallet || coinControlRequiredAmount === undefined) return false
+    const selectedTotal = BalanceScannerRouter.getInstance()
+      .getDecryptedCommitmentsForWallet(currentWallet.id, currentNetwork)
+      .filter((c) =>
+        selectedUTXOs.some((ref) => ref.treeNumber === c.treeNumber && ref.position === c.position)
+      )
+      .reduce((sum, c) => sum + c.value, 0n)
+    return selectedTotal < coinControlRequiredAmount
+  }, [
+    showCoinControl,
+    coinControlEnabled,
+    selectedUTXOs,
+    currentWallet,
+    currentNetwork,
+    coinControlRequiredAmount,
+  ])
+
+  // Pinned notes are only passed down when coin control is switched on
+  const pinnedUTXOs = showCoinControl && coinControlEnabled && selectedUTXOs.length > 0
+    ? selectedUTXOs
+    : undefined
+
   // Check if the selected token has zero spendable balance (all pending PPOI)
   const hasNoSpendable =
     fromType === '0zk' &&
@@ -1090,6 +1437,9 @@ export const TransactForm: React.FC<TransactFormProps> = ({ onSuccess, onError }
     ) {
       return 'Exceeds Spendable Balance'
     }
+    if (batchExceedsSpendable) return 'Exceeds Spendable Balance'
+    if (coinControlSelectionTooSmall) return 'Select More Notes'
+    if (hasIncompleteRecipientRow) return 'Complete All Recipients'
 
     if (transactionPath === 'shield') {
       if (isApproving) return 'Approving...'
@@ -1104,7 +1454,11 @@ export const TransactForm: React.FC<TransactFormProps> = ({ onSuccess, onError }
     }
 
     if (transactionPath === 'public-transfer') return 'Send'
-    if (transactionPath === 'private-send') return 'Send Privately'
+    if (transactionPath === 'private-send') {
+      return extraRecipients.length > 0
+        ? `Send Privately to ${extraRecipients.length + 1} Recipients`
+        : 'Send Privately'
+    }
     if (transactionPath === 'unshield') return 'Unshield'
     return 'Send'
   }
@@ -1124,7 +1478,10 @@ export const TransactForm: React.FC<TransactFormProps> = ({ onSuccess, onError }
     (transactionPath === 'shield' && needsApproval) ||
     (transactionPath === 'shield' && !canShield) ||
     ((transactionPath === 'private-send' || transactionPath === 'unshield') &&
-      (hasNoSpendable || exceedsSpendable))
+      (hasNoSpendable || exceedsSpendable)) ||
+    batchExceedsSpendable ||
+    hasIncompleteRecipientRow ||
+    coinControlSelectionTooSmall
 
   // --- Render ---
 
@@ -1324,6 +1681,100 @@ export const TransactForm: React.FC<TransactFormProps> = ({ onSuccess, onError }
             <div className='memo-byte-count'>
               {new TextEncoder().encode(memoText).length}/30 bytes
             </div>
+            <div className='fee-toggle-row'>
+              <label className='fee-toggle-label'>
+                <input
+                  type='checkbox'
+                  checked={hideSenderAddress}
+                  onChange={(e) => setHideSenderAddress(e.target.checked)}
+                  className='fee-toggle-checkbox'
+                  disabled={busy}
+                />
+                <span className='fee-toggle-text'>
+                  {hideSenderAddress
+                    ? 'Hide my address — recipient will see this transfer from a hidden sender'
+                    : 'Hide my address from the recipient'}
+                </span>
+              </label>
+            </div>
+          </div>
+        )}
+
+        {/* Additional recipients (private sends only, all proved into one transaction) */}
+        {transactionPath === 'private-send' && (
+          <div className='shield-panel extra-recipients-panel'>
+            <div className='shield-panel-label'>
+              Additional Recipients ({extraRecipients.length + 1}/{MAX_PRIVATE_SEND_RECIPIENTS})
+            </div>
+            {extraRecipients.map((row, index) => (
+              <div key={row.id} className='extra-recipient-row'>
+                <div className='extra-recipient-header'>
+                  <span className='extra-recipient-title'>Recipient {index + 2}</span>
+                  <button
+                    type='button'
+                    className='shield-max-btn'
+                    onClick={() => removeRecipientRow(row.id)}
+                    disabled={busy}
+                  >
+                    REMOVE
+                  </button>
+                </div>
+                <input
+                  className='shield-recipient-input'
+                  type='text'
+                  value={row.address}
+                  onChange={(e) => updateRecipientRow(row.id, { address: e.target.value })}
+                  placeholder='0zk...'
+                  disabled={busy}
+                />
+                <div className='shield-token-amount-row'>
+                  <select
+                    className='shield-token-select'
+                    value={row.tokenAddress}
+                    onChange={(e) => updateRecipientRow(row.id, { tokenAddress: e.target.value })}
+                    disabled={busy}
+                  >
+                    <option value=''>Select token</option>
+                    {availableTokens.map((balance) => (
+                      <option key={balance.tokenAddress} value={balance.tokenAddress}>
+                        {balance.symbol}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    className='shield-amount-input'
+                    type='number'
+                    step='any'
+                    min='0'
+                    value={row.amount}
+                    onChange={(e) => updateRecipientRow(row.id, { amount: e.target.value })}
+                    placeholder='0'
+                    disabled={busy}
+                  />
+                </div>
+                <input
+                  className='memo-input'
+                  type='text'
+                  value={row.memoText}
+                  onChange={(e) => {
+                    const bytes = new TextEncoder().encode(e.target.value)
+                    if (bytes.length <= 30) updateRecipientRow(row.id, { memoText: e.target.value })
+                  }}
+                  placeholder='Memo (optional)'
+                  disabled={busy}
+                />
+              </div>
+            ))}
+            {extraRecipients.length + 1 < MAX_PRIVATE_SEND_RECIPIENTS && (
+              <button
+                type='button'
+                className='shield-max-btn'
+                onClick={addRecipientRow}
+                disabled={busy}
+              >
+                + ADD RECIPIENT
+              </button>
+            )}
           </div>
         )}
 
@@ -1357,6 +1808,41 @@ export const TransactForm: React.FC<TransactFormProps> = ({ onSuccess, onError }
           </div>
         )}
 
+        {/* Coin control (private spends only) */}
+        {showCoinControl && selectedTokenBalance && (
+          <div className='shield-panel'>
+            <div className='fee-toggle-row'>
+              <label className='fee-toggle-label'>
+                <input
+                  type='checkbox'
+                  checked={coinControlEnabled}
+                  onChange={(e) => setCoinControlEnabled(e.target.checked)}
+                  className='fee-toggle-checkbox'
+                  disabled={busy}
+                />
+                <span className='fee-toggle-text'>
+                  {coinControlEnabled
+                    ? 'Coin control — only the notes selected below will be spent'
+                    : 'Choose which notes to spend (coin control)'}
+                </span>
+              </label>
+            </div>
+            {coinControlEnabled && (
+              <CoinControlPanel
+                tokenAddress={selectedToken}
+                symbol={selectedTokenBalance.symbol}
+                decimals={selectedTokenBalance.decimals}
+                {...(coinControlRequiredAmount !== undefined
+                  ? { requiredAmount: coinControlRequiredAmount }
+                  : {})}
+                selected={selectedUTXOs}
+                onChange={setSelectedUTXOs}
+                disabled={busy}
+              />
+            )}
+          </div>
+        )}
+
         {/* Gas Wallet Selector (private paths only) */}
         {showGasWallet && (
           <div className='shield-panel'>
@@ -1393,22 +1879,22 @@ export const TransactForm: React.FC<TransactFormProps> = ({ onSuccess, onError }
                     ? 'Estimating...'
                     : gasEstimate?.error
                       ? gasEstimate.error
-                      : gasEstimate
-                        ? `${gasEstimate.totalCostEth} ETH`
+                      : gasEstimate?.feeRange
+                        ? formatFeeRange(gasEstimate.feeRange)
                         : '—'}
                 </span>
               </div>
 
               {/* Gas Speed Selector */}
               <div className='gas-speed-selector'>
-                {(['slow', 'standard', 'fast'] as GasSpeed[]).map((speed) => (
+                {(['slow', 'standard', 'fast'] as FeeSpeed[]).map((speed) => (
                   <button
                     key={speed}
                     type='button'
                     className={`gas-speed-btn ${gasSpeed === speed ? 'active' : ''}`}
                     onClick={() => setGasSpeed(speed)}
                   >
-                    {GAS_MULTIPLIERS[speed].label}
+                    {FEE_SPEED_LABELS[speed]}
                   </button>
                 ))}
               </div>
@@ -1438,7 +1924,7 @@ export const TransactForm: React.FC<TransactFormProps> = ({ onSuccess, onError }
         {/* Status Strips */}
         {error && <div className='shield-status-strip status-error'>{error}</div>}
 
-        {isWaitingForConfirmation && !error && (
+        {isWaitingForConfirmation && !error && !simulation && (
           <div className='shield-status-strip status-info'>
             Waiting for transaction confirmation...
           </div>
@@ -1558,7 +2044,9 @@ export const TransactForm: React.FC<TransactFormProps> = ({ onSuccess, onError }
                           {poiStatus === 'submitting' ? 'Submitting PPOI...' : 'Step 2: Submit PPOI'}
                         </button>
                         <div className='private-tx-poi-hint'>
-                          Submit Private Proof of Innocence to make funds spendable.
+                          {poiStatus === 'submitting' && poiProgress
+                            ? poiProgress
+                            : 'Submit Private Proof of Innocence to make funds spendable.'}
                         </div>
                       </>
                       )}
@@ -1576,6 +2064,53 @@ export const TransactForm: React.FC<TransactFormProps> = ({ onSuccess, onError }
           </div>
         )}
 
+        {/* Simulation result, shown before the proved transaction is broadcast */}
+        {simulation && (
+          <div className='shield-panel fee-summary-panel'>
+            <div className='shield-panel-label'>Simulation succeeded</div>
+            <div className='fee-summary-row'>
+              <span className='fee-label'>Gas used</span>
+              <span className='fee-value'>{simulation.gasEstimate?.toString() ?? '—'}</span>
+            </div>
+            <div className='fee-summary-row'>
+              <span className='fee-label'>Gas limit</span>
+              <span className='fee-value'>{simulation.gasLimit?.toString() ?? '—'}</span>
+            </div>
+            {simulation.fees && (
+              <div className='fee-summary-row'>
+                <span className='fee-label'>
+                  {simulation.fees.type === 2 ? 'Max fee / priority fee' : 'Gas price'}
+                </span>
+                <span className='fee-value'>
+                  {simulation.fees.type === 2
+                    ? `${Number(ethers.formatUnits(simulation.fees.maxFeePerGas, 'gwei')).toFixed(2)} / ${Number(ethers.formatUnits(simulation.fees.maxPriorityFeePerGas, 'gwei')).toFixed(2)} gwei`
+                    : `${Number(ethers.formatUnits(simulation.fees.gasPrice, 'gwei')).toFixed(2)} gwei`}
+                </span>
+              </div>
+            )}
+            <div className='fee-summary-row'>
+              <span className='fee-label'>Network fee</span>
+              <span className='fee-value'>
+                {simulation.feeRange ? formatFeeRange(simulation.feeRange) : '—'}
+              </span>
+            </div>
+            <button
+              type='button'
+              className='shield-action-btn'
+              onClick={() => handleSimulationDecision(true)}
+            >
+              Confirm and broadcast
+            </button>
+            <button
+              type='button'
+              className='shield-cancel-btn'
+              onClick={() => handleSimulationDecision(false)}
+            >
+              Cancel
+            </button>
+          </div>
+        )}
+
         {/* Action Button */}
         {!completedTxHash &&
           (isApprovalAction
@@ -1598,6 +2133,22 @@ export const TransactForm: React.FC<TransactFormProps> = ({ onSuccess, onError }
                 {getActionButtonLabel()}
               </button>
               ))}
+        {!completedTxHash &&
+          (transactionPath === 'private-send' || transactionPath === 'unshield') && (
+            <button
+              type='button'
+              className='shield-cancel-btn'
+              onClick={handleExportOfflineRequest}
+              disabled={isSubmitDisabled}
+            >
+              Export for offline signing
+            </button>
+        )}
+        {canCancelProof && (
+          <button type='button' className='shield-cancel-btn' onClick={handleCancelProof}>
+            Cancel
+          </button>
+        )}
       </form>
     </div>
   )
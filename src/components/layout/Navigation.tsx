@@ -6,6 +6,7 @@ type TabType = 'balances' | 'history' | 'transact'
 interface NavigationProps {
   activeTab: TabType
   onTabChange: (tab: TabType) => void
+  showTransact?: boolean
 }
 
 /**
@@ -13,9 +14,10 @@ interface NavigationProps {
  * @param root0 - The component props
  * @param root0.activeTab - The currently selected tab
  * @param root0.onTabChange - Callback invoked when a tab is clicked
+ * @param root0.showTransact - Whether to show the Transact tab (hidden for watch-only wallets)
  * @returns The navigation component with tab buttons
  */
-const Navigation: React.FC<NavigationProps> = ({ activeTab, onTabChange }) => {
+const Navigation: React.FC<NavigationProps> = ({ activeTab, onTabChange, showTransact = true }) => {
   return (
     <nav className='navigation'>
       <button
@@ -30,12 +32,14 @@ const Navigation: React.FC<NavigationProps> = ({ activeTab, onTabChange }) => {
       >
         History
       </button>
-      <button
-        className={`nav-tab ${activeTab === 'transact' ? 'active' : ''}`}
-        onClick={() => onTabChange('transact')}
-      >
-        Transact
-      </button>
+      {showTransact && (
+        <button
+          className={`nav-tab ${activeTab === 'transact' ? 'active' : ''}`}
+          onClick={() => onTabChange('transact')}
+        >
+          Transact
+        </button>
+      )}
     </nav>
   )
 }
@@ -101,7 +101,11 @@ export const WalletSelector: React.FC<WalletSelectorProps> = ({ className, onMan
     return null
   }
 
-  const modeLabel = balanceMode === 'private' ? 'Private' : 'Public'
+  const modeLabel = currentWallet.watchOnly
+    ? 'Watch-only'
+    : balanceMode === 'private'
+      ? 'Private'
+      : 'Public'
 
   return (
     <div
@@ -166,40 +170,42 @@ export const WalletSelector: React.FC<WalletSelectorProps> = ({ className, onMan
                 </div>
               </div>
 
-              <div
-                className={`dropdown-item ${balanceMode === 'public' ? 'active' : ''}`}
-                onClick={() => handleWalletTypeSelect('public')}
-              >
-                <div className='wallet-option'>
-                  <div className='wallet-type-header'>
-                    <span className='wallet-type-label public'>Public</span>
-                    <span className='wallet-type-tech'>0x</span>
-                  </div>
-                  <div className='wallet-address-row'>
-                    <span className='wallet-address-full'>{formatDropdownAddress(currentWallet.ethereumAddress)}</span>
-                    <button
-                      className={`copy-button ${copiedAddress === currentWallet.ethereumAddress ? 'copied' : ''}`}
-                      onClick={(e) => handleCopyAddress(e, currentWallet.ethereumAddress)}
-                      title={
-                        copiedAddress === currentWallet.ethereumAddress ? 'Copied!' : 'Copy full address'
-                      }
-                    >
-                      {copiedAddress === currentWallet.ethereumAddress
-                        ? (
-                          <svg width='14' height='14' viewBox='0 0 24 24' fill='none' stroke='currentColor' strokeWidth='2.5' strokeLinecap='round' strokeLinejoin='round'>
-                            <polyline points='20 6 9 17 4 12' />
-                          </svg>
-                          )
-                        : (
-                          <svg width='14' height='14' viewBox='0 0 24 24' fill='none' stroke='currentColor' strokeWidth='2' strokeLinecap='round' strokeLinejoin='round'>
-                            <rect x='9' y='9' width='13' height='13' rx='2' ry='2' />
-                            <path d='M5 15H4a2 2 0 0 1-2-2V4a2 2 0 0 1 2-2h9a2 2 0 0 1 2 2v1' />
-                          </svg>
-                          )}
-                    </button>
+              {!currentWallet.watchOnly && (
+                <div
+                  className={`dropdown-item ${balanceMode === 'public' ? 'active' : ''}`}
+                  onClick={() => handleWalletTypeSelect('public')}
+                >
+                  <div className='wallet-option'>
+                    <div className='wallet-type-header'>
+                      <span className='wallet-type-label public'>Public</span>
+                      <span className='wallet-type-tech'>0x</span>
+                    </div>
+                    <div className='wallet-address-row'>
+                      <span className='wallet-address-full'>{formatDropdownAddress(currentWallet.ethereumAddress)}</span>
+                      <button
+                        className={`copy-button ${copiedAddress === currentWallet.ethereumAddress ? 'copied' : ''}`}
+                        onClick={(e) => handleCopyAddress(e, currentWallet.ethereumAddress)}
+                        title={
+                          copiedAddress === currentWallet.ethereumAddress ? 'Copied!' : 'Copy full address'
+                        }
+                      >
+                        {copiedAddress === currentWallet.ethereumAddress
+                          ? (
+                            <svg width='14' height='14' viewBox='0 0 24 24' fill='none' stroke='currentColor' strokeWidth='2.5' strokeLinecap='round' strokeLinejoin='round'>
+                              <polyline points='20 6 9 17 4 12' />
+                            </svg>
+                            )
+                          : (
+                            <svg width='14' height='14' viewBox='0 0 24 24' fill='none' stroke='currentColor' strokeWidth='2' strokeLinecap='round' strokeLinejoin='round'>
+                              <rect x='9' y='9' width='13' height='13' rx='2' ry='2' />
+                              <path d='M5 15H4a2 2 0 0 1-2-2V4a2 2 0 0 1 2-2h9a2 2 0 0 1 2 2v1' />
+                            </svg>
+                            )}
+                      </button>
+                    </div>
                   </div>
                 </div>
-              </div>
+              )}
 
               {onManageWallets && (
                 <>
@@ -7,11 +7,16 @@ import { SentTransactionStorage } from '@/services/SentTransactionStorage'
 import { SubsquidBalanceScanner } from '@/services/SubsquidBalanceScanner'
 import { TokenService } from '@/services/TokenService'
 import { TransactionMetadataService } from '@/services/TransactionMetadataService'
+import type { BackupRestoreMode, BackupRestoreReport } from '@/services/WalletBackupService'
 import { ALL_VARIANTS, COMMON_VARIANTS_WITH_POI, useArtifactStore } from '@/stores/artifactStore'
 import { useSettingsStore } from '@/stores/settingsStore'
 import { useWalletStore } from '@/stores/walletStore'
+import type { ScannerPolicy } from '@/types/network'
 import { NETWORK_CONFIG, NetworkName } from '@/types/network'
 import { dlog } from '@/utils/debug'
+import { downloadTextFile } from '@/utils/download'
+import { removeCacheItemsWithPrefix } from '@/utils/encryptedCache'
+import { validatePasswordStrength } from '@/utils/security'
 import './shared-modal.css'
 import './SettingsModal.css'
 
@@ -28,10 +33,28 @@ interface SettingsModalProps {
  * @returns The rendered settings modal component, or null when closed
  */
 export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose }) => {
-  const { debugEnabled, customRpcUrls, setDebugEnabled, setCustomRpcUrl, clearCustomRpcUrl } =
-    useSettingsStore()
+  const {
+    debugEnabled,
+    customRpcUrls,
+    hideSenderAddressByDefault,
+    verifyIndexerData,
+    scannerPolicies,
+    setDebugEnabled,
+    setCustomRpcUrl,
+    clearCustomRpcUrl,
+    setHideSenderAddressByDefault,
+    setVerifyIndexerData,
+    setScannerPolicy,
+  } = useSettingsStore()
 
-  const { resetWallet, changePassword, currentWallet, currentNetwork } = useWalletStore()
+  const {
+    resetWallet,
+    changePassword,
+    exportBackup,
+    restoreBackup,
+    currentWallet,
+    currentNetwork,
+  } = useWalletStore()
 
   const {
     downloadedVariants,
@@ -67,6 +90,19 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose })
 
   const canSubmitPw = currentPw.length > 0 && newPw.length >= 4 && newPw === confirmPw && !pwBusy
 
+  // Backup & restore state
+  const [showBackup, setShowBackup] = useState(false)
+  const [backupPw, setBackupPw] = useState('')
+  const [backupConfirmPw, setBackupConfirmPw] = useState('')
+  const [backupBusy, setBackupBusy] = useState(false)
+  const [backupFeedback, setBackupFeedback] = useState<{ ok: boolean; msg: string } | null>(null)
+  const [restoreFile, setRestoreFile] = useState<File | null>(null)
+  const [restorePw, setRestorePw] = useState('')
+  const [restoreMode, setRestoreMode] = useState<BackupRestoreMode>('merge')
+  const [restoreBusy, setRestoreBusy] = useState(false)
+  const [restoreError, setRestoreError] = useState<string | null>(null)
+  const [restoreReport, setRestoreReport] = useState<BackupRestoreReport | null>(null)
+
   // Cache management state
   const [clearingCache, setClearingCache] = useState(false)
   const [cacheFeedback, setCacheFeedback] = useState<{ ok: boolean; msg: string } | null>(null)
@@ -95,16 +131,9 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose })
     TokenService.getInstance().clearHiddenTokensCache()
     dlog('Cleared TokenService in-memory caches')
 
-    // Clear wallet-scoped localStorage entries
-    const keysToRemove: string[] = []
-    for (let i = 0; i < localStorage.length; i++) {
-      const key = localStorage.key(i)
-      if (key && key.startsWith(`wallet:${walletId}:`)) {
-        keysToRemove.push(key)
-      }
-    }
-    keysToRemove.forEach((key) => localStorage.removeItem(key))
-    dlog(`Cleared ${keysToRemove.length} wallet state entries from localStorage`)
+    // Clear wallet-scoped cached state
+    removeCacheItemsWithPrefix(`wallet:${walletId}:`)
+    dlog('Cleared wallet state entries from the encrypted cache')
 
     useWalletStore.setState({
       balances: [],
@@ -227,7 +256,9 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose })
     setCacheFeedback(null)
     try {
       setCacheFeedback({ ok: true, msg: 'Clearing TXID merkletree and resyncing from Subsquid...' })
-      await RailgunTxidScanner.syncFullTree(currentNetwork as NetworkName)
+      await RailgunTxidScanner.syncFullTree(currentNetwork as NetworkName, (status) =>
+        setCacheFeedback({ ok: true, msg: status })
+      )
       const stats = await RailgunTxidScanner.getStats(currentNetwork as NetworkName)
       setCacheFeedback({
         ok: true,
@@ -260,6 +291,49 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose })
     }
   }
 
+  /**
+   * Create an encrypted backup of all wallets and their local data and download it as a file.
+   */
+  const handleExportBackup = async () => {
+    setBackupFeedback(null)
+    const validation = validatePasswordStrength(backupPw)
+    if (!validation.isValid) {
+      setBackupFeedback({ ok: false, msg: validation.errors.join('. ') })
+      return
+    }
+    setBackupBusy(true)
+    try {
+      const contents = await exportBackup(backupPw)
+      downloadTextFile(contents, `railgun-wallet-backup-${new Date().toISOString().slice(0, 10)}.json`)
+      setBackupFeedback({ ok: true, msg: 'Backup downloaded. Keep the file and its password safe.' })
+      setBackupPw('')
+      setBackupConfirmPw('')
+    } catch (err: unknown) {
+      setBackupFeedback({ ok: false, msg: err instanceof Error ? err.message : 'Failed to create backup.' })
+    } finally {
+      setBackupBusy(false)
+    }
+  }
+
+  /**
+   * Restore wallets and local data from the selected backup file.
+   */
+  const handleRestoreBackup = async () => {
+    if (!restoreFile) return
+    setRestoreError(null)
+    setRestoreReport(null)
+    setRestoreBusy(true)
+    try {
+      const report = await restoreBackup(await restoreFile.text(), restorePw, restoreMode)
+      setRestoreReport(report)
+      setRestorePw('')
+    } catch (err: unknown) {
+      setRestoreError(err instanceof Error ? err.message : 'Failed to restore backup.')
+    } finally {
+      setRestoreBusy(false)
+    }
+  }
+
   // Close on Escape key
   const handleKeyDown = useCallback(
     (e: KeyboardEvent) => {
@@ -378,6 +452,80 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose })
             </label>
           </div>
 
+          {/* Hidden Sender Default */}
+          <div className='settings-section'>
+            <h3>Hide Sender Address</h3>
+            <p className='settings-description'>
+              Hide your 0zk address from recipients of private sends by default. Recipients will
+              see the transfer as coming from a hidden sender. You can still change this per send.
+            </p>
+            <label className='settings-toggle'>
+              <input
+                type='checkbox'
+                checked={hideSenderAddressByDefault}
+                onChange={(e) => setHideSenderAddressByDefault(e.target.checked)}
+              />
+              <span className='toggle-slider' />
+              <span className='toggle-label'>
+                {hideSenderAddressByDefault ? 'Enabled' : 'Disabled'}
+              </span>
+            </label>
+          </div>
+
+          {/* Indexer Verification */}
+          <div className='settings-section'>
+            <h3>Verify Indexer Data</h3>
+            <p className='settings-description'>
+              After each private balance scan, rebuild the commitment trees from the indexer and
+              compare their roots with the RAILGUN contract, and spot-check nullifiers on-chain.
+              Balances are marked unverified when anything disagrees. Uses extra RPC requests.
+            </p>
+            <label className='settings-toggle'>
+              <input
+                type='checkbox'
+                checked={verifyIndexerData}
+                onChange={(e) => setVerifyIndexerData(e.target.checked)}
+              />
+              <span className='toggle-slider' />
+              <span className='toggle-label'>{verifyIndexerData ? 'Enabled' : 'Disabled'}</span>
+            </label>
+          </div>
+
+          {/* Balance Scanning Source */}
+          <div className='settings-section'>
+            <h3>Balance Scanning</h3>
+            <p className='settings-description'>
+              Choose where private balances are scanned from. The indexer is fast; scanning the
+              RAILGUN contract over RPC needs no indexer but rereads the wallet's whole history on
+              every refresh. Auto failover uses the indexer and switches to RPC when it fails.
+            </p>
+
+            <div className='rpc-list'>
+              {networks.map((network) => {
+                const hasIndexer = !!NETWORK_CONFIG[network].subsquidUrl
+                return (
+                  <div key={network} className='rpc-item'>
+                    <div className='rpc-item-header'>
+                      <span className='rpc-network-name'>{NETWORK_CONFIG[network].publicName}</span>
+                    </div>
+                    <div className='rpc-item-body'>
+                      <select
+                        className='form-select'
+                        value={hasIndexer ? (scannerPolicies[network] ?? 'auto-failover') : 'rpc-only'}
+                        disabled={!hasIndexer}
+                        onChange={(e) => setScannerPolicy(network, e.target.value as ScannerPolicy)}
+                      >
+                        <option value='auto-failover'>Auto failover - indexer, then RPC</option>
+                        <option value='indexer-first'>Indexer - no RPC fallback</option>
+                        <option value='rpc-only'>RPC only{hasIndexer ? '' : ' (no indexer)'}</option>
+                      </select>
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+
           {/* Custom RPC URLs */}
           <div className='settings-section'>
             <h3>Custom RPC URLs</h3>
@@ -485,6 +633,116 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose })
             )}
           </div>
 
+          {/* Backup & Restore */}
+          <div className='settings-section'>
+            <button className='pw-toggle-header' onClick={() => setShowBackup((v) => !v)}>
+              <h3>Backup &amp; Restore</h3>
+              <span className={`pw-toggle-arrow ${showBackup ? 'open' : ''}`}>&#9662;</span>
+            </button>
+            <p className='settings-description'>
+              Save all wallets with their nicknames, custom and hidden tokens, transaction notes,
+              sent-output records, and RPC settings to one encrypted file.
+            </p>
+            {showBackup && (
+              <>
+                <div className='pw-form'>
+                  <input
+                    type='password'
+                    className='form-input pw-input'
+                    placeholder='Backup password'
+                    value={backupPw}
+                    autoComplete='new-password'
+                    onChange={(e) => {
+                      setBackupPw(e.target.value)
+                      setBackupFeedback(null)
+                    }}
+                  />
+                  <input
+                    type='password'
+                    className={`form-input pw-input ${backupPw && backupConfirmPw && backupPw !== backupConfirmPw ? 'input-error' : ''}`}
+                    placeholder='Confirm backup password'
+                    value={backupConfirmPw}
+                    autoComplete='new-password'
+                    onChange={(e) => {
+                      setBackupConfirmPw(e.target.value)
+                      setBackupFeedback(null)
+                    }}
+                  />
+                  {backupFeedback && (
+                    <div className={`pw-feedback ${backupFeedback.ok ? 'pw-success' : 'pw-error'}`}>
+                      {backupFeedback.msg}
+                    </div>
+                  )}
+                  <button
+                    className='pw-submit-btn'
+                    disabled={!backupPw || backupPw !== backupConfirmPw || backupBusy}
+                    onClick={handleExportBackup}
+                  >
+                    {backupBusy ? 'Encrypting...' : 'Download Backup'}
+                  </button>
+                </div>
+
+                <div className='pw-form backup-restore-form'>
+                  <input
+                    type='file'
+                    accept='application/json,.json'
+                    className='form-input pw-input'
+                    onChange={(e) => {
+                      setRestoreFile(e.target.files?.[0] ?? null)
+                      setRestoreError(null)
+                      setRestoreReport(null)
+                    }}
+                  />
+                  <input
+                    type='password'
+                    className='form-input pw-input'
+                    placeholder='Backup password'
+                    value={restorePw}
+                    autoComplete='off'
+                    onChange={(e) => {
+                      setRestorePw(e.target.value)
+                      setRestoreError(null)
+                    }}
+                  />
+                  <select
+                    className='form-input pw-input'
+                    value={restoreMode}
+                    onChange={(e) => setRestoreMode(e.target.value as BackupRestoreMode)}
+                  >
+                    <option value='merge'>Merge - keep my current data on conflicts</option>
+                    <option value='overwrite'>Overwrite - use the backup's data on conflicts</option>
+                  </select>
+                  {restoreError && <div className='pw-feedback pw-error'>{restoreError}</div>}
+                  {restoreReport && (
+                    <div className='pw-feedback pw-success backup-report'>
+                      Restored: {restoreReport.walletsAdded} new wallet(s),{' '}
+                      {restoreReport.walletsUpdated} updated, {restoreReport.customTokensRestored}{' '}
+                      custom token(s), {restoreReport.transactionMetadataRestored} transaction
+                      note(s), {restoreReport.sentOutputsAdded} sent output(s).
+                      {restoreReport.conflicts.length > 0 && (
+                        <ul className='backup-conflicts'>
+                          {restoreReport.conflicts.map((c) => (
+                            <li key={`${c.category}:${c.key}`}>
+                              {c.category}: {c.key} —{' '}
+                              {c.resolution === 'replaced' ? 'replaced from backup' : 'kept existing'}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  )}
+                  <button
+                    className='pw-submit-btn'
+                    disabled={!restoreFile || !restorePw || restoreBusy}
+                    onClick={handleRestoreBackup}
+                  >
+                    {restoreBusy ? 'Restoring...' : 'Restore Backup'}
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+
           {/* Cache Management */}
           <div className='settings-section'>
             <h3>Cache Management</h3>
@@ -1,10 +1,13 @@
 import React, { useState } from 'react'
 
 import { useWalletStore } from '@/stores/walletStore'
-import type { SavedWalletMetadata } from '@/types/wallet'
+import { NETWORK_CONFIG, NetworkName } from '@/types/network'
+import type { SavedWalletMetadata, WatchOnlyKeys } from '@/types/wallet'
 import { copyToClipboard } from '@/utils/clipboard'
 import { ByteUtils, deriveRailgunKeys } from '@/utils/crypto'
 import { decryptWithPassword } from '@/utils/passwordEncryption'
+import { validatePasswordStrength } from '@/utils/security'
+import { encryptViewingKeyBundle } from '@/utils/viewing-key-bundle'
 import './shared-modal.css'
 import './WalletDetailsModal.css'
 
@@ -27,7 +30,7 @@ export const WalletDetailsModal: React.FC<WalletDetailsModalProps> = ({
   onClose,
   wallet,
 }) => {
-  const { currentWallet } = useWalletStore()
+  const { currentWallet, currentNetwork } = useWalletStore()
   const [copiedField, setCopiedField] = useState<string | null>(null)
 
   // Seed phrase state
@@ -40,10 +43,22 @@ export const WalletDetailsModal: React.FC<WalletDetailsModalProps> = ({
   // Viewing key state
   const [viewingKeyRevealed, setViewingKeyRevealed] = useState(false)
   const [viewingKey, setViewingKey] = useState<string | null>(null)
+  const [nullifyingKey, setNullifyingKey] = useState<string | null>(null)
   const [viewingKeyPassword, setViewingKeyPassword] = useState('')
   const [viewingKeyError, setViewingKeyError] = useState('')
   const [viewingKeyLoading, setViewingKeyLoading] = useState(false)
 
+  // Viewing key bundle export state
+  const [bundleNetwork, setBundleNetwork] = useState<NetworkName>(currentNetwork)
+  const [bundleStartBlock, setBundleStartBlock] = useState(
+    String(NETWORK_CONFIG[currentNetwork]?.deploymentBlock ?? 0)
+  )
+  const [bundlePassword, setBundlePassword] = useState('')
+  const [bundleConfirmPassword, setBundleConfirmPassword] = useState('')
+  const [bundle, setBundle] = useState<string | null>(null)
+  const [bundleError, setBundleError] = useState('')
+  const [bundleLoading, setBundleLoading] = useState(false)
+
   if (!isOpen) return null
 
   const isActive = currentWallet?.id === wallet.id
@@ -103,6 +118,7 @@ export const WalletDetailsModal: React.FC<WalletDetailsModalProps> = ({
     // If this is the active wallet, viewing key is in memory
     if (isActive && currentWallet?.viewingKey) {
       setViewingKey(currentWallet.viewingKey)
+      setNullifyingKey(currentWallet.nullifyingKey)
       setViewingKeyRevealed(true)
       return
     }
@@ -111,7 +127,8 @@ export const WalletDetailsModal: React.FC<WalletDetailsModalProps> = ({
   }
 
   /**
-   * Decrypts the mnemonic, derives the viewing key, and reveals it.
+   * Decrypts the mnemonic (or the stored keys of a watch-only wallet), derives the viewing
+   * and nullifying keys, and reveals them.
    * @param e - The form submission event.
    */
   const handleConfirmViewingKeyPassword = async (e: React.FormEvent) => {
@@ -123,10 +140,22 @@ export const WalletDetailsModal: React.FC<WalletDetailsModalProps> = ({
     setViewingKeyLoading(true)
     setViewingKeyError('')
     try {
-      const mnemonic = await decryptWithPassword(wallet.encryptedMnemonic, viewingKeyPassword)
-      // Derive keys from mnemonic to get viewing key
-      const keys = await deriveRailgunKeys(mnemonic, 0)
-      setViewingKey(ByteUtils.hexlify(keys.viewingKey))
+      if (wallet.watchOnly) {
+        const keys = JSON.parse(
+          await decryptWithPassword(wallet.encryptedViewingKeys || '', viewingKeyPassword)
+        ) as WatchOnlyKeys
+        setViewingKey(keys.viewingKey)
+        setNullifyingKey(keys.nullifyingKey)
+      } else {
+        const mnemonic = await decryptWithPassword(wallet.encryptedMnemonic, viewingKeyPassword)
+        const passphrase = wallet.encryptedPassphrase
+          ? await decryptWithPassword(wallet.encryptedPassphrase, viewingKeyPassword)
+          : undefined
+        // Derive keys from mnemonic to get viewing key
+        const keys = await deriveRailgunKeys(mnemonic, wallet.derivationIndex ?? 0, passphrase)
+        setViewingKey(ByteUtils.hexlify(keys.viewingKey))
+        setNullifyingKey(keys.nullifyingKey.toString())
+      }
       setViewingKeyPassword('')
     } catch {
       setViewingKeyError('Incorrect password')
@@ -135,6 +164,47 @@ export const WalletDetailsModal: React.FC<WalletDetailsModalProps> = ({
     }
   }
 
+  /**
+   * Packages the revealed viewing and nullifying keys into a password-encrypted bundle.
+   * @param e - The form submission event.
+   */
+  const handleCreateBundle = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!viewingKey || !nullifyingKey) return
+
+    const passwordValidation = validatePasswordStrength(bundlePassword)
+    if (!passwordValidation.isValid) {
+      setBundleError(passwordValidation.errors.join('. '))
+      return
+    }
+    if (bundlePassword !== bundleConfirmPassword) {
+      setBundleError('Passwords do not match')
+      return
+    }
+
+    setBundleLoading(true)
+    setBundleError('')
+    try {
+      const result = await encryptViewingKeyBundle(
+        {
+          address: wallet.address,
+          viewingKey,
+          nullifyingKey,
+          network: bundleNetwork,
+          scanStartBlock: Number(bundleStartBlock),
+        },
+        bundlePassword
+      )
+      setBundle(result)
+      setBundlePassword('')
+      setBundleConfirmPassword('')
+    } catch (err) {
+      setBundleError(err instanceof Error ? err.message : 'Failed to create bundle')
+    } finally {
+      setBundleLoading(false)
+    }
+  }
+
   /**
    * Clears all revealed secrets and sensitive state, then closes the modal.
    */
@@ -145,6 +215,11 @@ export const WalletDetailsModal: React.FC<WalletDetailsModalProps> = ({
     setSeedError('')
     setViewingKeyRevealed(false)
     setViewingKey(null)
+    setNullifyingKey(null)
+    setBundle(null)
+    setBundlePassword('')
+    setBundleConfirmPassword('')
+    setBundleError('')
     setViewingKeyPassword('')
     setViewingKeyError('')
     setCopiedField(null)
@@ -165,6 +240,7 @@ export const WalletDetailsModal: React.FC<WalletDetailsModalProps> = ({
           <div className='wallet-details-name'>
             {wallet.nickname}
             {isActive && <span className='active-badge'>Active</span>}
+            {wallet.watchOnly && <span className='watch-only-badge'>Watch-only</span>}
           </div>
 
           {/* Private Address (0zk) */}
@@ -187,95 +263,105 @@ export const WalletDetailsModal: React.FC<WalletDetailsModalProps> = ({
             {copiedField === 'address' && <span className='copied-notice'>Copied!</span>}
           </div>
 
-          {/* Public Address (0x) */}
-          <div className='wallet-details-section'>
-            <div className='wallet-details-label'>
-              Public Address
-              <span className='wallet-details-badge badge-public'>0x</span>
-            </div>
-            <p className='wallet-details-description'>
-              Your Ethereum address for gas payments and receiving tokens before shielding.
-            </p>
-            <div
-              className={`wallet-details-value mono ${copiedField === 'ethAddress' ? 'copied' : ''}`}
-              onClick={() => handleCopy(wallet.ethereumAddress, 'ethAddress')}
-              title='Click to copy'
-            >
-              {wallet.ethereumAddress}
+          {/* Public Address (0x) - watch-only wallets have none */}
+          {wallet.ethereumAddress && (
+            <div className='wallet-details-section'>
+              <div className='wallet-details-label'>
+                Public Address
+                <span className='wallet-details-badge badge-public'>0x</span>
+              </div>
+              <p className='wallet-details-description'>
+                Your Ethereum address for gas payments and receiving tokens before shielding.
+              </p>
+              <div
+                className={`wallet-details-value mono ${copiedField === 'ethAddress' ? 'copied' : ''}`}
+                onClick={() => handleCopy(wallet.ethereumAddress, 'ethAddress')}
+                title='Click to copy'
+              >
+                {wallet.ethereumAddress}
+              </div>
+              {copiedField === 'ethAddress' && <span className='copied-notice'>Copied!</span>}
             </div>
-            {copiedField === 'ethAddress' && <span className='copied-notice'>Copied!</span>}
-          </div>
+          )}
 
-          {/* Seed Phrase */}
-          <div className='wallet-details-section section-sensitive'>
-            <div className='wallet-details-label'>
-              Seed Phrase
-              <span className='wallet-details-badge badge-danger'>Secret</span>
-            </div>
-            <p className='wallet-details-description'>
-              Your 12-word recovery phrase. Anyone with these words can access your funds.
-            </p>
-            {!seedRevealed
-              ? (
-                <button className='btn-reveal' onClick={handleRevealSeed}>
-                  Reveal Seed Phrase
-                </button>
-                )
-              : seedPhrase
+          {/* Seed Phrase - watch-only wallets have none */}
+          {!wallet.watchOnly && (
+            <div className='wallet-details-section section-sensitive'>
+              <div className='wallet-details-label'>
+                Seed Phrase
+                <span className='wallet-details-badge badge-danger'>Secret</span>
+              </div>
+              <p className='wallet-details-description'>
+                Your 12-word recovery phrase. Anyone with these words can access your funds.
+              </p>
+              {!seedRevealed
                 ? (
-                  <>
-                    <div className='seed-phrase-grid'>
-                      {seedPhrase.split(' ').map((word, i) => (
-                        <div className='seed-word' key={i}>
-                          <span className='seed-word-index'>{i + 1}</span>
-                          <span className='seed-word-text'>{word}</span>
-                        </div>
-                      ))}
-                    </div>
-                    <button
-                      className='btn-copy-seed'
-                      onClick={() => handleCopy(seedPhrase, 'mnemonic')}
-                    >
-                      {copiedField === 'mnemonic' ? 'Copied!' : 'Copy Seed Phrase'}
-                    </button>
-                  </>
+                  <button className='btn-reveal' onClick={handleRevealSeed}>
+                    Reveal Seed Phrase
+                  </button>
                   )
-                : (
-                  <form onSubmit={handleConfirmSeedPassword} className='password-prompt'>
-                    <input
-                      type='password'
-                      value={seedPassword}
-                      onChange={(e) => setSeedPassword(e.target.value)}
-                      placeholder='Enter wallet password...'
-                      className='form-input'
-                      autoFocus
-                      autoComplete='current-password'
-                      disabled={seedLoading}
-                    />
-                    {seedError && <div className='form-error'>{seedError}</div>}
-                    <div className='password-prompt-actions'>
+                : seedPhrase
+                  ? (
+                    <>
+                      <div className='seed-phrase-grid'>
+                        {seedPhrase.split(' ').map((word, i) => (
+                          <div className='seed-word' key={i}>
+                            <span className='seed-word-index'>{i + 1}</span>
+                            <span className='seed-word-text'>{word}</span>
+                          </div>
+                        ))}
+                      </div>
                       <button
-                        type='button'
-                        className='btn-secondary'
-                        onClick={() => {
-                          setSeedRevealed(false)
-                          setSeedPassword('')
-                          setSeedError('')
-                        }}
-                        disabled={seedLoading}
+                        className='btn-copy-seed'
+                        onClick={() => handleCopy(seedPhrase, 'mnemonic')}
                       >
-                        Cancel
+                        {copiedField === 'mnemonic' ? 'Copied!' : 'Copy Seed Phrase'}
                       </button>
-                      <button type='submit' className='btn-primary' disabled={seedLoading}>
-                        {seedLoading ? 'Decrypting...' : 'Unlock'}
-                      </button>
-                    </div>
-                  </form>
-                  )}
-            <div className='wallet-details-warning'>
-              <strong>Warning:</strong> Never share your seed phrase with anyone.
+                      {wallet.encryptedPassphrase && (
+                        <p className='wallet-details-description'>
+                          This wallet also uses a BIP39 passphrase. Restoring it needs both the
+                          seed phrase and the passphrase.
+                        </p>
+                      )}
+                    </>
+                    )
+                  : (
+                    <form onSubmit={handleConfirmSeedPassword} className='password-prompt'>
+                      <input
+                        type='password'
+                        value={seedPassword}
+                        onChange={(e) => setSeedPassword(e.target.value)}
+                        placeholder='Enter wallet password...'
+                        className='form-input'
+                        autoFocus
+                        autoComplete='current-password'
+                        disabled={seedLoading}
+                      />
+                      {seedError && <div className='form-error'>{seedError}</div>}
+                      <div className='password-prompt-actions'>
+                        <button
+                          type='button'
+                          className='btn-secondary'
+                          onClick={() => {
+                            setSeedRevealed(false)
+                            setSeedPassword('')
+                            setSeedError('')
+                          }}
+                          disabled={seedLoading}
+                        >
+                          Cancel
+                        </button>
+                        <button type='submit' className='btn-primary' disabled={seedLoading}>
+                          {seedLoading ? 'Decrypting...' : 'Unlock'}
+                        </button>
+                      </div>
+                    </form>
+                    )}
+              <div className='wallet-details-warning'>
+                <strong>Warning:</strong> Never share your seed phrase with anyone.
+              </div>
             </div>
-          </div>
+          )}
 
           {/* Viewing Key */}
           <div className='wallet-details-section section-sensitive'>
@@ -305,6 +391,105 @@ export const WalletDetailsModal: React.FC<WalletDetailsModalProps> = ({
                       {viewingKey}
                     </div>
                     {copiedField === 'viewingKey' && <span className='copied-notice'>Copied!</span>}
+                    {nullifyingKey && (
+                      <>
+                        <p className='wallet-details-description'>
+                          Nullifying key (needed with the viewing key to detect spent notes):
+                        </p>
+                        <div
+                          className={`wallet-details-value mono ${copiedField === 'nullifyingKey' ? 'copied' : ''}`}
+                          onClick={() => handleCopy(nullifyingKey, 'nullifyingKey')}
+                          title='Click to copy'
+                        >
+                          {nullifyingKey}
+                        </div>
+                        {copiedField === 'nullifyingKey' && (
+                          <span className='copied-notice'>Copied!</span>
+                        )}
+
+                        <div className='viewing-key-bundle'>
+                          <p className='wallet-details-description'>
+                            Share with an auditor as an encrypted bundle. They import it as a
+                            watch-only wallet using the password you give them separately.
+                          </p>
+                          {bundle
+                            ? (
+                              <>
+                                <div
+                                  className={`wallet-details-value mono ${copiedField === 'bundle' ? 'copied' : ''}`}
+                                  onClick={() => handleCopy(bundle, 'bundle')}
+                                  title='Click to copy'
+                                >
+                                  {bundle}
+                                </div>
+                                {copiedField === 'bundle' && (
+                                  <span className='copied-notice'>Copied!</span>
+                                )}
+                              </>
+                              )
+                            : (
+                              <form onSubmit={handleCreateBundle} className='password-prompt'>
+                                <select
+                                  value={bundleNetwork}
+                                  onChange={(e) => {
+                                    const network = e.target.value as NetworkName
+                                    setBundleNetwork(network)
+                                    setBundleStartBlock(
+                                      String(NETWORK_CONFIG[network]?.deploymentBlock ?? 0)
+                                    )
+                                  }}
+                                  className='form-input'
+                                  disabled={bundleLoading}
+                                >
+                                  {Object.values(NetworkName).map((network) => (
+                                    <option key={network} value={network}>
+                                      {NETWORK_CONFIG[network].publicName}
+                                    </option>
+                                  ))}
+                                </select>
+                                <input
+                                  type='number'
+                                  min={0}
+                                  value={bundleStartBlock}
+                                  onChange={(e) => setBundleStartBlock(e.target.value)}
+                                  placeholder='Scan start block'
+                                  className='form-input'
+                                  title='First block the auditor needs to scan'
+                                  disabled={bundleLoading}
+                                />
+                                <input
+                                  type='password'
+                                  value={bundlePassword}
+                                  onChange={(e) => setBundlePassword(e.target.value)}
+                                  placeholder='Bundle password...'
+                                  className='form-input'
+                                  autoComplete='new-password'
+                                  disabled={bundleLoading}
+                                />
+                                <input
+                                  type='password'
+                                  value={bundleConfirmPassword}
+                                  onChange={(e) => setBundleConfirmPassword(e.target.value)}
+                                  placeholder='Confirm bundle password...'
+                                  className='form-input'
+                                  autoComplete='new-password'
+                                  disabled={bundleLoading}
+                                />
+                                {bundleError && <div className='form-error'>{bundleError}</div>}
+                                <div className='password-prompt-actions'>
+                                  <button
+                                    type='submit'
+                                    className='btn-primary'
+                                    disabled={bundleLoading}
+                                  >
+                                    {bundleLoading ? 'Encrypting...' : 'Create Bundle'}
+                                  </button>
+                                </div>
+                              </form>
+                              )}
+                        </div>
+                      </>
+                    )}
                   </>
                   )
                 : (
@@ -12,6 +12,8 @@ interface WalletListModalProps {
   onClose: () => void
   onCreateNew: () => void
   onImportNew: () => void
+  onWatchNew: () => void
+  onAddAccount: () => void
 }
 
 /**
@@ -21,6 +23,8 @@ interface WalletListModalProps {
  * @param root0.onClose - Callback to close the modal.
  * @param root0.onCreateNew - Callback to open the create-wallet flow.
  * @param root0.onImportNew - Callback to open the import-wallet flow.
+ * @param root0.onWatchNew - Callback to open the watch-only wallet flow.
+ * @param root0.onAddAccount - Callback to open the add-account flow.
  * @returns The wallet list modal UI, or null when not open.
  */
 export const WalletListModal: React.FC<WalletListModalProps> = ({
@@ -28,6 +32,8 @@ export const WalletListModal: React.FC<WalletListModalProps> = ({
   onClose,
   onCreateNew,
   onImportNew,
+  onWatchNew,
+  onAddAccount,
 }) => {
   const { savedWallets, currentWallet, switchWallet, deleteWallet, updateWalletNickname } =
     useWalletStore()
@@ -230,6 +236,14 @@ export const WalletListModal: React.FC<WalletListModalProps> = ({
                                         <div className='wallet-nickname'>
                                           {wallet.nickname}
                                           {isActive && <span className='active-badge'>Active</span>}
+                                          {wallet.watchOnly && (
+                                            <span className='watch-only-badge'>Watch-only</span>
+                                          )}
+                                          {!!wallet.derivationIndex && (
+                                            <span className='watch-only-badge'>
+                                              Account #{wallet.derivationIndex}
+                                            </span>
+                                          )}
                                         </div>
                                         <div className='wallet-addresses'>
                                           <div className='address-line'>
@@ -238,10 +252,12 @@ export const WalletListModal: React.FC<WalletListModalProps> = ({
                                               {formatAddress(wallet.address)}
                                             </span>
                                           </div>
-                                          <div className='address-line'>
-                                            <span className='address-label'>Public:</span>
-                                            <span className='address-value'>{wallet.ethereumAddress}</span>
-                                          </div>
+                                          {wallet.ethereumAddress && (
+                                            <div className='address-line'>
+                                              <span className='address-label'>Public:</span>
+                                              <span className='address-value'>{wallet.ethereumAddress}</span>
+                                            </div>
+                                          )}
                                         </div>
                                       </div>
                                       <div className='wallet-actions'>
@@ -292,6 +308,14 @@ export const WalletListModal: React.FC<WalletListModalProps> = ({
                   <button className='btn-secondary btn-full' onClick={onImportNew}>
                     Import Existing Wallet
                   </button>
+                  {savedWallets.some((w) => !w.watchOnly) && (
+                    <button className='btn-secondary btn-full' onClick={onAddAccount}>
+                      Add Account From Existing Seed
+                    </button>
+                  )}
+                  <button className='btn-secondary btn-full' onClick={onWatchNew}>
+                    Add Watch-Only Wallet
+                  </button>
                 </div>
               </>
               )}
@@ -1,5 +1,7 @@
 import React, { useState } from 'react'
 
+import type { DiscoveredAccount } from '@/services/AccountDiscoveryService'
+import { useWalletStore } from '@/stores/walletStore'
 import { validatePasswordStrength } from '@/utils/security'
 import './shared-modal.css'
 import './WalletManagementModal.css'
@@ -7,19 +9,39 @@ import './WalletManagementModal.css'
 interface WalletManagementModalProps {
   isOpen: boolean
   onClose: () => void
-  onCreateWallet: (nickname: string, password: string) => Promise<void | unknown>
-  onImportWallet: (mnemonic: string, nickname: string, password: string) => Promise<void>
-  mode: 'create' | 'import'
+  onCreateWallet: (nickname: string, password: string, passphrase: string) => Promise<void | unknown>
+  onImportWallet: (
+    mnemonic: string,
+    nickname: string,
+    password: string,
+    passphrase: string,
+  ) => Promise<void>
+  onImportWatchOnly: (
+    keys: { address: string; viewingKey: string; nullifyingKey: string },
+    nickname: string,
+    password: string,
+  ) => Promise<void>
+  onImportViewingKeyBundle: (
+    bundle: string,
+    bundlePassword: string,
+    nickname: string,
+    password: string,
+  ) => Promise<void>
+  onAddAccount: (sourceWalletId: string, derivationIndex: number, nickname: string) => Promise<void>
+  mode: 'create' | 'import' | 'watch-only' | 'account'
 }
 
 /**
- * Modal for creating or importing a RAILGUN wallet with password protection.
+ * Modal for creating, importing, or watching a RAILGUN wallet, or deriving another account from a saved seed.
  * @param root0 - The component props
  * @param root0.isOpen - Whether the modal is currently visible
  * @param root0.onClose - Callback to close the modal
- * @param root0.onCreateWallet - Callback to create a new wallet with the given nickname and password
- * @param root0.onImportWallet - Callback to import a wallet from a mnemonic phrase
- * @param root0.mode - Whether the modal is in create or import mode
+ * @param root0.onCreateWallet - Callback to create a new wallet with the given nickname, password, and optional passphrase
+ * @param root0.onImportWallet - Callback to import a wallet from a mnemonic phrase and optional passphrase
+ * @param root0.onImportWatchOnly - Callback to add a watch-only wallet from viewing keys
+ * @param root0.onImportViewingKeyBundle - Callback to add a watch-only wallet from an encrypted bundle
+ * @param root0.onAddAccount - Callback to derive and save another account from a saved wallet's seed
+ * @param root0.mode - Whether the modal is in create, import, watch-only, or account mode
  * @returns The wallet management modal component or null when closed
  */
 export const WalletManagementModal: React.FC<WalletManagementModalProps> = ({
@@ -27,10 +49,27 @@ export const WalletManagementModal: React.FC<WalletManagementModalProps> = ({
   onClose,
   onCreateWallet,
   onImportWallet,
+  onImportWatchOnly,
+  onImportViewingKeyBundle,
+  onAddAccount,
   mode,
 }) => {
+  const { savedWallets, discoverAccounts } = useWalletStore()
+  const seedWallets = savedWallets.filter((w) => !w.watchOnly)
   const [nickname, setNickname] = useState('')
   const [mnemonic, setMnemonic] = useState('')
+  const [passphrase, setPassphrase] = useState('')
+  const [confirmPassphrase, setConfirmPassphrase] = useState('')
+  const [watchAddress, setWatchAddress] = useState('')
+  const [viewingKey, setViewingKey] = useState('')
+  const [nullifyingKey, setNullifyingKey] = useState('')
+  const [watchSource, setWatchSource] = useState<'bundle' | 'keys'>('bundle')
+  const [bundle, setBundle] = useState('')
+  const [bundlePassword, setBundlePassword] = useState('')
+  const [sourceWalletId, setSourceWalletId] = useState('')
+  const [accountIndex, setAccountIndex] = useState('1')
+  const [discoveredAccounts, setDiscoveredAccounts] = useState<DiscoveredAccount[] | null>(null)
+  const [discoveryProgress, setDiscoveryProgress] = useState<number | null>(null)
   const [password, setPassword] = useState('')
   const [confirmPassword, setConfirmPassword] = useState('')
   const [error, setError] = useState('')
@@ -39,6 +78,55 @@ export const WalletManagementModal: React.FC<WalletManagementModalProps> = ({
     null
   )
 
+  const selectedSourceId = sourceWalletId || seedWallets[0]?.id || ''
+
+  /**
+   * Searches the selected seed for account indices with on-chain history.
+   */
+  const handleDiscoverAccounts = async () => {
+    if (!selectedSourceId) return
+    setError('')
+    setDiscoveredAccounts(null)
+    setDiscoveryProgress(0)
+    try {
+      const found = await discoverAccounts(selectedSourceId, undefined, setDiscoveryProgress)
+      setDiscoveredAccounts(found)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Account discovery failed')
+    } finally {
+      setDiscoveryProgress(null)
+    }
+  }
+
+  /**
+   * Derives and saves the account at the given index from the selected seed.
+   * @param derivationIndex - The account index to add
+   */
+  const addAccountAtIndex = async (derivationIndex: number) => {
+    setError('')
+    if (!selectedSourceId) {
+      setError('Please choose a wallet with a seed phrase')
+      return
+    }
+    if (!Number.isInteger(derivationIndex) || derivationIndex < 0) {
+      setError('Account index must be a non-negative whole number')
+      return
+    }
+
+    setIsLoading(true)
+    try {
+      await onAddAccount(selectedSourceId, derivationIndex, nickname.trim())
+      setDiscoveredAccounts((prev) =>
+        prev ? prev.filter((a) => a.derivationIndex !== derivationIndex) : prev
+      )
+      setNickname('')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add account')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
   /**
    * Validates form inputs and triggers wallet creation or import.
    * @param e - The form submission event
@@ -47,6 +135,11 @@ export const WalletManagementModal: React.FC<WalletManagementModalProps> = ({
     e.preventDefault()
     setError('')
 
+    if (mode === 'account') {
+      await addAccountAtIndex(Number(accountIndex))
+      return
+    }
+
     if (!nickname.trim()) {
       setError('Please enter a nickname for your wallet')
       return
@@ -69,22 +162,56 @@ export const WalletManagementModal: React.FC<WalletManagementModalProps> = ({
       return
     }
 
+    if (mode === 'create' && passphrase !== confirmPassphrase) {
+      setError('Passphrases do not match')
+      return
+    }
+
     setIsLoading(true)
     try {
       if (mode === 'create') {
-        await onCreateWallet(nickname.trim(), password)
+        await onCreateWallet(nickname.trim(), password, passphrase)
+      } else if (mode === 'watch-only' && watchSource === 'bundle') {
+        if (!bundle.trim() || !bundlePassword) {
+          setError('Please paste the bundle and enter its password')
+          setIsLoading(false)
+          return
+        }
+        await onImportViewingKeyBundle(bundle.trim(), bundlePassword, nickname.trim(), password)
+      } else if (mode === 'watch-only') {
+        if (!watchAddress.trim() || !viewingKey.trim() || !nullifyingKey.trim()) {
+          setError('Please enter the address, viewing key, and nullifying key')
+          setIsLoading(false)
+          return
+        }
+        await onImportWatchOnly(
+          {
+            address: watchAddress.trim(),
+            viewingKey: viewingKey.trim(),
+            nullifyingKey: nullifyingKey.trim(),
+          },
+          nickname.trim(),
+          password
+        )
       } else {
         if (!mnemonic.trim()) {
           setError('Please enter your seed phrase')
           setIsLoading(false)
           return
         }
-        await onImportWallet(mnemonic.trim(), nickname.trim(), password)
+        await onImportWallet(mnemonic.trim(), nickname.trim(), password, passphrase)
       }
 
       // Reset form and close
       setNickname('')
       setMnemonic('')
+      setPassphrase('')
+      setConfirmPassphrase('')
+      setWatchAddress('')
+      setViewingKey('')
+      setNullifyingKey('')
+      setBundle('')
+      setBundlePassword('')
       setPassword('')
       setConfirmPassword('')
       setError('')
@@ -102,6 +229,16 @@ export const WalletManagementModal: React.FC<WalletManagementModalProps> = ({
   const handleClose = () => {
     setNickname('')
     setMnemonic('')
+    setPassphrase('')
+    setConfirmPassphrase('')
+    setWatchAddress('')
+    setViewingKey('')
+    setNullifyingKey('')
+    setBundle('')
+    setBundlePassword('')
+    setSourceWalletId('')
+    setAccountIndex('1')
+    setDiscoveredAccounts(null)
     setPassword('')
     setConfirmPassword('')
     setError('')
@@ -115,15 +252,65 @@ export const WalletManagementModal: React.FC<WalletManagementModalProps> = ({
     <div className='modal-overlay' onClick={handleClose}>
       <div className='modal-content' onClick={(e) => e.stopPropagation()}>
         <div className='modal-header'>
-          <h2>{mode === 'create' ? 'Create New Wallet' : 'Import Wallet'}</h2>
+          <h2>
+            {mode === 'create'
+              ? 'Create New Wallet'
+              : mode === 'watch-only'
+                ? 'Add Watch-Only Wallet'
+                : mode === 'account'
+                  ? 'Add Account'
+                  : 'Import Wallet'}
+          </h2>
           <button className='modal-close' onClick={handleClose}>
             ×
           </button>
         </div>
 
         <form onSubmit={handleSubmit} className='modal-form'>
+          {mode === 'account' && (
+            <>
+              <div className='form-group'>
+                <label htmlFor='sourceWallet'>Seed Phrase From</label>
+                <select
+                  id='sourceWallet'
+                  value={selectedSourceId}
+                  onChange={(e) => {
+                    setSourceWalletId(e.target.value)
+                    setDiscoveredAccounts(null)
+                  }}
+                  className='form-input'
+                  disabled={isLoading || discoveryProgress !== null}
+                >
+                  {seedWallets.length === 0 && <option value=''>No wallets with a seed phrase</option>}
+                  {seedWallets.map((w) => (
+                    <option key={w.id} value={w.id}>
+                      {w.nickname}
+                      {w.derivationIndex ? ` (account #${w.derivationIndex})` : ''}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className='form-group'>
+                <label htmlFor='accountIndex'>Account Index</label>
+                <input
+                  id='accountIndex'
+                  type='number'
+                  min={0}
+                  step={1}
+                  value={accountIndex}
+                  onChange={(e) => setAccountIndex(e.target.value)}
+                  className='form-input'
+                  disabled={isLoading}
+                />
+                <small className='form-hint'>
+                  Each index is a separate account with its own 0zk and 0x address
+                </small>
+              </div>
+            </>
+          )}
+
           <div className='form-group'>
-            <label htmlFor='nickname'>Wallet Nickname</label>
+            <label htmlFor='nickname'>{mode === 'account' ? 'Account Nickname' : 'Wallet Nickname'}</label>
             <input
               id='nickname'
               type='text'
@@ -135,10 +322,61 @@ export const WalletManagementModal: React.FC<WalletManagementModalProps> = ({
               disabled={isLoading}
             />
             <small className='form-hint'>
-              Give your wallet a memorable name for easy identification
+              {mode === 'account'
+                ? 'Optional - defaults to the wallet name and account number'
+                : 'Give your wallet a memorable name for easy identification'}
             </small>
           </div>
 
+          {mode === 'account' && (
+            <div className='form-group account-discovery'>
+              <button
+                type='button'
+                className='btn-secondary'
+                onClick={handleDiscoverAccounts}
+                disabled={!selectedSourceId || isLoading || discoveryProgress !== null}
+              >
+                {discoveryProgress !== null
+                  ? `Checking account #${discoveryProgress}...`
+                  : 'Discover Used Accounts'}
+              </button>
+              {discoveredAccounts && discoveredAccounts.length === 0 && (
+                <small className='form-hint'>No accounts with activity found on this network</small>
+              )}
+              {discoveredAccounts && discoveredAccounts.length > 0 && (
+                <div className='discovered-accounts'>
+                  {discoveredAccounts.map((account) => {
+                    const saved = savedWallets.some((w) => w.address === account.address)
+                    return (
+                      <div key={account.derivationIndex} className='discovered-account'>
+                        <span className='discovered-account-index'>#{account.derivationIndex}</span>
+                        <span className='discovered-account-address'>
+                          {account.address.slice(0, 12)}...{account.address.slice(-8)}
+                        </span>
+                        <span className='discovered-account-activity'>
+                          {[
+                            account.hasPrivateActivity && 'private',
+                            account.hasPublicActivity && 'public',
+                          ]
+                            .filter(Boolean)
+                            .join(' + ')}
+                        </span>
+                        <button
+                          type='button'
+                          className='btn-switch'
+                          onClick={() => addAccountAtIndex(account.derivationIndex)}
+                          disabled={saved || isLoading}
+                        >
+                          {saved ? 'Added' : 'Add'}
+                        </button>
+                      </div>
+                    )
+                  })}
+                </div>
+              )}
+            </div>
+          )}
+
           {mode === 'import' && (
             <div className='form-group'>
               <label htmlFor='mnemonic'>Seed Phrase</label>
@@ -155,50 +393,186 @@ export const WalletManagementModal: React.FC<WalletManagementModalProps> = ({
             </div>
           )}
 
-          <div className='form-group'>
-            <label htmlFor='password'>Wallet Password</label>
-            <input
-              id='password'
-              type='password'
-              value={password}
-              onChange={(e) => {
-                setPassword(e.target.value)
-                if (e.target.value) {
-                  const validation = validatePasswordStrength(e.target.value)
-                  setPasswordStrength(validation.strength)
-                } else {
-                  setPasswordStrength(null)
-                }
-              }}
-              placeholder='Enter a strong password...'
-              className='form-input'
-              disabled={isLoading}
-              autoComplete='new-password'
-            />
-            <small className='form-hint'>
-              Must include uppercase, lowercase, and a number.
-              {passwordStrength && (
-                <span className={`password-strength password-strength-${passwordStrength}`}>
-                  {' '}
-                  Strength: {passwordStrength}
-                </span>
-              )}
-            </small>
-          </div>
+          {(mode === 'create' || mode === 'import') && (
+            <div className='form-group'>
+              <label htmlFor='passphrase'>BIP39 Passphrase (optional)</label>
+              <input
+                id='passphrase'
+                type='password'
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                placeholder='Leave empty if not used'
+                className='form-input'
+                disabled={isLoading}
+                autoComplete='off'
+              />
+              <small className='form-hint'>
+                {mode === 'create'
+                  ? 'Also called the 25th word. You will need both the seed phrase and this passphrase to restore the wallet.'
+                  : 'Only enter this if the wallet was created with a passphrase - a different passphrase opens a different wallet'}
+              </small>
+            </div>
+          )}
 
-          <div className='form-group'>
-            <label htmlFor='confirmPassword'>Confirm Password</label>
-            <input
-              id='confirmPassword'
-              type='password'
-              value={confirmPassword}
-              onChange={(e) => setConfirmPassword(e.target.value)}
-              placeholder='Re-enter your password...'
-              className='form-input'
-              disabled={isLoading}
-              autoComplete='new-password'
-            />
-          </div>
+          {mode === 'create' && passphrase && (
+            <div className='form-group'>
+              <label htmlFor='confirmPassphrase'>Confirm Passphrase</label>
+              <input
+                id='confirmPassphrase'
+                type='password'
+                value={confirmPassphrase}
+                onChange={(e) => setConfirmPassphrase(e.target.value)}
+                placeholder='Re-enter your passphrase...'
+                className='form-input'
+                disabled={isLoading}
+                autoComplete='off'
+              />
+            </div>
+          )}
+
+          {mode === 'watch-only' && (
+            <div className='form-group'>
+              <label htmlFor='watchSource'>Import From</label>
+              <select
+                id='watchSource'
+                value={watchSource}
+                onChange={(e) => setWatchSource(e.target.value as 'bundle' | 'keys')}
+                className='form-input'
+                disabled={isLoading}
+              >
+                <option value='bundle'>Encrypted viewing key bundle</option>
+                <option value='keys'>Address and raw keys</option>
+              </select>
+            </div>
+          )}
+
+          {mode === 'watch-only' && watchSource === 'bundle' && (
+            <>
+              <div className='form-group'>
+                <label htmlFor='bundle'>Viewing Key Bundle</label>
+                <textarea
+                  id='bundle'
+                  value={bundle}
+                  onChange={(e) => setBundle(e.target.value)}
+                  placeholder='rgvk1:...'
+                  rows={4}
+                  className='form-textarea'
+                  disabled={isLoading}
+                />
+              </div>
+              <div className='form-group'>
+                <label htmlFor='bundlePassword'>Bundle Password</label>
+                <input
+                  id='bundlePassword'
+                  type='password'
+                  value={bundlePassword}
+                  onChange={(e) => setBundlePassword(e.target.value)}
+                  placeholder='Password shared with the bundle'
+                  className='form-input'
+                  disabled={isLoading}
+                  autoComplete='off'
+                />
+                <small className='form-hint'>
+                  The bundle also sets the network and where scanning starts
+                </small>
+              </div>
+            </>
+          )}
+
+          {mode === 'watch-only' && watchSource === 'keys' && (
+            <>
+              <div className='form-group'>
+                <label htmlFor='watchAddress'>RAILGUN Address</label>
+                <input
+                  id='watchAddress'
+                  type='text'
+                  value={watchAddress}
+                  onChange={(e) => setWatchAddress(e.target.value)}
+                  placeholder='0zk...'
+                  className='form-input'
+                  disabled={isLoading}
+                />
+              </div>
+              <div className='form-group'>
+                <label htmlFor='viewingKey'>Private Viewing Key</label>
+                <input
+                  id='viewingKey'
+                  type='password'
+                  value={viewingKey}
+                  onChange={(e) => setViewingKey(e.target.value)}
+                  placeholder='64 hex characters'
+                  className='form-input'
+                  disabled={isLoading}
+                  autoComplete='off'
+                />
+              </div>
+              <div className='form-group'>
+                <label htmlFor='nullifyingKey'>Nullifying Key</label>
+                <input
+                  id='nullifyingKey'
+                  type='password'
+                  value={nullifyingKey}
+                  onChange={(e) => setNullifyingKey(e.target.value)}
+                  placeholder='Decimal or 0x hex'
+                  className='form-input'
+                  disabled={isLoading}
+                  autoComplete='off'
+                />
+                <small className='form-hint'>
+                  Lets this wallet detect which notes have been spent
+                </small>
+              </div>
+            </>
+          )}
+
+          {mode !== 'account' && (
+            <>
+              <div className='form-group'>
+                <label htmlFor='password'>Wallet Password</label>
+                <input
+                  id='password'
+                  type='password'
+                  value={password}
+                  onChange={(e) => {
+                    setPassword(e.target.value)
+                    if (e.target.value) {
+                      const validation = validatePasswordStrength(e.target.value)
+                      setPasswordStrength(validation.strength)
+                    } else {
+                      setPasswordStrength(null)
+                    }
+                  }}
+                  placeholder='Enter a strong password...'
+                  className='form-input'
+                  disabled={isLoading}
+                  autoComplete='new-password'
+                />
+                <small className='form-hint'>
+                  Must include uppercase, lowercase, and a number.
+                  {passwordStrength && (
+                    <span className={`password-strength password-strength-${passwordStrength}`}>
+                      {' '}
+                      Strength: {passwordStrength}
+                    </span>
+                  )}
+                </small>
+              </div>
+
+              <div className='form-group'>
+                <label htmlFor='confirmPassword'>Confirm Password</label>
+                <input
+                  id='confirmPassword'
+                  type='password'
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  placeholder='Re-enter your password...'
+                  className='form-input'
+                  disabled={isLoading}
+                  autoComplete='new-password'
+                />
+              </div>
+            </>
+          )}
 
           {error && <div className='form-error'>{error}</div>}
 
@@ -215,10 +589,16 @@ export const WalletManagementModal: React.FC<WalletManagementModalProps> = ({
               {isLoading
                 ? mode === 'create'
                   ? 'Creating...'
-                  : 'Importing...'
+                  : mode === 'account'
+                    ? 'Adding...'
+                    : 'Importing...'
                 : mode === 'create'
                   ? 'Create Wallet'
-                  : 'Import Wallet'}
+                  : mode === 'watch-only'
+                    ? 'Add Watch-Only Wallet'
+                    : mode === 'account'
+                      ? 'Add Account'
+                      : 'Import Wallet'}
             </button>
           </div>
 
@@ -229,6 +609,20 @@ export const WalletManagementModal: React.FC<WalletManagementModalProps> = ({
               wallet.
             </div>
           )}
+
+          {mode === 'watch-only' && (
+            <div className='wallet-info-box'>
+              <strong>Watch-only:</strong> This wallet can see balances and history but cannot
+              send, unshield, or submit PPOI proofs.
+            </div>
+          )}
+
+          {mode === 'account' && (
+            <div className='wallet-info-box'>
+              <strong>Same seed phrase:</strong> Accounts are unlocked with your current password
+              and are restored by importing the original seed and adding the same index.
+            </div>
+          )}
         </form>
       </div>
     </div>
@@ -1,15 +1,22 @@
+import { ethers } from 'ethers'
 import React, { useCallback, useEffect, useState } from 'react'
 
 import { AddTokenModal } from '@/components/modals/AddTokenModal'
+import { BalanceScannerRouter } from '@/services/BalanceScannerRouter'
+import type { ConsolidationPlan } from '@/services/NoteConsolidationService'
+import { NoteConsolidationService } from '@/services/NoteConsolidationService'
 import { SubsquidBalanceScanner } from '@/services/SubsquidBalanceScanner'
 import { TokenService } from '@/services/TokenService'
 import { TransactionHistoryService } from '@/services/TransactionHistoryService'
+import { useSettingsStore } from '@/stores/settingsStore'
 import { useWalletStore } from '@/stores/walletStore'
 import type { NetworkName } from '@/types/network'
 import { BalanceBucket } from '@/types/network'
 import type { DecryptedCommitment } from '@/types/wallet'
 import './BalancesPage.css'
+import { blindedCommitmentOf } from '@/utils/blinded-commitment'
 import { dlog, dwarn } from '@/utils/debug'
+import { createProvider } from '@/utils/rpc'
 
 // Commitment with its PPOI status for display
 interface CommitmentWithStatus {
@@ -44,6 +51,7 @@ interface TokenBalanceGroup {
  * @param root0.checkingPPOIHash - Hash of the commitment currently being checked for PPOI status, or null
  * @param root0.isCheckingPOI - Whether a PPOI status check is currently in progress
  * @param root0.spentExplanation - Optional explanation text for why a spent commitment still needs PPOI
+ * @param root0.watchOnly - Whether the wallet is watch-only and cannot submit proofs
  * @param root0.onSubmitProof - Callback to submit a PPOI proof for a commitment
  * @param root0.onCheckSubmittedPPOI - Callback to check PPOI status after proof submission
  * @param root0.onCheckPPOI - Callback to check the PPOI status of a commitment
@@ -60,6 +68,7 @@ const CommitmentItem: React.FC<{
   checkingPPOIHash: string | null
   isCheckingPOI: boolean
   spentExplanation?: string
+  watchOnly?: boolean
   onSubmitProof: (c: CommitmentWithStatus) => void
   onCheckSubmittedPPOI: (c: CommitmentWithStatus) => void
   onCheckPPOI: (c: CommitmentWithStatus) => void
@@ -74,6 +83,7 @@ const CommitmentItem: React.FC<{
   checkingPPOIHash,
   isCheckingPOI,
   spentExplanation,
+  watchOnly = false,
   onSubmitProof,
   onCheckSubmittedPPOI,
   onCheckPPOI,
@@ -84,7 +94,8 @@ const CommitmentItem: React.FC<{
   const bucketInfo = getBucketLabel(bucket)
   const isSubmitting = submittingProof === commitment.hash
   const hasSubmittedProof = proofSubmittedHashes.has(commitment.hash)
-  const canSubmitProof = bucket === BalanceBucket.MissingInternalPOI && !hasSubmittedProof
+  const canSubmitProof =
+    bucket === BalanceBucket.MissingInternalPOI && !hasSubmittedProof && !watchOnly
   const canCheckPPOI = bucket === BalanceBucket.ShieldPending || bucket === BalanceBucket.Unknown
   const isCheckingThis = checkingPPOIHash === commitment.hash
 
@@ -197,6 +208,8 @@ export const BalancesPage: React.FC = () => {
     refreshBalances,
     balanceMode,
     isSyncing,
+    scanProgress,
+    cancelScan,
     currentWallet,
     currentNetwork,
     loadWalletScopedState,
@@ -208,7 +221,11 @@ export const BalancesPage: React.FC = () => {
     checkAllCommitmentPOI,
     checkSingleCommitmentPOI,
     clearCommitmentPOIStatus,
+    getGasPayerWallet,
+    indexerVerification,
+    isVerifyingIndexer,
   } = useWalletStore()
+  const verifyIndexerData = useSettingsStore((s) => s.verifyIndexerData)
 
   const [expandedTokens, setExpandedTokens] = useState<Set<string>>(new Set())
   const [tokenGroups, setTokenGroups] = useState<TokenBalanceGroup[]>([])
@@ -220,6 +237,14 @@ export const BalancesPage: React.FC = () => {
   // Track commitments that have had proofs submitted (waiting for PPOI node confirmation)
   const [proofSubmittedHashes, setProofSubmittedHashes] = useState<Set<string>>(new Set())
   const [showAddToken, setShowAddToken] = useState(false)
+  const isWatchOnly = !!currentWallet?.watchOnly
+  // Note consolidation previews keyed by token address, and the token currently being merged
+  const [consolidationPlans, setConsolidationPlans] = useState<Record<string, ConsolidationPlan>>(
+    {}
+  )
+  const [consolidatingToken, setConsolidatingToken] = useState<string | null>(null)
+  const [consolidationStatus, setConsolidationStatus] = useState<string>('')
+  const [consolidationErrors, setConsolidationErrors] = useState<Record<string, string>>({})
 
   // Load commitments and compute token groups
   const loadTokenGroups = useCallback(async () => {
@@ -228,10 +253,12 @@ export const BalancesPage: React.FC = () => {
       return
     }
 
-    const scanner = SubsquidBalanceScanner.getInstance()
     const tokenService = TokenService.getInstance()
 
-    const allCommitments = scanner.getDecryptedCommitmentsForWallet(currentWallet.id)
+    const allCommitments = BalanceScannerRouter.getInstance().getDecryptedCommitmentsForWallet(
+      currentWallet.id,
+      currentNetwork as NetworkName
+    )
     const unspentCommitments = allCommitments.filter((c) => !c.isSpent && !c.isSentToOther)
     const spentCommitments = allCommitments.filter((c) => c.isSpent)
 
@@ -285,7 +312,7 @@ export const BalancesPage: React.FC = () => {
       }
 
       // Get PPOI status from shared store state
-      const blindedCommitment = scanner.blindedCommitmentOf(commitment)
+      const blindedCommitment = blindedCommitmentOf(commitment)
       const poiStatus = commitmentPOIStatus[blindedCommitment]?.status || 'unknown'
       const bucket = determineBucket(commitment, poiStatus)
 
@@ -304,7 +331,7 @@ export const BalancesPage: React.FC = () => {
         groupMap.set(tokenKey, { unspent: [], spent: [] })
       }
 
-      const blindedCommitment = scanner.blindedCommitmentOf(commitment)
+      const blindedCommitment = blindedCommitmentOf(commitment)
       const poiStatus = commitmentPOIStatus[blindedCommitment]?.status || 'unknown'
       const bucket = determineBucket(commitment, poiStatus)
 
@@ -461,14 +488,15 @@ export const BalancesPage: React.FC = () => {
       const generateResult = await transactionHistoryService.generatePOIProofForTransaction(
         transaction,
         currentNetwork as NetworkName,
-        currentWallet
+        currentWallet,
+        setProofProgress
       )
 
       if (generateResult.success) {
         setProofProgress('Proof submitted!')
 
         // Clear the PPOI cache for this commitment so future checks are fresh
-        const blindedCommitment = scanner.blindedCommitmentOf(commitment)
+        const blindedCommitment = blindedCommitmentOf(commitment)
         clearCommitmentPOIStatus(blindedCommitment)
 
         // Track this commitment as having a submitted proof
@@ -518,7 +546,10 @@ export const BalancesPage: React.FC = () => {
     const scanner = SubsquidBalanceScanner.getInstance()
 
     // Get ALL decrypted commitments (including spent ones) to build dependency graph
-    const allCommitments = scanner.getDecryptedCommitmentsForWallet(currentWallet.id)
+    const allCommitments = scanner.getDecryptedCommitmentsForWallet(
+      currentWallet.id,
+      currentNetwork as NetworkName
+    )
     dlog(`Found ${allCommitments.length} total commitments in wallet`)
 
     // Get all transactions
@@ -534,7 +565,7 @@ export const BalancesPage: React.FC = () => {
     const commitmentHashToData = new Map<string, DecryptedCommitment>()
     for (const c of allCommitments) {
       // Use the blinded commitment hash as key
-      const blindedHash = scanner.blindedCommitmentOf(c)
+      const blindedHash = blindedCommitmentOf(c)
       commitmentHashToData.set(blindedHash.toLowerCase(), c)
       // Also map by raw hash for fallback
       commitmentHashToData.set(c.hash.toLowerCase(), c)
@@ -662,14 +693,18 @@ export const BalancesPage: React.FC = () => {
         const generateResult = await transactionHistoryService.generatePOIProofForTransaction(
           transaction,
           currentNetwork as NetworkName,
-          currentWallet
+          currentWallet,
+          (status) => setSubmitAllProgress(`Processing ${processedTxs}/${totalTxs}: ${status}`)
         )
 
         if (generateResult.success) {
           successCount++
           dlog(`PPOI submitted for tx ${txid.slice(0, 10)}... (block ${transaction.blockNumber})`)
           // Track all commitments in this transaction as submitted
-          const allWalletCommitments = scanner.getDecryptedCommitmentsForWallet(currentWallet.id)
+          const allWalletCommitments = scanner.getDecryptedCommitmentsForWallet(
+            currentWallet.id,
+            currentNetwork as NetworkName
+          )
           const txCommitments = allWalletCommitments.filter((c) => c.txid === txid)
           setProofSubmittedHashes((prev) => {
             const next = new Set(prev)
@@ -724,7 +759,8 @@ export const BalancesPage: React.FC = () => {
           const generateResult = await transactionHistoryService.generatePOIProofForTransaction(
             item.transaction,
             currentNetwork as NetworkName,
-            currentWallet
+            currentWallet,
+            (status) => setSubmitAllProgress(`Retrying ${txid.slice(0, 10)}...: ${status}`)
           )
 
           if (generateResult.success) {
@@ -769,8 +805,7 @@ export const BalancesPage: React.FC = () => {
     setCheckingPPOIHash(commitment.hash)
 
     try {
-      const scanner = SubsquidBalanceScanner.getInstance()
-      const blindedCommitment = scanner.blindedCommitmentOf(commitment)
+      const blindedCommitment = blindedCommitmentOf(commitment)
       const commitmentType =
         commitment.commitmentType === 'ShieldCommitment' ? 'Shield' : 'Transact'
       await checkSingleCommitmentPOI(
@@ -802,6 +837,75 @@ export const BalancesPage: React.FC = () => {
     await loadTokenGroups()
   }
 
+  /**
+   * Builds a consolidation preview for a token: how many notes it merges into and the estimated gas.
+   * @param tokenAddress - The token whose notes would be consolidated
+   */
+  const handlePreviewConsolidation = async (tokenAddress: string) => {
+    if (!currentWallet || !currentNetwork) return
+
+    setConsolidatingToken(tokenAddress)
+    setConsolidationErrors((prev) => ({ ...prev, [tokenAddress]: '' }))
+    setConsolidationStatus('Estimating consolidation...')
+    try {
+      const plan = await NoteConsolidationService.getInstance().planConsolidation(
+        currentWallet,
+        currentNetwork as NetworkName,
+        tokenAddress,
+        createProvider(currentNetwork as NetworkName)
+      )
+      setConsolidationPlans((prev) => ({ ...prev, [tokenAddress]: plan }))
+    } catch (error) {
+      dwarn('Error planning note consolidation:', error)
+      setConsolidationErrors((prev) => ({
+        ...prev,
+        [tokenAddress]: error instanceof Error ? error.message : 'Unknown error',
+      }))
+    } finally {
+      setConsolidatingToken(null)
+      setConsolidationStatus('')
+    }
+  }
+
+  /**
+   * Proves and submits the previewed consolidation for a token, then refreshes balances.
+   * @param tokenAddress - The token whose previewed plan is executed
+   */
+  const handleConsolidate = async (tokenAddress: string) => {
+    const plan = consolidationPlans[tokenAddress]
+    if (!currentWallet || !currentNetwork || !plan) return
+
+    setConsolidatingToken(tokenAddress)
+    setConsolidationErrors((prev) => ({ ...prev, [tokenAddress]: '' }))
+    setConsolidationStatus('Preparing consolidation...')
+    try {
+      const txHashes = await NoteConsolidationService.getInstance().executeConsolidation(
+        currentWallet,
+        currentNetwork as NetworkName,
+        plan,
+        createProvider(currentNetwork as NetworkName),
+        (s: string) => setConsolidationStatus(s),
+        getGasPayerWallet() ?? undefined
+      )
+      dlog(`Consolidated ${plan.noteCountBefore} notes in ${txHashes.length} submission(s)`)
+      setConsolidationPlans((prev) => {
+        const next = { ...prev }
+        delete next[tokenAddress]
+        return next
+      })
+      await handleRefreshBalances()
+    } catch (error) {
+      dwarn('Error consolidating notes:', error)
+      setConsolidationErrors((prev) => ({
+        ...prev,
+        [tokenAddress]: error instanceof Error ? error.message : 'Unknown error',
+      }))
+    } finally {
+      setConsolidatingToken(null)
+      setConsolidationStatus('')
+    }
+  }
+
   /**
    * Formats a bigint token balance into a human-readable decimal string truncated to 6 decimal places.
    * @param balance - The raw token balance as a bigint in smallest units
@@ -1099,20 +1203,30 @@ export const BalancesPage: React.FC = () => {
         </div>
         <div className='header-actions'>
           <button onClick={handleRefreshBalances} className='refresh-btn' disabled={isSyncing}>
-            {isSyncing ? 'Refreshing...' : 'Refresh'}
+            {isSyncing
+              ? scanProgress !== null
+                ? `Scanning ${Math.round(scanProgress * 100)}%`
+                : 'Refreshing...'
+              : 'Refresh'}
           </button>
-          {tokenGroups.some((g) =>
-            g.commitments.some((c) => c.bucket === BalanceBucket.MissingInternalPOI)
-          ) && (
-            <button
-              onClick={handleSubmitAllMissingPOI}
-              className='submit-all-poi-btn'
-              disabled={isSyncing || isSubmittingAll}
-              title='Submit PPOI proofs for all commitments with missing PPOI'
-            >
-              {isSubmittingAll ? 'Submitting...' : 'Submit All PPOI'}
+          {isSyncing && scanProgress !== null && (
+            <button onClick={cancelScan} className='refresh-btn' title='Stop the balance scan'>
+              Cancel
             </button>
           )}
+          {!isWatchOnly &&
+            tokenGroups.some((g) =>
+              g.commitments.some((c) => c.bucket === BalanceBucket.MissingInternalPOI)
+            ) && (
+              <button
+                onClick={handleSubmitAllMissingPOI}
+                className='submit-all-poi-btn'
+                disabled={isSyncing || isSubmittingAll}
+                title='Submit PPOI proofs for all commitments with missing PPOI'
+              >
+                {isSubmittingAll ? 'Submitting...' : 'Submit All PPOI'}
+              </button>
+          )}
           {(() => {
             const uncheckedCount = getUncheckedPOICount()
             if (uncheckedCount === 0) return null
@@ -1146,9 +1260,52 @@ export const BalancesPage: React.FC = () => {
           <span className='last-update-text'>
             Last updated: {formatTimestamp(lastBalanceUpdate)}
           </span>
+          {verifyIndexerData && (() => {
+            if (isVerifyingIndexer) {
+              return <span className='verification-badge checking'>Verifying...</span>
+            }
+            const result =
+              indexerVerification?.walletId === currentWallet?.id &&
+              indexerVerification?.networkName === currentNetwork
+                ? indexerVerification
+                : null
+            if (!result) return null
+            return result.status === 'verified'
+              ? (
+                <span
+                  className='verification-badge verified'
+                  title={`Checked against the RAILGUN contract at ${formatTimestamp(result.checkedAt)}`}
+                >
+                  ✓ Verified
+                </span>
+                )
+              : (
+                <span className='verification-badge unverified' title={result.issues.join('\n')}>
+                  ⚠️ Unverified
+                </span>
+                )
+          })()}
         </div>
       )}
 
+      {verifyIndexerData &&
+        !isVerifyingIndexer &&
+        indexerVerification?.status === 'unverified' &&
+        indexerVerification.walletId === currentWallet?.id &&
+        indexerVerification.networkName === currentNetwork && (
+          <div className='verification-issues'>
+            <span>
+              The indexer data behind these balances disagrees with the RAILGUN contract. Balances
+              may be wrong:
+            </span>
+            <ul>
+              {indexerVerification.issues.map((issue) => (
+                <li key={issue}>{issue}</li>
+              ))}
+            </ul>
+          </div>
+      )}
+
       {tokenGroups.length === 0
         ? (
           <div className='empty-state'>
@@ -1170,6 +1327,11 @@ export const BalancesPage: React.FC = () => {
                 const isFullySpendable = group.spendableBalance === group.totalBalance
                 const hasCommitments =
                 group.commitments.length > 0 || group.spentCommitments.length > 0
+                const spendableNoteCount = group.commitments.filter(
+                  (c) => c.bucket === BalanceBucket.Spendable
+                ).length
+                const consolidationPlan = consolidationPlans[group.tokenAddress]
+                const isConsolidating = consolidatingToken === group.tokenAddress
 
                 return (
                   <React.Fragment key={group.tokenAddress}>
@@ -1208,6 +1370,7 @@ export const BalancesPage: React.FC = () => {
                               proofSubmittedHashes={proofSubmittedHashes}
                               checkingPPOIHash={checkingPPOIHash}
                               isCheckingPOI={isCheckingPOI}
+                              watchOnly={isWatchOnly}
                               onSubmitProof={handleSubmitProof}
                               onCheckSubmittedPPOI={handleCheckSubmittedPPOI}
                               onCheckPPOI={handleCheckPPOI}
@@ -1245,6 +1408,7 @@ export const BalancesPage: React.FC = () => {
                                 checkingPPOIHash={checkingPPOIHash}
                                 isCheckingPOI={isCheckingPOI}
                                 spentExplanation={getSpentExplanation(cws.commitment)}
+                                watchOnly={isWatchOnly}
                                 onSubmitProof={handleSubmitProof}
                                 onCheckSubmittedPPOI={handleCheckSubmittedPPOI}
                                 onCheckPPOI={handleCheckPPOI}
@@ -1255,6 +1419,79 @@ export const BalancesPage: React.FC = () => {
                           </div>
                         )}
 
+                        {spendableNoteCount > 1 && !isWatchOnly && (
+                          <div className='token-details-section consolidation-section'>
+                            <h4>Consolidate Notes</h4>
+                            <p className='consolidation-info'>
+                              Merge {spendableNoteCount} spendable notes into fewer notes with
+                              private transfers to yourself, so future sends need fewer inputs.
+                            </p>
+                            {consolidationPlan && (
+                              <div className='consolidation-preview'>
+                                <div className='detail-row'>
+                                  <span>Notes:</span>
+                                  <span>
+                                    {consolidationPlan.noteCountBefore} →{' '}
+                                    {consolidationPlan.noteCountAfter}
+                                  </span>
+                                </div>
+                                <div className='detail-row'>
+                                  <span>Transactions:</span>
+                                  <span>
+                                    {consolidationPlan.transactionCount}
+                                    {consolidationPlan.submissions.length > 1 &&
+                                      ` (in ${consolidationPlan.submissions.length} submissions)`}
+                                  </span>
+                                </div>
+                                <div
+                                  className='detail-row'
+                                  title='Based on a gas model; each submission is simulated for its exact gas before it is sent'
+                                >
+                                  <span>Rough gas estimate:</span>
+                                  <span>
+                                    ~{consolidationPlan.estimatedGas.toLocaleString()} (
+                                    {Number(
+                                      ethers.formatEther(consolidationPlan.estimatedGasCostWei)
+                                    ).toFixed(6)}{' '}
+                                    native)
+                                  </span>
+                                </div>
+                              </div>
+                            )}
+                            <div className='consolidation-actions'>
+                              <button
+                                className='check-ppoi-btn'
+                                onClick={() => handlePreviewConsolidation(group.tokenAddress)}
+                                disabled={consolidatingToken !== null}
+                              >
+                                {consolidationPlan ? 'Refresh Preview' : 'Preview'}
+                              </button>
+                              {consolidationPlan && consolidationPlan.transactionCount > 0 && (
+                                <button
+                                  className='submit-all-poi-btn'
+                                  onClick={() => handleConsolidate(group.tokenAddress)}
+                                  disabled={consolidatingToken !== null}
+                                >
+                                  {isConsolidating ? 'Consolidating...' : 'Consolidate'}
+                                </button>
+                              )}
+                            </div>
+                            {consolidationPlan && consolidationPlan.transactionCount === 0 && (
+                              <p className='consolidation-info'>
+                                Notes are already merged as far as the circuits allow.
+                              </p>
+                            )}
+                            {isConsolidating && consolidationStatus && (
+                              <p className='consolidation-status'>{consolidationStatus}</p>
+                            )}
+                            {consolidationErrors[group.tokenAddress] && (
+                              <p className='consolidation-status error'>
+                                Error: {consolidationErrors[group.tokenAddress]}
+                              </p>
+                            )}
+                          </div>
+                        )}
+
                         <div className='token-details-section'>
                           <h4>Token Details</h4>
                           <div className='detail-row'>
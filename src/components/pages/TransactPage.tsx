@@ -1,15 +1,20 @@
 import React, { useState } from 'react'
 
 import { ErrorBoundary } from '@/components/common/ErrorBoundary'
+import { OfflineSigningPanel } from '@/components/common/OfflineSigningPanel'
+import { PendingTransactionsPanel } from '@/components/common/PendingTransactionsPanel'
 import { TransactForm } from '@/components/forms/TransactForm'
 import './TransactPage.css'
 
 /**
- * Page component hosting the transaction form with error handling.
+ * Page component hosting the transaction form with error handling, the proved transactions
+ * still waiting for confirmation, and offline signing.
  * @returns The transact page with error boundary wrapped form
  */
 export const TransactPage: React.FC = () => {
   const [errorMessage, setErrorMessage] = useState<string>('')
+  // Bumped after every transaction attempt so the pending transactions panel reloads the outbox
+  const [outboxVersion, setOutboxVersion] = useState(0)
 
   /**
    * Displays a transaction error message that auto-dismisses after 10 seconds.
@@ -18,12 +23,22 @@ export const TransactPage: React.FC = () => {
   const handleTransactionError = (error: string) => {
     setErrorMessage(error)
     setTimeout(() => setErrorMessage(''), 10000)
+    setOutboxVersion((v) => v + 1)
+  }
+
+  /**
+   * Reload the pending transactions after a successful transaction or an offline broadcast.
+   */
+  const handleTransactionSuccess = () => {
+    setOutboxVersion((v) => v + 1)
   }
 
   return (
     <div className='transact-page'>
       {errorMessage && <div className='message message-error'>{errorMessage}</div>}
 
+      <PendingTransactionsPanel refreshKey={outboxVersion} />
+
       <ErrorBoundary
         fallback={
           <div className='message message-error'>
@@ -31,8 +46,10 @@ export const TransactPage: React.FC = () => {
           </div>
         }
       >
-        <TransactForm onError={handleTransactionError} />
+        <TransactForm onError={handleTransactionError} onSuccess={handleTransactionSuccess} />
       </ErrorBoundary>
+
+      <OfflineSigningPanel onBroadcast={handleTransactionSuccess} />
     </div>
   )
 }
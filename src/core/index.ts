@@ -1,10 +1,10 @@
 // Transaction
 export { Transaction } from './transaction'
-export type { Chain, AdaptID, TXO, UnshieldData } from './transaction'
+export type { Chain, AdaptID, TXO, UTXOMerkleProof, UnshieldData } from './transaction'
 
 // Transaction batch
 export { TransactionBatch } from './transaction-batch'
-export type { SpendingSolutionGroup } from './transaction-batch'
+export type { OfflineNote, SpendingSolutionGroup } from './transaction-batch'
 
 // Transact note
 export { TransactNote } from './transact-note'
@@ -13,6 +13,7 @@ export type { TokenData, TokenType } from './transact-note'
 // Prover
 export { proveRailgunV2 } from './prover'
 export type { FormattedCircuitInputsRailgun, ProveResult } from './prover'
+export { assertProofVerified, ProofVerificationError } from './snark-prover'
 
 // Prover PPOI
 export { provePOI } from './prover-poi'
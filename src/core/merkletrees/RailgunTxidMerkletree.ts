@@ -641,22 +641,23 @@ class RailgunTxidMerkletree {
     console.error(`RAILGUN TxID not found: ${railgunTxid} (network: ${this.networkName})`)
 
     try {
-      const allKeys = await this.db.keys()
-      const txidLookupKeys = allKeys.filter((key) => key.includes(':txid-lookup:'))
-      dlog(`Total txids in database: ${txidLookupKeys.length}`)
-
-      if (txidLookupKeys.length > 0) {
-        const normalizedLookup = railgunTxid.toLowerCase()
-        const caseInsensitiveMatch = txidLookupKeys.find((key) => {
-          const keyTxid = key.split(':txid-lookup:')[1]
-          return keyTxid?.toLowerCase() === normalizedLookup
-        })
-
-        if (caseInsensitiveMatch) {
-          const matchedTxid = caseInsensitiveMatch.split(':txid-lookup:')[1]
-          console.error(`Found case-insensitive match: ${matchedTxid}`)
+      const lookupPrefix = this.buildKey('txid-lookup', '')
+      const normalizedLookup = ByteUtils.strip0x(railgunTxid).toLowerCase()
+      let txidCount = 0
+      let caseInsensitiveMatch: string | undefined
+
+      for await (const key of this.db.keyIterator({ prefix: lookupPrefix })) {
+        txidCount++
+        const keyTxid = key.slice(lookupPrefix.length)
+        if (!caseInsensitiveMatch && keyTxid.toLowerCase() === normalizedLookup) {
+          caseInsensitiveMatch = keyTxid
         }
       }
+      dlog(`Total txids in database: ${txidCount}`)
+
+      if (caseInsensitiveMatch) {
+        console.error(`Found case-insensitive match: ${caseInsensitiveMatch}`)
+      }
     } catch (debugError) {
       console.error('Could not debug txid lookup:', debugError)
     }
@@ -780,14 +781,11 @@ class RailgunTxidMerkletree {
    * @returns The highest persisted index, or -1 if none exist.
    */
   private async getLastStoredHistoricalIndex (tree: number): Promise<number> {
-    const keys = await this.db.keys()
     const prefix = `${this.getDBPrefix()}:merkleroot:${tree}:`
     let maxIndex = -1
 
-    for (const key of keys) {
-      if (!key.startsWith(prefix)) {
-        continue
-      }
+    // Indices are not zero-padded, so key order is not numeric order; scan the tree's keys
+    for await (const key of this.db.keyIterator({ prefix })) {
       const indexStr = key.slice(prefix.length)
       const index = Number.parseInt(indexStr, 10)
       if (!Number.isNaN(index) && index > maxIndex) {
@@ -874,20 +872,76 @@ class RailgunTxidMerkletree {
   }
 
   /**
-   * Clear all data (for testing or reset)
+   * Remove every txid from a global index onwards, e.g. after the indexer reordered or dropped
+   * them. Call updateTreesFromWriteQueue() afterwards to recompute the remaining tree.
+   * @param globalIndex - The first global txid index to remove.
+   * @returns The number of txids removed.
    */
-  async clear (): Promise<void> {
-    const allKeys = await this.db.keys()
-    const prefix = this.getDBPrefix()
-    const keysToDelete = allKeys.filter((key) => key.startsWith(prefix))
+  async rollbackToIndex (globalIndex: number): Promise<number> {
+    const currentLength = (await this.getCurrentTxidIndex()) + 1
+    if (globalIndex >= currentLength) {
+      return 0
+    }
+
+    const batchOps: BatchOperation[] = []
+
+    // Lookups of the removed transactions
+    for (let position = globalIndex; position < currentLength; position++) {
+      const { tree, index } = RailgunTxidMerkletree.getTreeAndIndexFromGlobalPosition(position)
+      const transaction = await this.getRailgunTransaction(tree, index)
+      if (!transaction) continue
+      batchOps.push({ type: 'del', key: this.getTxidLookupKey(transaction.railgunTxid) })
+      if (transaction.txid) {
+        batchOps.push({ type: 'del', key: this.getTxHashUnshieldKey(transaction.txid) })
+      }
+    }
+
+    // Nodes and historical merkleroots past the kept leaves, in the cut tree and every later one
+    const { tree: cutTree, index: cutIndex } =
+      RailgunTxidMerkletree.getTreeAndIndexFromGlobalPosition(globalIndex)
+    const { tree: latestTree } = await this.getLatestTreeAndIndex()
+    for (let tree = cutTree; tree <= latestTree; tree++) {
+      const keptLeaves = tree === cutTree ? cutIndex : 0
+
+      for (let level = 0; level <= TREE_DEPTH; level++) {
+        const keptNodes = Math.ceil(keptLeaves / 2 ** level)
+        const prefix = this.buildKey('node', tree, level, '')
+        for await (const key of this.db.keyIterator({ prefix })) {
+          if (Number(key.slice(prefix.length)) >= keptNodes) {
+            batchOps.push({ type: 'del', key })
+          }
+        }
+      }
+
+      const merklerootPrefix = this.buildKey('merkleroot', tree, '')
+      for await (const key of this.db.keyIterator({ prefix: merklerootPrefix })) {
+        if (Number(key.slice(merklerootPrefix.length)) >= keptLeaves) {
+          batchOps.push({ type: 'del', key })
+        }
+      }
 
-    const batchOps: BatchOperation[] = keysToDelete.map((key) => ({
-      type: 'del',
-      key,
-    }))
+      batchOps.push(
+        keptLeaves > 0
+          ? { type: 'put', key: this.getTreeMetaKey(tree), value: { length: keptLeaves } }
+          : { type: 'del', key: this.getTreeMetaKey(tree) }
+      )
+      this.historicalState.delete(tree)
+    }
 
     await this.db.batch(batchOps)
     this.cachedNodes.clear()
+
+    const removed = currentLength - globalIndex
+    dlog(`Rolled back ${removed} txids from index ${globalIndex}`)
+    return removed
+  }
+
+  /**
+   * Clear all data (for testing or reset)
+   */
+  async clear (): Promise<void> {
+    await this.db.delRange({ prefix: `${this.getDBPrefix()}:` })
+    this.cachedNodes.clear()
     this.historicalState.clear()
   }
 }
@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest'
+
+import { InMemoryDatabase } from './database'
+import { UTXOMerkletree } from './UTXOMerkletree'
+
+import { ByteUtils } from '@/utils/crypto'
+
+/**
+ * Leaves appended to one tree from one block.
+ */
+interface BlockLeaves {
+  blockNumber: number
+  tree: number
+  count: number
+}
+
+/**
+ * Append the leaves of each block the way a scan does, recording where every block starts.
+ * Leaf hashes derive from the block number, so two trees fed the same blocks match.
+ * @param merkletree - The tree to extend
+ * @param blocks - The blocks to append, in order
+ */
+const appendBlocks = async (merkletree: UTXOMerkletree, blocks: BlockLeaves[]): Promise<void> => {
+  for (const { blockNumber, tree, count } of blocks) {
+    const position = await merkletree.getTreeLength(tree)
+    const leaves = Array.from({ length: count }, (_, i) => ({
+      hash: ByteUtils.nToHex(BigInt(blockNumber * 1000 + i), 32),
+    }))
+    await merkletree.queueLeaves(tree, position, leaves)
+    await merkletree.updateTreesFromWriteQueue()
+    await merkletree.recordBlockStarts([{ blockNumber, tree, position }])
+    await merkletree.setLatestSyncedBlock(blockNumber)
+  }
+}
+
+/**
+ * Build a tree on a fresh in-memory database.
+ * @param blocks - The blocks to append
+ * @returns The tree and its database
+ */
+const buildTree = async (
+  blocks: BlockLeaves[]
+): Promise<{ merkletree: UTXOMerkletree; db: InMemoryDatabase }> => {
+  const db = new InMemoryDatabase()
+  const merkletree = new UTXOMerkletree(db)
+  await appendBlocks(merkletree, blocks)
+  return { merkletree, db }
+}
+
+describe('UTXOMerkletree.rollbackToBlock', () => {
+  it('cuts a tree back to the leaves of kept blocks', async () => {
+    const kept = [{ blockNumber: 10, tree: 0, count: 3 }]
+    const { merkletree, db } = await buildTree([
+      ...kept,
+      { blockNumber: 11, tree: 0, count: 2 },
+      { blockNumber: 12, tree: 0, count: 2 },
+    ])
+    const { merkletree: expected } = await buildTree(kept)
+
+    expect(await merkletree.rollbackToBlock(10)).toBe(4)
+
+    expect(await merkletree.getTreeLength(0)).toBe(3)
+    expect(await merkletree.getRoot(0)).toBe(await expected.getRoot(0))
+    expect(await merkletree.getUTXOMerkleProof(0, 2)).toEqual(
+      await expected.getUTXOMerkleProof(0, 2)
+    )
+    const leafKeys: string[] = []
+    for await (const key of db.keyIterator({ prefix: '0:0:' })) leafKeys.push(key)
+    expect(leafKeys).toEqual(['0:0:0', '0:0:1', '0:0:2'])
+  })
+
+  it('extends a truncated tree as if the orphaned blocks never existed', async () => {
+    const { merkletree } = await buildTree([
+      { blockNumber: 10, tree: 0, count: 3 },
+      { blockNumber: 11, tree: 0, count: 2 },
+    ])
+    const replacement = [{ blockNumber: 12, tree: 0, count: 4 }]
+    const { merkletree: expected } = await buildTree([
+      { blockNumber: 10, tree: 0, count: 3 },
+      ...replacement,
+    ])
+
+    await merkletree.rollbackToBlock(10)
+    await appendBlocks(merkletree, replacement)
+
+    expect(await merkletree.getTreeLength(0)).toBe(7)
+    expect(await merkletree.getRoot(0)).toBe(await expected.getRoot(0))
+  })
+
+  it('clears later trees and trees whose first leaf was orphaned', async () => {
+    const { merkletree } = await buildTree([
+      { blockNumber: 10, tree: 0, count: 2 },
+      { blockNumber: 11, tree: 1, count: 3 },
+      { blockNumber: 12, tree: 2, count: 1 },
+    ])
+    const { merkletree: expected } = await buildTree([{ blockNumber: 10, tree: 0, count: 2 }])
+    const emptyRoot = await new UTXOMerkletree(new InMemoryDatabase()).getRoot(0)
+
+    expect(await merkletree.rollbackToBlock(10)).toBe(4)
+
+    expect(await merkletree.getRoot(0)).toBe(await expected.getRoot(0))
+    expect(await merkletree.getTreeLength(1)).toBe(0)
+    expect(await merkletree.getTreeLength(2)).toBe(0)
+    expect(await merkletree.getRoot(1)).toBe(emptyRoot)
+    expect(await merkletree.getRoot(2)).toBe(emptyRoot)
+  })
+
+  it('forgets the starts of rolled back blocks', async () => {
+    const { merkletree } = await buildTree([
+      { blockNumber: 10, tree: 0, count: 2 },
+      { blockNumber: 11, tree: 0, count: 2 },
+      { blockNumber: 12, tree: 0, count: 2 },
+    ])
+
+    await merkletree.rollbackToBlock(10)
+    await appendBlocks(merkletree, [{ blockNumber: 12, tree: 0, count: 1 }])
+
+    // Block 12 now starts at position 2, not where the orphaned block 12 started
+    expect(await merkletree.rollbackToBlock(11)).toBe(1)
+    expect(await merkletree.getTreeLength(0)).toBe(2)
+  })
+
+  it('removes nothing when no leaf comes from a later block', async () => {
+    const { merkletree } = await buildTree([{ blockNumber: 10, tree: 0, count: 3 }])
+    const root = await merkletree.getRoot(0)
+
+    expect(await merkletree.rollbackToBlock(10)).toBe(0)
+
+    expect(await merkletree.getTreeLength(0)).toBe(3)
+    expect(await merkletree.getRoot(0)).toBe(root)
+  })
+
+  it('reports trees synced past the block without block starts', async () => {
+    const merkletree = new UTXOMerkletree(new InMemoryDatabase())
+    await merkletree.queueLeaves(0, 0, [{ hash: ByteUtils.nToHex(1n, 32) }])
+    await merkletree.updateTreesFromWriteQueue()
+    await merkletree.setLatestSyncedBlock(20)
+
+    expect(await merkletree.rollbackToBlock(10)).toBeNull()
+    expect(await merkletree.getTreeLength(0)).toBe(1)
+  })
+})
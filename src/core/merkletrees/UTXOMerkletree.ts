@@ -1,6 +1,6 @@
 import type { ethers } from 'ethers'
 
-import type { Database } from './database'
+import type { BatchOperation, Database } from './database'
 import type { UTXOMerkleProof } from './types'
 import { TREE_DEPTH } from './types'
 
@@ -10,6 +10,21 @@ import { ByteLength, ByteUtils } from '@/utils/crypto'
 import { poseidonHex } from '@/utils/poseidon'
 import { MERKLE_ZERO_VALUE_BIGINT } from '@/utils/railgun-crypto'
 
+// Block of the last commitment synced into the trees, for resuming incremental syncs
+const LATEST_SYNCED_BLOCK_KEY = 'latestSyncedBlock'
+// First leaf of each synced block, keyed by zero-padded block number, for cutting the trees back to a block
+const BLOCK_START_PREFIX = 'block:'
+const BLOCK_NUMBER_DIGITS = 12
+
+/**
+ * The first leaf appended from a block.
+ */
+interface BlockStart {
+  blockNumber: number
+  tree: number
+  position: number
+}
+
 /**
  * Computes a Poseidon hash of two sibling nodes for the Merkle tree.
  * @param left - The left child node hash as a hex string
@@ -22,6 +37,8 @@ function hashLeftRight (left: string, right: string): string {
 
 /**
  * UTXO Merkle tree implementation for RAILGUN commitment storage and proof generation.
+ * Tree lengths are stored alongside the nodes, so a tree on a persistent database can be
+ * reopened and extended.
  */
 export class UTXOMerkletree {
   /**
@@ -294,9 +311,9 @@ export class UTXOMerkletree {
       hashWriteGroup[level] = hashWriteGroup[level] ?? []
       hashWriteGroup[level + 1] = hashWriteGroup[level + 1] ?? []
 
-      // Process pairs at this level
+      // Process pairs at this level, starting from the left child of the first touched pair
       for (
-        let pairIndex = nextLevelStartIndex;
+        let pairIndex = nextLevelStartIndex - (nextLevelStartIndex % 2);
         pairIndex <= nextLevelEndIndex + 1;
         pairIndex += 2
       ) {
@@ -330,7 +347,7 @@ export class UTXOMerkletree {
   }
 
   /**
-   * Write tree to database
+   * Write tree to database in a single batch, together with the new tree length
    * @param treeIndex - The tree index to write data for
    * @param hashWriteGroup - Multi-level array of computed node hashes to persist
    * @param dataWriteGroup - Array of leaf data objects indexed by leaf position
@@ -340,18 +357,18 @@ export class UTXOMerkletree {
     hashWriteGroup: string[][],
     dataWriteGroup: any[]
   ): Promise<void> {
+    const operations: BatchOperation[] = []
+    let treeLength = await this.getTreeLength(treeIndex)
+
     // Store leaf data
     const leafLevelArray = hashWriteGroup[0]
     for (let index = 0; index < dataWriteGroup.length; index++) {
       if (dataWriteGroup[index]) {
-        const leafKey = `${treeIndex}:0:${index}`
         const leafHash = leafLevelArray?.[index]
         if (leafHash) {
-          await this.db.put(leafKey, leafHash)
+          operations.push({ type: 'put', key: `${treeIndex}:0:${index}`, value: leafHash })
         }
-
-        // Update tree length
-        this.treeLengths.set(treeIndex, Math.max(this.treeLengths.get(treeIndex) || 0, index + 1))
+        treeLength = Math.max(treeLength, index + 1)
       }
     }
 
@@ -362,12 +379,24 @@ export class UTXOMerkletree {
         for (let index = 0; index < levelArray.length; index++) {
           const nodeHash = levelArray[index]
           if (nodeHash) {
-            const nodeKey = `${treeIndex}:${level}:${index}`
-            await this.db.put(nodeKey, nodeHash)
+            operations.push({ type: 'put', key: `${treeIndex}:${level}:${index}`, value: nodeHash })
           }
         }
       }
     }
+
+    operations.push({ type: 'put', key: this.getTreeLengthKey(treeIndex), value: treeLength })
+    await this.db.batch(operations)
+    this.treeLengths.set(treeIndex, treeLength)
+  }
+
+  /**
+   * Get the database key holding a tree's leaf count
+   * @param tree - The tree index
+   * @returns The database key
+   */
+  private getTreeLengthKey (tree: number): string {
+    return `length:${tree}`
   }
 
   /**
@@ -375,8 +404,151 @@ export class UTXOMerkletree {
    * @param tree - The tree index to get the leaf count for
    * @returns The number of leaves currently stored in the tree
    */
-  private async getTreeLength (tree: number): Promise<number> {
-    return this.treeLengths.get(tree) || 0
+  async getTreeLength (tree: number): Promise<number> {
+    const cached = this.treeLengths.get(tree)
+    if (cached !== undefined) return cached
+
+    let length = 0
+    try {
+      length = Number(await this.db.get(this.getTreeLengthKey(tree))) || 0
+    } catch {
+      // Tree has never been written
+    }
+    this.treeLengths.set(tree, length)
+    return length
+  }
+
+  /**
+   * Get the block of the last commitment synced into the trees.
+   * @returns The block number, or 0 if nothing has been synced
+   */
+  async getLatestSyncedBlock (): Promise<number> {
+    try {
+      return Number(await this.db.get(LATEST_SYNCED_BLOCK_KEY)) || 0
+    } catch {
+      return 0
+    }
+  }
+
+  /**
+   * Set the block of the last commitment synced into the trees.
+   * @param blockNumber - The block number to persist
+   */
+  async setLatestSyncedBlock (blockNumber: number): Promise<void> {
+    await this.db.put(LATEST_SYNCED_BLOCK_KEY, blockNumber)
+  }
+
+  /**
+   * Delete every node of a tree, reset its length and forget where its blocks start.
+   * @param tree - The tree index to clear
+   */
+  async clearTree (tree: number): Promise<void> {
+    await this.db.delRange({ prefix: `${tree}:` })
+    await this.db.del(this.getTreeLengthKey(tree))
+    const blockStarts: BatchOperation[] = []
+    for await (const [key, start] of this.db.iterator({ prefix: BLOCK_START_PREFIX })) {
+      if (start.tree === tree) blockStarts.push({ type: 'del', key })
+    }
+    await this.db.batch(blockStarts)
+    this.treeLengths.delete(tree)
+    delete this.writeQueue[tree]
+  }
+
+  /**
+   * Get the database key recording the first leaf of a block
+   * @param blockNumber - The block number
+   * @returns The database key; keys sort in block order
+   */
+  private getBlockStartKey (blockNumber: number): string {
+    return `${BLOCK_START_PREFIX}${String(blockNumber).padStart(BLOCK_NUMBER_DIGITS, '0')}`
+  }
+
+  /**
+   * Record the first leaf of each block appended to the trees, so they can be cut back to a
+   * block later. A block that already has a start keeps it, since its first leaves may have
+   * been appended by an earlier batch.
+   * @param starts - The first leaf appended from each block
+   */
+  async recordBlockStarts (starts: BlockStart[]): Promise<void> {
+    if (starts.length === 0) return
+    await this.db.transaction(async (tx) => {
+      const existing = await Promise.all(
+        starts.map((start) => tx.get(this.getBlockStartKey(start.blockNumber)))
+      )
+      starts.forEach((start, i) => {
+        if (existing[i] !== undefined) return
+        tx.put(this.getBlockStartKey(start.blockNumber), {
+          tree: start.tree,
+          position: start.position,
+        })
+      })
+    })
+  }
+
+  /**
+   * Remove every leaf appended from blocks after a given block, e.g. blocks orphaned by a
+   * reorganization, and recompute the nodes above the cut.
+   * @param blockNumber - The last block whose leaves are kept
+   * @returns The number of leaves removed, or null if the trees hold leaves from later blocks
+   * but have no record of where they start (trees synced before block starts were recorded)
+   */
+  async rollbackToBlock (blockNumber: number): Promise<number | null> {
+    let cut: { tree: number; position: number } | undefined
+    for await (const [, start] of this.db.iterator({
+      prefix: BLOCK_START_PREFIX,
+      gte: this.getBlockStartKey(blockNumber + 1),
+      limit: 1,
+    })) {
+      cut = start
+    }
+    if (!cut) return (await this.getLatestSyncedBlock()) > blockNumber ? null : 0
+
+    let removed = 0
+    for (let tree = cut.tree; ; tree++) {
+      const length = await this.getTreeLength(tree)
+      if (length === 0 && tree > cut.tree) break
+      const kept = tree === cut.tree ? Math.min(cut.position, length) : 0
+      removed += length - kept
+      await this.truncateTree(tree, kept)
+    }
+    await this.db.delRange({
+      prefix: BLOCK_START_PREFIX,
+      gte: this.getBlockStartKey(blockNumber + 1),
+    })
+    return removed
+  }
+
+  /**
+   * Cut a tree back to its first leaves, deleting the nodes that only covered removed leaves
+   * and recomputing the path of the last kept leaf.
+   * @param tree - The tree index to truncate
+   * @param length - The number of leaves to keep
+   */
+  private async truncateTree (tree: number, length: number): Promise<void> {
+    if (length === 0) {
+      await this.clearTree(tree)
+      return
+    }
+    if (length >= (await this.getTreeLength(tree))) return
+
+    const operations: BatchOperation[] = []
+    for (let level = 0; level <= TREE_DEPTH; level++) {
+      const keptNodes = Math.ceil(length / 2 ** level)
+      const prefix = `${tree}:${level}:`
+      for await (const key of this.db.keyIterator({ prefix })) {
+        if (Number(key.slice(prefix.length)) >= keptNodes) {
+          operations.push({ type: 'del', key })
+        }
+      }
+    }
+    operations.push({ type: 'put', key: this.getTreeLengthKey(tree), value: length })
+    await this.db.batch(operations)
+    this.treeLengths.set(tree, length)
+    delete this.writeQueue[tree]
+
+    // The last kept leaf's right-hand siblings are empty now; rewriting it rehashes its path
+    const lastLeaf = await this.getNodeHash(tree, 0, length - 1)
+    await this.insertLeaves(tree, length - 1, [{ hash: lastLeaf }])
   }
 
   /**
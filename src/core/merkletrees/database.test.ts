@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest'
+
+import { InMemoryDatabase } from './database'
+
+/**
+ * Create a promise the test resolves by hand, to hold a transaction callback open.
+ * @returns The pending promise and the function that resolves it
+ */
+const createGate = (): { gate: Promise<void>; release: () => void } => {
+  /** Replaced by the promise executor, which runs synchronously. */
+  let release: () => void = () => {}
+  const gate = new Promise<void>((resolve) => {
+    release = resolve
+  })
+  return { gate, release }
+}
+
+describe('InMemoryDatabase.transaction', () => {
+  it('applies every write when the callback resolves', async () => {
+    const db = new InMemoryDatabase()
+    await db.put('a', 1)
+
+    const result = await db.transaction(async (tx) => {
+      tx.put('a', (await tx.get('a')) + 1)
+      tx.put('b', 'new')
+      tx.del('a')
+      tx.put('a', 5)
+      return 'done'
+    })
+
+    expect(result).toBe('done')
+    expect(await db.get('a')).toBe(5)
+    expect(await db.get('b')).toBe('new')
+  })
+
+  it('reads its own pending writes', async () => {
+    const db = new InMemoryDatabase()
+    await db.put('a', 1)
+
+    const seen = await db.transaction(async (tx) => {
+      tx.put('b', 2)
+      tx.del('a')
+      return [await tx.get('a'), await tx.get('b'), await tx.get('missing')]
+    })
+
+    expect(seen).toEqual([undefined, 2, undefined])
+  })
+
+  it('rolls back every write when the callback throws', async () => {
+    const db = new InMemoryDatabase()
+    await db.put('a', 1)
+
+    await expect(
+      db.transaction(async (tx) => {
+        tx.put('a', 2)
+        tx.put('b', 3)
+        tx.del('a')
+        throw new Error('abort')
+      })
+    ).rejects.toThrow('abort')
+
+    expect(await db.get('a')).toBe(1)
+    expect(db.has('b')).toBe(false)
+  })
+
+  it('stays usable after a rolled back transaction', async () => {
+    const db = new InMemoryDatabase()
+
+    await expect(
+      db.transaction(async () => {
+        throw new Error('abort')
+      })
+    ).rejects.toThrow('abort')
+    await db.transaction(async (tx) => {
+      tx.put('a', 1)
+    })
+
+    expect(await db.get('a')).toBe(1)
+  })
+
+  it('holds outside writes until the transaction has committed', async () => {
+    const db = new InMemoryDatabase()
+    await db.put('counter', 0)
+    const { gate, release } = createGate()
+
+    const transaction = db.transaction(async (tx) => {
+      const value = await tx.get('counter')
+      await gate
+      tx.put('counter', value + 1)
+    })
+    const outside = db.put('counter', 100)
+    await Promise.resolve()
+    expect(await db.get('counter')).toBe(0)
+
+    release()
+    await Promise.all([transaction, outside])
+    expect(await db.get('counter')).toBe(100)
+  })
+
+  it('holds outside writes until the transaction has aborted', async () => {
+    const db = new InMemoryDatabase()
+    const { gate, release } = createGate()
+
+    const transaction = db.transaction(async (tx) => {
+      tx.put('a', 'tx')
+      await gate
+      throw new Error('abort')
+    })
+    const outside = db.put('b', 'outside')
+    await Promise.resolve()
+    expect(db.has('b')).toBe(false)
+
+    release()
+    await expect(transaction).rejects.toThrow('abort')
+    await outside
+    expect(db.has('a')).toBe(false)
+    expect(await db.get('b')).toBe('outside')
+  })
+})
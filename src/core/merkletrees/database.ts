@@ -1,12 +1,20 @@
 /**
- * In-memory database for storing commitments and merkletree data
+ * Key-value databases for storing commitments and merkletree data
+ *
+ * Keys are ordered lexicographically (by UTF-16 code unit, as with `<` on strings), so
+ * range and prefix scans visit `tree:1:10` before `tree:1:2`.
  */
 
 interface Database {
   get(key: string): Promise<any>
   put(key: string, value: any): Promise<void>
+  del(key: string): Promise<void>
   batch(operations: BatchOperation[]): Promise<void>
   keys(): Promise<string[]>
+  iterator(options?: RangeOptions): AsyncIterableIterator<[string, any]>
+  keyIterator(options?: RangeOptions): AsyncIterableIterator<string>
+  delRange(options: RangeOptions): Promise<number>
+  transaction<T>(fn: (tx: DatabaseTransaction) => Promise<T>): Promise<T>
 }
 
 interface BatchOperation {
@@ -15,6 +23,113 @@ interface BatchOperation {
   value?: any
 }
 
+/**
+ * Selects an ordered slice of keys. All bounds combine; omit every field to select everything.
+ */
+interface RangeOptions {
+  prefix?: string // Only keys starting with this prefix
+  gte?: string // Inclusive lower bound
+  lt?: string // Exclusive upper bound
+  reverse?: boolean // Visit keys from highest to lowest
+  limit?: number // Stop after this many keys
+}
+
+/**
+ * Handle passed to Database.transaction. Reads see the transaction's own writes, and the
+ * writes are applied together when the callback resolves, or not at all if it throws.
+ * The callback must only await `get` calls on this handle: IndexedDB commits a transaction
+ * as soon as it has no pending requests. Every write the callback makes goes through this
+ * handle. Writes on the database itself, including nested transactions, wait until the
+ * transaction has committed or aborted, so the callback must never await one.
+ */
+interface DatabaseTransaction {
+  get(key: string): Promise<any> // Resolves undefined for a missing key
+  put(key: string, value: any): void
+  del(key: string): void
+}
+
+/**
+ * Check whether a key falls inside a range.
+ * @param key - The key to check
+ * @param options - The range
+ * @returns True if the key is selected by the range bounds (ignoring limit)
+ */
+const isInRange = (key: string, options: RangeOptions): boolean => {
+  if (options.prefix !== undefined && !key.startsWith(options.prefix)) return false
+  if (options.gte !== undefined && key < options.gte) return false
+  if (options.lt !== undefined && key >= options.lt) return false
+  return true
+}
+
+/**
+ * Select, order and limit keys according to a range.
+ * @param keys - The candidate keys
+ * @param options - The range
+ * @returns The selected keys in iteration order
+ */
+const selectKeys = (keys: Iterable<string>, options: RangeOptions): string[] => {
+  const selected = Array.from(keys)
+    .filter((key) => isInRange(key, options))
+    .sort()
+  if (options.reverse) selected.reverse()
+  return options.limit !== undefined ? selected.slice(0, options.limit) : selected
+}
+
+/**
+ * Create a lock that runs tasks one at a time, in call order.
+ * @returns A function that runs a task once every earlier task has settled
+ */
+const createExclusiveLock = (): (<T>(task: () => Promise<T>) => Promise<T>) => {
+  let tail: Promise<unknown> = Promise.resolve()
+  return <T>(task: () => Promise<T>): Promise<T> => {
+    const run = tail.then(task)
+    tail = run.catch(() => undefined)
+    return run
+  }
+}
+
+/**
+ * Run a transaction callback against a Map, buffering its writes.
+ * @param data - The map holding committed data
+ * @param fn - The transaction callback
+ * @returns The callback result and the writes to apply
+ */
+const runMapTransaction = async <T>(
+  data: Map<string, any>,
+  fn: (tx: DatabaseTransaction) => Promise<T>
+): Promise<{ result: T; operations: BatchOperation[] }> => {
+  const pending = new Map<string, BatchOperation>()
+  const tx: DatabaseTransaction = {
+    /**
+     * Read a key, seeing writes made earlier in this transaction.
+     * @param key - The key to read
+     * @returns The value, or undefined if missing
+     */
+    get: async (key: string) => {
+      const op = pending.get(key)
+      if (op) return op.type === 'put' ? op.value : undefined
+      return data.get(key)
+    },
+    /**
+     * Buffer a write.
+     * @param key - The key to write
+     * @param value - The value to write
+     */
+    put: (key: string, value: any) => {
+      pending.set(key, { type: 'put', key, value })
+    },
+    /**
+     * Buffer a delete.
+     * @param key - The key to delete
+     */
+    del: (key: string) => {
+      pending.set(key, { type: 'del', key })
+    },
+  }
+  const result = await fn(tx)
+  return { result, operations: Array.from(pending.values()) }
+}
+
 /**
  * Get the IndexedDB factory from the global scope if available.
  * @returns The IDBFactory instance, or undefined if not available
@@ -38,6 +153,8 @@ const hasIndexedDBSupport = (): boolean => getIndexedDBFactory() !== undefined
 class InMemoryDatabase implements Database {
   /** Internal data store. */
   private data: Map<string, any> = new Map()
+  /** Serializes writes so transactions are atomic. */
+  private readonly exclusive = createExclusiveLock()
 
   /**
    * Retrieve a value by key from the in-memory store.
@@ -57,14 +174,22 @@ class InMemoryDatabase implements Database {
    * @param value - The value to store
    */
   async put (key: string, value: any): Promise<void> {
-    this.data.set(key, value)
+    await this.batch([{ type: 'put', key, value }])
   }
 
   /**
-   * Execute a batch of put/delete operations atomically in memory.
-   * @param operations - Array of batch operations to execute
+   * Delete a key from memory. Deleting a missing key is not an error.
+   * @param key - The key to delete
    */
-  async batch (operations: BatchOperation[]): Promise<void> {
+  async del (key: string): Promise<void> {
+    await this.batch([{ type: 'del', key }])
+  }
+
+  /**
+   * Apply put/delete operations to the map.
+   * @param operations - Array of batch operations to apply
+   */
+  private apply (operations: BatchOperation[]): void {
     for (const op of operations) {
       if (op.type === 'put') {
         this.data.set(op.key, op.value)
@@ -74,6 +199,14 @@ class InMemoryDatabase implements Database {
     }
   }
 
+  /**
+   * Execute a batch of put/delete operations atomically in memory.
+   * @param operations - Array of batch operations to execute
+   */
+  async batch (operations: BatchOperation[]): Promise<void> {
+    await this.exclusive(async () => this.apply(operations))
+  }
+
   /**
    * Get all keys stored in the in-memory database.
    * @returns Array of all stored keys
@@ -82,6 +215,54 @@ class InMemoryDatabase implements Database {
     return Array.from(this.data.keys())
   }
 
+  /**
+   * Iterate entries in key order. Keys deleted during iteration are skipped.
+   * @param options - Range of keys to visit
+   * @yields [key, value] pairs
+   */
+  async * iterator (options: RangeOptions = {}): AsyncIterableIterator<[string, any]> {
+    for (const key of selectKeys(this.data.keys(), options)) {
+      if (this.data.has(key)) yield [key, this.data.get(key)]
+    }
+  }
+
+  /**
+   * Iterate keys in order. Keys deleted during iteration are skipped.
+   * @param options - Range of keys to visit
+   * @yields Keys
+   */
+  async * keyIterator (options: RangeOptions = {}): AsyncIterableIterator<string> {
+    for await (const [key] of this.iterator(options)) {
+      yield key
+    }
+  }
+
+  /**
+   * Delete every key in a range.
+   * @param options - Range of keys to delete
+   * @returns The number of keys deleted
+   */
+  async delRange (options: RangeOptions): Promise<number> {
+    return this.exclusive(async () => {
+      const keys = selectKeys(this.data.keys(), options)
+      this.apply(keys.map((key) => ({ type: 'del', key })))
+      return keys.length
+    })
+  }
+
+  /**
+   * Run a read-modify-write transaction; no other write interleaves with it.
+   * @param fn - The transaction callback
+   * @returns The callback result
+   */
+  async transaction<T> (fn: (tx: DatabaseTransaction) => Promise<T>): Promise<T> {
+    return this.exclusive(async () => {
+      const { result, operations } = await runMapTransaction(this.data, fn)
+      this.apply(operations)
+      return result
+    })
+  }
+
   // Additional helper methods
   /**
    * Check if a key exists in the in-memory store.
@@ -102,6 +283,8 @@ class LocalStorageDatabase implements Database {
   private cache: Map<string, any> = new Map()
   /** The localStorage key used for persistence. */
   private readonly storageKey: string
+  /** Serializes writes so transactions are atomic. */
+  private readonly exclusive = createExclusiveLock()
 
   /**
    * Initialize the database and load existing data from localStorage.
@@ -166,15 +349,22 @@ class LocalStorageDatabase implements Database {
    * @param value - The value to store
    */
   async put (key: string, value: any): Promise<void> {
-    this.cache.set(key, value)
-    this.saveToStorage()
+    await this.batch([{ type: 'put', key, value }])
   }
 
   /**
-   * Execute a batch of put/delete operations and persist to localStorage.
-   * @param operations - Array of batch operations to execute
+   * Delete a key and persist to localStorage. Deleting a missing key is not an error.
+   * @param key - The key to delete
    */
-  async batch (operations: BatchOperation[]): Promise<void> {
+  async del (key: string): Promise<void> {
+    await this.batch([{ type: 'del', key }])
+  }
+
+  /**
+   * Apply put/delete operations to the cache and persist to localStorage.
+   * @param operations - Array of batch operations to apply
+   */
+  private apply (operations: BatchOperation[]): void {
     for (const op of operations) {
       if (op.type === 'put') {
         this.cache.set(op.key, op.value)
@@ -185,6 +375,14 @@ class LocalStorageDatabase implements Database {
     this.saveToStorage()
   }
 
+  /**
+   * Execute a batch of put/delete operations and persist to localStorage.
+   * @param operations - Array of batch operations to execute
+   */
+  async batch (operations: BatchOperation[]): Promise<void> {
+    await this.exclusive(async () => this.apply(operations))
+  }
+
   /**
    * Get all keys stored in the database.
    * @returns Array of all stored keys
@@ -193,6 +391,55 @@ class LocalStorageDatabase implements Database {
     return Array.from(this.cache.keys())
   }
 
+  /**
+   * Iterate entries in key order. Keys deleted during iteration are skipped.
+   * @param options - Range of keys to visit
+   * @yields [key, value] pairs
+   */
+  async * iterator (options: RangeOptions = {}): AsyncIterableIterator<[string, any]> {
+    for (const key of selectKeys(this.cache.keys(), options)) {
+      if (this.cache.has(key)) yield [key, this.cache.get(key)]
+    }
+  }
+
+  /**
+   * Iterate keys in order. Keys deleted during iteration are skipped.
+   * @param options - Range of keys to visit
+   * @yields Keys
+   */
+  async * keyIterator (options: RangeOptions = {}): AsyncIterableIterator<string> {
+    for await (const [key] of this.iterator(options)) {
+      yield key
+    }
+  }
+
+  /**
+   * Delete every key in a range and persist to localStorage.
+   * @param options - Range of keys to delete
+   * @returns The number of keys deleted
+   */
+  async delRange (options: RangeOptions): Promise<number> {
+    return this.exclusive(async () => {
+      const keys = selectKeys(this.cache.keys(), options)
+      this.apply(keys.map((key) => ({ type: 'del', key })))
+      return keys.length
+    })
+  }
+
+  /**
+   * Run a read-modify-write transaction; no other write interleaves with it, and its
+   * writes are persisted together.
+   * @param fn - The transaction callback
+   * @returns The callback result
+   */
+  async transaction<T> (fn: (tx: DatabaseTransaction) => Promise<T>): Promise<T> {
+    return this.exclusive(async () => {
+      const { result, operations } = await runMapTransaction(this.cache, fn)
+      this.apply(operations)
+      return result
+    })
+  }
+
   /**
    * Check if a key exists in the cache.
    * @param key - The key to check
@@ -238,6 +485,10 @@ class IndexedDBDatabase implements Database {
   private readonly indexedDBFactory: IDBFactory
   /** Schema version number for the IndexedDB database. */
   private readonly version: number
+  /** Number of entries read per transaction when iterating. */
+  private static readonly PAGE_SIZE = 500
+  /** Serializes writes so none starts while a transaction callback is running. */
+  private readonly exclusive = createExclusiveLock()
 
   /**
    * Open an IndexedDB database with the given name and options.
@@ -358,7 +609,7 @@ class IndexedDBDatabase implements Database {
    */
   async put (key: string, value: any): Promise<void> {
     const db = await this.getDatabase()
-    await new Promise<void>((resolve, reject) => {
+    await this.exclusive(() => new Promise<void>((resolve, reject) => {
       const tx = db.transaction(this.storeName, 'readwrite')
       /**
        * Resolve when the write transaction completes successfully.
@@ -379,7 +630,7 @@ class IndexedDBDatabase implements Database {
         reject(tx.error ?? new Error('IndexedDB transaction failed while writing value'))
       const store = tx.objectStore(this.storeName)
       store.put(value, key)
-    })
+    }))
   }
 
   /**
@@ -392,7 +643,7 @@ class IndexedDBDatabase implements Database {
     }
 
     const db = await this.getDatabase()
-    await new Promise<void>((resolve, reject) => {
+    await this.exclusive(() => new Promise<void>((resolve, reject) => {
       const tx = db.transaction(this.storeName, 'readwrite')
       /**
        * Resolve when the batch transaction completes successfully.
@@ -419,7 +670,7 @@ class IndexedDBDatabase implements Database {
           store.delete(op.key)
         }
       }
-    })
+    }))
   }
 
   /**
@@ -481,6 +732,267 @@ class IndexedDBDatabase implements Database {
     })
   }
 
+  /**
+   * Delete a key from IndexedDB. Deleting a missing key is not an error.
+   * @param key - The key to delete
+   */
+  async del (key: string): Promise<void> {
+    await this.batch([{ type: 'del', key }])
+  }
+
+  /**
+   * Convert a range into an IndexedDB key range.
+   * @param options - The range
+   * @returns The key range, undefined for an unbounded range, or null for an empty one
+   */
+  private toKeyRange (options: RangeOptions): IDBKeyRange | undefined | null {
+    let lower = options.gte
+    let upper = options.lt
+    if (options.prefix) {
+      if (lower === undefined || options.prefix > lower) lower = options.prefix
+      const prefixEnd = `${options.prefix}\uffff`
+      if (upper === undefined || prefixEnd < upper) upper = prefixEnd
+    }
+
+    if (lower !== undefined && upper !== undefined) {
+      return lower < upper ? IDBKeyRange.bound(lower, upper, false, true) : null
+    }
+    if (lower !== undefined) return IDBKeyRange.lowerBound(lower)
+    if (upper !== undefined) return IDBKeyRange.upperBound(upper, true)
+    return undefined
+  }
+
+  /**
+   * Read up to `count` entries of a range with a cursor, in one short-lived transaction.
+   * @param options - The range to read
+   * @param count - Maximum number of entries to read
+   * @param withValues - Whether to read values or only keys
+   * @returns The entries in iteration order (values are undefined when not read)
+   */
+  private async readPage (
+    options: RangeOptions,
+    count: number,
+    withValues: boolean
+  ): Promise<Array<[string, any]>> {
+    const range = this.toKeyRange(options)
+    if (range === null) return []
+
+    const db = await this.getDatabase()
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(this.storeName, 'readonly')
+      /**
+       * Reject if the range transaction is aborted.
+       * @returns The rejected promise
+       */
+      tx.onabort = () =>
+        reject(tx.error ?? new Error('IndexedDB transaction aborted while reading range'))
+      /**
+       * Reject if the range transaction encounters an error.
+       * @returns The rejected promise
+       */
+      tx.onerror = () =>
+        reject(tx.error ?? new Error('IndexedDB transaction failed while reading range'))
+      const store = tx.objectStore(this.storeName)
+      const direction = options.reverse ? 'prev' : 'next'
+      const cursorRequest = withValues
+        ? store.openCursor(range, direction)
+        : store.openKeyCursor(range, direction)
+
+      const entries: Array<[string, any]> = []
+      /** Collect entries until the page is full or the range is exhausted. */
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result
+        if (!cursor || entries.length >= count) {
+          resolve(entries)
+          return
+        }
+        const value = withValues ? (cursor as IDBCursorWithValue).value : undefined
+        entries.push([String(cursor.key), value])
+        cursor.continue()
+      }
+      /**
+       * Reject if the cursor request fails.
+       * @returns The rejected promise
+       */
+      cursorRequest.onerror = () =>
+        reject(cursorRequest.error ?? new Error('IndexedDB cursor failed while reading range'))
+    })
+  }
+
+  /**
+   * Iterate a range page by page, so each IndexedDB transaction stays short and callers
+   * may await other work between entries.
+   * @param options - The range to visit
+   * @param withValues - Whether to read values or only keys
+   * @yields [key, value] pairs
+   */
+  private async * iteratePages (
+    options: RangeOptions,
+    withValues: boolean
+  ): AsyncIterableIterator<[string, any]> {
+    let remaining = options.limit ?? Number.POSITIVE_INFINITY
+    let bounds: RangeOptions = { ...options }
+
+    while (remaining > 0) {
+      const requested = Math.min(IndexedDBDatabase.PAGE_SIZE, remaining)
+      const page = await this.readPage(bounds, requested, withValues)
+      yield * page
+      remaining -= page.length
+      if (page.length < requested) return
+
+      // Resume just past the last key read
+      const lastKey = page[page.length - 1]![0]
+      bounds = options.reverse
+        ? { ...bounds, lt: lastKey }
+        : { ...bounds, gte: `${lastKey}\u0000` }
+    }
+  }
+
+  /**
+   * Iterate entries in key order.
+   * @param options - Range of keys to visit
+   * @yields [key, value] pairs
+   */
+  async * iterator (options: RangeOptions = {}): AsyncIterableIterator<[string, any]> {
+    yield * this.iteratePages(options, true)
+  }
+
+  /**
+   * Iterate keys in order without loading values.
+   * @param options - Range of keys to visit
+   * @yields Keys
+   */
+  async * keyIterator (options: RangeOptions = {}): AsyncIterableIterator<string> {
+    for await (const [key] of this.iteratePages(options, false)) {
+      yield key
+    }
+  }
+
+  /**
+   * Delete every key in a range in a single transaction.
+   * @param options - Range of keys to delete
+   * @returns The number of keys deleted
+   */
+  async delRange (options: RangeOptions): Promise<number> {
+    const range = this.toKeyRange(options)
+    if (range === null) return 0
+
+    const db = await this.getDatabase()
+    return this.exclusive(() => new Promise((resolve, reject) => {
+      const tx = db.transaction(this.storeName, 'readwrite')
+      let deleted = 0
+      /**
+       * Resolve with the delete count when the transaction completes.
+       * @returns The resolved promise
+       */
+      tx.oncomplete = () => resolve(deleted)
+      /**
+       * Reject if the delete transaction is aborted.
+       * @returns The rejected promise
+       */
+      tx.onabort = () =>
+        reject(tx.error ?? new Error('IndexedDB transaction aborted while deleting range'))
+      /**
+       * Reject if the delete transaction encounters an error.
+       * @returns The rejected promise
+       */
+      tx.onerror = () =>
+        reject(tx.error ?? new Error('IndexedDB transaction failed while deleting range'))
+      const cursorRequest = tx
+        .objectStore(this.storeName)
+        .openCursor(range, options.reverse ? 'prev' : 'next')
+      /** Delete entries until the limit is reached or the range is exhausted. */
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result
+        if (!cursor || (options.limit !== undefined && deleted >= options.limit)) return
+        cursor.delete()
+        deleted++
+        cursor.continue()
+      }
+    }))
+  }
+
+  /**
+   * Read a value from an object store within an already open transaction.
+   * @param store - The object store of the open transaction
+   * @param key - The key to read
+   * @returns The value, or undefined if missing
+   */
+  private readFromStore (store: IDBObjectStore, key: string): Promise<any> {
+    return new Promise((resolve, reject) => {
+      const request = store.get(key)
+      /**
+       * Resolve with the retrieved value.
+       * @returns The resolved promise
+       */
+      request.onsuccess = () => resolve(request.result)
+      /**
+       * Reject if the get request fails.
+       * @returns The rejected promise
+       */
+      request.onerror = () =>
+        reject(request.error ?? new Error('IndexedDB request failed in transaction'))
+    })
+  }
+
+  /**
+   * Run a read-modify-write transaction inside one IndexedDB readwrite transaction; no other
+   * write starts until it settles. If the callback throws, the transaction is aborted and
+   * none of its writes apply.
+   * @param fn - The transaction callback; it must only await `get` calls on its handle
+   * @returns The callback result
+   */
+  async transaction<T> (fn: (tx: DatabaseTransaction) => Promise<T>): Promise<T> {
+    const db = await this.getDatabase()
+    return this.exclusive(() => new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(this.storeName, 'readwrite')
+      const store = tx.objectStore(this.storeName)
+      const handle: DatabaseTransaction = {
+        /**
+         * Read a key within the transaction.
+         * @param key - The key to read
+         * @returns The value, or undefined if missing
+         */
+        get: (key: string) => this.readFromStore(store, key),
+        /**
+         * Write a key within the transaction.
+         * @param key - The key to write
+         * @param value - The value to write
+         */
+        put: (key: string, value: any) => {
+          store.put(value, key)
+        },
+        /**
+         * Delete a key within the transaction.
+         * @param key - The key to delete
+         */
+        del: (key: string) => {
+          store.delete(key)
+        },
+      }
+
+      const outcome = fn(handle)
+      /**
+       * Resolve with the callback result once the writes are committed.
+       * @returns The settled promise
+       */
+      tx.oncomplete = () => outcome.then(resolve, reject)
+      /**
+       * Reject if the transaction is aborted.
+       * @returns The rejected promise
+       */
+      tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted'))
+      outcome.catch((error) => {
+        try {
+          tx.abort()
+        } catch {
+          // Already committed or aborted
+        }
+        reject(error)
+      })
+    }))
+  }
+
   /**
    * Check if a key exists in the IndexedDB store.
    * @param key - The key to check
@@ -496,7 +1008,7 @@ class IndexedDBDatabase implements Database {
    */
   async clear (): Promise<void> {
     const db = await this.getDatabase()
-    await new Promise<void>((resolve, reject) => {
+    await this.exclusive(() => new Promise<void>((resolve, reject) => {
       const tx = db.transaction(this.storeName, 'readwrite')
       /**
        * Resolve when the clear transaction completes successfully.
@@ -516,7 +1028,7 @@ class IndexedDBDatabase implements Database {
       tx.onerror = () =>
         reject(tx.error ?? new Error('IndexedDB transaction failed while clearing store'))
       tx.objectStore(this.storeName).clear()
-    })
+    }))
   }
 
   /**
@@ -580,7 +1092,7 @@ const createPersistentMerkletreeDatabase = (storageKey: string): Database => {
   return new InMemoryDatabase()
 }
 
-export type { Database, BatchOperation }
+export type { Database, BatchOperation, DatabaseTransaction, RangeOptions }
 export {
   InMemoryDatabase,
   LocalStorageDatabase,
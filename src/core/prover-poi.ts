@@ -8,9 +8,9 @@
  * Blinded commitments are passed separately as blindedCommitmentsOut for public inputs.
  */
 
-import type { RailgunArtifacts } from './artifacts'
-import { getArtifactsPOI } from './artifacts'
+import { assertProofVerified } from './snark-prover'
 
+import { ProofWorkerService } from '@/services/ProofWorkerService'
 import { ByteUtils } from '@/utils/crypto'
 import { MERKLE_ZERO_VALUE_BIGINT } from '@/utils/railgun-crypto'
 
@@ -249,25 +249,25 @@ function getCircuitSize (
 }
 
 /**
- * Generate PPOI proof using snarkjs.
+ * Generate PPOI proof using snarkjs on the proof worker, and verify it locally against the
+ * circuit's verification key before returning it.
  * @param inputs - PPOI proof inputs with PREIMAGE commitments in commitmentsOut
  * @param blindedCommitmentsOut - Blinded output commitments (for public inputs)
  * @param onProgress - Progress callback
+ * @param signal - Optional abort signal that cancels the proof
  * @returns The generated proof, public inputs, and public signals from the circuit
  */
 async function provePOI (
   inputs: POIProofInputs,
   blindedCommitmentsOut: string[],
-  onProgress?: (p: number) => void
+  onProgress?: (p: number) => void,
+  signal?: AbortSignal
 ): Promise<{ proof: Proof; publicInputs: PublicInputsPOI; publicSignals: string[] }> {
   // Determine circuit size
   const numInputs = inputs.nullifiers.length
   const numOutputs = inputs.commitmentsOut.length
   const { maxInputs, maxOutputs } = getCircuitSize(numInputs, numOutputs)
 
-  const artifacts: RailgunArtifacts = await getArtifactsPOI(maxInputs, maxOutputs)
-  onProgress?.(5)
-
   // Get public inputs
   const publicInputs = getPublicInputsPOI(
     inputs.anyRailgunTxidMerklerootAfterTransaction,
@@ -281,7 +281,8 @@ async function provePOI (
   // Format inputs for circuit
   const formattedInputs = formatPOIInputs(inputs, maxInputs, maxOutputs)
 
-  onProgress?.(10)
+  // Inputs are ready; the worker reports 10 once the circuit artifacts are loaded
+  onProgress?.(5)
 
   try {
     // Value conservation check — the circuit enforces totalIn >= totalOut
@@ -299,15 +300,14 @@ async function provePOI (
       )
     }
 
-    const snarkjs = await import('snarkjs')
-
-    const { proof, publicSignals } = await snarkjs.groth16.fullProve(
-      formattedInputs as any,
-      artifacts.wasm,
-      artifacts.zkey
+    const result = await ProofWorkerService.getInstance().prove(
+      { circuit: 'poi', maxInputs, maxOutputs, inputs: formattedInputs },
+      { onProgress, signal }
     )
+    const { proof, publicSignals } = result
 
-    onProgress?.(98)
+    // Never submit an invalid proof to the PPOI node
+    assertProofVerified(result, 'PPOI')
 
     // Format proof for PPOI node: Remove homogeneous coordinates and extra fields
     // snarkjs returns: pi_a: [x, y, 1], pi_b: [[x1, y1], [x2, y2], [1, 0]], pi_c: [x, y, 1]
@@ -327,21 +327,7 @@ async function provePOI (
       publicSignals, // Return the actual public signals from the circuit for verification
     }
   } catch (error) {
-    console.error('PPOI proof generation failed:', error)
-
-    if (error instanceof Error) {
-      if (
-        error.message.includes('could not allocate memory') ||
-        error.message.includes('out of memory')
-      ) {
-        throw new Error(
-          'Browser ran out of memory during PPOI proof generation. ' +
-            'Try restarting your browser, closing other tabs, or using a desktop browser. ' +
-            `Original error: ${error.message}`
-        )
-      }
-    }
-
+    if (!signal?.aborted) console.error('PPOI proof generation failed:', error)
     throw error
   }
 }
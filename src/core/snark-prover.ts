@@ -0,0 +1,164 @@
+import type { RailgunArtifacts } from './artifacts'
+import { getArtifacts, getArtifactsPOI } from './artifacts'
+
+import { dwarn } from '@/utils/debug'
+
+/**
+ * A proof to generate: which circuit, its size, and the formatted circuit inputs.
+ */
+type SnarkProofRequest =
+  | {
+    circuit: 'railgun'
+    nullifierCount: number
+    commitmentCount: number
+    inputs: Record<string, unknown>
+  }
+  | {
+    circuit: 'poi'
+    maxInputs: number
+    maxOutputs: number
+    inputs: Record<string, unknown>
+  }
+
+type SnarkProofResult = {
+  proof: any
+  publicSignals: string[]
+  vkey: any
+  verified: boolean // Whether the proof verified against vkey where it was generated
+}
+
+// Progress (0-100) reached when snarkjs logs the start of each proving stage.
+// Witness calculation runs before the first stage and has no logging of its own.
+const PROVING_STAGE_PROGRESS: Array<[string, number]> = [
+  ['Reading Wtns', 35],
+  ['Building ABC', 40],
+  ['Join ABC', 55],
+  ['Reading A Points', 60],
+  ['Reading B1 Points', 68],
+  ['Reading B2 Points', 75],
+  ['Reading C Points', 85],
+  ['Reading H Points', 90],
+]
+
+/**
+ * Load the artifacts of the requested circuit from ArtifactDownloadService.
+ * @param request - The proof request
+ * @returns The circuit's wasm, zkey and vkey
+ */
+const loadArtifacts = (request: SnarkProofRequest): Promise<RailgunArtifacts> =>
+  request.circuit === 'railgun'
+    ? getArtifacts(request.nullifierCount, request.commitmentCount)
+    : getArtifactsPOI(request.maxInputs, request.maxOutputs)
+
+/**
+ * Generate a Groth16 proof with snarkjs, reporting witness and proving progress, and verify it
+ * against the circuit's verification key. Runs inside the proof worker, or on the main thread
+ * where workers are unavailable, so verification never runs on the main thread separately.
+ * @param request - The circuit and its formatted inputs
+ * @param onProgress - Optional callback receiving progress from 0 to 100
+ * @returns The proof, public signals, verification key and verification result
+ */
+const generateSnarkProof = async (
+  request: SnarkProofRequest,
+  onProgress?: (progress: number) => void
+): Promise<SnarkProofResult> => {
+  const artifacts = await loadArtifacts(request)
+  onProgress?.(10)
+
+  try {
+    const snarkjs = await import('snarkjs')
+
+    if (typeof SharedArrayBuffer === 'undefined') {
+      dwarn('SharedArrayBuffer not available - proof generation may fail due to memory limits')
+    }
+
+    onProgress?.(15) // Witness calculation starts
+    let stage = -1
+    /**
+     * Advance progress when snarkjs logs the start of a proving stage.
+     * @param message - The snarkjs debug message
+     */
+    const onLog = (message: string) => {
+      const next = PROVING_STAGE_PROGRESS.findIndex(([prefix]) => message.startsWith(prefix))
+      if (next > stage) {
+        stage = next
+        onProgress?.(PROVING_STAGE_PROGRESS[next]![1])
+      }
+    }
+    const logger = {
+      debug: onLog,
+      info: onLog,
+      /**
+       * Ignore snarkjs warnings.
+       */
+      warn: () => {},
+      /**
+       * Ignore snarkjs errors; failures surface as a rejected proof.
+       */
+      error: () => {},
+    }
+
+    const { proof, publicSignals } = await snarkjs.groth16.fullProve(
+      request.inputs,
+      artifacts.wasm,
+      artifacts.zkey,
+      logger
+    )
+    onProgress?.(95)
+
+    let verified = false
+    try {
+      verified = await snarkjs.groth16.verify(artifacts.vkey, publicSignals, proof)
+    } catch (error) {
+      dwarn(`Could not verify ${request.circuit} proof:`, error)
+    }
+    onProgress?.(98)
+
+    return { proof, publicSignals, vkey: artifacts.vkey, verified }
+  } catch (error) {
+    if (error instanceof Error) {
+      if (
+        error.message.includes('could not allocate memory') ||
+        error.message.includes('out of memory')
+      ) {
+        throw new Error(
+          `Browser ran out of memory during ${request.circuit === 'poi' ? 'PPOI ' : ''}proof generation. ` +
+            'Try restarting your browser, closing other tabs, or using a desktop browser. ' +
+            `Original error: ${error.message}`
+        )
+      }
+    }
+    throw error
+  }
+}
+
+/**
+ * A generated proof did not verify against its circuit's verification key.
+ * Raised before anything is broadcast or submitted, so no gas or PPOI submission is wasted.
+ */
+class ProofVerificationError extends Error {
+  /**
+   * Create the error for a failed local verification.
+   * @param circuitLabel - Human-readable name of the circuit, e.g. "transaction" or "PPOI"
+   */
+  constructor (circuitLabel: string) {
+    super(
+      `Generated ${circuitLabel} proof failed local verification, so it was not submitted. ` +
+        'Refresh your balances and try again.'
+    )
+    this.name = 'ProofVerificationError'
+  }
+}
+
+/**
+ * Check that the prover verified a freshly generated proof.
+ * @param result - The proof and verification result returned by the prover
+ * @param circuitLabel - Human-readable name of the circuit, used in the error message
+ * @throws ProofVerificationError if the proof is invalid or could not be verified
+ */
+const assertProofVerified = (result: SnarkProofResult, circuitLabel: string): void => {
+  if (!result.verified) throw new ProofVerificationError(circuitLabel)
+}
+
+export type { SnarkProofRequest, SnarkProofResult }
+export { assertProofVerified, generateSnarkProof, ProofVerificationError }
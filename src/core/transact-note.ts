@@ -164,6 +164,25 @@ class TransactNote {
     )
   }
 
+  /**
+   * Create a copy of this note for a different value, with fresh note randomness.
+   * Used when one output has to be funded by several transactions.
+   * @param value - The token amount in base units for the new note
+   * @returns A new TransactNote with the same receiver, token, sender visibility and memo
+   */
+  newNoteWithValue (value: bigint): TransactNote {
+    return new TransactNote(
+      this.receiverAddressData,
+      this.senderAddressData,
+      TransactNote.getNoteRandom(),
+      value,
+      this.tokenData,
+      this.outputType,
+      this.senderRandom,
+      this.memoText
+    )
+  }
+
   /**
    * Validate that the random value is exactly 16 bytes (128 bits).
    * @param random - The random hex string to validate
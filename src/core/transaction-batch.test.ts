@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest'
+
+import { TransactionBatch } from './transaction-batch'
+
+import type { DecryptedCommitment } from '@/types/wallet'
+
+/**
+ * Build a note at a merkle tree position; only the location matters for chunking.
+ * @param treeNumber - The note's tree
+ * @param position - The note's position in the tree
+ * @returns The note
+ */
+const noteAt = (treeNumber: number, position: number): DecryptedCommitment => ({
+  id: `${treeNumber}:${position}`,
+  hash: '0x01',
+  txid: '0x02',
+  blockNumber: 1,
+  treeNumber,
+  batchStartTreePosition: position,
+  position,
+  commitmentType: 'TransactCommitment',
+  tokenAddress: '0x0000000000000000000000000000000000000001',
+  tokenType: 0,
+  tokenSubID: '0',
+  value: 1n,
+  npk: '0x03',
+  isSpent: false,
+  timestamp: 0,
+  random: '0x04',
+})
+
+/**
+ * Describe chunks by note location, for readable assertions.
+ * @param chunks - The chunks returned by chunkUTXOsByTreeAndCircuit
+ * @returns The note IDs of each chunk
+ */
+const idsOf = (chunks: DecryptedCommitment[][]): string[][] =>
+  chunks.map((chunk) => chunk.map((note) => note.id))
+
+describe('TransactionBatch.chunkUTXOsByTreeAndCircuit', () => {
+  it('returns no chunks for no notes', () => {
+    expect(TransactionBatch.chunkUTXOsByTreeAndCircuit([])).toEqual([])
+  })
+
+  it('keeps notes from one tree that fit one circuit together', () => {
+    const notes = [noteAt(0, 5), noteAt(0, 1), noteAt(0, 9)]
+
+    expect(idsOf(TransactionBatch.chunkUTXOsByTreeAndCircuit(notes))).toEqual([
+      ['0:5', '0:1', '0:9'],
+    ])
+  })
+
+  it('never mixes merkle trees in one chunk, ordering chunks by tree', () => {
+    const notes = [noteAt(1, 0), noteAt(0, 3), noteAt(1, 2), noteAt(0, 4)]
+
+    expect(idsOf(TransactionBatch.chunkUTXOsByTreeAndCircuit(notes))).toEqual([
+      ['0:3', '0:4'],
+      ['1:0', '1:2'],
+    ])
+  })
+
+  it('splits a tree into chunks of at most 13 notes, keeping spending order', () => {
+    const notes = Array.from({ length: 30 }, (_, i) => noteAt(0, i))
+
+    const chunks = TransactionBatch.chunkUTXOsByTreeAndCircuit(notes)
+
+    expect(chunks.map((chunk) => chunk.length)).toEqual([13, 13, 4])
+    expect(chunks.flat()).toEqual(notes)
+  })
+
+  it('splits each tree separately', () => {
+    const notes = [
+      ...Array.from({ length: 14 }, (_, i) => noteAt(2, i)),
+      ...Array.from({ length: 13 }, (_, i) => noteAt(0, i)),
+    ]
+
+    const chunks = TransactionBatch.chunkUTXOsByTreeAndCircuit(notes)
+
+    expect(chunks.map((chunk) => [chunk[0]!.treeNumber, chunk.length])).toEqual([
+      [0, 13],
+      [2, 13],
+      [2, 1],
+    ])
+  })
+})
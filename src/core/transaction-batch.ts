@@ -1,17 +1,26 @@
 import { InMemoryDatabase } from './merkletrees/database'
 import type { TokenData, TokenType } from './transact-note'
 import { TransactNote } from './transact-note'
-import type { AdaptID, Chain, TXO, UnshieldData } from './transaction'
+import type { AdaptID, Chain, TXO, UTXOMerkleProof, UnshieldData } from './transaction'
 import { Transaction } from './transaction'
 
-import { OnChainBalanceScanner } from '@/services/OnChainBalanceScanner'
+import { BalanceScannerRouter } from '@/services/BalanceScannerRouter'
 import { POIService } from '@/services/POIService'
-import { SubsquidBalanceScanner } from '@/services/SubsquidBalanceScanner'
 import { NetworkName } from '@/types/network'
-import type { DecryptedCommitment, RailgunWallet } from '@/types/wallet'
+import type { DecryptedCommitment, RailgunWallet, UTXOReference } from '@/types/wallet'
+import { blindedCommitmentOf } from '@/utils/blinded-commitment'
+import { dlog } from '@/utils/debug'
 import { getTokenDataHash } from '@/utils/railgun-crypto'
 
-export interface SpendingSolutionGroup {
+// The largest RAILGUN V2 circuit accepts 13 nullifiers
+const MAX_INPUTS_PER_TRANSACTION = 13
+
+/**
+ * A note carried by an offline signing request, with the merkle proof exported alongside it.
+ */
+type OfflineNote = DecryptedCommitment & { merkleProof: UTXOMerkleProof }
+
+interface SpendingSolutionGroup {
   tokenData: TokenData
   utxos: TXO[]
   spendingTree: number
@@ -23,7 +32,7 @@ export interface SpendingSolutionGroup {
 /**
  * Manages a batch of RAILGUN transaction outputs and generates spending solution groups.
  */
-export class TransactionBatch {
+class TransactionBatch {
   /** The adapt ID for cross-contract calls, defaults to zero address. */
   private adaptID: AdaptID = {
     contract: '0x0000000000000000000000000000000000000000',
@@ -38,6 +47,10 @@ export class TransactionBatch {
   private overallBatchMinGasPrice: bigint
   /** The network this transaction batch targets. */
   private networkName: NetworkName
+  /** Notes pinned by the user for spending; when set, replaces automatic selection for their tokens. */
+  private pinnedUTXOs: UTXOReference[] = []
+  /** Notes from an offline signing request; when set, they replace the balance scanner's notes. */
+  private offlineNotes: OfflineNote[] | null = null
 
   /**
    * Creates a new TransactionBatch for the given network.
@@ -104,6 +117,36 @@ export class TransactionBatch {
     this.unshieldDataMap = {}
   }
 
+  /**
+   * Pins the exact notes to spend. Tokens with at least one pinned note are funded only
+   * from those notes; other tokens keep automatic selection.
+   * @param utxos - Tree/position references of the notes to spend
+   */
+  setPinnedUTXOs (utxos: UTXOReference[]) {
+    this.pinnedUTXOs = [...utxos]
+  }
+
+  /**
+   * Clears any pinned note selection, restoring automatic selection.
+   */
+  resetPinnedUTXOs () {
+    this.pinnedUTXOs = []
+  }
+
+  /**
+   * Spends exactly the notes of an offline signing request instead of the scanner's notes.
+   * Their spendability and PPOI status were checked when the request was exported, and their
+   * merkle proofs are attached to the resulting TXOs so no network access is needed.
+   * @param notes - The notes exported with the request
+   */
+  setOfflineNotes (notes: OfflineNote[]) {
+    this.offlineNotes = [...notes]
+    this.pinnedUTXOs = notes.map((note) => ({
+      treeNumber: note.treeNumber,
+      position: note.position,
+    }))
+  }
+
   /**
    * Returns the total unshield value for a token, or zero if none registered.
    * @param tokenHash - The token data hash to look up
@@ -114,9 +157,11 @@ export class TransactionBatch {
   }
 
   /**
-   * Generate spending solution groups for all outputs
+   * Generate spending solution groups for all outputs. A token normally gets one group; when
+   * its notes span several merkle trees or more inputs than one circuit accepts, it gets one
+   * group per tree and circuit-sized chunk, and all of them must be submitted together.
    * @param wallet - The wallet to select spendable UTXOs from
-   * @returns Array of spending solution groups, one per token
+   * @returns Array of spending solution groups, one or more per token
    */
   async generateSpendingSolutionGroups (wallet: RailgunWallet): Promise<SpendingSolutionGroup[]> {
     const tokenDatas = this.getOutputTokenDatas()
@@ -132,53 +177,34 @@ export class TransactionBatch {
 
       if (totalRequired === 0n) continue
 
-      // Get available UTXOs from balance scanner
-      // Use OnChainBalanceScanner for Hardhat, SubsquidBalanceScanner for other networks
-      let allUTXOs: any[]
-      if (this.networkName === 'Hardhat') {
-        const scanner = OnChainBalanceScanner.getInstance()
-        allUTXOs = scanner.getDecryptedCommitmentsForWallet(wallet.id)
-      } else {
-        const scanner = SubsquidBalanceScanner.getInstance()
-        allUTXOs = scanner.getDecryptedCommitmentsForWallet(wallet.id)
-      }
-
-      // Filter UTXOs: unspent, matching token, and valid PPOI status
-      const poiService = POIService.getInstance()
-      const subsquidScanner =
-        this.networkName !== 'Hardhat' ? SubsquidBalanceScanner.getInstance() : null
-
-      const availableUTXOs = allUTXOs
-        .filter((utxo: DecryptedCommitment) => {
-          const isNotSpent = !utxo.isSpent
-          const tokenMatch =
-            utxo.tokenAddress.toLowerCase() === tokenData.tokenAddress.toLowerCase()
-          if (!isNotSpent || !tokenMatch || utxo.isSentToOther) return false
-
-          // Enforce PPOI: only spend UTXOs with valid PPOI status (skip for Hardhat local testnet)
-          if (subsquidScanner) {
-            const blindedCommitment = subsquidScanner.blindedCommitmentOf(utxo)
-            const commitmentType =
-              utxo.commitmentType === 'ShieldCommitment' ? 'Shield' : 'Transact'
-            const cachedStatus = poiService.getPOIStatusForCommitmentsFromCacheOnly(
-              this.networkName,
-              [{ blindedCommitment, type: commitmentType as 'Shield' | 'Transact' | 'Unshield' }]
-            )
-            const poiStatus = cachedStatus[blindedCommitment]?.status
-            return poiStatus === 'valid'
-          }
-          return true
-        })
+      const availableUTXOs = this.getSpendableUTXOs(wallet, tokenData)
         .sort((a: DecryptedCommitment, b: DecryptedCommitment) => Number(b.value - a.value)) // Sort by value descending
 
-      // Simple greedy selection
+      const pinnedForToken = this.getPinnedUTXOsForToken(wallet, tokenData, availableUTXOs)
+
       let totalSelected = 0n
       const selectedUTXOs: DecryptedCommitment[] = []
 
-      for (const utxo of availableUTXOs) {
-        if (totalSelected >= totalRequired) break
-        selectedUTXOs.push(utxo)
-        totalSelected += utxo.value
+      if (pinnedForToken) {
+        // Manual coin control: spend exactly the pinned notes
+        for (const utxo of pinnedForToken) {
+          selectedUTXOs.push(utxo)
+          totalSelected += utxo.value
+        }
+
+        if (totalSelected < totalRequired) {
+          throw new Error(
+            `Selected notes for ${tokenData.tokenAddress} are not enough. ` +
+              `Required: ${totalRequired.toString()}, selected: ${totalSelected.toString()}.`
+          )
+        }
+      } else {
+        // Simple greedy selection
+        for (const utxo of availableUTXOs) {
+          if (totalSelected >= totalRequired) break
+          selectedUTXOs.push(utxo)
+          totalSelected += utxo.value
+        }
       }
 
       if (totalSelected < totalRequired) {
@@ -189,19 +215,180 @@ export class TransactionBatch {
         )
       }
 
-      spendingSolutionGroups.push({
-        tokenData,
-        utxos: this.convertToTXOs(selectedUTXOs),
-        spendingTree: selectedUTXOs[0]?.treeNumber ?? 0,
-        amount: totalSelected,
-        tokenOutputs,
-        unshieldValue,
-      })
+      const utxoChunks = TransactionBatch.chunkUTXOsByTreeAndCircuit(selectedUTXOs)
+
+      if (utxoChunks.length === 1) {
+        spendingSolutionGroups.push({
+          tokenData,
+          utxos: this.convertToTXOs(selectedUTXOs),
+          spendingTree: selectedUTXOs[0]?.treeNumber ?? 0,
+          amount: totalSelected,
+          tokenOutputs,
+          unshieldValue,
+        })
+        continue
+      }
+
+      // Several transactions fund this token: split outputs and unshield across them in order.
+      // A partially funded output is re-created per transaction, so its receiver gets several notes.
+      const pendingOutputs = tokenOutputs.map((note) => ({ note, remaining: note.value }))
+      let unshieldRemaining = unshieldValue
+
+      for (const chunk of utxoChunks) {
+        const chunkAmount = chunk.reduce((sum, utxo) => sum + utxo.value, 0n)
+        let capacity = chunkAmount
+        const chunkOutputs: TransactNote[] = []
+
+        while (capacity > 0n && pendingOutputs.length > 0) {
+          const pending = pendingOutputs[0]!
+          const piece = pending.remaining < capacity ? pending.remaining : capacity
+          chunkOutputs.push(
+            piece === pending.note.value ? pending.note : pending.note.newNoteWithValue(piece)
+          )
+          pending.remaining -= piece
+          capacity -= piece
+          if (pending.remaining === 0n) pendingOutputs.shift()
+        }
+
+        const chunkUnshield = unshieldRemaining < capacity ? unshieldRemaining : capacity
+        unshieldRemaining -= chunkUnshield
+
+        spendingSolutionGroups.push({
+          tokenData,
+          utxos: this.convertToTXOs(chunk),
+          spendingTree: chunk[0]!.treeNumber,
+          amount: chunkAmount,
+          tokenOutputs: chunkOutputs,
+          unshieldValue: chunkUnshield,
+        })
+      }
+
+      dlog(
+        `Split ${selectedUTXOs.length} notes for ${tokenData.tokenAddress} into ${utxoChunks.length} transactions`
+      )
     }
 
     return spendingSolutionGroups
   }
 
+  /**
+   * Splits selected notes into groups that can each be spent by one transaction:
+   * all notes in a group share a merkle tree and a group never exceeds the largest circuit.
+   * @param utxos - The selected notes, in preferred spending order
+   * @returns Groups of notes, each destined for its own transaction
+   */
+  static chunkUTXOsByTreeAndCircuit (utxos: DecryptedCommitment[]): DecryptedCommitment[][] {
+    const byTree = new Map<number, DecryptedCommitment[]>()
+    for (const utxo of utxos) {
+      const treeUTXOs = byTree.get(utxo.treeNumber) ?? []
+      treeUTXOs.push(utxo)
+      byTree.set(utxo.treeNumber, treeUTXOs)
+    }
+
+    const chunks: DecryptedCommitment[][] = []
+    const trees = Array.from(byTree.keys()).sort((a, b) => a - b)
+    for (const tree of trees) {
+      const treeUTXOs = byTree.get(tree)!
+      for (let i = 0; i < treeUTXOs.length; i += MAX_INPUTS_PER_TRANSACTION) {
+        chunks.push(treeUTXOs.slice(i, i + MAX_INPUTS_PER_TRANSACTION))
+      }
+    }
+    return chunks
+  }
+
+  /**
+   * Returns every decrypted note the balance scanner holds for the wallet, or the offline
+   * request's notes when building from one.
+   * @param wallet - The wallet whose scanned notes are returned
+   * @returns The wallet's decrypted commitments
+   */
+  getWalletUTXOs (wallet: RailgunWallet): DecryptedCommitment[] {
+    if (this.offlineNotes) return this.offlineNotes
+
+    // Notes come from whichever scanner (indexer or RPC) served the wallet's last scan
+    return BalanceScannerRouter.getInstance().getDecryptedCommitmentsForWallet(
+      wallet.id,
+      this.networkName
+    )
+  }
+
+  /**
+   * Lists the wallet's notes for a token that may be spent: unspent, owned by us and,
+   * outside Hardhat, with a valid PPOI status in the local cache.
+   * @param wallet - The wallet whose scanned notes are used
+   * @param tokenData - The token to filter notes by
+   * @returns The spendable decrypted commitments, in scanner order
+   */
+  private getSpendableUTXOs (wallet: RailgunWallet, tokenData: TokenData): DecryptedCommitment[] {
+    const allUTXOs = this.getWalletUTXOs(wallet)
+
+    // Filter UTXOs: unspent, matching token, and valid PPOI status
+    const poiService = POIService.getInstance()
+    const enforcePOI = this.networkName !== 'Hardhat' && !this.offlineNotes
+
+    return allUTXOs.filter((utxo: DecryptedCommitment) => {
+      const isNotSpent = !utxo.isSpent
+      const tokenMatch =
+        utxo.tokenAddress.toLowerCase() === tokenData.tokenAddress.toLowerCase()
+      if (!isNotSpent || !tokenMatch || utxo.isSentToOther) return false
+
+      // Enforce PPOI: only spend UTXOs with valid PPOI status (skip for Hardhat local testnet and
+      // offline requests, whose notes were checked on export)
+      if (enforcePOI) {
+        const blindedCommitment = blindedCommitmentOf(utxo)
+        const commitmentType =
+          utxo.commitmentType === 'ShieldCommitment' ? 'Shield' : 'Transact'
+        const cachedStatus = poiService.getPOIStatusForCommitmentsFromCacheOnly(
+          this.networkName,
+          [{ blindedCommitment, type: commitmentType as 'Shield' | 'Transact' | 'Unshield' }]
+        )
+        const poiStatus = cachedStatus[blindedCommitment]?.status
+        return poiStatus === 'valid'
+      }
+      return true
+    })
+  }
+
+  /**
+   * Resolves the pinned notes that belong to a token against the wallet's notes.
+   * @param wallet - The wallet whose scanned notes are used
+   * @param tokenData - The token being funded
+   * @param spendableUTXOs - The token's currently spendable notes
+   * @returns The pinned notes for this token, or undefined when none are pinned for it
+   */
+  private getPinnedUTXOsForToken (
+    wallet: RailgunWallet,
+    tokenData: TokenData,
+    spendableUTXOs: DecryptedCommitment[]
+  ): DecryptedCommitment[] | undefined {
+    if (this.pinnedUTXOs.length === 0) return undefined
+
+    const allUTXOs = this.getWalletUTXOs(wallet)
+    const tokenAddress = tokenData.tokenAddress.toLowerCase()
+
+    const pinned: DecryptedCommitment[] = []
+    for (const ref of this.pinnedUTXOs) {
+      const utxo = allUTXOs.find(
+        (c) => c.treeNumber === ref.treeNumber && c.position === ref.position && !c.isSentToOther
+      )
+      if (!utxo) {
+        throw new Error(`Selected note ${ref.treeNumber}:${ref.position} was not found in this wallet.`)
+      }
+      if (utxo.tokenAddress.toLowerCase() !== tokenAddress) continue
+      const spendable = spendableUTXOs.find(
+        (c) => c.treeNumber === ref.treeNumber && c.position === ref.position
+      )
+      if (!spendable) {
+        throw new Error(
+          `Selected note ${ref.treeNumber}:${ref.position} is not spendable (already spent or PPOI not valid).`
+        )
+      }
+      pinned.push(spendable)
+    }
+
+    return pinned.length > 0 ? pinned : undefined
+  }
+
   /**
    * Convert DecryptedCommitment objects to TXO objects
    * @param commitments - Array of decrypted commitments to convert
@@ -238,6 +425,9 @@ export class TransactionBatch {
       if ((commitment as any).blindedCommitment) {
         txo.blindedCommitment = (commitment as any).blindedCommitment
       }
+      if ('merkleProof' in commitment) {
+        txo.merkleProof = (commitment as OfflineNote).merkleProof
+      }
       if ((commitment as any).transactCreationRailgunTxid) {
         txo.transactCreationRailgunTxid = (commitment as any).transactCreationRailgunTxid
       }
@@ -385,3 +575,6 @@ export class TransactionBatch {
     }
   }
 }
+
+export type { OfflineNote, SpendingSolutionGroup }
+export { TransactionBatch }
@@ -10,6 +10,7 @@ import { TokenType, TransactNote } from './transact-note'
 import RailgunSmartWalletABI from '@/core/abis/RailgunSmartWallet.json'
 import { SentTransactionStorage } from '@/services/SentTransactionStorage'
 import { SubsquidBalanceScanner } from '@/services/SubsquidBalanceScanner'
+import { UTXOMerkletreeService } from '@/services/UTXOMerkletreeService'
 import type { Chain, CommitmentCiphertextStruct } from '@/types/core'
 import { NETWORK_CONFIG, NetworkName } from '@/types/network'
 import type { RailgunWallet } from '@/types/wallet'
@@ -44,6 +45,14 @@ interface TXO {
   transactCreationRailgunTxid?: string
   commitmentType: number
   nullifier: string
+  merkleProof?: UTXOMerkleProof // exported with an offline signing request; fetched when absent
+}
+
+interface UTXOMerkleProof {
+  leaf: string
+  elements: string[]
+  indices: string
+  root: string
 }
 
 interface UnshieldData {
@@ -391,26 +400,17 @@ class Transaction {
     const pathElements: bigint[][] = []
     const pathIndices: bigint[] = []
 
-    // Store the merkle root from the first proof
-    // All UTXOs spent in the same transaction must have proofs with the same merkle root
-    let merkleRoot: string | undefined
+    const proofs = await this.getMerkleProofs()
+    // All UTXOs spent in the same transaction have proofs with the same merkle root
+    const merkleRoot = proofs[0]?.root
 
-    for (const utxo of this.utxos) {
+    this.utxos.forEach((utxo, index) => {
       nullifiers.push(TransactNote.getNullifier(nullifyingKey, utxo.position))
-
-      const proof = await this.getUTXOMerkleProof(utxo.tree, utxo.position)
-
-      if (!merkleRoot) {
-        merkleRoot = proof.root
-      } else if (proof.root.toLowerCase() !== merkleRoot.toLowerCase()) {
-        throw new Error(
-          `Merkle root mismatch: UTXO at position ${utxo.position} has root ${proof.root} but expected ${merkleRoot}`
-        )
-      }
-
-      pathElements.push(proof.elements.map((element: string) => ByteUtils.hexToBigInt(element)))
+      pathElements.push(
+        proofs[index]!.elements.map((element: string) => ByteUtils.hexToBigInt(element))
+      )
       pathIndices.push(BigInt(utxo.position))
-    }
+    })
 
     const allOutputs: (TransactNote | UnshieldNote)[] = [...this.tokenOutputs]
 
@@ -439,6 +439,7 @@ class Transaction {
           tokenType: this.tokenData.tokenType,
           tokenSubID: this.tokenData.tokenSubID,
           recipientAddress: transactNote.receiverAddressData.masterPublicKey.toString(), // Store MPK as identifier
+          ...(transactNote.memoText ? { memoText: transactNote.memoText } : {}),
           timestamp: Date.now(),
         }
       })
@@ -613,6 +614,29 @@ class Transaction {
     }
   }
 
+  /**
+   * Get the merkle proofs of the UTXOs being spent, in input order. Proofs carried by the
+   * UTXOs (from an offline signing request) are used as is; the rest are built from the network.
+   * @returns One merkle proof per UTXO, all against the same merkle root
+   */
+  async getMerkleProofs (): Promise<UTXOMerkleProof[]> {
+    const proofs: UTXOMerkleProof[] = []
+
+    for (const utxo of this.utxos) {
+      const proof = utxo.merkleProof ?? (await this.getUTXOMerkleProof(utxo.tree, utxo.position))
+
+      const merkleRoot = proofs[0]?.root
+      if (merkleRoot && proof.root.toLowerCase() !== merkleRoot.toLowerCase()) {
+        throw new Error(
+          `Merkle root mismatch: UTXO at position ${utxo.position} has root ${proof.root} but expected ${merkleRoot}`
+        )
+      }
+      proofs.push(proof)
+    }
+
+    return proofs
+  }
+
   /**
    * Generate EDDSA signature exactly as in RailgunWallet.sign().
    * Creates message hash and signs with spending private key.
@@ -683,11 +707,13 @@ class Transaction {
    * Generate proved transaction by running the snark prover on formatted inputs.
    * @param unprovedInputs - The unproved transaction inputs including private inputs, public inputs, and signature.
    * @param progressCallback - Optional callback receiving progress percentage (0-100).
+   * @param signal - Optional abort signal that cancels proof generation.
    * @returns The fully proved TransactionStruct ready for on-chain submission.
    */
   async generateProvedTransaction (
     unprovedInputs: UnprovedTransactionInputs,
-    progressCallback?: (progress: number) => void
+    progressCallback?: (progress: number) => void,
+    signal?: AbortSignal
   ): Promise<TransactionStruct> {
     progressCallback?.(0)
 
@@ -701,6 +727,7 @@ class Transaction {
 
       // Import our real prover
       const { proveRailgunV2 } = await import('./prover')
+      const { assertProofVerified } = await import('./snark-prover')
 
       // Determine circuit size
       //  Circuit has outputs for BOTH internal notes AND unshield
@@ -719,11 +746,15 @@ class Transaction {
         (progress: number) => {
           const adjustedProgress = 20 + progress * 0.7
           progressCallback?.(Math.floor(adjustedProgress))
-        }
+        },
+        signal
       )
 
       progressCallback?.(95)
 
+      // Never hand an invalid proof to the contract: it would revert and still cost gas
+      assertProofVerified(result, 'transaction')
+
       // Format proof
       const proof = this.formatProof(result.proof)
 
@@ -737,7 +768,7 @@ class Transaction {
         this.unshieldNote.preImage
       )
     } catch (error) {
-      console.error('RAILGUN: Proof generation failed:', error)
+      if (!signal?.aborted) console.error('RAILGUN: Proof generation failed:', error)
       throw error
     }
   }
@@ -853,8 +884,19 @@ class Transaction {
     tree: number,
     position: number,
     maxBlockNumber?: number
-  ): Promise<{ leaf: string; elements: string[]; indices: string; root: string }> {
+  ): Promise<UTXOMerkleProof> {
     try {
+      // Current proofs come from the persistent, incrementally synced tree when the network has one
+      if (maxBlockNumber === undefined) {
+        const networkName = Object.values(NETWORK_CONFIG).find(
+          (config) => config.chainId === this.chain.id
+        )?.name
+        const proof = networkName
+          ? await UTXOMerkletreeService.getInstance().getMerkleProof(networkName, tree, position)
+          : null
+        if (proof) return proof
+      }
+
       // For historical merkle roots, create a fresh in-memory database to avoid cache pollution
       // This ensures we get the correct historical root without interference from current state
       const db = maxBlockNumber !== undefined ? new InMemoryDatabase() : this.db
@@ -1152,6 +1194,7 @@ export type {
   Chain,
   AdaptID,
   TXO,
+  UTXOMerkleProof,
   UnshieldData,
   GlobalBoundParams,
   PrivateInputsRailgun,
@@ -0,0 +1,130 @@
+import type { ethers } from 'ethers'
+
+import { SubsquidBalanceScanner } from './SubsquidBalanceScanner'
+
+import type { NetworkName } from '@/types/network'
+import type { RailgunWallet, SubsquidCommitment } from '@/types/wallet'
+import { deriveWalletFromMnemonic } from '@/utils/crypto'
+import { dlog, dwarn } from '@/utils/debug'
+
+type DiscoveredAccount = {
+  derivationIndex: number
+  address: string
+  ethereumAddress: string
+  hasPrivateActivity: boolean
+  hasPublicActivity: boolean
+}
+
+type AccountDiscoveryOptions = {
+  gapLimit?: number // Stop after this many consecutive unused indices
+  maxIndex?: number // Never derive past this index
+  passphrase?: string // BIP39 passphrase of the mnemonic, if any
+}
+
+const DEFAULT_GAP_LIMIT = 3
+const DEFAULT_MAX_INDEX = 20
+
+/**
+ * Finds which derivation indices of a mnemonic have been used, so their accounts can be restored.
+ */
+class AccountDiscoveryService {
+  /**
+   * Singleton instance of the service.
+   */
+  private static instance: AccountDiscoveryService
+
+  /**
+   * Get the singleton instance of AccountDiscoveryService.
+   * @returns The shared AccountDiscoveryService instance
+   */
+  static getInstance (): AccountDiscoveryService {
+    if (!this.instance) this.instance = new AccountDiscoveryService()
+    return this.instance
+  }
+
+  /**
+   * Walk derivation indices from 0 and report every account with on-chain history.
+   * An index counts as used if any commitment decrypts to its 0zk address or its
+   * 0x address has sent a transaction. Discovery stops after `gapLimit` unused indices in a row.
+   * @param mnemonic - The mnemonic whose accounts are searched
+   * @param networkName - The network to search on
+   * @param provider - Provider used to check 0x transaction counts
+   * @param options - Optional search limits and mnemonic passphrase
+   * @param onProgress - Optional callback with the index currently being checked
+   * @returns The used accounts, in index order
+   */
+  async discoverAccounts (
+    mnemonic: string,
+    networkName: NetworkName,
+    provider: ethers.Provider,
+    options?: AccountDiscoveryOptions,
+    onProgress?: (derivationIndex: number) => void
+  ): Promise<DiscoveredAccount[]> {
+    const gapLimit = options?.gapLimit ?? DEFAULT_GAP_LIMIT
+    const maxIndex = options?.maxIndex ?? DEFAULT_MAX_INDEX
+
+    const scanner = SubsquidBalanceScanner.getInstance()
+    const { commitments } = await scanner.subsquidFetcher.fetchNewTransactionsAndCommitments(
+      networkName,
+      0
+    )
+    scanner.buildTokenHashIndexFromShields(commitments)
+    dlog(`Account discovery: checking against ${commitments.length} commitments`)
+
+    const found: DiscoveredAccount[] = []
+    let unusedInARow = 0
+
+    for (let index = 0; index <= maxIndex && unusedInARow < gapLimit; index++) {
+      onProgress?.(index)
+      const wallet = await deriveWalletFromMnemonic(mnemonic, index, undefined, options?.passphrase)
+
+      const hasPrivateActivity = await this.hasDecryptableCommitment(commitments, wallet)
+      let hasPublicActivity = false
+      try {
+        hasPublicActivity = (await provider.getTransactionCount(wallet.ethereumAddress)) > 0
+      } catch (error) {
+        dwarn(`Account discovery: could not read nonce for index ${index}:`, error)
+      }
+
+      if (hasPrivateActivity || hasPublicActivity) {
+        found.push({
+          derivationIndex: index,
+          address: wallet.address,
+          ethereumAddress: wallet.ethereumAddress,
+          hasPrivateActivity,
+          hasPublicActivity,
+        })
+        unusedInARow = 0
+      } else {
+        unusedInARow++
+      }
+    }
+
+    dlog(`Account discovery: found ${found.length} used account(s)`)
+    return found
+  }
+
+  /**
+   * Check whether any commitment decrypts for the given wallet, stopping at the first hit.
+   * @param commitments - The commitments to try
+   * @param wallet - The derived wallet to try them against
+   * @returns True if at least one commitment belongs to the wallet
+   */
+  private async hasDecryptableCommitment (
+    commitments: SubsquidCommitment[],
+    wallet: RailgunWallet
+  ): Promise<boolean> {
+    const scanner = SubsquidBalanceScanner.getInstance()
+    for (const commitment of commitments) {
+      try {
+        if (await scanner.tryDecryptCommitment(commitment, wallet)) return true
+      } catch {
+        // Not ours
+      }
+    }
+    return false
+  }
+}
+
+export type { AccountDiscoveryOptions, DiscoveredAccount }
+export { AccountDiscoveryService }
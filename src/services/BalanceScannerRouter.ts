@@ -0,0 +1,168 @@
+/**
+ * BalanceScannerRouter
+ *
+ * Picks the scanner private balances come from on each network. The Subsquid indexer is fast
+ * and keeps notes across sessions; the RPC scanner reads the RAILGUN contract's events directly
+ * and works when the indexer is down or absent. Both produce the same DecryptedCommitment
+ * records, so callers read notes through the router without caring which one served them.
+ *
+ * The policy is chosen per network in settings: 'indexer-first' uses the indexer wherever one
+ * is configured, 'rpc-only' never touches it, and 'auto-failover' (the default) rescans over RPC
+ * when an indexer scan fails.
+ */
+
+import type { ethers } from 'ethers'
+
+import { OnChainBalanceScanner } from './OnChainBalanceScanner'
+import { SubsquidBalanceScanner } from './SubsquidBalanceScanner'
+
+import { useSettingsStore } from '@/stores/settingsStore'
+import type { NetworkName, ScannerPolicy } from '@/types/network'
+import { NETWORK_CONFIG } from '@/types/network'
+import type { DecryptedCommitment, RailgunWallet, TokenBalance } from '@/types/wallet'
+import { dlog, dwarn } from '@/utils/debug'
+
+interface BalanceScanOptions {
+  startBlockNumber?: number // Block to start from instead of the wallet's first relevant block
+  incremental?: boolean // Merge with the notes of earlier scans instead of replacing them
+  signal?: AbortSignal // Cancels the scan; stored notes are left untouched
+  provider?: ethers.Provider // RPC scans only; one is created for the network if not supplied
+}
+
+/**
+ * A source of a wallet's decrypted notes and private balances.
+ */
+interface PrivateBalanceScanner {
+  readonly source: 'indexer' | 'rpc'
+  scanBalances(
+    wallet: RailgunWallet,
+    networkName: NetworkName,
+    progressCallback?: (progress: number) => void,
+    options?: BalanceScanOptions
+  ): Promise<TokenBalance[]>
+  getDecryptedCommitmentsForWallet(walletId: string, networkName: NetworkName): DecryptedCommitment[]
+  clearStoredTXOs(walletId: string): void // Drops the wallet's notes on every network
+}
+
+const DEFAULT_SCANNER_POLICY: ScannerPolicy = 'auto-failover'
+
+/**
+ * Routes private balance scans and note lookups to the indexer or RPC scanner.
+ */
+class BalanceScannerRouter {
+  /**
+   * Singleton instance of the router.
+   */
+  private static instance: BalanceScannerRouter
+
+  /** Scanner that served the last successful scan, keyed `<walletId>:<network>`. */
+  private readonly activeScanners = new Map<string, PrivateBalanceScanner>()
+
+  /**
+   * Private constructor to enforce singleton pattern.
+   */
+  private constructor () {}
+
+  /**
+   * Get the singleton instance of BalanceScannerRouter.
+   * @returns The shared BalanceScannerRouter instance
+   */
+  static getInstance (): BalanceScannerRouter {
+    if (!this.instance) {
+      this.instance = new BalanceScannerRouter()
+    }
+    return this.instance
+  }
+
+  /**
+   * Get the scanning policy configured for a network.
+   * @param networkName - The network
+   * @returns The policy; networks without an indexer always scan over RPC
+   */
+  getPolicy (networkName: NetworkName): ScannerPolicy {
+    if (!NETWORK_CONFIG[networkName]?.subsquidUrl) return 'rpc-only'
+    return useSettingsStore.getState().scannerPolicies[networkName] ?? DEFAULT_SCANNER_POLICY
+  }
+
+  /**
+   * Scan a wallet's private balances from the source the network's policy selects.
+   * @param wallet - The wallet to scan
+   * @param networkName - The network to scan on
+   * @param progressCallback - Optional callback receiving progress values from 0 to 1
+   * @param options - Scan options passed on to the scanner
+   * @returns The wallet's token balances grouped by balance bucket
+   */
+  async scanBalances (
+    wallet: RailgunWallet,
+    networkName: NetworkName,
+    progressCallback?: (progress: number) => void,
+    options?: BalanceScanOptions
+  ): Promise<TokenBalance[]> {
+    const policy = this.getPolicy(networkName)
+    const indexer = SubsquidBalanceScanner.getInstance()
+    const rpc = OnChainBalanceScanner.getInstance()
+    const key = `${wallet.id}:${networkName}`
+
+    if (policy !== 'rpc-only') {
+      try {
+        const balances = await indexer.scanBalances(wallet, networkName, progressCallback, options)
+        this.activeScanners.set(key, indexer)
+        return balances
+      } catch (error) {
+        if (policy === 'indexer-first' || options?.signal?.aborted) throw error
+        dwarn(`Indexer scan failed on ${networkName}, failing over to RPC:`, error)
+      }
+    }
+
+    const balances = await rpc.scanBalances(wallet, networkName, progressCallback, options)
+    this.activeScanners.set(key, rpc)
+    dlog(`Scanned ${networkName} balances over RPC (${policy})`)
+    return balances
+  }
+
+  /**
+   * Get the scanner whose notes are current for a wallet on a network.
+   * @param walletId - The wallet
+   * @param networkName - The network
+   * @returns The scanner that served the wallet's last scan there, or the one the policy
+   * prefers if it has not been scanned this session
+   */
+  getScanner (walletId: string, networkName: NetworkName): PrivateBalanceScanner {
+    const active = this.activeScanners.get(`${walletId}:${networkName}`)
+    if (active) return active
+    return this.getPolicy(networkName) === 'rpc-only'
+      ? OnChainBalanceScanner.getInstance()
+      : SubsquidBalanceScanner.getInstance()
+  }
+
+  /**
+   * Get a wallet's decrypted notes on a network, from whichever scanner last served it.
+   * @param walletId - The wallet
+   * @param networkName - The network
+   * @returns The wallet's decrypted commitments
+   */
+  getDecryptedCommitmentsForWallet (
+    walletId: string,
+    networkName: NetworkName
+  ): DecryptedCommitment[] {
+    return this.getScanner(walletId, networkName).getDecryptedCommitmentsForWallet(
+      walletId,
+      networkName
+    )
+  }
+
+  /**
+   * Drop a wallet's notes from every scanner.
+   * @param walletId - The wallet
+   */
+  clearStoredTXOs (walletId: string): void {
+    SubsquidBalanceScanner.getInstance().clearStoredTXOs(walletId)
+    OnChainBalanceScanner.getInstance().clearStoredTXOs(walletId)
+    for (const key of this.activeScanners.keys()) {
+      if (key.startsWith(`${walletId}:`)) this.activeScanners.delete(key)
+    }
+  }
+}
+
+export type { BalanceScanOptions, PrivateBalanceScanner }
+export { BalanceScannerRouter }
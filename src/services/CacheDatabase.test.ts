@@ -0,0 +1,135 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+
+import type { CacheStoreSchema } from './CacheDatabase'
+import { CacheDatabase } from './CacheDatabase'
+
+import { lockEncryptedCache, unlockEncryptedCache } from '@/utils/encryptedCache'
+
+const PASSWORD = 'correct horse battery staple'
+
+/**
+ * Create a Map-backed stand-in for window.localStorage, which Node does not provide.
+ * @returns The storage
+ */
+const createMemoryStorage = (): Storage => {
+  const items = new Map<string, string>()
+  return {
+    /**
+     * Number of stored items.
+     * @returns The item count
+     */
+    get length () {
+      return items.size
+    },
+    /**
+     * Read the key at an index.
+     * @param index - The index
+     * @returns The key, or null past the end
+     */
+    key: (index: number) => Array.from(items.keys())[index] ?? null,
+    /**
+     * Read an item.
+     * @param key - The key
+     * @returns The value, or null if absent
+     */
+    getItem: (key: string) => items.get(key) ?? null,
+    /**
+     * Write an item.
+     * @param key - The key
+     * @param value - The value
+     */
+    setItem: (key: string, value: string) => {
+      items.set(key, String(value))
+    },
+    /**
+     * Remove an item.
+     * @param key - The key
+     */
+    removeItem: (key: string) => {
+      items.delete(key)
+    },
+    /**
+     * Remove every item.
+     */
+    clear: () => {
+      items.clear()
+    },
+  }
+}
+
+/**
+ * Build a schema for a store used by one test only.
+ * @param store - The store name
+ * @param encrypted - Whether records are encrypted with the session cache key
+ * @returns The schema
+ */
+const schemaFor = (store: string, encrypted: boolean): CacheStoreSchema => ({
+  store,
+  version: 1,
+  encrypted,
+  upgrades: {},
+})
+
+describe('CacheDatabase.loadRecords', () => {
+  beforeAll(async () => {
+    vi.stubGlobal('localStorage', createMemoryStorage())
+    await unlockEncryptedCache(PASSWORD)
+  })
+
+  afterAll(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('returns encrypted records while the cache is unlocked', async () => {
+    const schema = schemaFor('unlocked', true)
+    const cache = CacheDatabase.getInstance()
+    await cache.writeRecords(schema, [['wallet-1:a', { value: 1 }], ['wallet-2:b', { value: 2 }]])
+
+    const records = await cache.loadRecords(schema, 'wallet-1:')
+
+    expect(Array.from(records)).toEqual([['wallet-1:a', { value: 1 }]])
+  })
+
+  it('rejects an encrypted store while locked and keeps its records', async () => {
+    const schema = schemaFor('locked', true)
+    const cache = CacheDatabase.getInstance()
+    await cache.writeRecords(schema, [['a', { value: 1 }]])
+
+    lockEncryptedCache()
+    try {
+      await expect(cache.loadRecords(schema)).rejects.toThrow('Encrypted cache is locked')
+    } finally {
+      await unlockEncryptedCache(PASSWORD)
+    }
+
+    const records = await cache.loadRecords(schema)
+    expect(records.get('a')).toEqual({ value: 1 })
+  })
+
+  it('loads plaintext stores while locked', async () => {
+    const schema = schemaFor('plaintext', false)
+    const cache = CacheDatabase.getInstance()
+    await cache.writeRecords(schema, [['a', 1]])
+
+    lockEncryptedCache()
+    try {
+      const records = await cache.loadRecords(schema)
+      expect(records.get('a')).toBe(1)
+    } finally {
+      await unlockEncryptedCache(PASSWORD)
+    }
+  })
+
+  it('keeps running queued operations after a locked load fails', async () => {
+    const schema = schemaFor('queued', true)
+    const cache = CacheDatabase.getInstance()
+
+    lockEncryptedCache()
+    const locked = expect(cache.loadRecords(schema)).rejects.toThrow('Encrypted cache is locked')
+    await unlockEncryptedCache(PASSWORD)
+    await locked
+
+    await cache.writeRecords(schema, [['a', 1]])
+    expect((await cache.loadRecords(schema)).get('a')).toBe(1)
+  })
+})
@@ -0,0 +1,274 @@
+import type { BatchOperation, Database } from '@/core/merkletrees/database'
+import { InMemoryDatabase, IndexedDBDatabase } from '@/core/merkletrees/database'
+import { dlog, dwarn } from '@/utils/debug'
+import {
+  decryptWithCacheKey,
+  encryptWithCacheKey,
+  isEncryptedCacheUnlocked,
+  registerCacheRekeyHandler,
+} from '@/utils/encryptedCache'
+
+/**
+ * Describes one record store inside the cache database (e.g. TXOs, nullifiers, PPOI statuses).
+ *
+ * Records live under `<store>:<key>`, and the version applies to the whole store. When
+ * `version` is raised, every stored record is passed through `upgrades[v]` for each version
+ * v it is behind; an upgrade returning null drops that record. Records with no upgrade path are dropped, so only what cannot be
+ * converted has to be rescanned.
+ */
+interface CacheStoreSchema {
+  store: string
+  version: number
+  encrypted: boolean // Encrypt values with the session cache key (wallet-scoped data)
+  upgrades: Record<number, (record: any) => any | null>
+}
+
+const SCHEMA_VERSION_PREFIX = 'schema:'
+// Marks a store as encrypted, so a re-key finds it whether or not this session has used it
+const ENCRYPTED_STORE_PREFIX = 'encrypted-store:'
+
+/**
+ * Per-record persistent storage for large wallet caches, backed by IndexedDB.
+ *
+ * Loads and writes are queued so they apply in order and never interleave with a re-key.
+ */
+class CacheDatabase {
+  /**
+   * Singleton instance of the database.
+   */
+  private static instance: CacheDatabase
+
+  /** Underlying key-value database. */
+  private readonly db: Database
+  /** Tail of the write queue. */
+  private writeQueue: Promise<void> = Promise.resolve()
+
+  /**
+   * Open the IndexedDB database, falling back to memory where IndexedDB is unavailable.
+   */
+  private constructor () {
+    let db: Database
+    try {
+      db = new IndexedDBDatabase('railgun-wallet-cache', { storeName: 'records' })
+    } catch (error) {
+      dwarn('IndexedDB unavailable, wallet caches will not persist:', error)
+      db = new InMemoryDatabase()
+    }
+    this.db = db
+
+    registerCacheRekeyHandler((reencrypt) => this.enqueue(() => this.reencryptAll(reencrypt)))
+  }
+
+  /**
+   * Get the singleton instance of CacheDatabase.
+   * @returns The shared CacheDatabase instance
+   */
+  static getInstance (): CacheDatabase {
+    if (!this.instance) this.instance = new CacheDatabase()
+    return this.instance
+  }
+
+  /**
+   * Run a load or write after all previously queued ones.
+   * @param task - The task to run
+   * @returns The task's result
+   */
+  private enqueue<T> (task: () => Promise<T>): Promise<T> {
+    const run = this.writeQueue.then(task)
+    this.writeQueue = run.then(
+      () => {},
+      (error) => {
+        console.error('Cache database operation failed:', error)
+      }
+    )
+    return run
+  }
+
+  /**
+   * Read the schema version a store was last written with.
+   * @param schema - The store schema
+   * @returns The stored version, or undefined if the store has never been written
+   */
+  private async readStoredVersion (schema: CacheStoreSchema): Promise<number | undefined> {
+    try {
+      return Number(await this.db.get(`${SCHEMA_VERSION_PREFIX}${schema.store}`))
+    } catch {
+      return undefined
+    }
+  }
+
+  /**
+   * Serialize a record for storage.
+   * @param schema - The store schema
+   * @param value - The record
+   * @returns The value to put in the database
+   */
+  private async encode (schema: CacheStoreSchema, value: any): Promise<any> {
+    return schema.encrypted ? encryptWithCacheKey(JSON.stringify(value)) : value
+  }
+
+  /**
+   * Deserialize a stored record.
+   * @param schema - The store schema
+   * @param stored - The value read from the database
+   * @returns The record
+   */
+  private async decode (schema: CacheStoreSchema, stored: any): Promise<any> {
+    return schema.encrypted ? JSON.parse(await decryptWithCacheKey(stored)) : stored
+  }
+
+  /**
+   * Load every record of a store, upgrading records written with an older schema version.
+   * An upgrade covers the whole store, including records outside the prefix, since the
+   * version it stores applies to all of them.
+   * @param schema - The store schema
+   * @param prefix - Optional prefix of the record keys to load
+   * @returns The records keyed by their key within the store
+   * @throws Error if the store is encrypted and the encrypted cache is locked
+   */
+  async loadRecords (schema: CacheStoreSchema, prefix = ''): Promise<Map<string, any>> {
+    return this.enqueue(async () => {
+      if (schema.encrypted && !isEncryptedCacheUnlocked()) {
+        throw new Error('Encrypted cache is locked')
+      }
+
+      const storedVersion = (await this.readStoredVersion(schema)) ?? schema.version
+      if (storedVersion > schema.version) {
+        dwarn(
+          `Cache store ${schema.store} was written by a newer version (${storedVersion}); discarding it`
+        )
+        await this.db.delRange({ prefix: `${schema.store}:` })
+        return new Map()
+      }
+
+      const upgrading = storedVersion < schema.version
+      const records = new Map<string, any>()
+      const puts: Array<[string, any]> = []
+      const deletes: string[] = []
+      for await (const [key, stored] of this.db.iterator({
+        prefix: `${schema.store}:${upgrading ? '' : prefix}`,
+      })) {
+        const recordKey = key.slice(schema.store.length + 1)
+        let record: any
+        try {
+          record = await this.decode(schema, stored)
+        } catch (error) {
+          // Locked while loading: the record is intact, it just cannot be read now
+          if (!isEncryptedCacheUnlocked()) throw error
+          // Unreadable under the current key; it will be rebuilt by rescanning
+          deletes.push(recordKey)
+          continue
+        }
+
+        for (let version = storedVersion; version < schema.version && record !== null; version++) {
+          const upgrade = schema.upgrades[version]
+          record = upgrade ? upgrade(record) : null
+        }
+
+        if (record === null) {
+          deletes.push(recordKey)
+          continue
+        }
+        if (recordKey.startsWith(prefix)) records.set(recordKey, record)
+        if (upgrading) puts.push([recordKey, record])
+      }
+
+      if (deletes.length > 0 || upgrading) {
+        dlog(
+          `Cache store ${schema.store}: upgraded ${puts.length} record(s) from v${storedVersion} to v${schema.version}, dropped ${deletes.length}`
+        )
+        await this.db.batch(await this.toOperations(schema, puts, deletes))
+      }
+
+      return records
+    })
+  }
+
+  /**
+   * Build the database operations that write records of a store and stamp its version
+   * (and, for encrypted stores, the encrypted marker).
+   * @param schema - The store schema
+   * @param puts - Records to write, as [key within the store, record] pairs
+   * @param deletes - Keys within the store to delete
+   * @returns The operations
+   */
+  private async toOperations (
+    schema: CacheStoreSchema,
+    puts: Array<[string, any]>,
+    deletes: string[]
+  ): Promise<BatchOperation[]> {
+    const operations: BatchOperation[] = deletes.map((key) => ({
+      type: 'del',
+      key: `${schema.store}:${key}`,
+    }))
+    for (const [key, value] of puts) {
+      operations.push({
+        type: 'put',
+        key: `${schema.store}:${key}`,
+        value: await this.encode(schema, value),
+      })
+    }
+    operations.push({
+      type: 'put',
+      key: `${SCHEMA_VERSION_PREFIX}${schema.store}`,
+      value: schema.version,
+    })
+    if (schema.encrypted) {
+      operations.push({ type: 'put', key: `${ENCRYPTED_STORE_PREFIX}${schema.store}`, value: true })
+    }
+    return operations
+  }
+
+  /**
+   * Put and delete individual records of a store in one transaction.
+   * @param schema - The store schema
+   * @param puts - Records to write, as [key within the store, record] pairs
+   * @param deletes - Keys within the store to delete
+   */
+  async writeRecords (
+    schema: CacheStoreSchema,
+    puts: Array<[string, any]>,
+    deletes: string[] = []
+  ): Promise<void> {
+    if (puts.length === 0 && deletes.length === 0) return
+
+    await this.enqueue(async () => {
+      await this.db.batch(await this.toOperations(schema, puts, deletes))
+    })
+  }
+
+  /**
+   * Delete every record of a store, or only those whose key starts with a prefix.
+   * Works while the encrypted cache is locked.
+   * @param schema - The store schema
+   * @param prefix - Optional prefix of the record keys to delete
+   */
+  async clearRecords (schema: CacheStoreSchema, prefix = ''): Promise<void> {
+    await this.enqueue(async () => {
+      await this.db.delRange({ prefix: `${schema.store}:${prefix}` })
+    })
+  }
+
+  /**
+   * Re-encrypt every record of every store marked encrypted under a new key.
+   * @param reencrypt - Converts one value from the old key to the new key
+   */
+  private async reencryptAll (reencrypt: (stored: string) => Promise<string>): Promise<void> {
+    const stores: string[] = []
+    for await (const key of this.db.keyIterator({ prefix: ENCRYPTED_STORE_PREFIX })) {
+      stores.push(key.slice(ENCRYPTED_STORE_PREFIX.length))
+    }
+
+    const operations: BatchOperation[] = []
+    for (const store of stores) {
+      for await (const [key, stored] of this.db.iterator({ prefix: `${store}:` })) {
+        operations.push({ type: 'put', key, value: await reencrypt(stored) })
+      }
+    }
+    await this.db.batch(operations)
+    dlog(`Re-encrypted ${operations.length} cache database record(s)`)
+  }
+}
+
+export type { CacheStoreSchema }
+export { CacheDatabase }
@@ -0,0 +1,335 @@
+import type { DecryptedCommitment, SubsquidCommitment } from '@/types/wallet'
+import type { DecryptionKeys, TokenData, TokenHashIndex } from '@/utils/commitment-decryption'
+import { decryptCommitment } from '@/utils/commitment-decryption'
+import { dlog, dwarn } from '@/utils/debug'
+
+/**
+ * A chunk of commitments posted to a decryption worker.
+ */
+type DecryptionRequest = {
+  commitments: SubsquidCommitment[]
+  keys: DecryptionKeys
+  tokenHashes: Array<[string, TokenData]>
+}
+
+/**
+ * A message posted back by a decryption worker. A chunk is acknowledged with a started
+ * message, then produces any number of progress messages followed by exactly one result or error.
+ */
+type DecryptionResponse =
+  | { type: 'started' }
+  | { type: 'progress'; processed: number }
+  | { type: 'result'; processed: number; decrypted: DecryptedCommitment[] }
+  | { type: 'error'; message: string }
+
+type DecryptionOptions = {
+  onProgress?: (processed: number, total: number) => void // Commitments tried so far, across all workers
+  signal?: AbortSignal | undefined // Aborting rejects with the signal's reason and stops every worker of the scan
+}
+
+// Commitments per worker message; small enough that progress and cancellation stay responsive
+const CHUNK_SIZE = 500
+// How often the main-thread fallback reports progress and yields to the UI
+const FALLBACK_YIELD_INTERVAL = 100
+
+/**
+ * Runs commitment trial decryption (ECDH + AES-GCM per commitment) on a pool of Web Workers
+ * sized to the device's core count, so first scans do not freeze the UI.
+ *
+ * Only the viewing key and master public key are sent to workers. Where workers cannot be
+ * started, decryption runs on the main thread. A worker that fails on a chunk is replaced,
+ * and only that chunk is decrypted on the main thread.
+ */
+class DecryptionWorkerPool {
+  /**
+   * Singleton instance of the pool.
+   */
+  private static instance: DecryptionWorkerPool
+
+  /** Maximum number of workers one scan runs on. */
+  private readonly size: number
+  /** Workers left over from earlier scans, ready for reuse. */
+  private idleWorkers: Worker[] = []
+  /** Set once a worker cannot be constructed or loaded, after which decryption stays on the main thread. */
+  private workersUnavailable = typeof Worker === 'undefined'
+
+  /**
+   * Size the pool to the number of logical cores.
+   */
+  private constructor () {
+    this.size = Math.max(1, (typeof navigator !== 'undefined' && navigator.hardwareConcurrency) || 2)
+  }
+
+  /**
+   * Get the singleton instance of DecryptionWorkerPool.
+   * @returns The shared DecryptionWorkerPool instance
+   */
+  static getInstance (): DecryptionWorkerPool {
+    if (!this.instance) this.instance = new DecryptionWorkerPool()
+    return this.instance
+  }
+
+  /**
+   * Trial-decrypt Subsquid commitments for a wallet.
+   * @param commitments - The commitments to try
+   * @param keys - The wallet's viewing key and master public key
+   * @param tokenHashToTokenData - Token hash index used to resolve transact note tokens
+   * @param options - Optional progress callback and abort signal
+   * @returns The commitments that belong to the wallet, in input order
+   */
+  async decryptSubsquidCommitments (
+    commitments: SubsquidCommitment[],
+    keys: DecryptionKeys,
+    tokenHashToTokenData: TokenHashIndex,
+    options: DecryptionOptions = {}
+  ): Promise<DecryptedCommitment[]> {
+    return this.run(commitments, keys, tokenHashToTokenData, options)
+  }
+
+  /**
+   * Split commitments into chunks and decrypt them on up to `size` workers at once.
+   * @param commitments - The commitments to try
+   * @param keys - The wallet's viewing key and master public key
+   * @param tokenHashToTokenData - Token hash index used to resolve transact note tokens
+   * @param options - Optional progress callback and abort signal
+   * @returns The decrypted commitments, in input order
+   */
+  private async run (
+    commitments: SubsquidCommitment[],
+    keys: DecryptionKeys,
+    tokenHashToTokenData: TokenHashIndex,
+    options: DecryptionOptions
+  ): Promise<DecryptedCommitment[]> {
+    const { signal, onProgress } = options
+    signal?.throwIfAborted()
+
+    const request: Omit<DecryptionRequest, 'commitments'> = {
+      keys: { viewingKey: keys.viewingKey, masterPublicKey: keys.masterPublicKey },
+      tokenHashes: Array.from(tokenHashToTokenData),
+    }
+    const chunks: SubsquidCommitment[][] = []
+    for (let i = 0; i < commitments.length; i += CHUNK_SIZE) {
+      chunks.push(commitments.slice(i, i + CHUNK_SIZE))
+    }
+
+    let processed = 0
+    /**
+     * Add newly processed commitments to the running total and report it.
+     * @param count - Number of commitments processed since the last report
+     */
+    const reportProgress = (count: number) => {
+      processed += count
+      onProgress?.(processed, commitments.length)
+    }
+
+    const results: DecryptedCommitment[][] = new Array(chunks.length)
+    let nextChunk = 0
+    let mainThreadChunks = 0
+    const lanes = Math.min(this.size, chunks.length)
+    const runningWorkers = new Set<Worker>()
+
+    /**
+     * Stop every worker still decrypting a chunk of this scan.
+     */
+    const abort = () => {
+      for (const worker of runningWorkers) worker.terminate()
+      runningWorkers.clear()
+    }
+    signal?.addEventListener('abort', abort)
+
+    /**
+     * Keep taking the next chunk until none are left.
+     */
+    const runLane = async (): Promise<void> => {
+      while (nextChunk < chunks.length) {
+        signal?.throwIfAborted()
+        const index = nextChunk++
+        const chunk = chunks[index]!
+        const worker = this.workersUnavailable ? null : this.acquireWorker()
+
+        if (worker) {
+          runningWorkers.add(worker)
+          let chunkProcessed = 0
+          try {
+            results[index] = await this.decryptChunkOnWorker(
+              worker,
+              { ...request, commitments: chunk },
+              (count) => {
+                chunkProcessed += count
+                reportProgress(count)
+              },
+              signal
+            )
+            runningWorkers.delete(worker)
+            this.idleWorkers.push(worker)
+            continue
+          } catch (error) {
+            runningWorkers.delete(worker)
+            worker.terminate()
+            signal?.throwIfAborted()
+            // The chunk is decrypted again from the start
+            reportProgress(-chunkProcessed)
+            if (error instanceof WorkerStartError) {
+              dwarn('Decryption worker failed to load, continuing on the main thread:', error.message)
+              this.workersUnavailable = true
+            } else {
+              dwarn('Decryption worker failed, replacing it and decrypting the chunk on the main thread:', error)
+            }
+          }
+        }
+
+        mainThreadChunks++
+        results[index] = await this.decryptChunkOnMainThread(
+          { ...request, commitments: chunk },
+          reportProgress,
+          signal
+        )
+      }
+    }
+
+    const startedAt = Date.now()
+    try {
+      await Promise.all(Array.from({ length: lanes }, () => runLane()))
+    } catch (error) {
+      abort()
+      throw error
+    } finally {
+      signal?.removeEventListener('abort', abort)
+    }
+
+    dlog(
+      `Decrypted ${commitments.length} commitments in ${Date.now() - startedAt}ms (${mainThreadChunks} of ${chunks.length} chunk(s) on the main thread)`
+    )
+    return results.flat()
+  }
+
+  /**
+   * Take an idle worker or start a new one.
+   * @returns A worker ready for a chunk, or null if workers cannot be started
+   */
+  private acquireWorker (): Worker | null {
+    const idle = this.idleWorkers.pop()
+    if (idle) return idle
+    try {
+      return new Worker(new URL('../workers/commitment-decryption.worker.ts', import.meta.url), {
+        type: 'module',
+      })
+    } catch (error) {
+      dwarn('Could not start decryption worker:', error)
+      this.workersUnavailable = true
+      return null
+    }
+  }
+
+  /**
+   * Post one chunk to a worker and wait for its result.
+   * @param worker - The worker to use
+   * @param request - The chunk and the keys to decrypt it with
+   * @param reportProgress - Called with the number of newly processed commitments
+   * @param signal - Optional abort signal
+   * @returns The decrypted commitments of the chunk
+   */
+  private decryptChunkOnWorker (
+    worker: Worker,
+    request: DecryptionRequest,
+    reportProgress: (count: number) => void,
+    signal?: AbortSignal
+  ): Promise<DecryptedCommitment[]> {
+    return new Promise((resolve, reject) => {
+      /**
+       * Detach this chunk's handlers from the worker.
+       */
+      const cleanup = () => {
+        worker.onmessage = null
+        worker.onerror = null
+        signal?.removeEventListener('abort', onAbort)
+      }
+      /**
+       * Reject with the abort reason when the scan is cancelled.
+       */
+      const onAbort = () => {
+        cleanup()
+        reject(signal?.reason)
+      }
+      // Set once the worker has loaded and picked up the chunk
+      let started = false
+
+      /**
+       * Handle a started, progress, result or error message from the worker.
+       * @param event - The message event
+       */
+      worker.onmessage = (event: MessageEvent<DecryptionResponse>) => {
+        const message = event.data
+        if (message.type === 'started') {
+          started = true
+        } else if (message.type === 'progress') {
+          reportProgress(message.processed)
+        } else if (message.type === 'result') {
+          cleanup()
+          reportProgress(message.processed)
+          resolve(message.decrypted)
+        } else {
+          cleanup()
+          reject(new Error(message.message))
+        }
+      }
+      /**
+       * Reject when the worker fails to load, or crashes while decrypting.
+       * @param event - The error event
+       */
+      worker.onerror = (event) => {
+        cleanup()
+        reject(
+          started
+            ? new Error(event.message || 'Decryption worker crashed')
+            : new WorkerStartError(event.message || 'Decryption worker failed to load')
+        )
+      }
+      signal?.addEventListener('abort', onAbort)
+
+      worker.postMessage(request)
+    })
+  }
+
+  /**
+   * Decrypt one chunk on the main thread, yielding regularly so the UI and aborts are handled.
+   * @param request - The chunk and the keys to decrypt it with
+   * @param reportProgress - Called with the number of newly processed commitments
+   * @param signal - Optional abort signal
+   * @returns The decrypted commitments of the chunk
+   */
+  private async decryptChunkOnMainThread (
+    request: DecryptionRequest,
+    reportProgress: (count: number) => void,
+    signal?: AbortSignal
+  ): Promise<DecryptedCommitment[]> {
+    const tokenHashToTokenData: TokenHashIndex = new Map(request.tokenHashes)
+    const decrypted: DecryptedCommitment[] = []
+
+    for (let i = 0; i < request.commitments.length; i++) {
+      const result = await decryptCommitment(
+        request.commitments[i]!,
+        request.keys,
+        tokenHashToTokenData
+      )
+      if (result) decrypted.push(result)
+
+      if ((i + 1) % FALLBACK_YIELD_INTERVAL === 0) {
+        reportProgress(FALLBACK_YIELD_INTERVAL)
+        await new Promise((resolve) => setTimeout(resolve, 0))
+        signal?.throwIfAborted()
+      }
+    }
+    reportProgress(request.commitments.length % FALLBACK_YIELD_INTERVAL)
+
+    return decrypted
+  }
+}
+
+/**
+ * A decryption worker could not be loaded; decryption stays on the main thread.
+ */
+class WorkerStartError extends Error {}
+
+export type { DecryptionOptions, DecryptionRequest, DecryptionResponse }
+export { DecryptionWorkerPool }
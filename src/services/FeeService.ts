@@ -0,0 +1,240 @@
+/**
+ * FeeService
+ *
+ * Fee engine shared by every transaction path. On EIP-1559 networks fees come from
+ * `eth_feeHistory`: the next block's base fee with some headroom, plus a priority fee taken from
+ * a percentile of the tips paid in recent blocks, one percentile per speed tier. Transactions are
+ * then sent as type-2 transactions with `maxFeePerGas` and `maxPriorityFeePerGas`. Networks that
+ * report no base fee fall back to legacy `gasPrice` transactions.
+ *
+ * RAILGUN proofs bind a `minGasPrice`, and the contract rejects a transaction whose effective gas
+ * price (`tx.gasprice`) is lower. `FeeQuote.minGasPrice` is the value to bind when proving: half
+ * the base fee, so the transaction still lands if the base fee falls for a few blocks. When a
+ * proved transaction is broadcast, `withMinGasPrice` raises its fees to cover the bound value.
+ */
+
+import { ethers } from 'ethers'
+
+import type { FeeSpeed } from '@/types/network'
+import { dwarn } from '@/utils/debug'
+
+type TransactionFees =
+  | { type: 2; maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }
+  | { type: 0; gasPrice: bigint }
+
+interface FeeQuote {
+  baseFeePerGas: bigint | null // expected base fee of the next block; null on legacy networks
+  tiers: Record<FeeSpeed, TransactionFees>
+  minGasPrice: bigint // minimum gas price to bind into RAILGUN proofs, in wei
+}
+
+interface FeeRange {
+  min: bigint // expected fee at the next block's base fee, in wei
+  max: bigint // highest fee the transaction can be charged, in wei
+}
+
+const FEE_SPEEDS: FeeSpeed[] = ['slow', 'standard', 'fast']
+// Blocks of fee history to read, and the tip percentile each tier pays
+const FEE_HISTORY_BLOCKS = 20
+const PRIORITY_FEE_PERCENTILES: Record<FeeSpeed, number> = { slow: 10, standard: 50, fast: 90 }
+// Headroom over the base fee (or legacy gas price) each tier allows, in percent
+const BASE_FEE_MULTIPLIERS: Record<FeeSpeed, bigint> = { slow: 125n, standard: 150n, fast: 200n }
+// Share of the base fee bound into proofs as their minimum gas price, in percent
+const MIN_GAS_PRICE_BASE_FEE_PERCENT = 50n
+const DEFAULT_GAS_PRICE = ethers.parseUnits('50', 'gwei')
+
+/**
+ * Reads network fees and prices transactions per speed tier.
+ */
+class FeeService {
+  /**
+   * Singleton instance of the service.
+   */
+  private static instance: FeeService
+
+  /**
+   * Private constructor to enforce singleton pattern.
+   */
+  private constructor () {}
+
+  /**
+   * Get the singleton instance of FeeService.
+   * @returns The shared FeeService instance
+   */
+  static getInstance (): FeeService {
+    if (!this.instance) {
+      this.instance = new FeeService()
+    }
+    return this.instance
+  }
+
+  /**
+   * Quote the fees of every speed tier and the minimum gas price to bind into proofs.
+   * @param provider - Provider for the network
+   * @returns The fee quote
+   */
+  async getFeeQuote (provider: ethers.Provider): Promise<FeeQuote> {
+    const history = await this.getFeeHistory(provider)
+    const baseFees = history?.baseFeePerGas ?? []
+    const nextBaseFee = baseFees[baseFees.length - 1]
+
+    if (history && nextBaseFee !== undefined) {
+      const baseFeePerGas = BigInt(nextBaseFee)
+      const rewards = history.reward ?? []
+      const tiers = {} as Record<FeeSpeed, TransactionFees>
+      FEE_SPEEDS.forEach((speed, index) => {
+        const maxPriorityFeePerGas = this.median(
+          rewards.map((blockRewards) => BigInt(blockRewards[index] ?? 0))
+        )
+        tiers[speed] = {
+          type: 2,
+          maxFeePerGas: (baseFeePerGas * BASE_FEE_MULTIPLIERS[speed]) / 100n + maxPriorityFeePerGas,
+          maxPriorityFeePerGas,
+        }
+      })
+      return {
+        baseFeePerGas,
+        tiers,
+        minGasPrice: (baseFeePerGas * MIN_GAS_PRICE_BASE_FEE_PERCENT) / 100n,
+      }
+    }
+
+    const feeData = await provider.getFeeData()
+    const gasPrice = feeData.gasPrice ?? DEFAULT_GAS_PRICE
+    const tiers = {} as Record<FeeSpeed, TransactionFees>
+    for (const speed of FEE_SPEEDS) {
+      tiers[speed] = { type: 0, gasPrice: (gasPrice * BASE_FEE_MULTIPLIERS[speed]) / 100n }
+    }
+    return { baseFeePerGas: null, tiers, minGasPrice: gasPrice }
+  }
+
+  /**
+   * Raise fees so the transaction's effective gas price covers a proof's bound minimum.
+   * @param fees - The fees of the chosen tier
+   * @param minGasPrice - The highest minGasPrice bound into the transaction's proofs, in wei
+   * @param baseFeePerGas - The expected base fee of the next block, or null on legacy networks
+   * @returns The fees, raised where needed
+   */
+  withMinGasPrice (
+    fees: TransactionFees,
+    minGasPrice: bigint,
+    baseFeePerGas: bigint | null
+  ): TransactionFees {
+    if (fees.type === 0) {
+      return { type: 0, gasPrice: this.max(fees.gasPrice, minGasPrice) }
+    }
+    // Effective gas price is min(maxFeePerGas, baseFee + maxPriorityFeePerGas)
+    const baseFee = baseFeePerGas ?? 0n
+    const maxPriorityFeePerGas = this.max(
+      fees.maxPriorityFeePerGas,
+      minGasPrice > baseFee ? minGasPrice - baseFee : 0n
+    )
+    const maxFeePerGas = this.max(
+      fees.maxFeePerGas + maxPriorityFeePerGas - fees.maxPriorityFeePerGas,
+      minGasPrice
+    )
+    return { type: 2, maxFeePerGas, maxPriorityFeePerGas }
+  }
+
+  /**
+   * Raise fees to replace a pending transaction; nodes require every fee field to go up.
+   * @param fees - The fees the replacement would pay at current prices
+   * @param previous - The fees of the pending transaction
+   * @param bumpPercent - The minimum increase over the pending fees, in percent (e.g. 125n)
+   * @returns The replacement fees
+   */
+  bumpFees (fees: TransactionFees, previous: TransactionFees, bumpPercent: bigint): TransactionFees {
+    const previousTip = previous.type === 2 ? previous.maxPriorityFeePerGas : previous.gasPrice
+    const previousCap = previous.type === 2 ? previous.maxFeePerGas : previous.gasPrice
+    if (fees.type === 0) {
+      return { type: 0, gasPrice: this.max(fees.gasPrice, (previousCap * bumpPercent) / 100n) }
+    }
+    const maxPriorityFeePerGas = this.max(
+      fees.maxPriorityFeePerGas,
+      (previousTip * bumpPercent) / 100n
+    )
+    const maxFeePerGas = this.max(
+      this.max(fees.maxFeePerGas, (previousCap * bumpPercent) / 100n),
+      maxPriorityFeePerGas
+    )
+    return { type: 2, maxFeePerGas, maxPriorityFeePerGas }
+  }
+
+  /**
+   * The range a transaction's fee can fall in.
+   * @param fees - The transaction's fees
+   * @param gasLimit - The gas the transaction uses (or may use)
+   * @param baseFeePerGas - The expected base fee of the next block, or null on legacy networks
+   * @returns The expected and the highest fee, in wei
+   */
+  getFeeRange (fees: TransactionFees, gasLimit: bigint, baseFeePerGas: bigint | null): FeeRange {
+    if (fees.type === 0) {
+      const fee = gasLimit * fees.gasPrice
+      return { min: fee, max: fee }
+    }
+    const expectedGasPrice = this.min(
+      fees.maxFeePerGas,
+      (baseFeePerGas ?? 0n) + fees.maxPriorityFeePerGas
+    )
+    return { min: gasLimit * expectedGasPrice, max: gasLimit * fees.maxFeePerGas }
+  }
+
+  /**
+   * Read fee history: base fees up to the next block and the tips paid at each tier's percentile.
+   * @param provider - Provider for the network
+   * @returns The fee history, or null if the network has no base fee or the RPC lacks the method
+   */
+  private async getFeeHistory (
+    provider: ethers.Provider
+  ): Promise<{ baseFeePerGas?: string[]; reward?: string[][] } | null> {
+    if (!(provider instanceof ethers.JsonRpcApiProvider)) return null
+    try {
+      const history = await provider.send('eth_feeHistory', [
+        ethers.toQuantity(FEE_HISTORY_BLOCKS),
+        'latest',
+        FEE_SPEEDS.map((speed) => PRIORITY_FEE_PERCENTILES[speed]),
+      ])
+      // Pre-London blocks report a zero base fee
+      const baseFees: string[] = history?.baseFeePerGas ?? []
+      if (baseFees.length === 0 || baseFees.every((fee) => BigInt(fee) === 0n)) return null
+      return history
+    } catch (error) {
+      dwarn('eth_feeHistory unavailable, using legacy gas price:', error)
+      return null
+    }
+  }
+
+  /**
+   * Median of a list of values.
+   * @param values - The values
+   * @returns The median, or 0 for an empty list
+   */
+  private median (values: bigint[]): bigint {
+    if (values.length === 0) return 0n
+    const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))
+    return sorted[Math.floor(sorted.length / 2)]!
+  }
+
+  /**
+   * Larger of two values.
+   * @param a - First value
+   * @param b - Second value
+   * @returns The larger value
+   */
+  private max (a: bigint, b: bigint): bigint {
+    return a > b ? a : b
+  }
+
+  /**
+   * Smaller of two values.
+   * @param a - First value
+   * @param b - Second value
+   * @returns The smaller value
+   */
+  private min (a: bigint, b: bigint): bigint {
+    return a < b ? a : b
+  }
+}
+
+export type { FeeQuote, FeeRange, TransactionFees }
+export { FeeService }
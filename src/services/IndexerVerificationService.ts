@@ -0,0 +1,220 @@
+/**
+ * IndexerVerificationService
+ *
+ * Cross-checks the Subsquid data balances are computed from against the RAILGUN contract, for
+ * users who do not want to trust the indexer. The indexer's commitments are replayed into the
+ * persistent UTXO merkletrees and every tree root is compared with the contract's merkleRoot and
+ * rootHistory, so a missing, altered or invented commitment shows up as a root the contract
+ * never had. Nullifiers cannot be checked that way, so a sample is spot-checked against the
+ * contract's `nullifiers` mapping instead: random indexer nullifiers and the wallet's spent notes
+ * must be set on-chain, the wallet's largest unspent notes must not be.
+ */
+
+import { ethers } from 'ethers'
+
+import { SubsquidBalanceScanner } from './SubsquidBalanceScanner'
+import { UTXOMerkletreeService } from './UTXOMerkletreeService'
+
+import type { NetworkName } from '@/types/network'
+import { NETWORK_CONFIG } from '@/types/network'
+import type { DecryptedCommitment, RailgunWallet } from '@/types/wallet'
+import { dlog, dwarn } from '@/utils/debug'
+import { createProvider } from '@/utils/rpc'
+
+/**
+ * Outcome of verifying a wallet's indexer data on a network.
+ */
+interface IndexerVerificationResult {
+  walletId: string
+  networkName: NetworkName
+  status: 'verified' | 'unverified'
+  issues: string[] // Human-readable disagreements, empty when verified
+  checkedAt: number
+}
+
+// Random indexer nullifiers checked per verification
+const NULLIFIER_SAMPLE_SIZE = 8
+// Wallet notes checked per verification, largest first
+const NOTE_SAMPLE_SIZE = 16
+
+/**
+ * Verifies indexer-provided commitments and nullifiers against the RAILGUN contract.
+ */
+class IndexerVerificationService {
+  /**
+   * Singleton instance of the service.
+   */
+  private static instance: IndexerVerificationService
+
+  /**
+   * Private constructor to enforce singleton pattern.
+   */
+  private constructor () {}
+
+  /**
+   * Get the singleton instance of IndexerVerificationService.
+   * @returns The shared IndexerVerificationService instance
+   */
+  static getInstance (): IndexerVerificationService {
+    if (!this.instance) {
+      this.instance = new IndexerVerificationService()
+    }
+    return this.instance
+  }
+
+  /**
+   * Verify the commitment trees and a sample of nullifiers behind a wallet's scanned balances.
+   * Run it after a balance scan so the nullifier cache and stored TXOs are current.
+   * @param wallet - The wallet whose balances were scanned
+   * @param networkName - The network the balances were scanned on
+   * @returns The verification result; checks that could not run count as unverified
+   */
+  async verifyWalletData (
+    wallet: RailgunWallet,
+    networkName: NetworkName
+  ): Promise<IndexerVerificationResult> {
+    const issues: string[] = []
+
+    let treeCount = 0
+    try {
+      const treeResults = await UTXOMerkletreeService.getInstance().verifyRoots(networkName)
+      treeCount = treeResults.length
+      if (treeCount === 0) {
+        issues.push('No commitments could be replayed from the indexer')
+      }
+      for (const { tree, isValid, error } of treeResults) {
+        if (error) {
+          issues.push(`Root of tree ${tree} could not be checked: ${error}`)
+        } else if (!isValid) {
+          issues.push(`Indexer commitments of tree ${tree} do not produce a root the contract knows`)
+        }
+      }
+    } catch (error) {
+      issues.push(
+        `Commitments could not be replayed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    }
+
+    try {
+      issues.push(...(await this.spotCheckNullifiers(wallet, networkName)))
+    } catch (error) {
+      issues.push(
+        `Nullifiers could not be checked: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    }
+
+    if (issues.length > 0) {
+      dwarn(`Indexer data for ${networkName} is unverified:`, issues)
+    } else {
+      dlog(`Indexer data for ${networkName} verified (${treeCount} trees)`)
+    }
+
+    return {
+      walletId: wallet.id,
+      networkName,
+      status: issues.length === 0 ? 'verified' : 'unverified',
+      issues,
+      checkedAt: Date.now(),
+    }
+  }
+
+  /**
+   * Compare a sample of nullifiers the balances depend on with the contract's nullifiers mapping.
+   * @param wallet - The wallet whose notes are checked
+   * @param networkName - The network
+   * @returns Descriptions of the nullifiers whose on-chain state disagrees with the indexer
+   */
+  private async spotCheckNullifiers (
+    wallet: RailgunWallet,
+    networkName: NetworkName
+  ): Promise<string[]> {
+    const network = NETWORK_CONFIG[networkName]
+    if (!network) throw new Error(`Network ${networkName} not found`)
+
+    const scanner = SubsquidBalanceScanner.getInstance()
+    const checks: Array<{ treeNumber: number; nullifier: string; spent: boolean; label: string }> =
+      []
+
+    const indexerNullifiers = (scanner.cachedNullifiers.get(networkName) || []).filter((n) =>
+      Number.isInteger(n.treeNumber)
+    )
+    for (const n of this.sample(indexerNullifiers, NULLIFIER_SAMPLE_SIZE)) {
+      checks.push({
+        treeNumber: n.treeNumber,
+        nullifier: n.nullifier,
+        spent: true,
+        label: `Indexer nullifier ${n.nullifier} (tx ${n.transactionHash})`,
+      })
+    }
+
+    const notes = scanner
+      .getDecryptedCommitmentsForWallet(wallet.id, networkName)
+      .filter((c) => !c.isSentToOther)
+      .sort((a, b) => (b.value > a.value ? 1 : b.value < a.value ? -1 : 0))
+    /**
+     * Queue the nullifier check of a wallet note.
+     * @param note - The note
+     */
+    const addNoteCheck = async (note: DecryptedCommitment) => {
+      checks.push({
+        treeNumber: note.treeNumber,
+        nullifier: await scanner.calculateNullifier(note, wallet),
+        spent: note.isSpent,
+        label: `${note.isSpent ? 'Spent' : 'Unspent'} note at tree ${note.treeNumber} position ${note.position}`,
+      })
+    }
+    for (const note of notes.filter((c) => !c.isSpent).slice(0, NOTE_SAMPLE_SIZE)) {
+      await addNoteCheck(note)
+    }
+    for (const note of this.sample(
+      notes.filter((c) => c.isSpent),
+      NULLIFIER_SAMPLE_SIZE
+    )) {
+      await addNoteCheck(note)
+    }
+
+    const contract = new ethers.Contract(
+      network.railgunContractAddress,
+      ['function nullifiers(uint256 treeNumber, bytes32 nullifier) view returns (bool)'],
+      createProvider(networkName)
+    )
+    const nullifiersFn = contract['nullifiers'] as (
+      treeNumber: number,
+      nullifier: string
+    ) => Promise<boolean>
+
+    const onChain = await Promise.all(
+      checks.map((check) => nullifiersFn(check.treeNumber, ethers.toBeHex(check.nullifier, 32)))
+    )
+
+    const issues: string[] = []
+    checks.forEach((check, i) => {
+      if (onChain[i] === check.spent) return
+      issues.push(
+        check.spent
+          ? `${check.label} is reported spent but its nullifier is not on-chain`
+          : `${check.label} is reported unspent but its nullifier is on-chain`
+      )
+    })
+    dlog(`Spot-checked ${checks.length} nullifiers on ${networkName}, ${issues.length} disagree`)
+    return issues
+  }
+
+  /**
+   * Pick up to `size` random items.
+   * @param items - The items to sample
+   * @param size - The maximum sample size
+   * @returns The sampled items
+   */
+  private sample<T>(items: T[], size: number): T[] {
+    const pool = [...items]
+    for (let i = pool.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1))
+      ;[pool[i], pool[j]] = [pool[j]!, pool[i]!]
+    }
+    return pool.slice(0, size)
+  }
+}
+
+export type { IndexerVerificationResult }
+export { IndexerVerificationService }
@@ -89,6 +89,54 @@ export class MerkleRootValidator {
     }
   }
 
+  /**
+   * Check that a locally computed merkle root was a root of the contract's tree at some point.
+   * The contract accepts proofs against any root in its history, so a local tree that is
+   * behind the chain is still valid as long as its root is recorded there.
+   * @param treeNumber - The merkle tree index the root belongs to
+   * @param localRoot - The locally computed merkle root hex string
+   * @param networkName - The network to validate against
+   * @param provider - Optional ethers provider; one is created if not supplied
+   * @returns Validation result with whether the contract has seen the root
+   */
+  async isKnownRoot (
+    treeNumber: number,
+    localRoot: string,
+    networkName: NetworkName,
+    provider?: ethers.Provider
+  ): Promise<{ isValid: boolean; error?: string }> {
+    try {
+      const network = NETWORK_CONFIG[networkName]
+      if (!network) {
+        return { isValid: false, error: `Network ${networkName} not found` }
+      }
+
+      const contract = new ethers.Contract(
+        network.railgunContractAddress,
+        ['function rootHistory(uint256 treeNumber, bytes32 root) view returns (bool)'],
+        provider || createProvider(networkName)
+      )
+
+      const rootHistoryFn = contract['rootHistory'] as (
+        treeNumber: number,
+        root: string
+      ) => Promise<boolean>
+      const isValid = await rootHistoryFn(treeNumber, ethers.toBeHex(localRoot, 32))
+
+      if (!isValid) {
+        dwarn(`Merkle root ${localRoot} of tree ${treeNumber} is not in the contract's root history`)
+      }
+
+      return { isValid }
+    } catch (error) {
+      console.error('Error checking merkle root history:', error)
+      return {
+        isValid: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }
+    }
+  }
+
   /**
    * Get a validation function bound to specific network and provider
    * Useful for passing to merkle tree services
@@ -0,0 +1,206 @@
+import { ethers } from 'ethers'
+
+import { BalanceScannerRouter } from './BalanceScannerRouter'
+import { FeeService } from './FeeService'
+import { POIService } from './POIService'
+import { PrivateSendService } from './PrivateSendService'
+
+import { TransactionBatch } from '@/core/transaction-batch'
+import type { NetworkName } from '@/types/network'
+import type {
+  DecryptedCommitment,
+  GasPayerWallet,
+  RailgunWallet,
+  UTXOReference,
+} from '@/types/wallet'
+import { blindedCommitmentOf } from '@/utils/blinded-commitment'
+import { dlog } from '@/utils/debug'
+
+type ConsolidationSubmission = {
+  notes: UTXOReference[]
+  amount: bigint
+  transactionCount: number
+}
+
+type ConsolidationPlan = {
+  tokenAddress: string
+  noteCountBefore: number
+  noteCountAfter: number
+  transactionCount: number
+  submissions: ConsolidationSubmission[]
+  estimatedGas: bigint // rough, from a gas model; each submission is simulated before it is sent
+  estimatedGasCostWei: bigint
+}
+
+// Transactions proved into a single `transact` call; more are sent as separate submissions
+const MAX_TRANSACTIONS_PER_SUBMISSION = 3
+
+// Rough gas model for a self-transfer: fixed verification cost plus a per-nullifier cost.
+// Simulating needs the proofs, so a preview cannot; the real gas is simulated at submission.
+const GAS_PER_TRANSACTION = 350_000n
+const GAS_PER_INPUT = 25_000n
+
+/**
+ * Merges many small private notes of a token into as few notes as possible using self-transfers.
+ */
+class NoteConsolidationService {
+  /**
+   * Singleton instance of the service.
+   */
+  private static instance: NoteConsolidationService
+
+  /**
+   * Get the singleton instance of NoteConsolidationService.
+   * @returns The shared NoteConsolidationService instance
+   */
+  static getInstance (): NoteConsolidationService {
+    if (!this.instance) this.instance = new NoteConsolidationService()
+    return this.instance
+  }
+
+  /**
+   * List the wallet's notes for a token that can be spent right now (unspent and PPOI-valid).
+   * @param wallet - The wallet whose notes are listed
+   * @param networkName - The network whose PPOI cache is consulted
+   * @param tokenAddress - The token to list notes for
+   * @returns The spendable notes, largest first
+   */
+  private getSpendableNotes (
+    wallet: RailgunWallet,
+    networkName: NetworkName,
+    tokenAddress: string
+  ): DecryptedCommitment[] {
+    const poiService = POIService.getInstance()
+
+    return BalanceScannerRouter.getInstance()
+      .getDecryptedCommitmentsForWallet(wallet.id, networkName)
+      .filter((c) => {
+        if (c.isSpent || c.isSentToOther) return false
+        if (c.tokenAddress.toLowerCase() !== tokenAddress.toLowerCase()) return false
+
+        const blindedCommitment = blindedCommitmentOf(c)
+        const commitmentType = c.commitmentType === 'ShieldCommitment' ? 'Shield' : 'Transact'
+        const cachedStatus = poiService.getPOIStatusForCommitmentsFromCacheOnly(networkName, [
+          { blindedCommitment, type: commitmentType as 'Shield' | 'Transact' | 'Unshield' },
+        ])
+        return cachedStatus[blindedCommitment]?.status === 'valid'
+      })
+      .sort((a, b) => Number(b.value - a.value))
+  }
+
+  /**
+   * Work out how a token's notes would be merged, without proving anything.
+   * Notes are grouped per merkle tree and circuit size; each group of two or more notes
+   * becomes one self-transfer producing a single note.
+   * @param wallet - The wallet to consolidate
+   * @param networkName - The network the wallet is on
+   * @param tokenAddress - The token whose notes are merged
+   * @param provider - Optional provider used to price the estimated gas
+   * @returns The consolidation plan with resulting note count and a rough gas estimate
+   */
+  async planConsolidation (
+    wallet: RailgunWallet,
+    networkName: NetworkName,
+    tokenAddress: string,
+    provider?: ethers.Provider
+  ): Promise<ConsolidationPlan> {
+    const notes = this.getSpendableNotes(wallet, networkName, tokenAddress)
+    const chunks = TransactionBatch.chunkUTXOsByTreeAndCircuit(notes)
+    const mergeable = chunks.filter((chunk) => chunk.length > 1)
+
+    const submissions: ConsolidationSubmission[] = []
+    for (let i = 0; i < mergeable.length; i += MAX_TRANSACTIONS_PER_SUBMISSION) {
+      const batch = mergeable.slice(i, i + MAX_TRANSACTIONS_PER_SUBMISSION)
+      const batchNotes = batch.flat()
+      submissions.push({
+        notes: batchNotes.map((c) => ({ treeNumber: c.treeNumber, position: c.position })),
+        amount: batchNotes.reduce((sum, c) => sum + c.value, 0n),
+        transactionCount: batch.length,
+      })
+    }
+
+    const estimatedGas = mergeable.reduce(
+      (sum, chunk) => sum + GAS_PER_TRANSACTION + GAS_PER_INPUT * BigInt(chunk.length),
+      0n
+    )
+
+    let gasPrice = ethers.parseUnits('1', 'gwei')
+    if (provider) {
+      try {
+        // Highest price the standard tier may pay
+        const fees = (await FeeService.getInstance().getFeeQuote(provider)).tiers.standard
+        gasPrice = fees.type === 2 ? fees.maxFeePerGas : fees.gasPrice
+      } catch {
+        // Use fallback gas price
+      }
+    }
+
+    return {
+      tokenAddress,
+      noteCountBefore: notes.length,
+      noteCountAfter: chunks.length,
+      transactionCount: mergeable.length,
+      submissions,
+      estimatedGas,
+      estimatedGasCostWei: estimatedGas * gasPrice,
+    }
+  }
+
+  /**
+   * Execute a consolidation plan. Each submission is a self-transfer through
+   * PrivateSendService with its notes pinned, so every transaction turns its notes into one.
+   * @param wallet - The wallet to consolidate
+   * @param networkName - The network the wallet is on
+   * @param plan - The plan returned by planConsolidation
+   * @param provider - The provider used for proving and submission
+   * @param onStatus - Optional callback for status updates
+   * @param gasPayer - Optional separate gas-paying wallet
+   * @returns The transaction hashes of every submission, in order
+   */
+  async executeConsolidation (
+    wallet: RailgunWallet,
+    networkName: NetworkName,
+    plan: ConsolidationPlan,
+    provider: ethers.Provider,
+    onStatus?: (s: string) => void,
+    gasPayer?: GasPayerWallet
+  ): Promise<string[]> {
+    if (plan.submissions.length === 0) {
+      throw new Error('Nothing to consolidate - notes are already merged')
+    }
+
+    const txHashes: string[] = []
+    for (let i = 0; i < plan.submissions.length; i++) {
+      const submission = plan.submissions[i]!
+      const prefix =
+        plan.submissions.length > 1 ? `Submission ${i + 1}/${plan.submissions.length}: ` : ''
+
+      const { txHash } = await PrivateSendService.getInstance().executeBatchPrivateSend(
+        wallet,
+        networkName,
+        {
+          recipients: [
+            {
+              recipientRailgunAddress: wallet.address,
+              tokenAddress: plan.tokenAddress,
+              amount: submission.amount.toString(),
+            },
+          ],
+          selectedUTXOs: submission.notes,
+        },
+        provider,
+        (s: string) => onStatus?.(`${prefix}${s}`),
+        false,
+        gasPayer
+      )
+
+      dlog(`Consolidation submission ${i + 1} confirmed: ${txHash}`)
+      txHashes.push(txHash)
+    }
+
+    return txHashes
+  }
+}
+
+export type { ConsolidationPlan, ConsolidationSubmission }
+export { NoteConsolidationService }
@@ -0,0 +1,509 @@
+/**
+ * OfflineTransactionService
+ *
+ * Splits private sends and unshields into three stages so the spending key never has to touch
+ * a networked machine:
+ *
+ * 1. Export (online, a watch-only wallet is enough): select the notes to spend, fetch their
+ *    merkle proofs and the fee data, and write an offline signing request file.
+ * 2. Sign (offline, full wallet): rebuild the transactions from the request, sign them with the
+ *    spending key and generate the zk-SNARK proofs, then write a signed transaction file.
+ * 3. Broadcast (online): import the signed file into the transaction outbox and submit it from
+ *    the wallet's own account or a gas wallet.
+ *
+ * Both files are plain JSON. Amounts, gas prices and note values are decimal strings, hashes and
+ * addresses are 0x-prefixed hex, and timestamps are milliseconds since the epoch.
+ *
+ * Signing request (`format: 'railgun-offline-request'`):
+ * - `version`, `createdAt`, `networkName`, `chainId`: file version, creation time and network.
+ * - `walletAddress`: 0zk address of the wallet that must sign.
+ * - `transaction`: `{ kind: 'private-send', params: BatchSendParams }`, or
+ *   `{ kind: 'unshield' | 'unshield-native', params: UnshieldParams }`.
+ * - `minGasPrice`: minimum gas price bound into the proofs, in wei. The broadcast must pay at least this.
+ * - `gasPrice`: standard-tier max fee per gas (legacy gas price on networks without EIP-1559)
+ *   when the request was exported, in wei, for reference. Broadcast fees are priced again.
+ * - `notes`: the notes to spend, as decrypted commitments (`value` as a string), each with a
+ *   `merkleProof` of `{ leaf, elements, indices, root }`. All notes spent by one transaction
+ *   share a merkle root, which must still be in the contract's root history when broadcast.
+ *
+ * Signed transaction (`format: 'railgun-offline-signed'`):
+ * - `version`, `createdAt`, `requestCreatedAt`, `networkName`, `chainId`, `walletAddress`, `kind`.
+ * - `transactions`: the proved TransactionStructs, formatted for the contract ABI.
+ * - `to`, `data`: the call to broadcast (RailgunSmartWallet.transact or RelayAdapt.relay).
+ * - `gasLimit`: optional fixed gas limit; estimated at broadcast when absent.
+ * - `ppoiData`: nullifiers, commitments and bound params hash of each transaction, for the PPOI
+ *   submission.
+ * - `metadata`: recipient and memo, recorded locally once the transaction confirms.
+ * - `sentOutputs`: output note data stored while proving, needed later for PPOI proofs.
+ */
+
+import { ethers } from 'ethers'
+
+import { FeeService } from './FeeService'
+import type { BatchSendParams } from './PrivateSendService'
+import { PrivateSendService } from './PrivateSendService'
+import type { SentTransactionOutput } from './SentTransactionStorage'
+import { SentTransactionStorage } from './SentTransactionStorage'
+import type { OutboxEntry, OutboxKind } from './TransactionOutboxService'
+import { TransactionOutboxService } from './TransactionOutboxService'
+import type { UnshieldParams } from './UnshieldService'
+import { UnshieldService } from './UnshieldService'
+
+import RailgunSmartWalletABI from '@/core/abis/RailgunSmartWallet.json'
+import { InMemoryDatabase } from '@/core/merkletrees/database'
+import type { TransactionStruct } from '@/core/transaction'
+import { Transaction } from '@/core/transaction'
+import type { OfflineNote, SpendingSolutionGroup } from '@/core/transaction-batch'
+import { TransactionBatch } from '@/core/transaction-batch'
+import type { NetworkName } from '@/types/network'
+import { NETWORK_CONFIG } from '@/types/network'
+import type { GasPayerWallet, RailgunWallet } from '@/types/wallet'
+import { getEthereumWallet } from '@/utils/crypto'
+import { dlog } from '@/utils/debug'
+import { formatTransactionForContract, getPPOIData } from '@/utils/transaction-utils'
+
+const REQUEST_FORMAT = 'railgun-offline-request'
+const SIGNED_FORMAT = 'railgun-offline-signed'
+const OFFLINE_FORMAT_VERSION = 1
+
+/**
+ * The transaction to build offline, with the parameters the online services take.
+ */
+type OfflineTransactionParams =
+  | { kind: 'private-send'; params: BatchSendParams }
+  | { kind: 'unshield' | 'unshield-native'; params: UnshieldParams }
+
+type SerializedOfflineNote = Omit<OfflineNote, 'value'> & { value: string }
+
+type SerializedSentOutput = Omit<SentTransactionOutput, 'value'> & { value: string }
+
+/**
+ * Stage 1 output: everything the offline machine needs to build and prove the transaction.
+ */
+type OfflineRequestFile = {
+  format: typeof REQUEST_FORMAT
+  version: number
+  createdAt: number
+  networkName: NetworkName
+  chainId: number
+  walletAddress: string
+  transaction: OfflineTransactionParams
+  minGasPrice: string
+  gasPrice: string
+  notes: SerializedOfflineNote[]
+}
+
+/**
+ * Stage 2 output: the proved transaction, ready to broadcast.
+ */
+type OfflineSignedFile = {
+  format: typeof SIGNED_FORMAT
+  version: number
+  createdAt: number
+  requestCreatedAt: number
+  networkName: NetworkName
+  chainId: number
+  walletAddress: string
+  kind: OutboxKind
+  transactions: any[]
+  to: string
+  data: string
+  gasLimit?: string
+  ppoiData?: OutboxEntry['ppoiData']
+  metadata: OutboxEntry['metadata']
+  sentOutputs: SerializedSentOutput[]
+}
+
+type OfflineBroadcastResult = {
+  txHash: string
+  ppoiData?: OutboxEntry['ppoiData']
+}
+
+/**
+ * Exports offline signing requests, proves them on an air-gapped machine, and broadcasts the
+ * signed result.
+ */
+class OfflineTransactionService {
+  /**
+   * Singleton instance of the service.
+   */
+  private static instance: OfflineTransactionService
+
+  /**
+   * Get the singleton instance of OfflineTransactionService.
+   * @returns The shared OfflineTransactionService instance
+   */
+  static getInstance (): OfflineTransactionService {
+    if (!this.instance) this.instance = new OfflineTransactionService()
+    return this.instance
+  }
+
+  /**
+   * Stage 1 (online): select the notes to spend and export them with their merkle proofs and
+   * the fee data. Only viewing keys are used.
+   * @param wallet - The wallet spending the notes; may be watch-only
+   * @param networkName - The network to transact on
+   * @param transaction - The private send or unshield to prepare
+   * @param provider - Provider for the network, used for fee data and merkle proofs
+   * @param onStatus - Optional callback for status updates
+   * @returns The signing request file contents as a JSON string
+   */
+  async exportRequest (
+    wallet: RailgunWallet,
+    networkName: NetworkName,
+    transaction: OfflineTransactionParams,
+    provider: ethers.Provider,
+    onStatus?: (s: string) => void
+  ): Promise<string> {
+    const network = NETWORK_CONFIG[networkName]
+    if (!network) throw new Error(`Unsupported network: ${networkName}`)
+
+    onStatus?.('Fetching fee data…')
+    const { minGasPrice, tiers } = await FeeService.getInstance().getFeeQuote(provider)
+    const standardFees = tiers.standard
+    const gasPrice = standardFees.type === 2 ? standardFees.maxFeePerGas : standardFees.gasPrice
+
+    onStatus?.('Selecting notes…')
+    let groups: SpendingSolutionGroup[]
+    if (transaction.kind === 'private-send') {
+      groups = await PrivateSendService.getInstance().selectBatchPrivateSendNotes(
+        wallet,
+        networkName,
+        transaction.params,
+        minGasPrice
+      )
+    } else {
+      groups = await UnshieldService.getInstance().selectUnshieldNotes(
+        wallet,
+        transaction.params,
+        networkName
+      )
+    }
+
+    onStatus?.('Building merkle proofs…')
+    const walletNotes = new TransactionBatch(networkName).getWalletUTXOs(wallet)
+    const notes: SerializedOfflineNote[] = []
+    for (const group of groups) {
+      const proofs = await new Transaction(
+        { type: 0, id: network.chainId },
+        group.tokenData,
+        group.spendingTree,
+        group.utxos,
+        [],
+        {
+          contract: '0x0000000000000000000000000000000000000000',
+          parameters: '0x0000000000000000000000000000000000000000000000000000000000000000',
+        },
+        new InMemoryDatabase()
+      ).getMerkleProofs()
+
+      group.utxos.forEach((utxo, index) => {
+        const note = walletNotes.find(
+          (c) => c.treeNumber === utxo.tree && c.position === utxo.position
+        )
+        if (!note) throw new Error(`Note ${utxo.tree}:${utxo.position} was not found in this wallet`)
+        notes.push({ ...note, value: note.value.toString(), merkleProof: proofs[index]! })
+      })
+    }
+
+    // Manual selection is replaced by the exported notes
+    const params = { ...transaction.params }
+    delete params.selectedUTXOs
+
+    const file: OfflineRequestFile = {
+      format: REQUEST_FORMAT,
+      version: OFFLINE_FORMAT_VERSION,
+      createdAt: Date.now(),
+      networkName,
+      chainId: network.chainId,
+      walletAddress: wallet.address,
+      transaction: { ...transaction, params } as OfflineTransactionParams,
+      minGasPrice: minGasPrice.toString(),
+      gasPrice: gasPrice.toString(),
+      notes,
+    }
+
+    dlog(`Exported offline ${transaction.kind} request spending ${notes.length} note(s)`)
+    return JSON.stringify(file, null, 2)
+  }
+
+  /**
+   * Read a signing request file.
+   * @param contents - The file contents
+   * @returns The parsed request
+   * @throws Error if the file is not a signing request or the version is unsupported
+   */
+  readRequest (contents: string): OfflineRequestFile {
+    const file = this.parseFile<OfflineRequestFile>(contents, REQUEST_FORMAT, 'offline signing request')
+    if (!file.transaction?.kind || !Array.isArray(file.notes) || file.notes.length === 0) {
+      throw new Error('Offline signing request is missing its transaction or notes')
+    }
+    return file
+  }
+
+  /**
+   * Stage 2 (offline): build, sign and prove the transaction described by a signing request.
+   * Needs no network access.
+   * @param wallet - The full wallet owning the notes
+   * @param request - The signing request
+   * @param onStatus - Optional callback for status updates during proving
+   * @param signal - Optional abort signal that cancels proof generation
+   * @returns The signed transaction file contents as a JSON string
+   */
+  async signRequest (
+    wallet: RailgunWallet,
+    request: OfflineRequestFile,
+    onStatus?: (s: string) => void,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const { networkName, transaction } = request
+    const network = NETWORK_CONFIG[networkName]
+    if (!network || network.chainId !== request.chainId) {
+      throw new Error(`Unsupported network: ${networkName}`)
+    }
+    if (request.walletAddress !== wallet.address) {
+      throw new Error('This request was exported for a different wallet')
+    }
+    if (wallet.watchOnly) throw new Error('Watch-only wallets cannot sign transactions')
+
+    const notes: OfflineNote[] = request.notes.map((note) => ({
+      ...note,
+      value: BigInt(note.value),
+    }))
+    /**
+     * Report proof generation progress.
+     * @param progress - Progress percentage
+     */
+    const onProgress = (progress: number) => {
+      onStatus?.(`Generating proof: ${progress}%`)
+    }
+
+    let provedTransactions: TransactionStruct[]
+    let call: Pick<OfflineSignedFile, 'to' | 'data' | 'gasLimit'>
+    let metadata: OutboxEntry['metadata']
+    const contractInterface = new ethers.Interface(RailgunSmartWalletABI)
+
+    if (transaction.kind === 'unshield-native') {
+      const relayAdaptAddress = network.relayAdaptContract
+      if (!relayAdaptAddress || relayAdaptAddress === '0x0000000000000000000000000000000000000000') {
+        throw new Error(`RelayAdapt not available for network: ${networkName}`)
+      }
+      const { relayCallData, provedTransaction } =
+        await UnshieldService.getInstance().buildV2UnshieldBaseTokenTransaction(
+          wallet,
+          transaction.params,
+          networkName,
+          relayAdaptAddress,
+          BigInt(request.minGasPrice),
+          onProgress,
+          signal,
+          notes
+        )
+      provedTransactions = [provedTransaction]
+      call = { to: relayAdaptAddress, data: relayCallData }
+      metadata = { recipientAddress: transaction.params.recipient }
+    } else {
+      if (transaction.kind === 'private-send') {
+        const privateSendService = PrivateSendService.getInstance()
+        provedTransactions = await privateSendService.proveBatchPrivateSend(
+          wallet,
+          networkName,
+          transaction.params,
+          BigInt(request.minGasPrice),
+          onStatus,
+          signal,
+          notes
+        )
+        metadata = privateSendService.getTransactionMetadata(transaction.params)
+      } else {
+        provedTransactions = await UnshieldService.getInstance().buildV2UnshieldTransactions(
+          wallet,
+          transaction.params,
+          networkName,
+          BigInt(request.minGasPrice),
+          onProgress,
+          signal,
+          notes
+        )
+        metadata = { recipientAddress: transaction.params.recipient }
+      }
+      call = {
+        to: network.railgunV2Contract,
+        data: contractInterface.encodeFunctionData('transact', [
+          provedTransactions.map((tx) => formatTransactionForContract(tx)),
+        ]),
+      }
+    }
+
+    // Outputs stored while proving are needed on the online machine for PPOI proofs
+    const commitments = new Set(
+      provedTransactions.flatMap((tx) => tx.commitments.map((c) => c.toLowerCase()))
+    )
+    const sentOutputs = SentTransactionStorage.getInstance()
+      .getSentOutputs(wallet.address)
+      .filter((o) => !o.transactionHash && commitments.has(o.commitmentHash.toLowerCase()))
+      .map((o) => ({ ...o, value: o.value.toString() }))
+
+    const ppoiData = getPPOIData(provedTransactions)
+    const file: OfflineSignedFile = {
+      format: SIGNED_FORMAT,
+      version: OFFLINE_FORMAT_VERSION,
+      createdAt: Date.now(),
+      requestCreatedAt: request.createdAt,
+      networkName,
+      chainId: request.chainId,
+      walletAddress: wallet.address,
+      kind: transaction.kind,
+      transactions: provedTransactions.map((tx) => formatTransactionForContract(tx)),
+      ...call,
+      ...(ppoiData ? { ppoiData } : {}),
+      metadata,
+      sentOutputs,
+    }
+
+    dlog(`Signed offline ${transaction.kind} request with ${provedTransactions.length} transaction(s)`)
+    return JSON.stringify(file, null, 2)
+  }
+
+  /**
+   * Read a signed transaction file.
+   * @param contents - The file contents
+   * @returns The parsed signed transaction
+   * @throws Error if the file is not a signed transaction or the version is unsupported
+   */
+  readSigned (contents: string): OfflineSignedFile {
+    const file = this.parseFile<OfflineSignedFile>(contents, SIGNED_FORMAT, 'signed transaction')
+    if (!Array.isArray(file.transactions) || !file.to || !file.data) {
+      throw new Error('Signed transaction file is missing its transactions')
+    }
+    return file
+  }
+
+  /**
+   * Stage 3 (online): import a signed transaction into the outbox and broadcast it. If the
+   * broadcast fails, the transaction stays in the outbox to be re-broadcast later.
+   * @param wallet - The wallet that signed the transaction
+   * @param signed - The signed transaction
+   * @param provider - Provider for the transaction's network
+   * @param gasPayer - Optional gas wallet; required when the wallet itself has no mnemonic
+   * @param onStatus - Optional callback for status updates
+   * @returns The confirmed transaction hash and the PPOI data to submit
+   */
+  async broadcastSigned (
+    wallet: RailgunWallet,
+    signed: OfflineSignedFile,
+    provider: ethers.Provider,
+    gasPayer?: GasPayerWallet,
+    onStatus?: (s: string) => void
+  ): Promise<OfflineBroadcastResult> {
+    const network = NETWORK_CONFIG[signed.networkName]
+    if (!network || network.chainId !== signed.chainId) {
+      throw new Error(`Unsupported network: ${signed.networkName}`)
+    }
+    if (signed.walletAddress !== wallet.address) {
+      throw new Error('This transaction was signed by a different wallet')
+    }
+    this.assertExpectedCall(signed)
+
+    const signerSource = gasPayer || wallet
+    if (!signerSource.mnemonic) {
+      throw new Error('Select a gas wallet to pay for this transaction')
+    }
+    const signerAddress = getEthereumWallet(
+      signerSource.mnemonic,
+      signerSource.derivationIndex,
+      signerSource.passphrase
+    ).address
+
+    SentTransactionStorage.getInstance().restoreSentOutputs(
+      wallet.address,
+      signed.sentOutputs.map((o) => ({ ...o, value: BigInt(o.value) })),
+      false
+    )
+
+    // Importing the same file twice reuses its outbox entry
+    const outbox = TransactionOutboxService.getInstance()
+    const existing = outbox
+      .getEntries(wallet.id, signed.networkName)
+      .find((entry) => entry.data === signed.data)
+    if (existing && existing.signer.address.toLowerCase() !== signerAddress.toLowerCase()) {
+      throw new Error(`This transaction is already pending from ${existing.signer.address}`)
+    }
+    const entry =
+      existing ??
+      outbox.add({
+        walletId: wallet.id,
+        walletAddress: wallet.address,
+        networkName: signed.networkName,
+        kind: signed.kind,
+        transactions: signed.transactions,
+        to: signed.to,
+        data: signed.data,
+        ...(signed.gasLimit ? { gasLimit: signed.gasLimit } : {}),
+        ...(signed.ppoiData ? { ppoiData: signed.ppoiData } : {}),
+        signer: { walletId: signerSource.id, address: signerAddress },
+        metadata: signed.metadata,
+      })
+
+    const txHash = await outbox.rebroadcast(entry, provider, signerSource, false, onStatus)
+    return { txHash, ...(signed.ppoiData ? { ppoiData: signed.ppoiData } : {}) }
+  }
+
+  /**
+   * Check that a signed file calls the contract its kind expects, and that transact calldata
+   * matches the proved transactions it carries.
+   * @param signed - The signed transaction
+   */
+  private assertExpectedCall (signed: OfflineSignedFile): void {
+    const network = NETWORK_CONFIG[signed.networkName]
+    const expectedTo =
+      signed.kind === 'unshield-native' ? network.relayAdaptContract : network.railgunV2Contract
+    if (!expectedTo || signed.to.toLowerCase() !== expectedTo.toLowerCase()) {
+      throw new Error(`Signed transaction calls an unexpected contract: ${signed.to}`)
+    }
+    if (signed.kind === 'unshield-native') return
+
+    const expectedData = new ethers.Interface(RailgunSmartWalletABI).encodeFunctionData(
+      'transact',
+      [signed.transactions]
+    )
+    if (expectedData !== signed.data) {
+      throw new Error('Signed transaction calldata does not match its proved transactions')
+    }
+  }
+
+  /**
+   * Parse an offline file and check its format and version.
+   * @param contents - The file contents
+   * @param format - The expected format
+   * @param label - Name of the file type for error messages
+   * @returns The parsed file
+   */
+  private parseFile<T extends { format: string; version: number }> (
+    contents: string,
+    format: T['format'],
+    label: string
+  ): T {
+    let file: Partial<T>
+    try {
+      file = JSON.parse(contents)
+    } catch {
+      throw new Error(`Not a valid ${label} file`)
+    }
+    if (file.format !== format) {
+      throw new Error(`Not a valid ${label} file`)
+    }
+    if (file.version !== OFFLINE_FORMAT_VERSION) {
+      throw new Error(`Unsupported ${label} version: ${file.version}`)
+    }
+    return file as T
+  }
+}
+
+export type {
+  OfflineBroadcastResult,
+  OfflineRequestFile,
+  OfflineSignedFile,
+  OfflineTransactionParams,
+}
+export { OfflineTransactionService }
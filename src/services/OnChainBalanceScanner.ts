@@ -1,17 +1,24 @@
-import { poseidon } from '@railgun-community/circomlibjs'
 import { ethers } from 'ethers'
 
-import { TokenService } from './TokenService'
+import type { BalanceScanOptions, PrivateBalanceScanner } from './BalanceScannerRouter'
+import { ReorgService } from './ReorgService'
+import { SubsquidBalanceScanner } from './SubsquidBalanceScanner'
+import { UTXOMerkletreeService } from './UTXOMerkletreeService'
 
 import RailgunSmartWalletABI from '@/core/abis/RailgunSmartWallet.json'
 import type { NetworkName } from '@/types/network'
 import { NETWORK_CONFIG } from '@/types/network'
-import type { RailgunWallet, TokenBalance } from '@/types/wallet'
-import { AES } from '@/utils/aes'
-import { ByteUtils } from '@/utils/crypto'
+import type {
+  DecryptedCommitment,
+  RailgunWallet,
+  SubsquidCommitment,
+  SubsquidNullifier,
+  TokenBalance,
+} from '@/types/wallet'
 import { dlog as _debugLog } from '@/utils/debug'
-import { poseidon as poseidonUtil } from '@/utils/poseidon'
-import { getSharedSymmetricKey } from '@/utils/railgun-crypto'
+import { poseidon } from '@/utils/poseidon'
+import { getTokenDataHash } from '@/utils/railgun-crypto'
+import { createProvider } from '@/utils/rpc'
 
 /**
  * Logs a debug message with the OnChainBalanceScanner prefix.
@@ -24,15 +31,36 @@ const dlog = (msg: string, ...args: any[]) => _debugLog(`[OnChainBalanceScanner]
 /**
  * On-Chain Balance Scanner Service
  *
- * Fetches commitments directly from RAILGUN contract events on-chain
- * Similar to BalanceScanner but works without Subsquid dependency
- * Perfect for local Hardhat testing and development
+ * Fetches commitments directly from RAILGUN contract events on-chain, without the Subsquid
+ * indexer: the only source on Hardhat, and the fallback elsewhere when the indexer is down.
+ *
+ * Shield, Transact and Nullified events are converted into the records the indexer serves and
+ * run through the same decryption and spent detection as indexer scans, so both sources yield
+ * identical DecryptedCommitment records. Each scan reads the wallet's whole block range; legacy
+ * (pre-v2.1) commitment events are not read.
  */
-class OnChainBalanceScanner {
+class OnChainBalanceScanner implements PrivateBalanceScanner {
   /** Singleton instance of OnChainBalanceScanner. */
   private static instance: OnChainBalanceScanner
-  /** Map of wallet ID to its decrypted commitments. */
-  private decryptedCommitments: Map<string, OnChainDecryptedCommitment[]> = new Map()
+  /** Where this scanner reads commitments from. */
+  public readonly source = 'rpc' as const
+  /** Decrypted commitments of each wallet, keyed `<walletId>:<network>`. */
+  private decryptedCommitments: Map<string, DecryptedCommitment[]> = new Map()
+
+  /**
+   * Private constructor to enforce singleton pattern; registers the reorg rollback.
+   */
+  private constructor () {
+    ReorgService.getInstance().registerRollbackHandler(async (networkName, ancestorBlock) => {
+      for (const [key, commitments] of this.decryptedCommitments) {
+        if (!key.endsWith(`:${networkName}`)) continue
+        this.decryptedCommitments.set(
+          key,
+          commitments.filter((commitment) => commitment.blockNumber <= ancestorBlock)
+        )
+      }
+    })
+  }
 
   /**
    * Returns the singleton instance, creating it if necessary.
@@ -46,87 +74,118 @@ class OnChainBalanceScanner {
   }
 
   /**
-   * Scan balances directly from on-chain RAILGUN contract events
+   * Scan balances directly from on-chain RAILGUN contract events.
+   * Every scan covers the wallet's whole range and replaces its stored commitments, so
+   * `options.incremental` has no effect.
    * @param wallet - Wallet to scan for
    * @param networkName - Network to scan on
    * @param progressCallback - Optional progress callback
-   * @param options - Scan options (must include provider for OnChain scanner)
-   * @param options.provider - The ethers provider used to query the chain
-   * @returns Array of token balances found for the wallet
+   * @param options - Optional scan configuration
+   * @param options.provider - The ethers provider used to query the chain; defaults to the
+   * network's RPC
+   * @param options.startBlockNumber - Block number to start scanning from
+   * @param options.signal - Abort signal that cancels the scan
+   * @returns Array of token balances grouped by balance bucket
    */
   async scanBalances (
     wallet: RailgunWallet,
     networkName: NetworkName,
     progressCallback?: (progress: number) => void,
-    options?: { provider?: ethers.Provider }
+    options?: BalanceScanOptions
   ): Promise<TokenBalance[]> {
-    // Extract provider from options or throw error
-    const provider = options?.provider
-    if (!provider) {
-      throw new Error('OnChainBalanceScanner requires a provider in options.provider')
+    const networkConfig = NETWORK_CONFIG[networkName]
+    if (!networkConfig) {
+      throw new Error(`Network configuration not found for ${networkName}`)
     }
+    const provider = options?.provider ?? createProvider(networkName)
     try {
       dlog(`Starting on-chain balance scan for wallet ${wallet.id}`)
       if (progressCallback) progressCallback(0)
 
-      // 1. Fetch commitment events from RAILGUN contract
-      const commitments = await this.fetchCommitmentEvents(networkName, provider)
-      dlog(`Fetched ${commitments.length} commitment events from contract`)
+      // Creating the tree service registers its rollback before a reorg can be detected
+      const merkletree = UTXOMerkletreeService.getInstance()
+      // Drop commitments other scanners stored from orphaned blocks
+      await ReorgService.getInstance().checkForReorg(networkName, provider)
 
-      if (progressCallback) progressCallback(0.3)
-
-      // 2. Try to decrypt commitments for this wallet
-      const decryptedCommitments = await this.decryptCommitmentsForWallet(
-        commitments,
-        wallet,
-        progressCallback
+      // 1. Fetch commitment and nullifier events from the RAILGUN contract
+      const fromBlock = Math.max(
+        networkConfig.deploymentBlock,
+        options?.startBlockNumber ?? wallet.scanStartBlocks?.[networkName] ?? 0
       )
-      dlog(`Decrypted ${decryptedCommitments.length} commitments for wallet`)
+      const toBlock = await provider.getBlockNumber()
+      const { commitments, nullifiers } = await this.fetchContractEvents(
+        networkName,
+        provider,
+        fromBlock,
+        toBlock
+      )
+      options?.signal?.throwIfAborted()
+      dlog(
+        `Fetched ${commitments.length} commitments, ${nullifiers.length} nullifiers from contract`
+      )
+      await ReorgService.getInstance().recordCheckpoint(networkName, toBlock, provider)
 
-      if (progressCallback) progressCallback(0.5)
+      // Extend the persistent merkletree used for spend proofs; it never blocks the scan
+      merkletree
+        .ingestCommitments(networkName, commitments)
+        .catch((error) => dlog('Failed to update UTXO merkletree:', error))
 
-      // 2.5. Detect spent commitments by checking nullifier events
-      const decryptedCommitmentsWithSpentStatus = await this.detectSpentCommitments(
-        decryptedCommitments,
+      if (progressCallback) progressCallback(0.2)
+
+      // 2. Decrypt and detect spent notes exactly as indexer scans do
+      const subsquidScanner = SubsquidBalanceScanner.getInstance()
+      const decryptedCommitments = await subsquidScanner.decryptCommitments(
+        commitments,
         wallet,
         networkName,
-        provider
+        progressCallback,
+        nullifiers,
+        options?.signal
       )
-      dlog(`Detected spent status for ${decryptedCommitmentsWithSpentStatus.length} commitments`)
+      await this.fillTimestamps(decryptedCommitments, provider)
+      options?.signal?.throwIfAborted()
+      dlog(`Decrypted ${decryptedCommitments.length}/${commitments.length} commitments`)
 
-      // Store decrypted commitments for this wallet
-      this.decryptedCommitments.set(wallet.id, decryptedCommitmentsWithSpentStatus)
+      // Store decrypted commitments for this wallet on this network
+      this.decryptedCommitments.set(`${wallet.id}:${networkName}`, decryptedCommitments)
 
-      if (progressCallback) progressCallback(0.7)
+      if (progressCallback) progressCallback(0.6)
 
-      // 3. Calculate token balances - must use commitments with spent status!
-      const balances = this.calculateTokenBalances(decryptedCommitmentsWithSpentStatus, networkName)
+      // 3. Calculate token balances with the same PPOI buckets as indexer scans
+      const balances = await subsquidScanner.calculateTokenBalancesWithBuckets(
+        decryptedCommitments,
+        networkName,
+        wallet.address
+      )
       dlog(`Calculated ${balances.length} token balances`)
 
       if (progressCallback) progressCallback(1.0)
 
       return balances
     } catch (error) {
-      console.error('Error in on-chain balance scan:', error)
+      if (!options?.signal?.aborted) console.error('Error in on-chain balance scan:', error)
       throw error
     }
   }
 
   /**
-   * Get decrypted commitments for a specific wallet
+   * Get decrypted commitments for a specific wallet on a network
    * @param walletId - The unique identifier of the wallet
+   * @param networkName - The network the commitments were scanned on
    * @returns Array of decrypted commitments belonging to the wallet
    */
-  getDecryptedCommitmentsForWallet (walletId: string): OnChainDecryptedCommitment[] {
-    return this.decryptedCommitments.get(walletId) || []
+  getDecryptedCommitmentsForWallet (walletId: string, networkName: NetworkName): DecryptedCommitment[] {
+    return this.decryptedCommitments.get(`${walletId}:${networkName}`) || []
   }
 
   /**
-   * Clear stored commitments for a wallet
+   * Clear stored commitments for a wallet on every network
    * @param walletId - The unique identifier of the wallet whose commitments should be cleared
    */
   clearStoredTXOs (walletId: string): void {
-    this.decryptedCommitments.delete(walletId)
+    for (const key of this.decryptedCommitments.keys()) {
+      if (key.startsWith(`${walletId}:`)) this.decryptedCommitments.delete(key)
+    }
     dlog(`Cleared stored commitments for wallet ${walletId}`)
   }
 
@@ -186,643 +245,195 @@ class OnChainBalanceScanner {
   }
 
   /**
-   * Fetch commitment events directly from RAILGUN contract
-   * @param networkName - The network to query commitment events from
+   * Fetch Shield, Transact and Nullified events from the RAILGUN contract and convert them into
+   * the commitment and nullifier records the Subsquid indexer serves.
+   * @param networkName - The network to query events from
    * @param provider - The ethers provider for RPC calls
-   * @returns Array of parsed on-chain commitment events (Shield and Transact)
+   * @param fromBlock - First block to read
+   * @param toBlock - Last block to read
+   * @returns The commitments in indexer format and the nullifiers spent in the range
    */
-  private async fetchCommitmentEvents (
+  private async fetchContractEvents (
     networkName: NetworkName,
-    provider: ethers.Provider
-  ): Promise<OnChainCommitment[]> {
+    provider: ethers.Provider,
+    fromBlock: number,
+    toBlock: number
+  ): Promise<{ commitments: SubsquidCommitment[]; nullifiers: SubsquidNullifier[] }> {
     const networkConfig = NETWORK_CONFIG[networkName]
     if (!networkConfig) {
       throw new Error(`Network configuration not found for ${networkName}`)
     }
 
-    const railgunABI = RailgunSmartWalletABI
-
-    dlog(`Using RAILGUN ABI with ${railgunABI.length} entries`)
-
-    const commitmentEvents: OnChainCommitment[] = []
+    dlog(`Fetching contract events from block ${fromBlock} to ${toBlock}`)
 
-    try {
-      // Get deployment block (use network-specific deployment block like BalanceScanner)
-      const currentBlock = await provider.getBlockNumber()
-      const fromBlock = networkConfig.deploymentBlock // Use deployment block from network config
-
-      dlog(`Fetching commitment events from block ${fromBlock} to ${currentBlock}`)
-
-      // Get ALL logs from the RAILGUN contract to see what's actually being emitted
-      // Use chunking to handle large block ranges (RPC providers limit to ~50k blocks)
-      const allLogs = await this.fetchLogsInChunks(provider, {
-        address: networkConfig.railgunV2Contract,
-        fromBlock,
-        toBlock: currentBlock,
-      })
-
-      dlog(`Found ${allLogs.length} total logs from RAILGUN contract`)
-
-      if (allLogs.length > 0) {
-        const contractInterface = new ethers.Interface(railgunABI)
-
-        let shieldCount = 0
-        let transactCount = 0
-        let otherCount = 0
-
-        for (const log of allLogs) {
-          try {
-            const parsedLog = contractInterface.parseLog(log)
-            if (!parsedLog) {
-              otherCount++
-              continue
-            }
-
-            if (parsedLog.name === 'Shield') {
-              shieldCount++
-              // Extract Shield event args: [treeNumber, startPosition, commitments[], shieldCiphertext[], fees[]]
-              const args = parsedLog.args
-              if (args && args.length >= 4) {
-                const [treeNumber, startPosition, shieldCommitments, shieldCiphertext] = args
-
-                // Convert ethers Result arrays to regular arrays
-                const commitmentsArray = Array.from(shieldCommitments as any[])
-                const ciphertextArray = Array.from(shieldCiphertext as any[])
-
-                // Process each commitment in the shield batch
-                for (let i = 0; i < commitmentsArray.length; i++) {
-                  const commitment = commitmentsArray[i] as any[]
-                  const ciphertext = ciphertextArray[i] as any[]
-
-                  // Extract commitment data: [commitmentHash, tokenData, value]
-                  if (commitment && commitment.length >= 3) {
-                    const [commitmentHash, tokenData, value] = commitment
-
-                    // Convert tokenData to array and extract token address
-                    const tokenDataArray = Array.from(tokenData as any[])
-                    let tokenAddress = '0x0'
-                    if (tokenDataArray && tokenDataArray.length > 1) {
-                      tokenAddress = (tokenDataArray[1] as string) || '0x0' // tokenData[1] is the token address
-                    }
-
-                    // Extract ciphertext data: [encryptedBundle[3], shieldKey]
-                    let encryptedBundle: [string, string, string] | null = null
-                    let shieldKey: string | null = null
-                    if (ciphertext && ciphertext.length >= 2) {
-                      const [bundleData, shieldKeyData] = ciphertext
-                      if (bundleData && Array.from(bundleData as any[]).length >= 3) {
-                        const bundleArray = Array.from(bundleData as any[])
-                        encryptedBundle = [
-                          bundleArray[0] as string,
-                          bundleArray[1] as string,
-                          bundleArray[2] as string,
-                        ]
-                      }
-                      shieldKey = shieldKeyData as string
-                    }
-
-                    // Use the commitment hash directly from the Shield event (first element of commitment)
-                    const finalCommitmentHash = (commitmentHash as any).toString()
-
-                    commitmentEvents.push({
-                      id: `shield-${log.transactionHash}-${i}`,
-                      hash: finalCommitmentHash, // Use commitment hash directly from Shield event
-                      txid: log.transactionHash || '',
-                      blockNumber: log.blockNumber || 0,
-                      treeNumber: Number(treeNumber),
-                      batchStartTreePosition: Number(startPosition),
-                      position: i + Number(startPosition), // Position in merkle tree
-                      commitmentType: 'Shield',
-                      ciphertext: log.data, // Raw data as ciphertext - keep for compatibility
-                      timestamp: 0, // Will be filled later if needed
-                      // Shield-specific fields extracted from event
-                      npk: finalCommitmentHash, // In Shield events, the first element is the commitment hash
-                      value: (value as any).toString(),
-                      tokenAddress,
-                      // Shield encryption data for decryption
-                      encryptedBundle,
-                      shieldKey,
-                    })
-                  }
-                }
-              }
-            } else if (parsedLog.name === 'Transact') {
-              transactCount++
-              // Extract Transact event args: [treeNumber, startPosition, hash[], ciphertext[]]
-              // The Transact event emits arrays of commitment hashes and their corresponding ciphertexts
-              const args = parsedLog.args
-              if (args && args.length >= 4) {
-                const [treeNumber, startPosition, hashes, ciphertexts] = args
-
-                // Convert to regular arrays
-                const hashesArray = Array.from(hashes as any[])
-                const ciphertextsArray = Array.from(ciphertexts as any[])
-
-                // Each hash corresponds to a ciphertext at the same index
-                for (let i = 0; i < hashesArray.length; i++) {
-                  const commitmentHash = (hashesArray[i] as any).toString()
-                  const ciphertext = ciphertextsArray[i]
-
-                  // Extract ciphertext components: { ciphertext: bytes32[4], blindedSenderViewingKey, blindedReceiverViewingKey, annotationData, memo }
-                  let transactCiphertext: OnChainTransactCiphertext | null = null
-                  if (ciphertext) {
-                    try {
-                      // Extract the ciphertext struct fields
-                      const ciphertextData = Array.from(ciphertext[0] as any[]) // bytes32[4] ciphertext array
-                      const blindedSenderKey = (ciphertext[1] as any)?.toString()
-                      const blindedReceiverKey = (ciphertext[2] as any)?.toString()
-                      const annotationData = (ciphertext[3] as any)?.toString() || '0x'
-                      const memo = (ciphertext[4] as any)?.toString() || '0x'
-
-                      // Parse ciphertext array as IV (16 bytes), Tag (16 bytes), Data blocks
-                      // ciphertext[0] = IV (first 16 bytes) + Tag (last 16 bytes) = 32 bytes
-                      // ciphertext[1-3] = Data blocks (48 bytes total)
-                      if (ciphertextData.length >= 4) {
-                        const block0 = ciphertextData[0].toString()
-                        const block1 = ciphertextData[1].toString()
-                        const block2 = ciphertextData[2].toString()
-                        const block3 = ciphertextData[3].toString()
-
-                        // Extract IV and Tag from first block
-                        const block0Hex = block0.startsWith('0x') ? block0.slice(2) : block0
-                        const iv = '0x' + block0Hex.slice(0, 32) // First 16 bytes
-                        const tag = '0x' + block0Hex.slice(32, 64) // Last 16 bytes
-
-                        transactCiphertext = {
-                          iv,
-                          tag,
-                          data: [block1, block2, block3], // Remaining data blocks
-                          blindedSenderViewingKey: blindedSenderKey,
-                          blindedReceiverViewingKey: blindedReceiverKey,
-                          annotationData,
-                          memo,
-                        }
-                      }
-                    } catch (e) {
-                      dlog(`Failed to parse transact ciphertext: ${e}`)
-                    }
-                  }
-
-                  commitmentEvents.push({
-                    id: `transact-${log.transactionHash}-${i}`,
-                    hash: commitmentHash,
-                    txid: log.transactionHash || '',
-                    blockNumber: log.blockNumber || 0,
-                    treeNumber: Number(treeNumber),
-                    batchStartTreePosition: Number(startPosition),
-                    position: i + Number(startPosition), // Position in merkle tree
-                    commitmentType: 'Transact',
-                    ciphertext: log.data, // Keep raw data for compatibility
-                    timestamp: 0,
-                    npk: '0', // Will be decrypted from ciphertext
-                    value: '0', // Will be decrypted from ciphertext
-                    tokenAddress: '0x0', // Will be determined from token data
-                    encryptedBundle: null,
-                    shieldKey: null,
-                    // Transact-specific fields
-                    transactCiphertext,
-                  })
-                }
-              }
-            } else {
-              otherCount++
-            }
-          } catch (error) {
-            dlog(`Could not parse log with topic ${log.topics[0]}: ${error}`)
-            otherCount++
-          }
-        }
-
-        dlog(
-          `Event parsing summary: ${shieldCount} Shield, ${transactCount} Transact, ${otherCount} other/unparsed`
-        )
-      }
-
-      return commitmentEvents
-    } catch (error) {
-      console.error('Error fetching commitment events:', error)
-      throw error
-    }
-  }
-
-  /**
-   * Try to decrypt commitments for this wallet
-   * @param commitments - Array of on-chain commitment events to attempt decryption on
-   * @param wallet - The wallet whose viewing key is used for decryption
-   * @param progressCallback - Optional callback to report decryption progress
-   * @returns Array of successfully decrypted commitments belonging to the wallet
-   */
-  private async decryptCommitmentsForWallet (
-    commitments: OnChainCommitment[],
-    wallet: RailgunWallet,
-    progressCallback?: (progress: number) => void
-  ): Promise<OnChainDecryptedCommitment[]> {
-    const decryptedCommitments: OnChainDecryptedCommitment[] = []
-    let successCount = 0
-    let failureCount = 0
-
-    dlog(`Attempting to decrypt ${commitments.length} commitments`)
+    // Use chunking to handle large block ranges (RPC providers limit to ~50k blocks)
+    const logs = await this.fetchLogsInChunks(provider, {
+      address: networkConfig.railgunV2Contract,
+      fromBlock,
+      toBlock,
+    })
 
-    for (let i = 0; i < commitments.length; i++) {
-      const commitment = commitments[i]
-      if (!commitment) continue
+    const contractInterface = new ethers.Interface(RailgunSmartWalletABI)
+    const commitments: SubsquidCommitment[] = []
+    const nullifiers: SubsquidNullifier[] = []
 
+    for (const log of logs) {
       try {
-        const decrypted = await this.tryDecryptCommitment(commitment, wallet)
-        if (decrypted) {
-          decryptedCommitments.push(decrypted)
-          successCount++
-        } else {
-          failureCount++
+        const parsedLog = contractInterface.parseLog({ topics: [...log.topics], data: log.data })
+        if (parsedLog?.name === 'Shield') {
+          commitments.push(...this.toShieldCommitments(log, parsedLog))
+        } else if (parsedLog?.name === 'Transact') {
+          commitments.push(...this.toTransactCommitments(log, parsedLog))
+        } else if (parsedLog?.name === 'Nullified') {
+          const [treeNumber, nullifierArray] = parsedLog.args
+          for (const nullifier of Array.from(nullifierArray as string[])) {
+            nullifiers.push({
+              id: `${log.transactionHash}-${nullifier}`,
+              nullifier,
+              treeNumber: Number(treeNumber),
+              blockNumber: log.blockNumber,
+              transactionHash: log.transactionHash,
+              blockTimestamp: 0, // Not fetched; spent detection only needs the nullifier
+            })
+          }
         }
       } catch (error) {
-        failureCount++
-        // Don't log every failure - most commitments won't belong to this wallet
-      }
-
-      // Update progress
-      if (progressCallback && i % 100 === 0) {
-        const progress = 0.3 + (i / commitments.length) * 0.4 // 30-70% range
-        progressCallback(progress)
+        dlog(`Could not parse log with topic ${log.topics[0]}: ${error}`)
       }
     }
 
-    dlog(`Decryption complete: ${successCount} successful, ${failureCount} failed`)
-    return decryptedCommitments
-  }
-
-  /**
-   * Try to decrypt a single commitment for this wallet
-   * @param commitment - The on-chain commitment event to decrypt
-   * @param wallet - The wallet whose keys are used for decryption
-   * @returns The decrypted commitment if it belongs to this wallet, or null otherwise
-   */
-  private async tryDecryptCommitment (
-    commitment: OnChainCommitment,
-    wallet: RailgunWallet
-  ): Promise<OnChainDecryptedCommitment | null> {
-    try {
-      if (commitment.commitmentType === 'Shield') {
-        return this.tryDecryptShieldCommitment(commitment, wallet)
-      } else if (commitment.commitmentType === 'Transact') {
-        return this.tryDecryptTransactCommitment(commitment, wallet)
-      }
-      return null
-    } catch (error) {
-      // Most commitments won't decrypt for this wallet - that's expected
-      return null
-    }
+    return { commitments, nullifiers }
   }
 
   /**
-   * Try to decrypt a shield commitment
-   * @param commitment - The shield commitment event to decrypt
-   * @param _wallet - The wallet whose viewing key is used for decryption
-   * @returns The decrypted commitment if it belongs to this wallet, or null otherwise
+   * Convert a Shield event into indexer shield commitments.
+   * @param log - The raw log
+   * @param parsedLog - The parsed Shield event: treeNumber, startPosition, commitments,
+   * shieldCiphertext and, since v2.1, fees
+   * @returns One shield commitment per shielded note
    */
-  private async tryDecryptShieldCommitment (
-    commitment: OnChainCommitment,
-    _wallet: RailgunWallet
-  ): Promise<OnChainDecryptedCommitment | null> {
-    try {
-      // For shield commitments, we have the plaintext commitment data from the event.
-      // However, we still need to verify it belongs to this wallet by attempting
-      // to decrypt the shield ciphertext using our wallet's viewing key.
-
-      if (!commitment.npk || !commitment.value || !commitment.tokenAddress) {
-        dlog(
-          `Shield commitment missing required fields: npk=${!!commitment.npk}, value=${!!commitment.value}, tokenAddress=${!!commitment.tokenAddress}`
-        )
-        return null
-      }
-
-      // For Shield commitments, the data is already plaintext in the event,
-      // but we can verify ownership by checking if we can compute the expected NPK
-      // The NPK should be poseidon(masterPublicKey, random) for our wallet
-
-      // For shield commitments, decrypt the actual random value from the encryptedBundle
-      // The encryptedBundle contains the encrypted random that was used to create the shield note
-      let randomValue = '0x' + '0'.repeat(32) // Default 16 bytes hex (32 chars)
-
-      try {
-        if (
-          commitment.encryptedBundle &&
-          commitment.shieldKey &&
-          commitment.encryptedBundle.length >= 3
-        ) {
-          // Extract AES-GCM components from encryptedBundle
-          // Bundle format: [IV+Tag, Data+IV, Receiver]
-          const ivTagHex = commitment.encryptedBundle[0].startsWith('0x')
-            ? commitment.encryptedBundle[0].slice(2)
-            : commitment.encryptedBundle[0]
-          const dataIvHex = commitment.encryptedBundle[1].startsWith('0x')
-            ? commitment.encryptedBundle[1].slice(2)
-            : commitment.encryptedBundle[1]
-
-          // Parse IV, tag, and data according to contract format
-          // Bundle[0] = IV (16 bytes) + Tag (16 bytes) = 32 bytes total
-          // Bundle[1] = Encrypted data (varies) + something else
-          const iv = ivTagHex.slice(0, 32) // First 32 chars (16 bytes)
-          const tag = ivTagHex.slice(32, 64) // Next 32 chars (16 bytes)
-
-          // For shield, we expect the encrypted random to be 16 bytes (32 hex chars)
-          // But we need to figure out the right portion of dataIvHex
-          // Based on shield creation, the encrypted random should be much shorter than 64 chars
-          const data = [dataIvHex.slice(0, 32)] // Try first 32 chars (16 bytes) for random
-
-          // Get shared symmetric key for decryption
-          const viewingPrivateKey = ByteUtils.hexStringToBytes(_wallet.viewingKey)
-          const shieldKeyBytes = ByteUtils.hexStringToBytes(commitment.shieldKey)
-          const sharedKey = await getSharedSymmetricKey(viewingPrivateKey, shieldKeyBytes)
-
-          if (sharedKey && sharedKey.length === 32) {
-            // Decrypt using AES-GCM
-            const decrypted = AES.decryptGCM({ iv, tag, data }, sharedKey)
-
-            const decryptedFirst = decrypted?.[0]
-            if (decrypted && decrypted.length > 0 && decryptedFirst) {
-              // The decrypted[0] should contain our 16-byte random hex string
-              const decryptedRandom = ByteUtils.hexlify(decryptedFirst, false)
-              // Ensure it's exactly 32 characters (16 bytes)
-              randomValue = '0x' + decryptedRandom.slice(0, 32).padEnd(32, '0')
-            } else {
-              // Decryption failed - this commitment doesn't belong to this wallet
-              return null
-            }
-          } else {
-            // Failed to generate shared key - this commitment doesn't belong to this wallet
-            return null
-          }
-        }
-      } catch (e) {
-        // Decryption exception - this commitment doesn't belong to this wallet
-        return null
+  private toShieldCommitments (
+    log: ethers.Log,
+    parsedLog: ethers.LogDescription
+  ): SubsquidCommitment[] {
+    const [treeNumber, startPosition, preimages, shieldCiphertexts, fees] = parsedLog.args
+    const commitments: SubsquidCommitment[] = []
+
+    Array.from(preimages as any[]).forEach((preimage, i) => {
+      const [npk, token, value] = preimage
+      const [tokenType, tokenAddress, tokenSubID] = token
+      const [encryptedBundle, shieldKey] = shieldCiphertexts[i]
+      const treePosition = Number(startPosition) + i
+      const id = `${log.transactionHash}-${treePosition}`
+
+      const tokenData = {
+        tokenType: Number(tokenType),
+        tokenAddress: (tokenAddress as string).toLowerCase(),
+        tokenSubID: ethers.toBeHex(tokenSubID, 32),
       }
-
-      // CRITICAL FIX: Calculate the actual commitment hash as poseidon([npk, tokenHash, value])
-      // The commitment.hash from Shield event is just the NPK, not the full commitment hash
-      const npkBigInt = ByteUtils.hexToBigInt(commitment.npk)
-      const tokenAddress = commitment.tokenAddress.toLowerCase()
-      const tokenHashBigInt = ByteUtils.hexToBigInt(
-        ByteUtils.formatToByteLength(tokenAddress, 20, false)
-      )
-      const valueBigInt = BigInt(commitment.value)
-
-      const calculatedHash = ByteUtils.nToHex(
-        poseidonUtil([npkBigInt, tokenHashBigInt, valueBigInt]),
-        32,
-        true
-      )
-
-      return {
-        id: commitment.id,
-        hash: calculatedHash, // Use the correctly calculated hash
-        txid: commitment.txid,
-        blockNumber: commitment.blockNumber,
-        treeNumber: commitment.treeNumber,
-        batchStartTreePosition: commitment.batchStartTreePosition,
-        position: commitment.position,
-        commitmentType: commitment.commitmentType,
-        tokenAddress: commitment.tokenAddress,
-        tokenType: 0, // ERC20
-        tokenSubID: '0',
-        value: valueBigInt,
-        npk: commitment.npk,
-        isSpent: false,
-        timestamp: commitment.timestamp,
-        random: randomValue,
-      }
-    } catch (error) {
-      dlog(`Error decrypting shield commitment: ${error}`)
-      return null
-    }
-  }
-
-  /**
-   * Try to decrypt a transact commitment
-   * @param commitment - The transact commitment event to decrypt
-   * @param wallet - The wallet whose viewing key is used for decryption
-   * @returns The decrypted commitment if it belongs to this wallet, or null otherwise
-   */
-  private async tryDecryptTransactCommitment (
-    commitment: OnChainCommitment,
-    wallet: RailgunWallet
-  ): Promise<OnChainDecryptedCommitment | null> {
-    try {
-      // Check if we have parsed transact ciphertext
-      if (!commitment.transactCiphertext) {
-        return null
-      }
-
-      const ciphertextData = commitment.transactCiphertext
-      const viewingPrivateKey = ByteUtils.hexStringToBytes(wallet.viewingKey)
-
-      // Extract blinded viewing keys from parsed ciphertext
-      const blindedReceiverViewingKey = ByteUtils.hexStringToBytes(
-        ciphertextData.blindedReceiverViewingKey
-      )
-      const blindedSenderViewingKey = ByteUtils.hexStringToBytes(
-        ciphertextData.blindedSenderViewingKey
-      )
-
-      if (!blindedReceiverViewingKey || !blindedSenderViewingKey) {
-        return null
-      }
-
-      // Derive shared keys
-      const [sharedKeyReceiver, sharedKeySender] = await Promise.all([
-        getSharedSymmetricKey(viewingPrivateKey, blindedReceiverViewingKey),
-        getSharedSymmetricKey(viewingPrivateKey, blindedSenderViewingKey),
-      ])
-
-      // Build the note payload once (shared between receiver and sender attempts)
-      const notePayload = {
-        ciphertext: {
-          iv: ciphertextData.iv,
-          tag: ciphertextData.tag,
-          data: ciphertextData.data,
+      const tokenHash = getTokenDataHash(tokenData)
+      // The event carries the preimage; the commitment hash is poseidon(npk, tokenHash, value)
+      const hash = poseidon([BigInt(npk), BigInt(tokenHash), BigInt(value)])
+
+      commitments.push({
+        id,
+        hash: hash.toString(),
+        treeNumber: Number(treeNumber),
+        treePosition,
+        batchStartTreePosition: Number(startPosition),
+        commitmentType: 'ShieldCommitment',
+        transactionHash: log.transactionHash,
+        blockNumber: log.blockNumber,
+        blockTimestamp: '', // Filled in for decrypted notes only
+        shieldKey,
+        ...(fees?.[i] != null && { fee: fees[i].toString() }),
+        encryptedBundle: Array.from(encryptedBundle as string[]),
+        preimage: {
+          id: `${id}-preimage`,
+          npk,
+          value: value.toString(),
+          token: { id: tokenHash, ...tokenData },
         },
-        memo: ciphertextData.memo,
-      }
-
-      // Try receiver key first, then sender key (change outputs)
-      const keysToTry: Array<{ key: Uint8Array | null; isSentNote: boolean }> = [
-        { key: sharedKeyReceiver, isSentNote: false },
-        { key: sharedKeySender, isSentNote: true },
-      ]
-
-      for (const { key, isSentNote } of keysToTry) {
-        if (!key) continue
-        const decrypted = await this.tryDecryptTransactNote(
-          notePayload,
-          key,
-          isSentNote,
-          wallet.masterPublicKey
-        )
-        if (decrypted) {
-          return {
-            id: commitment.id,
-            hash: commitment.hash,
-            txid: commitment.txid,
-            blockNumber: commitment.blockNumber,
-            treeNumber: commitment.treeNumber,
-            batchStartTreePosition: commitment.batchStartTreePosition,
-            position: commitment.position,
-            commitmentType: commitment.commitmentType,
-            tokenAddress: decrypted.tokenAddress,
-            tokenType: decrypted.tokenType,
-            tokenSubID: decrypted.tokenSubID,
-            value: decrypted.value,
-            npk: decrypted.npk,
-            isSpent: false,
-            timestamp: commitment.timestamp,
-            random: decrypted.random,
-          }
-        }
-      }
+      })
+    })
 
-      return null
-    } catch (error) {
-      // Most commitments won't decrypt for this wallet - that's expected
-      return null
-    }
+    return commitments
   }
 
   /**
-   * Try to decrypt a transact note using shared key
-   * @param ciphertextData - The encrypted note payload containing ciphertext and memo
-   * @param ciphertextData.ciphertext - The AES-GCM encrypted ciphertext object
-   * @param ciphertextData.ciphertext.iv - The initialization vector for AES-GCM decryption
-   * @param ciphertextData.ciphertext.tag - The authentication tag for AES-GCM verification
-   * @param ciphertextData.ciphertext.data - The encrypted data blocks
-   * @param ciphertextData.memo - The encrypted memo block used as part of the decryption input
-   * @param sharedKey - The derived shared symmetric key for AES-GCM decryption
-   * @param isSentNote - Whether this is a sent note (change output) rather than a received note
-   * @param currentWalletMasterPublicKey - The master public key of the current wallet
-   * @returns Decrypted note data including token address, value, and NPK, or null on failure
+   * Convert a Transact event into indexer transact commitments.
+   * @param log - The raw log
+   * @param parsedLog - The parsed Transact event: treeNumber, startPosition, hash and ciphertext
+   * @returns One transact commitment per output note
    */
-  private async tryDecryptTransactNote (
-    ciphertextData: {
-      ciphertext: { iv: string; tag: string; data: string[] }
-      memo: string
-    },
-    sharedKey: Uint8Array,
-    isSentNote: boolean,
-    currentWalletMasterPublicKey: string
-  ): Promise<{
-    tokenAddress: string
-    tokenType: number
-    tokenSubID: string
-    value: bigint
-    npk: string
-    random: string
-  } | null> {
-    try {
-      // During encryption, ALL 4 blocks (MPK, tokenHash, randomValue, memo) are encrypted
-      // together in ONE AES-GCM operation. So we must include memo as the 4th block during decryption!
-      const dataBlocks: string[] = [
-        ...ciphertextData.ciphertext.data.map((d) => ByteUtils.strip0x(d)),
-        ByteUtils.strip0x(ciphertextData.memo), // Add memo as 4th block
-      ]
-
-      const decryptedCiphertext = AES.decryptGCM(
-        {
-          iv: ByteUtils.strip0x(ciphertextData.ciphertext.iv),
-          tag: ByteUtils.strip0x(ciphertextData.ciphertext.tag),
-          data: dataBlocks,
+  private toTransactCommitments (
+    log: ethers.Log,
+    parsedLog: ethers.LogDescription
+  ): SubsquidCommitment[] {
+    const [treeNumber, startPosition, hashes, ciphertexts] = parsedLog.args
+    const commitments: SubsquidCommitment[] = []
+
+    Array.from(hashes as string[]).forEach((hash, i) => {
+      const [
+        ciphertextBlocks,
+        blindedSenderViewingKey,
+        blindedReceiverViewingKey,
+        annotationData,
+        memo,
+      ] = ciphertexts[i]
+      const treePosition = Number(startPosition) + i
+      const id = `${log.transactionHash}-${treePosition}`
+      // The first block holds the IV (16 bytes) followed by the tag (16 bytes)
+      const firstBlock = ciphertextBlocks[0] as string
+
+      commitments.push({
+        id,
+        hash: BigInt(hash).toString(),
+        treeNumber: Number(treeNumber),
+        treePosition,
+        batchStartTreePosition: Number(startPosition),
+        commitmentType: 'TransactCommitment',
+        transactionHash: log.transactionHash,
+        blockNumber: log.blockNumber,
+        blockTimestamp: '', // Filled in for decrypted notes only
+        ciphertext: {
+          id: `${id}-ciphertext`,
+          ciphertext: {
+            id: `${id}-ciphertext-data`,
+            iv: firstBlock.substring(0, 34),
+            tag: '0x' + firstBlock.substring(34),
+            data: [ciphertextBlocks[1], ciphertextBlocks[2], ciphertextBlocks[3]],
+          },
+          blindedSenderViewingKey,
+          blindedReceiverViewingKey,
+          annotationData: annotationData || '0x',
+          memo: memo || '0x',
         },
-        sharedKey
-      ).map((value) => ByteUtils.hexlify(value))
-
-      if (decryptedCiphertext.length < 3) {
-        return null
-      }
-
-      // Parse values like TransactNote.getDecryptedValuesNoteCiphertextV2
-      const encodedMPKHex = decryptedCiphertext[0]
-      const tokenHashBlock = decryptedCiphertext[1]
-      const randomAndValue = decryptedCiphertext[2]
-
-      if (!encodedMPKHex || !tokenHashBlock || !randomAndValue || randomAndValue.length < 64) {
-        return null
-      }
-
-      const tokenHashHex = ByteUtils.prefix0x(
-        ByteUtils.formatToByteLength(tokenHashBlock, 32, false).toLowerCase()
-      )
-
-      const random = '0x' + randomAndValue.substring(0, 32)
-      const value = BigInt('0x' + randomAndValue.substring(32, 64))
-
-      // For ERC20 tokens, tokenHash directly contains the token address (padded to 32 bytes)
-      // Extract the last 20 bytes (40 hex chars) as the token address
-      const tokenAddress = '0x' + tokenHashHex.slice(-40)
-
-      // Calculate NPK using receiver's master public key
-      let mpkForNpk: bigint
-      try {
-        if (!isSentNote && currentWalletMasterPublicKey) {
-          const mpkStr = String(currentWalletMasterPublicKey)
-          mpkForNpk =
-            mpkStr.startsWith('0x') || mpkStr.startsWith('0X')
-              ? BigInt(mpkStr)
-              : BigInt('0x' + mpkStr)
-        } else {
-          mpkForNpk = BigInt('0x' + encodedMPKHex.replace(/^0x/, ''))
-        }
-      } catch {
-        mpkForNpk = BigInt('0x' + encodedMPKHex.replace(/^0x/, ''))
-      }
-
-      const npk = poseidonUtil([mpkForNpk, ByteUtils.hexToBigInt(random)])
+      })
+    })
 
-      return {
-        tokenAddress: tokenAddress.toLowerCase(),
-        tokenType: 0, // ERC20
-        tokenSubID: '0',
-        value,
-        npk: ByteUtils.hexlify(npk),
-        random,
-      }
-    } catch (error) {
-      // Most commitments won't decrypt for this wallet - expected
-      return null
-    }
+    return commitments
   }
 
   /**
-   * Calculate token balances from decrypted commitments
-   * @param decryptedCommitments - Array of decrypted commitment data to aggregate
-   * @param networkName - The network name used to resolve token symbols
-   * @returns Array of aggregated token balances from unspent commitments
+   * Set the block timestamps the indexer would have provided on decrypted notes.
+   * @param decryptedCommitments - The wallet's decrypted notes, updated in place
+   * @param provider - The ethers provider for RPC calls
    */
-  private calculateTokenBalances (
-    decryptedCommitments: OnChainDecryptedCommitment[],
-    networkName: NetworkName
-  ): TokenBalance[] {
-    const balanceMap = new Map<string, TokenBalance>()
-
+  private async fillTimestamps (
+    decryptedCommitments: DecryptedCommitment[],
+    provider: ethers.Provider
+  ): Promise<void> {
+    const blockNumbers = Array.from(new Set(decryptedCommitments.map((c) => c.blockNumber)))
+    const blocks = await Promise.all(
+      blockNumbers.map((blockNumber) => provider.getBlock(blockNumber))
+    )
+    const timestamps = new Map(
+      blockNumbers.map((blockNumber, i) => [blockNumber, blocks[i]?.timestamp ?? 0])
+    )
     for (const commitment of decryptedCommitments) {
-      // Skip spent commitments
-      if (commitment.isSpent) continue
-
-      const tokenKey = commitment.tokenAddress.toLowerCase()
-
-      if (!balanceMap.has(tokenKey)) {
-        balanceMap.set(tokenKey, {
-          tokenAddress: tokenKey, // Use lowercase for consistency
-          symbol: TokenService.getInstance().getTokenSymbol(commitment.tokenAddress, networkName),
-          decimals: 18, // Default; actual decimals resolved via TokenService.getTokenInfo() when needed
-          balance: 0n,
-          balanceBucket: 'ShieldPending', // Default bucket for on-chain scanning
-        })
-      }
-
-      const tokenBalance = balanceMap.get(tokenKey)!
-      tokenBalance.balance += commitment.value
+      commitment.timestamp = timestamps.get(commitment.blockNumber) ?? 0
     }
-
-    return Array.from(balanceMap.values())
   }
 
   /**
@@ -942,193 +553,6 @@ class OnChainBalanceScanner {
       return []
     }
   }
-
-  /**
-   * Detect spent commitments by fetching Nullified events and checking nullifiers
-   * @param decryptedCommitments - Array of decrypted commitments to check for spent status
-   * @param wallet - The wallet whose nullifying key is used to compute nullifiers
-   * @param networkName - The network to fetch nullifier events from
-   * @param provider - The ethers provider for RPC calls
-   * @returns The same commitments with their isSpent flag updated
-   */
-  private async detectSpentCommitments (
-    decryptedCommitments: OnChainDecryptedCommitment[],
-    wallet: RailgunWallet,
-    networkName: NetworkName,
-    provider: ethers.Provider
-  ): Promise<OnChainDecryptedCommitment[]> {
-    dlog(`Checking ${decryptedCommitments.length} UTXOs for spent status`)
-
-    try {
-      // Fetch nullifier events from RAILGUN contract
-      const spentNullifiers = await this.fetchNullifierEvents(networkName, provider)
-      const spentNullifierSet = new Set(spentNullifiers.map((n) => ByteUtils.normalizeHex256(n)))
-
-      dlog(`Found ${spentNullifiers.length} nullifier events`)
-
-      // Check each commitment against spent nullifiers
-      const updatedCommitments = await Promise.all(
-        decryptedCommitments.map(async (commitment) => {
-          // Calculate the nullifier for this commitment
-          const nullifier = await this.calculateNullifier(commitment, wallet)
-          const isSpent = spentNullifierSet.has(ByteUtils.normalizeHex256(nullifier))
-
-          return {
-            ...commitment,
-            isSpent,
-          }
-        })
-      )
-
-      const spentCount = updatedCommitments.filter((c) => c.isSpent).length
-      const unspentCount = updatedCommitments.filter((c) => !c.isSpent).length
-      dlog(`Spent=${spentCount}, Unspent=${unspentCount}`)
-
-      return updatedCommitments
-    } catch (error) {
-      console.error('Error detecting spent UTXOs:', error)
-      // Fallback: mark all as unspent
-      return decryptedCommitments.map((commitment) => ({
-        ...commitment,
-        isSpent: false,
-      }))
-    }
-  }
-
-  /**
-   * Fetch Nullified events from RAILGUN contract
-   * @param networkName - The network to scan for nullifier events
-   * @param provider - The ethers provider for RPC calls
-   * @returns Array of nullifier hex strings extracted from on-chain events
-   */
-  private async fetchNullifierEvents (
-    networkName: NetworkName,
-    provider: ethers.Provider
-  ): Promise<string[]> {
-    const networkConfig = NETWORK_CONFIG[networkName]
-    if (!networkConfig) {
-      throw new Error(`Network configuration not found for ${networkName}`)
-    }
-
-    const railgunABI = RailgunSmartWalletABI
-
-    const contract = new ethers.Contract(networkConfig.railgunV2Contract, railgunABI, provider)
-
-    // Get Nullified event topic
-    const nullifiedTopic = ethers.id('Nullified(uint16,bytes32[])')
-
-    const currentBlock = await provider.getBlockNumber()
-    const fromBlock = networkConfig.deploymentBlock
-
-    dlog(`Fetching Nullified events from block ${fromBlock} to ${currentBlock}`)
-
-    // Use chunking to handle large block ranges (RPC providers limit to ~50k blocks)
-    const logs = await this.fetchLogsInChunks(provider, {
-      address: networkConfig.railgunV2Contract,
-      topics: [nullifiedTopic],
-      fromBlock,
-      toBlock: currentBlock,
-    })
-
-    dlog(`Found ${logs.length} Nullified event logs`)
-
-    // Parse logs and extract nullifiers
-    const nullifiers: string[] = []
-    for (const log of logs) {
-      try {
-        const parsed = contract.interface.parseLog({
-          topics: [...log.topics],
-          data: log.data,
-        })
-        if (parsed && parsed.args && parsed.args['nullifier']) {
-          // nullifier is an array of bytes32
-          const nullifierArray = parsed.args['nullifier']
-          nullifiers.push(...nullifierArray)
-        }
-      } catch (error) {
-        console.error('Error parsing Nullified event:', error)
-      }
-    }
-
-    dlog(`Extracted ${nullifiers.length} total nullifiers`)
-    return nullifiers
-  }
-
-  /**
-   * Calculate nullifier for a commitment
-   * Nullifier = poseidon(nullifyingKey, position)
-   * @param commitment - The decrypted commitment to compute a nullifier for
-   * @param wallet - The wallet providing the nullifying key
-   * @returns The computed nullifier as a hex string
-   */
-  private async calculateNullifier (
-    commitment: OnChainDecryptedCommitment,
-    wallet: RailgunWallet
-  ): Promise<string> {
-    if (!wallet.nullifyingKey) {
-      throw new Error('Wallet missing nullifyingKey')
-    }
-
-    // Calculate nullifier : poseidon(nullifyingKey, position)
-    const nullifyingKey = BigInt(wallet.nullifyingKey)
-    const position = BigInt(commitment.position)
-    const nullifier = poseidon([nullifyingKey, position])
-
-    // Convert to hex string
-    return ByteUtils.nToHex(nullifier, 32, true)
-  }
-}
-
-// Type definitions for on-chain commitments
-interface OnChainTransactCiphertext {
-  iv: string
-  tag: string
-  data: string[]
-  blindedSenderViewingKey: string
-  blindedReceiverViewingKey: string
-  annotationData: string
-  memo: string
-}
-
-interface OnChainCommitment {
-  id: string
-  hash: string
-  txid: string
-  blockNumber: number
-  treeNumber: number
-  batchStartTreePosition: number
-  position: number
-  commitmentType: 'Shield' | 'Transact'
-  ciphertext: string
-  timestamp: number
-  // Shield-specific fields
-  npk?: string
-  value?: string
-  tokenAddress?: string
-  // Shield encryption data for proper decryption
-  encryptedBundle?: [string, string, string] | null
-  shieldKey?: string | null
-  // Transact-specific fields
-  transactCiphertext?: OnChainTransactCiphertext | null
-}
-
-interface OnChainDecryptedCommitment {
-  id: string
-  hash: string
-  txid: string
-  blockNumber: number
-  treeNumber: number
-  batchStartTreePosition: number
-  position: number
-  commitmentType: string
-  tokenAddress: string
-  tokenType: number
-  tokenSubID: string
-  value: bigint
-  npk: string
-  isSpent: boolean
-  timestamp: number
-  random: string
 }
 
 export { OnChainBalanceScanner }
@@ -2,20 +2,28 @@ import { poseidon } from '@railgun-community/circomlibjs'
 import axios from 'axios'
 import { ethers } from 'ethers'
 
+import type { CacheStoreSchema } from './CacheDatabase'
+import { CacheDatabase } from './CacheDatabase'
 import { PPOINodeClient, TXIDVersion } from './PPOINodeClient'
 import { RailgunTxidScanner } from './RailgunTxidScanner'
 import { SentTransactionStorage } from './SentTransactionStorage'
 
 import RailgunSmartWalletABI from '@/core/abis/RailgunSmartWallet.json'
-import { getArtifactsPOI } from '@/core/artifacts'
 import { TREE_MAX_ITEMS } from '@/core/merkletrees/types'
 import type { POIProofInputs } from '@/core/prover-poi'
 import { getCircuitSize, provePOI } from '@/core/prover-poi'
 import type { NetworkName } from '@/types/network'
 import { BalanceBucket, NETWORK_CONFIG, POI_REQUIRED_LIST_KEYS, POI_REQUIRED_NODE_URLS } from '@/types/network'
 import type { POIStatus, SubsquidCommitment } from '@/types/wallet'
+import { blindedCommitmentOf } from '@/utils/blinded-commitment'
 import { ByteUtils, getPublicSpendingKey } from '@/utils/crypto'
 import { dlog, dwarn } from '@/utils/debug'
+import {
+  getCacheItem,
+  isEncryptedCacheUnlocked,
+  onEncryptedCacheChange,
+  removeCacheItem,
+} from '@/utils/encryptedCache'
 import { decodeRailgunAddress } from '@/utils/railgun-address'
 import { getTokenDataHash } from '@/utils/railgun-crypto'
 import { createProvider } from '@/utils/rpc'
@@ -24,19 +32,27 @@ import { verifyPOIMerkleProof } from '@/utils/verify-poi-proof'
 /**
  * PPOI (Proof of Innocence) Service
  *
- * Orchestrates PPOI operations: cache management (localStorage + in-memory),
+ * Orchestrates PPOI operations: cache management (IndexedDB + in-memory),
  * status checking for commitments, and proof generation/submission workflows.
  * Network communication is delegated to PPOINodeClient.
  */
 export class POIService {
   /** Singleton instance of the POI service. */
   private static instance: POIService
-  /** LocalStorage key for persisting the PPOI status cache. */
-  private static readonly CACHE_KEY = 'railgun_poi_status_cache'
-  /** LocalStorage key for the cache version marker. */
-  private static readonly CACHE_VERSION_KEY = 'railgun_poi_cache_version'
-  /** Current cache format version for invalidation on schema changes. */
-  private static readonly CACHE_VERSION = '1.0.0'
+  /** Cache database schema of PPOI status records, keyed `<network>:<blindedCommitment>`. */
+  private static readonly STATUS_SCHEMA: CacheStoreSchema = {
+    store: 'poi-status',
+    version: 1,
+    encrypted: true,
+    upgrades: {},
+  }
+
+  /** Encrypted-cache key of the legacy whole-blob PPOI status cache. */
+  private static readonly LEGACY_CACHE_KEY = 'railgun_poi_status_cache'
+  /** LocalStorage key of the legacy cache version marker. */
+  private static readonly LEGACY_CACHE_VERSION_KEY = 'railgun_poi_cache_version'
+  /** Only legacy blobs of this version are migrated. */
+  private static readonly LEGACY_CACHE_VERSION = '1.0.0'
   /** Duration in milliseconds before a cached PPOI status expires (24 hours). */
   private static readonly CACHE_EXPIRY_MS = 24 * 60 * 60 * 1000 // 24 hours
 
@@ -87,7 +103,16 @@ export class POIService {
    * Initialize the POI service and load the persisted status cache.
    */
   private constructor () {
-    this.loadCacheFromStorage()
+    // Statuses are wallet-scoped and only readable while the encrypted cache is unlocked
+    if (isEncryptedCacheUnlocked()) this.loadCacheFromStorage()
+
+    onEncryptedCacheChange(async (unlocked) => {
+      if (unlocked) {
+        await this.loadCacheFromStorage()
+      } else {
+        this.poiStatusCache.clear()
+      }
+    })
   }
 
   /**
@@ -102,82 +127,97 @@ export class POIService {
   }
 
   /**
-   * Load PPOI status cache from localStorage
+   * Move the legacy whole-blob PPOI status cache into per-commitment records, once.
    */
-  private loadCacheFromStorage (): void {
-    try {
-      // Check if localStorage is available (browser environment)
-      if (typeof localStorage === 'undefined' || !localStorage) {
-        return
-      }
-
-      // Check cache version first
-      const storedVersion = localStorage.getItem(POIService.CACHE_VERSION_KEY)
-      if (storedVersion !== POIService.CACHE_VERSION) {
-        this.clearCache()
-        return
-      }
-
-      const stored = localStorage.getItem(POIService.CACHE_KEY)
-      if (stored) {
-        const data = JSON.parse(stored) as Record<
-          string,
-          Record<string, { status: any; timestamp: number }>
-        >
-
-        // Convert to Map structure and validate timestamps
-        const now = Date.now()
-        for (const [networkName, commitments] of Object.entries(data)) {
-          const networkCache = new Map<string, { status: POIStatus; timestamp: number }>()
-
-          for (const [commitment, cacheEntry] of Object.entries(commitments)) {
-            // Check if cache entry is still valid (not expired)
-            if (now - cacheEntry.timestamp < POIService.CACHE_EXPIRY_MS) {
-              networkCache.set(commitment, {
-                status: cacheEntry.status,
-                timestamp: cacheEntry.timestamp,
-              })
-            }
-          }
+  private async migrateLegacyCache (): Promise<void> {
+    if (typeof localStorage === 'undefined' || !localStorage) {
+      return
+    }
 
-          if (networkCache.size > 0) {
-            this.poiStatusCache.set(networkName, networkCache)
-          }
+    const legacyVersion = localStorage.getItem(POIService.LEGACY_CACHE_VERSION_KEY)
+    const stored = getCacheItem(POIService.LEGACY_CACHE_KEY)
+    if (stored && legacyVersion === POIService.LEGACY_CACHE_VERSION) {
+      const data = JSON.parse(stored) as Record<
+        string,
+        Record<string, { status: POIStatus; timestamp: number }>
+      >
+      const puts: Array<[string, any]> = []
+      for (const [networkName, commitments] of Object.entries(data)) {
+        for (const [commitment, cacheEntry] of Object.entries(commitments)) {
+          puts.push([`${networkName}:${commitment}`, cacheEntry])
         }
       }
-    } catch (error) {
-      console.error('PPOI: Failed to load cache from localStorage:', error)
-      this.clearCache()
+      await CacheDatabase.getInstance().writeRecords(POIService.STATUS_SCHEMA, puts)
+      dlog(`PPOI: Migrated ${puts.length} cached statuses to the cache database`)
     }
+
+    removeCacheItem(POIService.LEGACY_CACHE_KEY)
+    localStorage.removeItem(POIService.LEGACY_CACHE_VERSION_KEY)
   }
 
   /**
-   * Save PPOI status cache to localStorage
+   * Load PPOI status cache from the cache database, dropping expired entries
    */
-  private saveCacheToStorage (): void {
+  private async loadCacheFromStorage (): Promise<void> {
     try {
-      // Check if localStorage is available (browser environment)
-      if (typeof localStorage === 'undefined' || !localStorage) {
-        return
-      }
-
-      // Convert Map structure to plain object for JSON serialization
-      const data: Record<string, Record<string, { status: POIStatus; timestamp: number }>> = {}
+      await this.migrateLegacyCache()
+
+      const cacheDb = CacheDatabase.getInstance()
+      const records = (await cacheDb.loadRecords(POIService.STATUS_SCHEMA)) as Map<
+        string,
+        { status: POIStatus; timestamp: number }
+      >
+
+      const now = Date.now()
+      const expired: string[] = []
+      this.poiStatusCache.clear()
+      for (const [key, cacheEntry] of records) {
+        // Check if cache entry is still valid (not expired)
+        if (now - cacheEntry.timestamp >= POIService.CACHE_EXPIRY_MS) {
+          expired.push(key)
+          continue
+        }
 
-      for (const [networkName, commitments] of this.poiStatusCache) {
-        data[networkName] = {}
-        for (const [commitment, cacheEntry] of commitments) {
-          data[networkName][commitment] = cacheEntry
+        const separator = key.indexOf(':')
+        const networkName = key.slice(0, separator)
+        if (!this.poiStatusCache.has(networkName)) {
+          this.poiStatusCache.set(networkName, new Map())
         }
+        this.poiStatusCache.get(networkName)!.set(key.slice(separator + 1), {
+          status: cacheEntry.status,
+          timestamp: cacheEntry.timestamp,
+        })
       }
 
-      localStorage.setItem(POIService.CACHE_KEY, JSON.stringify(data))
-      localStorage.setItem(POIService.CACHE_VERSION_KEY, POIService.CACHE_VERSION)
+      await cacheDb.writeRecords(POIService.STATUS_SCHEMA, [], expired)
     } catch (error) {
-      console.error('PPOI: Failed to save status cache to localStorage:', error)
+      console.error('PPOI: Failed to load status cache:', error)
+      this.poiStatusCache.clear()
     }
   }
 
+  /**
+   * Write changed PPOI status entries to the cache database
+   * @param networkName - The network the entries belong to
+   * @param puts - Changed entries as [commitment, entry] pairs
+   * @param deletes - Commitments whose entries were removed
+   */
+  private persistStatuses (
+    networkName: string,
+    puts: Array<[string, { status: POIStatus; timestamp: number }]>,
+    deletes: string[] = []
+  ): void {
+    if (!isEncryptedCacheUnlocked()) return
+
+    CacheDatabase.getInstance()
+      .writeRecords(
+        POIService.STATUS_SCHEMA,
+        puts.map(([commitment, entry]) => [`${networkName}:${commitment}`, entry]),
+        deletes.map((commitment) => `${networkName}:${commitment}`)
+      )
+      .catch((error) => console.error('PPOI: Failed to save status cache:', error))
+  }
+
   /**
    * Get cached PPOI status for a commitment.
    * @param networkName - The network to look up the cache for
@@ -214,13 +254,15 @@ export class POIService {
 
     const networkCache = this.poiStatusCache.get(networkName)!
     const timestamp = Date.now()
+    const puts: Array<[string, { status: POIStatus; timestamp: number }]> = []
 
     for (const [commitment, status] of Object.entries(statusMap)) {
       networkCache.set(commitment, { status, timestamp })
+      puts.push([commitment, { status, timestamp }])
     }
 
-    // Persist to localStorage
-    this.saveCacheToStorage()
+    // Persist only the updated entries
+    this.persistStatuses(networkName, puts)
   }
 
   /**
@@ -228,12 +270,9 @@ export class POIService {
    */
   private clearCache (): void {
     this.poiStatusCache.clear()
-
-    // Check if localStorage is available (browser environment)
-    if (typeof localStorage !== 'undefined' && localStorage) {
-      localStorage.removeItem(POIService.CACHE_KEY)
-      localStorage.removeItem(POIService.CACHE_VERSION_KEY)
-    }
+    CacheDatabase.getInstance()
+      .clearRecords(POIService.STATUS_SCHEMA)
+      .catch((error) => console.error('PPOI: Failed to clear status cache:', error))
   }
 
   /**
@@ -247,9 +286,7 @@ export class POIService {
     if (networkCache) {
       const normalizedCommitment = ByteUtils.normalizeHex256(commitment)
       networkCache.delete(normalizedCommitment)
-
-      // Persist to localStorage
-      this.saveCacheToStorage()
+      this.persistStatuses(networkName, [], [normalizedCommitment])
     }
   }
 
@@ -620,7 +657,7 @@ export class POIService {
     const scanner = await this.getBalanceScanner()
 
     // Get all TXOs (spent and unspent) for this wallet
-    const allTXOs = scanner.getDecryptedCommitmentsForWallet(walletId)
+    const allTXOs = scanner.getDecryptedCommitmentsForWallet(walletId, networkName)
 
     if (!allTXOs || allTXOs.length === 0) {
       throw new Error(
@@ -918,7 +955,7 @@ export class POIService {
 
     // Get wallet TXOs to enrich with npk and value for the ones we can decrypt
     const scanner = await this.getBalanceScanner()
-    const allTXOs = scanner.getDecryptedCommitmentsForWallet(walletId)
+    const allTXOs = scanner.getDecryptedCommitmentsForWallet(walletId, networkName)
 
     // Get full commitment data from Subsquid (includes ciphertexts for decryption)
     let subsquidCommitments = scanner.lastAllCommitments.filter(
@@ -1501,7 +1538,7 @@ export class POIService {
       // Use public signals from circuit output, NOT publicInputs
       // publicSignals[0..maxOutputs-1] contains circuit-calculated blinded commitments
       // The circuit calculates these from poseidon([commitmentHash, npk, position])
-      const { maxInputs, maxOutputs } = getCircuitSize(
+      const { maxOutputs } = getCircuitSize(
         orderedSpentTXOs.length,
         blindedCommitmentsOut.length
       )
@@ -1521,17 +1558,9 @@ export class POIService {
       const actualOutputCount = blindedCommitmentsOut.length
       const blindedCommitmentsToSubmit = circuitBlindedCommitmentsOut.slice(0, actualOutputCount)
 
-      // STEP 9: Verify proof locally before submitting
-      const artifacts = await getArtifactsPOI(maxInputs, maxOutputs)
-      const snarkjs = await import('snarkjs')
-
-      const isValid = await snarkjs.groth16.verify(artifacts.vkey, publicSignals, snarkProof)
+      // provePOI has already verified the proof locally against the circuit's vkey
 
-      if (!isValid) {
-        throw new Error('Generated proof failed local verification')
-      }
-
-      // STEP 10: Submit proof to PPOI node (strip 0x prefix — PPOI node stores without it)
+      // STEP 9: Submit proof to PPOI node (strip 0x prefix — PPOI node stores without it)
       const poiMerklerootsWithoutPrefix = poiProofInputs.poiMerkleroots.map((root: string) =>
         root.startsWith('0x') ? root.slice(2) : root
       )
@@ -1636,6 +1665,9 @@ export class POIService {
       if (!wallet.id) {
         throw new Error('Wallet must have an ID')
       }
+      if (wallet.watchOnly || !wallet.spendingKey) {
+        throw new Error('Watch-only wallets cannot generate PPOI proofs')
+      }
 
       const walletId = wallet.id
 
@@ -1696,10 +1728,9 @@ export class POIService {
 
       // Compute and attach blinded commitments and token hashes to spent TXOs
       // The spent TXOs need these for PPOI proof generation
-      const scanner = await this.getBalanceScanner()
       for (const txo of spentTXOs) {
         if (!txo.blindedCommitment) {
-          txo.blindedCommitment = scanner.blindedCommitmentOf(txo)
+          txo.blindedCommitment = blindedCommitmentOf(txo)
         }
         if (!txo.tokenHash) {
           const tokenHashHex = getTokenDataHash({
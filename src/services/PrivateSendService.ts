@@ -1,31 +1,63 @@
 import { ethers } from 'ethers'
 
-import { OnChainBalanceScanner } from './OnChainBalanceScanner'
-import { SentTransactionStorage } from './SentTransactionStorage'
-import { TransactionMetadataService } from './TransactionMetadataService'
+import { ALL_VARIANTS } from './ArtifactDownloadService'
+import { FeeService } from './FeeService'
+import type { NewOutboxEntry, OutboxEntry, TransactionSimulation } from './TransactionOutboxService'
+import { TransactionOutboxService } from './TransactionOutboxService'
 
 import RailgunSmartWalletABI from '@/core/abis/RailgunSmartWallet.json'
 import { InMemoryDatabase } from '@/core/merkletrees/database'
 import { TokenType, TransactNote } from '@/core/transact-note'
+import type { TransactionStruct } from '@/core/transaction'
 import { Transaction } from '@/core/transaction'
-import type { SpendingSolutionGroup } from '@/core/transaction-batch'
+import type { OfflineNote, SpendingSolutionGroup } from '@/core/transaction-batch'
 import { TransactionBatch } from '@/core/transaction-batch'
 import type { AddressData } from '@/types/core'
-import type { NetworkName } from '@/types/network'
+import type { FeeSpeed, NetworkName } from '@/types/network'
 import { NETWORK_CONFIG } from '@/types/network'
-import type { RailgunWallet } from '@/types/wallet'
-import { ByteUtils, getPublicViewingKey } from '@/utils/crypto'
+import type { GasPayerWallet, RailgunWallet, UTXOReference } from '@/types/wallet'
+import { ByteUtils, getEthereumWallet, getPublicViewingKey } from '@/utils/crypto'
 import { derror, dlog } from '@/utils/debug'
 import { decodeRailgunAddress } from '@/utils/railgun-address'
-import { formatTransactionForContract } from '@/utils/transaction-utils'
+import type { TransactionPPOIData } from '@/utils/transaction-utils'
+import { formatTransactionForContract, getPPOIData } from '@/utils/transaction-utils'
 
 type SendParams = {
   tokenAddress: string
   amount: string // smallest units
   recipientRailgunAddress: string
   memoText?: string // encrypted on-chain memo (max 30 bytes)
+  showSenderAddressToRecipient?: boolean // defaults to true; false hides our 0zk address
+  selectedUTXOs?: UTXOReference[] // manual coin control; omit for automatic selection
 }
 
+type SendRecipient = {
+  recipientRailgunAddress: string
+  tokenAddress: string
+  amount: string // smallest units
+  memoText?: string // encrypted on-chain memo (max 30 bytes)
+}
+
+type BatchSendParams = {
+  recipients: SendRecipient[]
+  showSenderAddressToRecipient?: boolean // applies to every recipient output
+  selectedUTXOs?: UTXOReference[] // manual coin control; omit for automatic selection
+}
+
+type PrivateSendResult = {
+  txHash: string
+  ppoiData?: TransactionPPOIData[] // one per proved transaction
+}
+
+// Every token group may need one output for change, so a token's recipients get the rest of
+// the outputs of the largest transact circuit variant
+const MAX_RECIPIENTS_PER_TOKEN =
+  Math.max(
+    ...ALL_VARIANTS.filter((variant) => !variant.startsWith('POI_')).map((variant) =>
+      Number(variant.split('x')[1])
+    )
+  ) - 1
+
 /**
  * Private Send Service using TransactionBatch system
  */
@@ -75,8 +107,11 @@ export class PrivateSendService {
    * @param params - The send parameters including token, amount, and recipient
    * @param provider - The ethers JSON-RPC provider for on-chain interaction
    * @param onStatus - Optional callback for status updates during the send process
-   * @param dryRun - If true, only simulates with staticCall without submitting
-   * @param gasPayerMnemonic - Optional mnemonic for a separate gas-paying wallet
+   * @param dryRun - If true, only simulates with eth_call without submitting
+   * @param gasPayer - Optional separate gas-paying wallet
+   * @param signal - Optional abort signal that cancels proof generation before submission
+   * @param onSimulated - Optional callback shown the simulation result; broadcasts only if it resolves true
+   * @param feeSpeed - The fee tier to pay
    * @returns The transaction hash and optional PPOI data for proof submission
    */
   async executePrivateSend (
@@ -86,213 +121,345 @@ export class PrivateSendService {
     provider?: any,
     onStatus?: (s: string) => void,
     dryRun: boolean = false,
-    gasPayerMnemonic?: string
-  ): Promise<{
-    txHash: string
-    ppoiData?: {
-      nullifiers: string[]
-      commitments: string[]
-      boundParamsHash: string
-    }
-  }> {
+    gasPayer?: GasPayerWallet,
+    signal?: AbortSignal,
+    onSimulated?: (simulation: TransactionSimulation) => Promise<boolean>,
+    feeSpeed: FeeSpeed = 'standard'
+  ): Promise<PrivateSendResult> {
+    const { showSenderAddressToRecipient, selectedUTXOs, ...recipient } = params
+    return this.executeBatchPrivateSend(
+      wallet,
+      networkName,
+      {
+        recipients: [recipient],
+        ...(showSenderAddressToRecipient !== undefined ? { showSenderAddressToRecipient } : {}),
+        ...(selectedUTXOs ? { selectedUTXOs } : {}),
+      },
+      provider,
+      onStatus,
+      dryRun,
+      gasPayer,
+      signal,
+      onSimulated,
+      feeSpeed
+    )
+  }
+
+  /**
+   * Execute a private send to several recipients in a single on-chain transaction.
+   * Every recipient becomes one TransactNote output on the same TransactionBatch, so all
+   * outputs are proved together and submitted in one `transact` call.
+   * @param wallet - The RAILGUN wallet sending the transaction
+   * @param networkName - The network to send on
+   * @param params - The recipients (address, token, amount, memo) and sender visibility
+   * @param provider - The ethers JSON-RPC provider for on-chain interaction
+   * @param onStatus - Optional callback for status updates during the send process
+   * @param dryRun - If true, only simulates with eth_call without submitting
+   * @param gasPayer - Optional separate gas-paying wallet
+   * @param signal - Optional abort signal that cancels proof generation before submission
+   * @param onSimulated - Optional callback shown the simulation result; broadcasts only if it resolves true
+   * @param feeSpeed - The fee tier to pay
+   * @returns The transaction hash and optional PPOI data for proof submission
+   */
+  async executeBatchPrivateSend (
+    wallet: RailgunWallet,
+    networkName: NetworkName,
+    params: BatchSendParams,
+    provider?: any,
+    onStatus?: (s: string) => void,
+    dryRun: boolean = false,
+    gasPayer?: GasPayerWallet,
+    signal?: AbortSignal,
+    onSimulated?: (simulation: TransactionSimulation) => Promise<boolean>,
+    feeSpeed: FeeSpeed = 'standard'
+  ): Promise<PrivateSendResult> {
     try {
       const network = NETWORK_CONFIG[networkName]
       if (!network) throw new Error(`Unsupported network: ${networkName}`)
-      if (!wallet.mnemonic) throw new Error('Wallet missing mnemonic for signing')
-      if (!wallet.masterPublicKey) { throw new Error('Wallet missing masterPublicKey - please re-create wallet') }
-      if (!wallet.nullifyingKey) { throw new Error('Wallet missing nullifyingKey - please re-create wallet') }
-      if (!wallet.viewingKey) throw new Error('Wallet missing viewingKey - please re-create wallet')
-      if (!wallet.spendingKey) { throw new Error('Wallet missing spendingKey - please re-create wallet') }
 
       onStatus?.('Building transaction with TransactionBatch…')
 
-      // Get current gas price from provider
+      // Minimum gas price bound into the proofs, from current network fees
       let minGasPrice = BigInt(1000000000) // 1 gwei fallback
       if (provider) {
         try {
-          const feeData = await provider.getFeeData()
-          minGasPrice = feeData.gasPrice || minGasPrice
+          minGasPrice = (await FeeService.getInstance().getFeeQuote(provider)).minGasPrice
         } catch {
           // Use fallback gas price
         }
       }
 
-      const transactionBatch = new TransactionBatch(networkName, minGasPrice)
-      const senderAddressData = await this.walletToAddressData(wallet)
+      const provedTransactions = await this.proveBatchPrivateSend(
+        wallet,
+        networkName,
+        params,
+        minGasPrice,
+        onStatus,
+        signal
+      )
 
-      // Validate recipient address
-      try {
-        decodeRailgunAddress(params.recipientRailgunAddress)
-      } catch (error: unknown) {
-        throw new Error(`Invalid recipient address: ${error instanceof Error ? error.message : String(error)}`)
+      if (!provider) {
+        throw new Error('Provider required for on-chain transaction submission')
       }
+      signal?.throwIfAborted()
 
-      const transferOutput = TransactNote.createTransfer(
-        params.recipientRailgunAddress,
-        senderAddressData,
-        BigInt(params.amount),
-        {
-          tokenType: TokenType.ERC20,
-          tokenAddress: params.tokenAddress,
-          tokenSubID: '0x00',
-        },
-        true, // showSenderAddressToRecipient
-        params.memoText
+      const txHash = await this.submitTransactionsToContract(
+        provedTransactions,
+        provider,
+        networkName,
+        wallet,
+        this.getTransactionMetadata(params),
+        dryRun,
+        gasPayer,
+        onStatus,
+        onSimulated,
+        feeSpeed
       )
 
-      transactionBatch.addOutput(transferOutput)
-
-      onStatus?.('Selecting UTXOs with SpendingSolutionGroups…')
-
-      const spendingSolutionGroups = await transactionBatch.generateSpendingSolutionGroups(wallet)
-      if (!spendingSolutionGroups.length) {
-        throw new Error('No spending solution groups found - insufficient balance')
-      }
+      // Return PPOI data of every proved transaction for immediate PPOI submission
+      const ppoiData = getPPOIData(provedTransactions)
+      return { txHash, ...(ppoiData ? { ppoiData } : {}) }
+    } catch (error) {
+      if (!signal?.aborted) derror('Error in executeBatchPrivateSend:', error)
+      throw error
+    }
+  }
 
-      dlog(`Generated ${spendingSolutionGroups.length} spending solution groups`)
-      onStatus?.('Generating zero-knowledge proofs…')
-
-      // Build Transaction objects for each spending solution group
-      const transactions: Transaction[] = []
-      for (const group of spendingSolutionGroups) {
-        const change = group.amount - transferOutput.value
-
-        let changeOutput: TransactNote | undefined
-        if (change > 0n) {
-          changeOutput = TransactNote.createTransfer(
-            wallet.address,
-            senderAddressData,
-            change,
-            {
-              tokenType: TokenType.ERC20,
-              tokenAddress: params.tokenAddress,
-              tokenSubID: '0x00',
-            },
-            true,
-            undefined
-          )
-          dlog('Change output created')
-        }
+  /**
+   * Select the notes a private send would spend, without proving anything. Only viewing keys
+   * are needed, so a watch-only wallet can export an offline signing request.
+   * @param wallet - The RAILGUN wallet sending the transaction
+   * @param networkName - The network to send on
+   * @param params - The recipients (address, token, amount, memo) and sender visibility
+   * @param minGasPrice - The minimum gas price bound into the proofs, in wei
+   * @returns The spending solution groups, one transaction each
+   */
+  async selectBatchPrivateSendNotes (
+    wallet: RailgunWallet,
+    networkName: NetworkName,
+    params: BatchSendParams,
+    minGasPrice: bigint
+  ): Promise<SpendingSolutionGroup[]> {
+    const transactionBatch = await this.createTransactionBatch(wallet, networkName, params, minGasPrice)
+    const spendingSolutionGroups = await transactionBatch.generateSpendingSolutionGroups(wallet)
+    if (!spendingSolutionGroups.length) {
+      throw new Error('No spending solution groups found - insufficient balance')
+    }
+    return spendingSolutionGroups
+  }
 
-        const transaction = this.buildTransactionFromGroup(group, changeOutput, networkName)
-        transactions.push(transaction)
-      }
+  /**
+   * Build and prove the transactions of a private send. With offline notes no network access
+   * is needed, so this also runs on an air-gapped machine from an offline signing request.
+   * @param wallet - The RAILGUN wallet sending the transaction, with its spending keys
+   * @param networkName - The network to send on
+   * @param params - The recipients (address, token, amount, memo) and sender visibility
+   * @param minGasPrice - The minimum gas price bound into the proofs, in wei
+   * @param onStatus - Optional callback for status updates during proving
+   * @param signal - Optional abort signal that cancels proof generation
+   * @param offlineNotes - Notes and merkle proofs from an offline signing request
+   * @returns The proved transactions, to be submitted together in one call
+   */
+  async proveBatchPrivateSend (
+    wallet: RailgunWallet,
+    networkName: NetworkName,
+    params: BatchSendParams,
+    minGasPrice: bigint,
+    onStatus?: (s: string) => void,
+    signal?: AbortSignal,
+    offlineNotes?: OfflineNote[]
+  ): Promise<TransactionStruct[]> {
+    if (wallet.watchOnly) throw new Error('Watch-only wallets cannot send private transactions')
+    if (!wallet.mnemonic) throw new Error('Wallet missing mnemonic for signing')
+    if (!wallet.masterPublicKey) { throw new Error('Wallet missing masterPublicKey - please re-create wallet') }
+    if (!wallet.nullifyingKey) { throw new Error('Wallet missing nullifyingKey - please re-create wallet') }
+    if (!wallet.viewingKey) throw new Error('Wallet missing viewingKey - please re-create wallet')
+    if (!wallet.spendingKey) { throw new Error('Wallet missing spendingKey - please re-create wallet') }
+
+    const transactionBatch = await this.createTransactionBatch(wallet, networkName, params, minGasPrice)
+    if (offlineNotes) {
+      transactionBatch.setOfflineNotes(offlineNotes)
+    }
+    const senderAddressData = await this.walletToAddressData(wallet)
 
-      // Generate SNARK proofs
-      dlog('Generating zero-knowledge proofs...')
-      const provedTransactions = []
+    onStatus?.('Selecting UTXOs with SpendingSolutionGroups…')
+    const spendingSolutionGroups = await transactionBatch.generateSpendingSolutionGroups(wallet)
+    if (!spendingSolutionGroups.length) {
+      throw new Error('No spending solution groups found - insufficient balance')
+    }
 
-      for (const transaction of transactions) {
-        const batchMinGasPrice = transactionBatch.getOverallBatchMinGasPrice()
-        dlog(
-          `boundParams.minGasPrice: ${batchMinGasPrice} wei (${ethers.formatUnits(batchMinGasPrice, 'gwei')} gwei)`
+    dlog(`Generated ${spendingSolutionGroups.length} spending solution groups`)
+    onStatus?.('Generating zero-knowledge proofs…')
+
+    // Build Transaction objects for each spending solution group
+    const transactions: Transaction[] = []
+    for (const group of spendingSolutionGroups) {
+      const change = group.amount - TransactNote.calculateTotalNoteValues(group.tokenOutputs)
+
+      let changeOutput: TransactNote | undefined
+      if (change > 0n) {
+        changeOutput = TransactNote.createTransfer(
+          wallet.address,
+          senderAddressData,
+          change,
+          group.tokenData,
+          true,
+          undefined
         )
+        dlog('Change output created')
+      }
 
-        const globalBoundParams = {
-          minGasPrice: batchMinGasPrice,
-          chainID: NETWORK_CONFIG[networkName].chainId,
-          senderCiphertext: '0x',
-          to: '0x0000000000000000000000000000000000000000',
-          data: '0x',
-        }
+      const transaction = this.buildTransactionFromGroup(group, changeOutput, networkName)
+      transactions.push(transaction)
+    }
 
-        const transactionRequest = await transaction.generateTransactionRequest(
-          wallet,
-          globalBoundParams
-        )
-        const provedTransaction = await transaction.generateProvedTransaction(
-          transactionRequest,
-          (progress: number) => {
-            onStatus?.(`Generating proof: ${progress}%`)
-          }
-        )
+    // Generate SNARK proofs
+    dlog('Generating zero-knowledge proofs...')
+    const provedTransactions = []
 
-        provedTransactions.push(provedTransaction)
-      }
+    for (const transaction of transactions) {
+      const batchMinGasPrice = transactionBatch.getOverallBatchMinGasPrice()
+      dlog(
+        `boundParams.minGasPrice: ${batchMinGasPrice} wei (${ethers.formatUnits(batchMinGasPrice, 'gwei')} gwei)`
+      )
 
-      if (!provider) {
-        throw new Error('Provider required for on-chain transaction submission')
+      const globalBoundParams = {
+        minGasPrice: batchMinGasPrice,
+        chainID: NETWORK_CONFIG[networkName].chainId,
+        senderCiphertext: '0x',
+        to: '0x0000000000000000000000000000000000000000',
+        data: '0x',
       }
 
-      const txHash = await this.submitTransactionsToContract(
-        provedTransactions,
-        provider,
-        networkName,
+      const transactionRequest = await transaction.generateTransactionRequest(
         wallet,
-        dryRun,
-        gasPayerMnemonic
+        globalBoundParams
+      )
+      const provedTransaction = await transaction.generateProvedTransaction(
+        transactionRequest,
+        (progress: number) => {
+          onStatus?.(`Generating proof: ${progress}%`)
+        },
+        signal
       )
 
-      if (!dryRun) {
-        // Clear UTXO cache to force rescan on next balance check
-        try {
-          const scanner = OnChainBalanceScanner.getInstance()
-          scanner.clearStoredTXOs(wallet.id)
-        } catch {
-          // Non-fatal
-        }
+      provedTransactions.push(provedTransaction)
+    }
 
-        // Save transaction metadata for UI display
-        try {
-          TransactionMetadataService.getInstance().saveMetadata({
-            txid: txHash,
-            walletId: wallet.id,
-            recipientAddress: params.recipientRailgunAddress,
-            ...(params.memoText ? { memo: params.memoText } : {}),
-            createdAt: Date.now(),
-            updatedAt: Date.now(),
-          })
-        } catch {
-          // Non-fatal
-        }
+    return provedTransactions
+  }
 
-        // Update SentTransactionStorage with the actual transaction hash for PPOI proof retrieval
-        try {
-          const sentStorage = SentTransactionStorage.getInstance()
-          const storedOutputs = sentStorage.getSentOutputs(wallet.address)
-          const emptyHashOutputs = storedOutputs.filter(
-            (o) => !o.transactionHash || o.transactionHash === ''
-          )
-          if (emptyHashOutputs.length > 0) {
-            for (const output of emptyHashOutputs) {
-              output.transactionHash = txHash
-            }
-            sentStorage.clearWalletOutputs(wallet.address)
-            sentStorage.storeSentOutputs(wallet.address, storedOutputs)
-            dlog(
-              `Updated ${emptyHashOutputs.length} sent outputs with txHash: ${txHash.slice(0, 10)}...`
-            )
+  /**
+   * Create a TransactionBatch holding the outputs of a private send.
+   * @param wallet - The RAILGUN wallet sending the transaction
+   * @param networkName - The network to send on
+   * @param params - The recipients (address, token, amount, memo) and sender visibility
+   * @param minGasPrice - The minimum gas price bound into the proofs, in wei
+   * @returns The batch, with any manually selected notes pinned
+   */
+  private async createTransactionBatch (
+    wallet: RailgunWallet,
+    networkName: NetworkName,
+    params: BatchSendParams,
+    minGasPrice: bigint
+  ): Promise<TransactionBatch> {
+    const transactionBatch = new TransactionBatch(networkName, minGasPrice)
+    const senderAddressData = await this.walletToAddressData(wallet)
+
+    this.validateRecipients(params.recipients)
+
+    for (const recipient of params.recipients) {
+      const transferOutput = TransactNote.createTransfer(
+        recipient.recipientRailgunAddress,
+        senderAddressData,
+        BigInt(recipient.amount),
+        {
+          tokenType: TokenType.ERC20,
+          tokenAddress: recipient.tokenAddress,
+          tokenSubID: '0x00',
+        },
+        params.showSenderAddressToRecipient ?? true,
+        recipient.memoText
+      )
+      transactionBatch.addOutput(transferOutput)
+    }
+
+    if (params.selectedUTXOs?.length) {
+      transactionBatch.setPinnedUTXOs(params.selectedUTXOs)
+    }
+
+    return transactionBatch
+  }
+
+  /**
+   * Recipient and memo metadata recorded for a private send once it confirms.
+   * @param params - The recipients of the send
+   * @returns The metadata kept with the send's outbox entry
+   */
+  getTransactionMetadata (params: BatchSendParams): OutboxEntry['metadata'] {
+    const [firstRecipient] = params.recipients
+    return {
+      recipientAddress: firstRecipient!.recipientRailgunAddress,
+      ...(firstRecipient!.memoText ? { memo: firstRecipient!.memoText } : {}),
+      ...(params.recipients.length > 1
+        ? {
+            recipients: params.recipients.map((r) => ({
+              recipientAddress: r.recipientRailgunAddress,
+              tokenAddress: r.tokenAddress,
+              amount: r.amount,
+              ...(r.memoText ? { memo: r.memoText } : {}),
+            })),
           }
-        } catch (storageError) {
-          console.warn('Failed to update sent transaction storage:', storageError)
-        }
-      }
+        : {}),
+    }
+  }
 
-      // Return PPOI data from proved transactions for immediate PPOI submission
-      if (provedTransactions.length > 0 && provedTransactions[0]) {
-        const ppoiData = {
-          nullifiers: provedTransactions[0].nullifiers as string[],
-          commitments: provedTransactions[0].commitments as string[],
-          boundParamsHash: provedTransactions[0].boundParamsHash as string,
-        }
-        return { txHash, ppoiData }
+  /**
+   * Validate a batch of recipients before any notes are built.
+   * @param recipients - The recipients to validate
+   */
+  private validateRecipients (recipients: SendRecipient[]): void {
+    if (recipients.length === 0) {
+      throw new Error('At least one recipient is required')
+    }
+
+    const recipientsPerToken = new Map<string, number>()
+    recipients.forEach((recipient, index) => {
+      const label = recipients.length > 1 ? `recipient ${index + 1}` : 'recipient'
+      try {
+        decodeRailgunAddress(recipient.recipientRailgunAddress)
+      } catch (error: unknown) {
+        throw new Error(`Invalid ${label} address: ${error instanceof Error ? error.message : String(error)}`)
+      }
+      if (BigInt(recipient.amount) <= 0n) {
+        throw new Error(`Amount for ${label} must be greater than 0`)
       }
 
-      return { txHash }
-    } catch (error) {
-      derror('Error in executePrivateSend:', error)
-      throw error
-    }
+      const tokenKey = recipient.tokenAddress.toLowerCase()
+      const count = (recipientsPerToken.get(tokenKey) ?? 0) + 1
+      if (count > MAX_RECIPIENTS_PER_TOKEN) {
+        throw new Error(
+          `Too many recipients for one token: a single transaction supports at most ${MAX_RECIPIENTS_PER_TOKEN} recipients per token`
+        )
+      }
+      recipientsPerToken.set(tokenKey, count)
+    })
   }
 
   /**
    * Submit proved transactions to RAILGUN smart contract.
+   * Once checked against the contract and simulated, the proved transactions are kept in the
+   * outbox until confirmed, so a failed broadcast can be retried without proving again.
    * @param provedTransactions - The transactions with generated zk-SNARK proofs
    * @param provider - The ethers JSON-RPC provider
    * @param networkName - The network to submit on
    * @param wallet - The RAILGUN wallet for transaction signing
-   * @param dryRun - Whether to only simulate via staticCall
-   * @param gasPayerMnemonic - Optional mnemonic for a separate gas-paying wallet
+   * @param metadata - Recipient and memo metadata saved once the transaction confirms
+   * @param dryRun - Whether to only simulate via eth_call
+   * @param gasPayer - Optional separate gas-paying wallet
+   * @param onStatus - Optional callback for status updates
+   * @param onSimulated - Optional callback shown the simulation result; broadcasts only if it resolves true
+   * @param feeSpeed - The fee tier to pay
    * @returns The on-chain transaction hash
    */
   private async submitTransactionsToContract (
@@ -300,17 +467,25 @@ export class PrivateSendService {
     provider: any,
     networkName: NetworkName,
     wallet: RailgunWallet,
+    metadata: OutboxEntry['metadata'],
     dryRun: boolean = false,
-    gasPayerMnemonic?: string
+    gasPayer?: GasPayerWallet,
+    onStatus?: (s: string) => void,
+    onSimulated?: (simulation: TransactionSimulation) => Promise<boolean>,
+    feeSpeed: FeeSpeed = 'standard'
   ): Promise<string> {
     const network = NETWORK_CONFIG[networkName]
     if (!network) throw new Error(`Network ${networkName} not configured`)
 
-    const signerMnemonic = gasPayerMnemonic || wallet.mnemonic
-    if (!signerMnemonic) {
+    const signerSource = gasPayer || wallet
+    if (!signerSource.mnemonic) {
       throw new Error('No mnemonic available for transaction signing')
     }
-    const signer = ethers.Wallet.fromPhrase(signerMnemonic).connect(provider)
+    const signer = getEthereumWallet(
+      signerSource.mnemonic,
+      signerSource.derivationIndex,
+      signerSource.passphrase
+    ).connect(provider)
     const contract = new ethers.Contract(
       network.railgunProxyContract,
       RailgunSmartWalletABI,
@@ -319,103 +494,140 @@ export class PrivateSendService {
 
     const formattedTransactions = provedTransactions.map((tx) => formatTransactionForContract(tx))
 
-    // Verify bound params hash matches between proof and contract
+    // Every transaction in the call is verified independently by the contract, so check each one
     const hashBoundParamsFn = contract['hashBoundParams'] as (params: any) => Promise<bigint>
-    const contractBoundParamsHash = await hashBoundParamsFn(formattedTransactions[0].boundParams)
-    const proofBoundParamsHash = provedTransactions[0].boundParamsHash
+    const getVerificationKeyFn = contract['getVerificationKey'] as (
+      n: number,
+      c: number,
+    ) => Promise<any>
+    const rootHistoryFn = contract['rootHistory'] as (
+      tree: number,
+      root: string,
+    ) => Promise<boolean>
+    const merkleRootFn = contract['merkleRoot'] as () => Promise<string>
+    const treeNumberFn = contract['treeNumber'] as () => Promise<bigint>
+    const currentContractMerkleRoot = await merkleRootFn()
+    const currentTreeNumber = Number(await treeNumberFn())
 
-    if (contractBoundParamsHash.toString() !== proofBoundParamsHash?.toString()) {
-      throw new Error(
-        'Bound params hash mismatch detected! Proof cannot be verified with different bound params.'
-      )
-    }
+    for (let i = 0; i < formattedTransactions.length; i++) {
+      const formatted = formattedTransactions[i]
+      const proved = provedTransactions[i]
+      const label = formattedTransactions.length > 1 ? ` (transaction ${i + 1})` : ''
 
-    // Verify all public inputs match
-    const tx0 = formattedTransactions[0]
-    const merkleRootMatch = provedTransactions[0].merkleRoot === tx0.merkleRoot
-    const boundParamsHashMatch = proofBoundParamsHash === contractBoundParamsHash.toString()
-    const nullifiersMatch =
-      JSON.stringify(provedTransactions[0].nullifiers) === JSON.stringify(tx0.nullifiers)
-    const commitmentsMatch =
-      JSON.stringify(provedTransactions[0].commitments) === JSON.stringify(tx0.commitments)
-
-    if (!merkleRootMatch || !boundParamsHashMatch || !nullifiersMatch || !commitmentsMatch) {
-      throw new Error('Public inputs mismatch between proof generation and contract verification')
-    }
+      // Verify bound params hash matches between proof and contract
+      const contractBoundParamsHash = await hashBoundParamsFn(formatted.boundParams)
+      const proofBoundParamsHash = proved.boundParamsHash
 
-    // Verify verification key exists for this circuit size
-    const nullifiersCount = formattedTransactions[0].nullifiers?.length || 0
-    const commitmentsCount = formattedTransactions[0].commitments?.length || 0
-    try {
-      const getVerificationKeyFn = contract['getVerificationKey'] as (
-        n: number,
-        c: number,
-      ) => Promise<any>
-      const verificationKey = await getVerificationKeyFn(nullifiersCount, commitmentsCount)
-      if (verificationKey.alpha1.x.toString() === '0') {
+      if (contractBoundParamsHash.toString() !== proofBoundParamsHash?.toString()) {
         throw new Error(
-          `No verification key set for circuit (${nullifiersCount}x${commitmentsCount})`
+          `Bound params hash mismatch detected${label}! Proof cannot be verified with different bound params.`
         )
       }
-    } catch {
-      // Verification key check non-fatal
-    }
 
-    // Verify merkle root hasn't changed since proof generation
-    const merkleRootFn = contract['merkleRoot'] as () => Promise<string>
-    const currentContractMerkleRoot = await merkleRootFn()
-    const proofMerkleRootBigInt = BigInt(formattedTransactions[0].merkleRoot)
-    const contractMerkleRootBigInt = BigInt(currentContractMerkleRoot)
+      // Verify all public inputs match
+      const merkleRootMatch = proved.merkleRoot === formatted.merkleRoot
+      const nullifiersMatch = JSON.stringify(proved.nullifiers) === JSON.stringify(formatted.nullifiers)
+      const commitmentsMatch =
+        JSON.stringify(proved.commitments) === JSON.stringify(formatted.commitments)
 
-    if (contractMerkleRootBigInt !== proofMerkleRootBigInt) {
-      throw new Error(
-        `Merkle root mismatch! Proof was generated with ${proofMerkleRootBigInt}, ` +
-          `but contract now has ${contractMerkleRootBigInt}. The merkle tree has changed since proof generation.`
-      )
-    }
+      if (!merkleRootMatch || !nullifiersMatch || !commitmentsMatch) {
+        throw new Error(`Public inputs mismatch between proof generation and contract verification${label}`)
+      }
 
-    // Validate proof structure
-    const proof = formattedTransactions[0].proof
-    if (!proof || !proof.a || !proof.b || !proof.c) {
-      throw new Error('Proof structure is invalid - missing a, b, or c components')
-    }
+      // Verify verification key exists for this circuit size
+      const nullifiersCount = formatted.nullifiers?.length || 0
+      const commitmentsCount = formatted.commitments?.length || 0
+      try {
+        const verificationKey = await getVerificationKeyFn(nullifiersCount, commitmentsCount)
+        if (verificationKey.alpha1.x.toString() === '0') {
+          throw new Error(
+            `No verification key set for circuit (${nullifiersCount}x${commitmentsCount})`
+          )
+        }
+      } catch {
+        // Verification key check non-fatal
+      }
+
+      // Verify the merkle root is still accepted: the current root for the latest tree,
+      // or any historical root for older trees
+      const treeNumber = Number(formatted.boundParams.treeNumber)
+      const proofMerkleRootBigInt = BigInt(formatted.merkleRoot)
+      if (treeNumber === currentTreeNumber) {
+        const contractMerkleRootBigInt = BigInt(currentContractMerkleRoot)
+        if (contractMerkleRootBigInt !== proofMerkleRootBigInt) {
+          throw new Error(
+            `Merkle root mismatch${label}! Proof was generated with ${proofMerkleRootBigInt}, ` +
+              `but contract now has ${contractMerkleRootBigInt}. The merkle tree has changed since proof generation.`
+          )
+        }
+      } else {
+        const isKnownRoot = await rootHistoryFn(treeNumber, ethers.toBeHex(proofMerkleRootBigInt, 32))
+        if (!isKnownRoot) {
+          throw new Error(`Merkle root for tree ${treeNumber} is not in the contract's root history${label}`)
+        }
+      }
 
-    // Gas price with 50% buffer
-    const feeData = await provider.getFeeData()
-    const gasPrice = feeData.gasPrice
-      ? (feeData.gasPrice * 150n) / 100n
-      : ethers.parseUnits('50', 'gwei')
-    dlog('Using gas price:', ethers.formatUnits(gasPrice, 'gwei'), 'gwei')
+      // Validate proof structure
+      const proof = formatted.proof
+      if (!proof || !proof.a || !proof.b || !proof.c) {
+        throw new Error(`Proof structure is invalid${label} - missing a, b, or c components`)
+      }
+    }
 
     const transactFn = contract['transact'] as ethers.BaseContractMethod
     if (!transactFn) {
       throw new Error('Contract does not have transact function')
     }
 
-    // Contract checks tx.gasprice >= boundParams.minGasPrice
-    const gasEstimate = await transactFn.estimateGas(formattedTransactions, { gasPrice })
-    dlog('Gas estimate for transact:', gasEstimate.toString())
+    const outbox = TransactionOutboxService.getInstance()
+    const ppoiData = getPPOIData(provedTransactions)
+    const newEntry: NewOutboxEntry = {
+      walletId: wallet.id,
+      walletAddress: wallet.address,
+      networkName,
+      kind: 'private-send',
+      transactions: formattedTransactions,
+      to: network.railgunProxyContract,
+      data: contract.interface.encodeFunctionData('transact', [formattedTransactions]),
+      ...(ppoiData ? { ppoiData } : {}),
+      signer: { walletId: signerSource.id, address: signer.address },
+      metadata,
+    }
+
+    onStatus?.('Simulating transaction…')
+    const simulation = await outbox.simulate(newEntry, provider, feeSpeed)
+    if (!simulation.success) {
+      throw new Error(`Simulation failed: ${simulation.error}`)
+    }
+    dlog('Simulation succeeded - transaction would be valid on-chain')
 
     if (dryRun) {
-      dlog('DRY RUN: Simulating with staticCall...')
-      await transactFn.staticCall(formattedTransactions, {
-        gasLimit: Math.floor(Number(gasEstimate) * 1.2),
-        gasPrice,
-      })
-      dlog('Static call succeeded - transaction would be valid on-chain')
       return '0x' + '0'.repeat(64)
     }
+    if (onSimulated && !(await onSimulated(simulation))) {
+      throw new Error('Transaction cancelled before broadcast')
+    }
 
-    const txResponse = await transactFn(formattedTransactions, {
-      gasLimit: Math.floor(Number(gasEstimate) * 1.2),
-      gasPrice,
-    })
+    onStatus?.('Submitting to network…')
+    let outboxEntry = outbox.add(newEntry)
 
-    dlog('Transaction submitted, waiting for confirmation...')
-    const receipt = await txResponse.wait()
-    dlog('Transaction confirmed')
+    try {
+      const txResponse = await transactFn(formattedTransactions, {
+        gasLimit: simulation.gasLimit!,
+        ...simulation.fees!,
+      })
+      outboxEntry = outbox.markBroadcast(outboxEntry, txResponse)
 
-    return receipt.hash
+      dlog('Transaction submitted, waiting for confirmation...')
+      const receipt = await txResponse.wait()
+      dlog('Transaction confirmed')
+
+      outbox.complete(outboxEntry, receipt.hash)
+      return receipt.hash
+    } catch (error) {
+      outbox.markFailed(outboxEntry, error)
+      throw error
+    }
   }
 
   /**
@@ -451,3 +663,5 @@ export class PrivateSendService {
     return new Transaction(chain, tokenData, spendingTree, utxos, allOutputs, adaptID, db)
   }
 }
+
+export type { BatchSendParams, SendRecipient }
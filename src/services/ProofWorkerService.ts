@@ -0,0 +1,280 @@
+import type { SnarkProofRequest, SnarkProofResult } from '@/core/snark-prover'
+import { generateSnarkProof } from '@/core/snark-prover'
+import { dlog, dwarn } from '@/utils/debug'
+
+/**
+ * A proof request posted to the proof worker.
+ */
+type ProofWorkerRequest = { id: number; request: SnarkProofRequest }
+
+/**
+ * A message posted back by the proof worker. A request is acknowledged with a started
+ * message, then produces any number of progress messages followed by exactly one result or error.
+ */
+type ProofWorkerResponse =
+  | { id: number; type: 'started' }
+  | { id: number; type: 'progress'; progress: number }
+  | { id: number; type: 'result'; result: SnarkProofResult }
+  | { id: number; type: 'error'; message: string }
+
+type ProveOptions = {
+  onProgress?: ((progress: number) => void) | undefined // 0-100, from artifact loading through proving
+  signal?: AbortSignal | undefined // Aborting removes a queued proof or stops the running one
+}
+
+/**
+ * A proof waiting in the queue or being generated.
+ */
+type QueuedProof = {
+  id: number
+  request: SnarkProofRequest
+  options: ProveOptions
+  resolve: (result: SnarkProofResult) => void
+  reject: (error: unknown) => void
+  onAbort: () => void
+  stopWorker: (() => void) | null // Set while the proof runs on the worker; rejects and terminates it
+  settled: boolean
+}
+
+/**
+ * Generates zk-SNARK proofs on a dedicated Web Worker so proving never blocks the UI.
+ *
+ * Proofs are memory-heavy, so requests are queued and generated one at a time. Each request
+ * can be cancelled through an AbortSignal; cancelling the running proof terminates the
+ * worker, and a fresh one is started for the next request. Where workers are unavailable,
+ * proofs are generated on the main thread; those cannot be interrupted, so cancelling one
+ * rejects its caller but the next proof waits until it has finished.
+ */
+class ProofWorkerService {
+  /**
+   * Singleton instance of the service.
+   */
+  private static instance: ProofWorkerService
+
+  /** The proof worker, started on first use. */
+  private worker: Worker | null = null
+  /** Set once the worker fails to start, after which proofs run on the main thread. */
+  private workerUnavailable = typeof Worker === 'undefined'
+  /** Proofs waiting for the running one to finish. */
+  private queue: QueuedProof[] = []
+  /** The proof being generated. */
+  private active: QueuedProof | null = null
+  /** Id of the next request. */
+  private nextId = 1
+
+  /**
+   * Get the singleton instance of ProofWorkerService.
+   * @returns The shared ProofWorkerService instance
+   */
+  static getInstance (): ProofWorkerService {
+    if (!this.instance) this.instance = new ProofWorkerService()
+    return this.instance
+  }
+
+  /**
+   * Queue a proof and wait for it.
+   * @param request - The circuit and its formatted inputs
+   * @param options - Optional progress callback and abort signal
+   * @returns The proof, public signals and verification key
+   * @throws The signal's abort reason if the proof is cancelled
+   */
+  prove (request: SnarkProofRequest, options: ProveOptions = {}): Promise<SnarkProofResult> {
+    return new Promise((resolve, reject) => {
+      if (options.signal?.aborted) {
+        reject(options.signal.reason)
+        return
+      }
+
+      const job: QueuedProof = {
+        id: this.nextId++,
+        request,
+        options,
+        resolve,
+        reject,
+        /**
+         * Cancel this proof when its signal aborts.
+         */
+        onAbort: () => {
+          this.cancel(job)
+        },
+        stopWorker: null,
+        settled: false,
+      }
+      options.signal?.addEventListener('abort', job.onAbort)
+
+      this.queue.push(job)
+      if (this.active) dlog(`Proof ${job.id} queued behind ${this.queue.length} other proof(s)`)
+      this.runNext()
+    })
+  }
+
+  /**
+   * Start the next queued proof if none is running.
+   */
+  private runNext (): void {
+    if (this.active) return
+    const job = this.queue.shift()
+    if (!job) return
+
+    this.active = job
+    this.runJob(job)
+      .then(
+        (result) => this.settle(job, () => job.resolve(result)),
+        (error) => this.settle(job, () => job.reject(error))
+      )
+      .then(() => {
+        // Only a proof that has stopped running frees the slot, even if it was cancelled earlier
+        this.active = null
+        this.runNext()
+      })
+  }
+
+  /**
+   * Generate one proof on the worker, or on the main thread if the worker cannot run.
+   * @param job - The proof to generate
+   * @returns The proof result
+   */
+  private async runJob (job: QueuedProof): Promise<SnarkProofResult> {
+    const worker = this.getWorker()
+    if (worker) {
+      try {
+        return await this.proveOnWorker(worker, job)
+      } catch (error) {
+        if (!(error instanceof WorkerStartError)) throw error
+        dwarn('Proof worker failed to start, proving on the main thread:', error.message)
+        this.terminateWorker()
+        this.workerUnavailable = true
+      }
+    }
+    job.options.signal?.throwIfAborted()
+    return generateSnarkProof(job.request, job.options.onProgress)
+  }
+
+  /**
+   * Get the running worker, starting one if needed.
+   * @returns The worker, or null if workers cannot be started
+   */
+  private getWorker (): Worker | null {
+    if (this.workerUnavailable) return null
+    if (this.worker) return this.worker
+    try {
+      this.worker = new Worker(new URL('../workers/prover.worker.ts', import.meta.url), {
+        type: 'module',
+      })
+    } catch (error) {
+      dwarn('Could not start proof worker:', error)
+      this.workerUnavailable = true
+    }
+    return this.worker
+  }
+
+  /**
+   * Stop the worker; the next proof starts a fresh one.
+   */
+  private terminateWorker (): void {
+    this.worker?.terminate()
+    this.worker = null
+  }
+
+  /**
+   * Post a proof request to the worker and wait for its result.
+   * @param worker - The proof worker
+   * @param job - The proof to generate
+   * @returns The proof result
+   */
+  private proveOnWorker (worker: Worker, job: QueuedProof): Promise<SnarkProofResult> {
+    return new Promise<SnarkProofResult>((resolve, reject) => {
+      // Set once the worker has loaded and picked up the request
+      let started = false
+
+      /**
+       * Terminate the worker and reject this proof with the cancellation reason.
+       */
+      job.stopWorker = () => {
+        this.terminateWorker()
+        reject(job.options.signal?.reason)
+      }
+      /**
+       * Handle a started, progress, result or error message for this proof.
+       * @param event - The message event
+       */
+      worker.onmessage = (event: MessageEvent<ProofWorkerResponse>) => {
+        const message = event.data
+        if (message.id !== job.id) return
+        if (message.type === 'started') {
+          started = true
+        } else if (message.type === 'progress') {
+          job.options.onProgress?.(message.progress)
+        } else if (message.type === 'result') {
+          resolve(message.result)
+        } else {
+          reject(new Error(message.message))
+        }
+      }
+      /**
+       * Reject when the worker script fails to load, or when the worker crashes while proving.
+       * A crashed worker is replaced for the next proof.
+       * @param event - The error event
+       */
+      worker.onerror = (event) => {
+        event.preventDefault()
+        if (!started) {
+          reject(new WorkerStartError(event.message || 'Proof worker failed to load'))
+          return
+        }
+        this.terminateWorker()
+        reject(new Error(event.message || 'Proof worker crashed while proving'))
+      }
+
+      const message: ProofWorkerRequest = { id: job.id, request: job.request }
+      worker.postMessage(message)
+    }).finally(() => {
+      job.stopWorker = null
+    })
+  }
+
+  /**
+   * Cancel a proof: drop it from the queue, or stop the worker if it is running. A proof
+   * running on the main thread cannot be stopped; its caller is rejected right away, and the
+   * next proof starts once it has finished.
+   * @param job - The proof to cancel
+   */
+  private cancel (job: QueuedProof): void {
+    if (job.settled) return
+    if (this.active === job) {
+      if (job.stopWorker) {
+        job.stopWorker()
+        dlog(`Proof ${job.id} cancelled while proving`)
+      } else {
+        dlog(`Proof ${job.id} cancelled; waiting for it to finish on the main thread`)
+      }
+    } else {
+      dlog(`Proof ${job.id} cancelled while queued`)
+    }
+    this.settle(job, () => job.reject(job.options.signal?.reason))
+  }
+
+  /**
+   * Resolve or reject a proof once, and drop it from the queue if it has not started.
+   * @param job - The finished or cancelled proof
+   * @param outcome - Resolves or rejects the caller's promise
+   */
+  private settle (job: QueuedProof, outcome: () => void): void {
+    if (job.settled) return
+    job.settled = true
+    job.options.signal?.removeEventListener('abort', job.onAbort)
+    outcome()
+
+    if (this.active !== job) {
+      this.queue = this.queue.filter((queued) => queued !== job)
+    }
+  }
+}
+
+/**
+ * The proof worker could not be loaded; proving falls back to the main thread.
+ */
+class WorkerStartError extends Error {}
+
+export type { ProofWorkerRequest, ProofWorkerResponse, ProveOptions }
+export { ProofWorkerService }
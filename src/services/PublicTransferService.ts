@@ -1,7 +1,10 @@
 import { ethers } from 'ethers'
 
-import type { NetworkName } from '@/types/network'
+import { FeeService } from './FeeService'
+
+import type { FeeSpeed, NetworkName } from '@/types/network'
 import type { RailgunWallet } from '@/types/wallet'
+import { getEthereumWallet } from '@/utils/crypto'
 import { createProvider } from '@/utils/rpc'
 
 const ERC20_TRANSFER_ABI = ['function transfer(address to, uint256 amount) returns (bool)']
@@ -10,6 +13,7 @@ interface PublicTransferParams {
   tokenAddress: string
   amount: string // Amount in token's smallest unit (wei for ETH)
   recipientAddress: string // 0x address
+  feeSpeed?: FeeSpeed // defaults to 'standard'
 }
 
 interface PublicTransferResult {
@@ -55,25 +59,34 @@ class PublicTransferService {
     }
 
     const provider = createProvider(network)
-    const signer = ethers.Wallet.fromPhrase(wallet.mnemonic).connect(provider)
+    const signer = getEthereumWallet(
+      wallet.mnemonic,
+      wallet.derivationIndex,
+      wallet.passphrase
+    ).connect(provider)
 
     const isNativeETH =
       !params.tokenAddress || params.tokenAddress === '0x0000000000000000000000000000000000000000'
 
+    const { tiers } = await FeeService.getInstance().getFeeQuote(provider)
+    const fees = tiers[params.feeSpeed ?? 'standard']
+
     let txResponse: ethers.TransactionResponse
 
     if (isNativeETH) {
       txResponse = await signer.sendTransaction({
         to: params.recipientAddress,
         value: BigInt(params.amount),
+        ...fees,
       })
     } else {
       const contract = new ethers.Contract(params.tokenAddress, ERC20_TRANSFER_ABI, signer)
       const transferFn = contract['transfer'] as (
         to: string,
         amount: bigint,
+        overrides: ethers.Overrides,
       ) => Promise<ethers.TransactionResponse>
-      txResponse = await transferFn(params.recipientAddress, BigInt(params.amount))
+      txResponse = await transferFn(params.recipientAddress, BigInt(params.amount), fees)
     }
 
     await txResponse.wait()
@@ -4,6 +4,8 @@
 
 import { ethers } from 'ethers'
 
+import { ReorgService } from './ReorgService'
+
 import RailgunSmartWalletABI from '@/core/abis/RailgunSmartWallet.json'
 import { createPersistentMerkletreeDatabase } from '@/core/merkletrees/database'
 import type { RailgunTransactionWithHash } from '@/core/merkletrees/RailgunTxidMerkletree'
@@ -18,11 +20,15 @@ import { createProvider } from '@/utils/rpc'
 
 // Singleton instances per network
 const txidMerkletrees = new Map<NetworkName, RailgunTxidMerkletree>()
+// Transactions fetched per Subsquid request
+const TRANSACTIONS_PAGE_SIZE = 10000
+// graphID prefix of transactions inserted from an RPC receipt ahead of the indexer
+const RPC_GRAPH_ID_PREFIX = 'rpc-'
 
 /**
  * Manages syncing and storage of RAILGUN transaction IDs into a local merkletree.
  */
-export class RailgunTxidScanner {
+class RailgunTxidScanner {
   /**
    * Get or create the txid merkletree for a network.
    * @param networkName - The network to get the merkletree for
@@ -40,67 +46,211 @@ export class RailgunTxidScanner {
   }
 
   /**
-   * Sync RAILGUN transactions from Subsquid.
+   * Bring the txid merkletree up to date with Subsquid, resuming from the last synced block.
+   *
+   * Each page is fetched from the block of the newest txid that came from the indexer, so it
+   * overlaps the stored tail. The overlap must match the stored txids one for one; from the first
+   * difference (a reorg, a reordered page, or a txid inserted from RPC ahead of earlier ones) the
+   * stored tail is rolled back and rebuilt from the indexer. Txids inserted from RPC that the
+   * indexer has not reached yet are kept.
    * @param networkName - The network to sync transactions for
-   * @param fromBlock - The starting block number to sync from
-   * @param toBlock - The ending block number to sync to
+   * @param onStatus - Optional callback receiving progress messages
    */
   static async syncTransactions (
     networkName: NetworkName,
-    fromBlock?: number,
-    toBlock?: number
+    onStatus?: (status: string) => void
   ): Promise<void> {
+    if (!this.getSubsquidURL(networkName)) {
+      dwarn(`No Subsquid URL for network ${networkName}`)
+      return
+    }
     const merkletree = this.getTxidMerkletree(networkName)
-    const latestSyncedBlock = await merkletree.getLatestSyncedBlock()
-    const startBlock = fromBlock ?? latestSyncedBlock
+    await ReorgService.getInstance().checkForReorg(networkName)
 
-    dlog(`Syncing RAILGUN txid tree for ${networkName} from block ${startBlock}...`)
+    while (true) {
+      const { fromBlock, overlapStart, overlap } = await this.getSyncOverlap(merkletree)
 
-    const transactions = await this.fetchTransactionsFromSubsquid(networkName, startBlock, toBlock)
+      onStatus?.(`Syncing txid tree from block ${fromBlock}...`)
+      dlog(`Syncing RAILGUN txid tree for ${networkName} from block ${fromBlock}...`)
+      const transactions = await this.fetchTransactionsFromSubsquid(networkName, fromBlock)
+      const isLastPage = transactions.length < TRANSACTIONS_PAGE_SIZE
 
-    if (transactions.length === 0) {
-      dlog('No new transactions to sync')
-      return
-    }
+      for (let i = 1; i < transactions.length; i++) {
+        if (transactions[i]!.blockNumber < transactions[i - 1]!.blockNumber) {
+          throw new Error('Subsquid returned RAILGUN transactions out of block order')
+        }
+      }
+
+      // First position where the indexer disagrees with the stored tail
+      let matched = 0
+      while (
+        matched < overlap.length &&
+        matched < transactions.length &&
+        this.isSameTransaction(overlap[matched]!, transactions[matched]!)
+      ) {
+        matched++
+      }
 
-    dlog(`Fetched ${transactions.length} RAILGUN transactions`)
+      const unmatched = overlap.slice(matched)
+      const indexerLagging =
+        matched === transactions.length &&
+        (!isLastPage || unmatched.every((tx) => tx.graphID.startsWith(RPC_GRAPH_ID_PREFIX)))
+      if (unmatched.length > 0 && !indexerLagging) {
+        dwarn(
+          `Txid tree diverges from Subsquid at index ${overlapStart + matched}; rolling back ${unmatched.length} txids`
+        )
+        onStatus?.(`Rolling back ${unmatched.length} txids that no longer match the indexer...`)
+        await merkletree.rollbackToIndex(overlapStart + matched)
+      }
 
-    await merkletree.queueRailgunTransactions(transactions)
-    await merkletree.updateTreesFromWriteQueue()
+      const newTransactions = indexerLagging ? [] : transactions.slice(matched)
+      if (newTransactions.length > 0) {
+        onStatus?.(`Adding ${newTransactions.length} txids to the txid tree...`)
+        await merkletree.queueRailgunTransactions(newTransactions)
+      }
+      if (newTransactions.length > 0 || (unmatched.length > 0 && !indexerLagging)) {
+        await merkletree.updateTreesFromWriteQueue()
+      }
+
+      // Every txid from the overlap start on must now sit at consecutive indices
+      const expectedIndex = overlapStart + matched + newTransactions.length - 1
+      const currentIndex = await merkletree.getCurrentTxidIndex()
+      if (!indexerLagging && currentIndex !== expectedIndex) {
+        throw new Error(
+          `Txid tree continuity check failed: expected last index ${expectedIndex}, found ${currentIndex}`
+        )
+      }
 
-    const highestBlock = Math.max(...transactions.map((tx) => tx.blockNumber))
-    const newLatestBlock = Math.max(latestSyncedBlock, highestBlock)
-    await merkletree.setLatestSyncedBlock(newLatestBlock)
+      const highestBlock = transactions[transactions.length - 1]?.blockNumber ?? fromBlock
+      await merkletree.setLatestSyncedBlock(
+        Math.max(highestBlock, await merkletree.getLatestSyncedBlock())
+      )
+      onStatus?.(`Txid tree synced to block ${highestBlock} (${currentIndex + 1} txids)`)
 
-    dlog(`Synced to block ${newLatestBlock}`)
+      if (isLastPage || newTransactions.length === 0) break
+    }
+
+    await ReorgService.getInstance().recordCheckpoint(
+      networkName,
+      await merkletree.getLatestSyncedBlock()
+    )
   }
 
   /**
-   * Sync the complete txid merkletree from genesis.
-   * Required for PPOI proof generation — local merkle root must match the PPOI node's,
-   * so we need ALL transactions in order.
-   * @param networkName - The network to perform a full tree sync for
+   * Remove the txids of blocks after a reorg's common ancestor, including ones inserted from RPC.
+   * @param networkName - The reorganized network
+   * @param ancestorBlock - The last block shared by the old and new chain
    */
-  static async syncFullTree (networkName: NetworkName): Promise<void> {
-    dlog(`Syncing complete txid merkletree for ${networkName} from genesis...`)
-
+  static async rollbackToBlock (networkName: NetworkName, ancestorBlock: number): Promise<void> {
     const merkletree = this.getTxidMerkletree(networkName)
-    const { tree: currentTree, index: currentIndex } = await merkletree.getLatestTreeAndIndex()
-    const currentTxids = currentTree * TREE_MAX_ITEMS + (currentIndex + 1)
 
-    // Clear and rebuild to ensure correct ordering from genesis
-    if (currentTxids > 0) {
-      dlog(`Clearing ${currentTxids} existing txids for fresh rebuild`)
-      await merkletree.clear()
+    let keptLength = (await merkletree.getCurrentTxidIndex()) + 1
+    while (keptLength > 0) {
+      const { tree, index } = RailgunTxidMerkletree.getTreeAndIndexFromGlobalPosition(
+        keptLength - 1
+      )
+      const transaction = await merkletree.getRailgunTransaction(tree, index)
+      if (transaction && transaction.blockNumber <= ancestorBlock) break
+      keptLength--
     }
 
-    await this.syncTransactions(networkName, 0, undefined)
+    const removed = await merkletree.rollbackToIndex(keptLength)
+    if (removed > 0) await merkletree.updateTreesFromWriteQueue()
+    await merkletree.setLatestSyncedBlock(
+      Math.min(ancestorBlock, await merkletree.getLatestSyncedBlock())
+    )
+    dlog(`Rolled back ${removed} txids on ${networkName} to block ${ancestorBlock}`)
+  }
+
+  /**
+   * Clear the txid merkletree and sync it again from genesis.
+   * Only needed to recover from a corrupt local tree; syncTransactions repairs diverging tails.
+   * @param networkName - The network to perform a full tree sync for
+   * @param onStatus - Optional callback receiving progress messages
+   */
+  static async syncFullTree (
+    networkName: NetworkName,
+    onStatus?: (status: string) => void
+  ): Promise<void> {
+    dlog(`Rebuilding txid merkletree for ${networkName} from genesis...`)
+
+    const merkletree = this.getTxidMerkletree(networkName)
+    await merkletree.clear()
+    await this.syncTransactions(networkName, onStatus)
 
     const { tree, index } = await merkletree.getLatestTreeAndIndex()
     const totalTxids = tree * TREE_MAX_ITEMS + (index + 1)
     dlog(`Full txid tree synced: ${totalTxids} total transactions`)
   }
 
+  /**
+   * Find where the next sync page starts and the stored txids it is expected to repeat.
+   * The page starts at the last synced block, or earlier at the block of the newest txid that
+   * came from the indexer when txids inserted from RPC sit past it.
+   * @param merkletree - The txid merkletree
+   * @returns The block to fetch from, the global index of the first stored txid in that block
+   * range, and the stored txids from that index on
+   */
+  private static async getSyncOverlap (merkletree: RailgunTxidMerkletree): Promise<{
+    fromBlock: number
+    overlapStart: number
+    overlap: RailgunTransactionWithHash[]
+  }> {
+    const currentIndex = await merkletree.getCurrentTxidIndex()
+    let fromBlock = await merkletree.getLatestSyncedBlock()
+
+    /**
+     * Read a stored transaction by its global index.
+     * @param globalIndex - The global txid index
+     * @returns The stored transaction, if any
+     */
+    const getTransaction = (globalIndex: number) => {
+      const { tree, index } = RailgunTxidMerkletree.getTreeAndIndexFromGlobalPosition(globalIndex)
+      return merkletree.getRailgunTransaction(tree, index)
+    }
+
+    // Walk back over the RPC-inserted tail to the newest txid from the indexer
+    let position = currentIndex
+    while (position >= 0) {
+      const transaction = await getTransaction(position)
+      if (!transaction || !transaction.graphID.startsWith(RPC_GRAPH_ID_PREFIX)) {
+        fromBlock = Math.min(fromBlock, transaction?.blockNumber ?? 0)
+        break
+      }
+      position--
+    }
+    if (position < 0) fromBlock = 0
+
+    // Collect every stored txid in blocks the page will return
+    const overlap: RailgunTransactionWithHash[] = []
+    let overlapStart = currentIndex + 1
+    while (overlapStart > 0) {
+      const transaction = await getTransaction(overlapStart - 1)
+      if (!transaction || transaction.blockNumber < fromBlock) break
+      overlap.unshift(transaction)
+      overlapStart--
+    }
+
+    return { fromBlock, overlapStart, overlap }
+  }
+
+  /**
+   * Whether a stored txid and one from the indexer are the same tree leaf.
+   * @param stored - The stored transaction
+   * @param fetched - The transaction returned by Subsquid
+   * @returns True if both have the same RAILGUN txid and leaf hash
+   */
+  private static isSameTransaction (
+    stored: RailgunTransactionWithHash,
+    fetched: RailgunTransactionWithHash
+  ): boolean {
+    return (
+      ByteUtils.strip0x(stored.railgunTxid).toLowerCase() ===
+        ByteUtils.strip0x(fetched.railgunTxid).toLowerCase() &&
+      ByteUtils.strip0x(stored.hash).toLowerCase() === ByteUtils.strip0x(fetched.hash).toLowerCase()
+    )
+  }
+
   /**
    * Fetch RAILGUN transactions from Subsquid GraphQL.
    * @param networkName - The network to fetch transactions for
@@ -232,7 +382,7 @@ export class RailgunTxidScanner {
         transactions(
           where: { ${whereClause} }
           orderBy: [blockNumber_ASC, id_ASC]
-          limit: 10000
+          limit: ${TRANSACTIONS_PAGE_SIZE}
         ) {
           id
           commitments
@@ -365,7 +515,7 @@ export class RailgunTxidScanner {
     const transaction: RailgunTransactionWithHash = {
       railgunTxid,
       hash: ByteUtils.nToHex(hashBigInt, 32),
-      graphID: `rpc-${txHash}`,
+      graphID: `${RPC_GRAPH_ID_PREFIX}${txHash}`,
       commitments: ppoiData.commitments,
       nullifiers: ppoiData.nullifiers,
       boundParamsHash: ppoiData.boundParamsHash,
@@ -411,3 +561,9 @@ export class RailgunTxidScanner {
     }
   }
 }
+
+ReorgService.getInstance().registerRollbackHandler(async (networkName, ancestorBlock) => {
+  await RailgunTxidScanner.rollbackToBlock(networkName, ancestorBlock)
+})
+
+export { RailgunTxidScanner }
@@ -0,0 +1,216 @@
+/**
+ * ReorgService
+ *
+ * Detects chain reorganizations between syncs. Scanners record the hash of the block they synced
+ * to as a checkpoint; before the next sync, the newest checkpoint is compared with the chain. If
+ * its hash changed, older checkpoints are checked until one still matches: that block is the
+ * common ancestor, and every registered store (stored TXOs, the nullifier cache, the txid and
+ * UTXO merkletrees) rolls back to it before the sync continues.
+ *
+ * A checkpoint block the RPC does not return yet means the node is behind, not a reorg, so the
+ * check is skipped. If no checkpoint matches, the stores roll back to block 0 and rescan.
+ */
+
+import type { ethers } from 'ethers'
+
+import type { CacheStoreSchema } from './CacheDatabase'
+import { CacheDatabase } from './CacheDatabase'
+
+import type { NetworkName } from '@/types/network'
+import { dlog, dwarn } from '@/utils/debug'
+import { createProvider } from '@/utils/rpc'
+
+interface BlockCheckpoint {
+  blockNumber: number
+  hash: string
+}
+
+// Checkpoints kept per network; a reorg deeper than all of them rolls back to block 0
+const MAX_CHECKPOINTS = 32
+
+/**
+ * Records block checkpoints and rolls stores back when the chain reorganizes under them.
+ */
+class ReorgService {
+  /**
+   * Singleton instance of the service.
+   */
+  private static instance: ReorgService
+
+  /** Cache database schema of checkpoint records, keyed `<network>:<blockNumber>`. */
+  private static readonly CHECKPOINT_SCHEMA: CacheStoreSchema = {
+    store: 'block-checkpoint',
+    version: 1,
+    encrypted: false,
+    upgrades: {},
+  }
+
+  /** Checkpoints per network, oldest first, loaded on first use. */
+  private readonly checkpoints = new Map<NetworkName, Promise<BlockCheckpoint[]>>()
+  /** Stores to roll back when a reorg is detected. */
+  private readonly rollbackHandlers = new Set<
+    (networkName: NetworkName, ancestorBlock: number) => Promise<void>
+  >()
+
+  /** Reorg check in progress per network, shared by concurrent syncs. */
+  private readonly pendingChecks = new Map<NetworkName, Promise<number | null>>()
+
+  /**
+   * Private constructor to enforce singleton pattern.
+   */
+  private constructor () {}
+
+  /**
+   * Get the singleton instance of ReorgService.
+   * @returns The shared ReorgService instance
+   */
+  static getInstance (): ReorgService {
+    if (!this.instance) {
+      this.instance = new ReorgService()
+    }
+    return this.instance
+  }
+
+  /**
+   * Register a store to roll back when a reorg is detected.
+   * @param handler - Called with the network and the last block both chains share; must drop
+   * everything the store learned from later blocks
+   */
+  registerRollbackHandler (
+    handler: (networkName: NetworkName, ancestorBlock: number) => Promise<void>
+  ): void {
+    this.rollbackHandlers.add(handler)
+  }
+
+  /**
+   * Record the hash of a block a sync reached.
+   * @param networkName - The network
+   * @param blockNumber - The block the synced data extends to
+   * @param provider - Optional provider; one is created if not supplied
+   */
+  async recordCheckpoint (
+    networkName: NetworkName,
+    blockNumber: number,
+    provider?: ethers.Provider
+  ): Promise<void> {
+    if (blockNumber <= 0) return
+    try {
+      const checkpoints = await this.loadCheckpoints(networkName)
+      if (checkpoints.some((checkpoint) => checkpoint.blockNumber === blockNumber)) return
+
+      const block = await (provider ?? createProvider(networkName)).getBlock(blockNumber)
+      if (!block?.hash) return
+
+      checkpoints.push({ blockNumber, hash: block.hash })
+      checkpoints.sort((a, b) => a.blockNumber - b.blockNumber)
+      const dropped = checkpoints.splice(0, Math.max(0, checkpoints.length - MAX_CHECKPOINTS))
+
+      await CacheDatabase.getInstance().writeRecords(
+        ReorgService.CHECKPOINT_SCHEMA,
+        [[`${networkName}:${blockNumber}`, { blockNumber, hash: block.hash }]],
+        dropped.map((checkpoint) => `${networkName}:${checkpoint.blockNumber}`)
+      )
+    } catch (error) {
+      dwarn(`Failed to record block checkpoint ${blockNumber} on ${networkName}:`, error)
+    }
+  }
+
+  /**
+   * Check the recorded checkpoints against the chain and roll every store back if it reorganized.
+   * @param networkName - The network
+   * @param provider - Optional provider; one is created if not supplied
+   * @returns The common ancestor block the stores were rolled back to, or null if no reorg
+   */
+  async checkForReorg (networkName: NetworkName, provider?: ethers.Provider): Promise<number | null> {
+    let pending = this.pendingChecks.get(networkName)
+    if (!pending) {
+      pending = this.detectAndRollback(networkName, provider ?? createProvider(networkName))
+      this.pendingChecks.set(networkName, pending)
+      pending
+        .finally(() => this.pendingChecks.delete(networkName))
+        .catch(() => {})
+    }
+    return pending
+  }
+
+  /**
+   * Find the common ancestor of the recorded checkpoints and the chain, and roll back to it.
+   * @param networkName - The network
+   * @param provider - Provider for the network
+   * @returns The common ancestor block, or null if the newest checkpoint still matches
+   */
+  private async detectAndRollback (
+    networkName: NetworkName,
+    provider: ethers.Provider
+  ): Promise<number | null> {
+    const checkpoints = await this.loadCheckpoints(networkName)
+    let ancestorIndex = -1
+    try {
+      for (let i = checkpoints.length - 1; i >= 0; i--) {
+        const checkpoint = checkpoints[i]!
+        const block = await provider.getBlock(checkpoint.blockNumber)
+        // The node has not reached this block yet; it cannot tell us about a reorg
+        if (!block && i === checkpoints.length - 1) return null
+        if (block?.hash === checkpoint.hash) {
+          ancestorIndex = i
+          break
+        }
+      }
+    } catch (error) {
+      dwarn(`Reorg check failed on ${networkName}:`, error)
+      return null
+    }
+
+    if (checkpoints.length === 0 || ancestorIndex === checkpoints.length - 1) return null
+
+    const ancestorBlock = ancestorIndex >= 0 ? checkpoints[ancestorIndex]!.blockNumber : 0
+    dwarn(
+      `Chain reorganization on ${networkName}: block ${checkpoints[checkpoints.length - 1]!.blockNumber} changed, rolling back to block ${ancestorBlock}`
+    )
+
+    const dropped = checkpoints.splice(ancestorIndex + 1)
+    await CacheDatabase.getInstance().writeRecords(
+      ReorgService.CHECKPOINT_SCHEMA,
+      [],
+      dropped.map((checkpoint) => `${networkName}:${checkpoint.blockNumber}`)
+    )
+
+    for (const handler of this.rollbackHandlers) {
+      try {
+        await handler(networkName, ancestorBlock)
+      } catch (error) {
+        console.error(`Reorg rollback handler failed on ${networkName}:`, error)
+      }
+    }
+    dlog(`Rolled back stores on ${networkName} to block ${ancestorBlock}`)
+
+    return ancestorBlock
+  }
+
+  /**
+   * Load a network's checkpoints from the cache database, once.
+   * @param networkName - The network
+   * @returns The network's checkpoints, oldest first (the cached array, mutated in place)
+   */
+  private async loadCheckpoints (networkName: NetworkName): Promise<BlockCheckpoint[]> {
+    let checkpoints = this.checkpoints.get(networkName)
+    if (!checkpoints) {
+      checkpoints = CacheDatabase.getInstance()
+        .loadRecords(ReorgService.CHECKPOINT_SCHEMA, `${networkName}:`)
+        .then((records) => {
+          return Array.from(records.values() as Iterable<BlockCheckpoint>).sort(
+            (a, b) => a.blockNumber - b.blockNumber
+          )
+        })
+        .catch((error) => {
+          dwarn(`Failed to load block checkpoints for ${networkName}:`, error)
+          return []
+        })
+      this.checkpoints.set(networkName, checkpoints)
+    }
+    return checkpoints
+  }
+}
+
+export type { BlockCheckpoint }
+export { ReorgService }
@@ -16,6 +16,9 @@
  * and POIService.getSentCommitmentsForRailgunTxid() for the fallback logic.
  */
 
+import { ByteUtils } from '@/utils/crypto'
+import { getCacheItem, onEncryptedCacheChange, setCacheItem } from '@/utils/encryptedCache'
+
 interface SentTransactionOutput {
   transactionHash: string
   railgunTxid?: string
@@ -30,6 +33,7 @@ interface SentTransactionOutput {
   tokenSubID: string
 
   recipientAddress: string // 0zk address
+  memoText?: string // memo attached to this output, kept per recipient for batch sends
   timestamp: number
 }
 
@@ -51,10 +55,15 @@ class SentTransactionStorage {
   private storage = new Map<string, SentTransactionOutput[]>()
 
   /**
-   * Initialize storage by loading persisted data from localStorage.
+   * Initialize storage by loading persisted data, and reload or drop it as the
+   * encrypted cache is unlocked or locked.
    */
   private constructor () {
-    this.loadFromLocalStorage()
+    this.loadFromStorage()
+    onEncryptedCacheChange((unlocked) => {
+      this.storage.clear()
+      if (unlocked) this.loadFromStorage()
+    })
   }
 
   /**
@@ -76,7 +85,7 @@ class SentTransactionStorage {
   storeSentOutputs (walletAddress: string, outputs: SentTransactionOutput[]): void {
     const existing = this.storage.get(walletAddress) || []
     this.storage.set(walletAddress, [...existing, ...outputs])
-    this.saveToLocalStorage()
+    this.saveToStorage()
   }
 
   /**
@@ -115,21 +124,75 @@ class SentTransactionStorage {
     )
   }
 
+  /**
+   * Record the on-chain transaction hash on outputs stored while their transaction was proved.
+   * Only outputs whose commitment belongs to the confirmed transaction are updated, so outputs
+   * of other pending, cancelled or dry-run sends keep waiting for their own hash.
+   * @param walletAddress - The deterministic wallet address to look up
+   * @param transactionHash - The confirmed transaction hash
+   * @param commitmentHashes - Output commitments of the confirmed transaction
+   * @returns The number of outputs that were updated
+   */
+  assignTransactionHash (
+    walletAddress: string,
+    transactionHash: string,
+    commitmentHashes: string[]
+  ): number {
+    const commitments = new Set(commitmentHashes.map((c) => ByteUtils.normalizeHex256(c)))
+    const outputs = this.getSentOutputs(walletAddress).filter(
+      (o) => !o.transactionHash && commitments.has(ByteUtils.normalizeHex256(o.commitmentHash))
+    )
+    if (outputs.length === 0) return 0
+    for (const output of outputs) {
+      output.transactionHash = transactionHash
+    }
+    this.saveToStorage()
+    return outputs.length
+  }
+
+  /**
+   * Restore sent outputs from a backup, skipping commitments that are already stored.
+   * @param walletAddress - The deterministic wallet address used as the storage key
+   * @param outputs - The outputs to restore
+   * @param overwrite - Whether the backup list replaces the existing one instead of adding to it
+   * @returns The number of outputs that were not stored before
+   */
+  restoreSentOutputs (
+    walletAddress: string,
+    outputs: SentTransactionOutput[],
+    overwrite: boolean
+  ): number {
+    const existing = overwrite ? [] : this.getSentOutputs(walletAddress)
+    const known = new Set(this.getSentOutputs(walletAddress).map((o) => o.commitmentHash))
+    const seen = new Set(existing.map((o) => o.commitmentHash))
+    const merged = [...existing]
+    let added = 0
+
+    for (const output of outputs) {
+      if (seen.has(output.commitmentHash)) continue
+      seen.add(output.commitmentHash)
+      merged.push(output)
+      if (!known.has(output.commitmentHash)) added++
+    }
+
+    this.storage.set(walletAddress, merged)
+    this.saveToStorage()
+    return added
+  }
+
   /**
    * Delete all stored outputs for a given wallet address and persist the change.
    * @param walletAddress - The deterministic wallet address whose outputs to clear
    */
   clearWalletOutputs (walletAddress: string): void {
     this.storage.delete(walletAddress)
-    this.saveToLocalStorage()
+    this.saveToStorage()
   }
 
   /**
-   * Serialize and persist all in-memory outputs to browser localStorage.
+   * Serialize and persist all in-memory outputs to the encrypted cache.
    */
-  private saveToLocalStorage (): void {
-    if (typeof window === 'undefined' || !window.localStorage) return
-
+  private saveToStorage (): void {
     try {
       const data: Record<string, SerializedOutput[]> = {}
       for (const [walletAddress, outputs] of this.storage.entries()) {
@@ -138,20 +201,19 @@ class SentTransactionStorage {
           value: o.value.toString(),
         }))
       }
-      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(data))
+      setCacheItem(STORAGE_KEY, JSON.stringify(data))
     } catch (error) {
-      console.error('Failed to save sent outputs to localStorage:', error)
+      console.error('Failed to save sent outputs:', error)
     }
   }
 
   /**
-   * Deserialize and load persisted outputs from browser localStorage into memory.
+   * Deserialize and load persisted outputs from the encrypted cache into memory.
+   * Nothing is loaded while the cache is locked.
    */
-  private loadFromLocalStorage (): void {
-    if (typeof window === 'undefined' || !window.localStorage) return
-
+  private loadFromStorage (): void {
     try {
-      const json = window.localStorage.getItem(STORAGE_KEY)
+      const json = getCacheItem(STORAGE_KEY)
       if (!json) return
 
       const data: Record<string, SerializedOutput[]> = JSON.parse(json)
@@ -162,7 +224,7 @@ class SentTransactionStorage {
         )
       }
     } catch (error) {
-      console.error('Failed to load sent outputs from localStorage:', error)
+      console.error('Failed to load sent outputs:', error)
     }
   }
 }
@@ -1,17 +1,19 @@
 import { ethers } from 'ethers'
 
-import type { NetworkName } from '@/types/network'
+import { FeeService } from './FeeService'
+
+import type { FeeSpeed, NetworkName } from '@/types/network'
 import { NETWORK_CONFIG } from '@/types/network'
 import type { RailgunWallet, ShieldTransactionParams } from '@/types/wallet'
 import { AES } from '@/utils/aes'
-import { ByteLength, ByteUtils, getPublicViewingKey } from '@/utils/crypto'
+import { ByteLength, ByteUtils, getEthereumWallet, getPublicViewingKey } from '@/utils/crypto'
 import { dlog, dwarn } from '@/utils/debug'
 import { poseidon } from '@/utils/poseidon'
 import { decodeRailgunAddress } from '@/utils/railgun-address'
 import { getSharedSymmetricKey } from '@/utils/railgun-crypto'
+import { decodeRelayAdaptRevert } from '@/utils/revert-reason'
 
 const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000'
-const DEFAULT_GAS_PRICE = 20_000_000_000n // 20 gwei
 
 interface ShieldTransactionResult {
   transaction: ethers.ContractTransaction
@@ -126,29 +128,31 @@ function isNativeETH (tokenAddress: string): boolean {
 }
 
 /**
- * Build a GasEstimate from fee data and a gas limit.
+ * Build a GasEstimate from the fee engine's quote and a gas limit.
  * @param provider - The ethers provider to fetch fee data from
  * @param gasLimit - The gas limit for the transaction
- * @returns A GasEstimate containing gas limit, price, and total cost
+ * @param feeSpeed - The fee tier to pay
+ * @returns A GasEstimate containing gas limit, fees, and the highest total cost
  */
-async function buildGasEstimate (provider: ethers.Provider, gasLimit: bigint): Promise<GasEstimate> {
-  const feeData = await provider.getFeeData()
-  const gasPrice = feeData.gasPrice || DEFAULT_GAS_PRICE
-
-  const result: GasEstimate = {
-    gasLimit,
-    gasPrice,
-    totalCost: gasLimit * gasPrice,
-  }
-
-  if (feeData.maxFeePerGas) {
-    result.maxFeePerGas = feeData.maxFeePerGas
-  }
-  if (feeData.maxPriorityFeePerGas) {
-    result.maxPriorityFeePerGas = feeData.maxPriorityFeePerGas
+async function buildGasEstimate (
+  provider: ethers.Provider,
+  gasLimit: bigint,
+  feeSpeed: FeeSpeed = 'standard'
+): Promise<GasEstimate> {
+  const feeService = FeeService.getInstance()
+  const quote = await feeService.getFeeQuote(provider)
+  const fees = quote.tiers[feeSpeed]
+  const totalCost = feeService.getFeeRange(fees, gasLimit, quote.baseFeePerGas).max
+
+  if (fees.type === 2) {
+    return {
+      gasLimit,
+      maxFeePerGas: fees.maxFeePerGas,
+      maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+      totalCost,
+    }
   }
-
-  return result
+  return { gasLimit, gasPrice: fees.gasPrice, totalCost }
 }
 
 /**
@@ -395,15 +399,7 @@ export class ShieldTransactionService {
     transaction.gasLimit = gasEstimate
 
     try {
-      const feeData = await provider.getFeeData()
-      if (feeData.maxFeePerGas && feeData.maxPriorityFeePerGas) {
-        transaction.maxFeePerGas = feeData.maxFeePerGas
-        transaction.maxPriorityFeePerGas = feeData.maxPriorityFeePerGas
-        transaction.type = 2
-      } else if (feeData.gasPrice) {
-        transaction.gasPrice = feeData.gasPrice
-        transaction.type = 0
-      }
+      applyGasToTransaction(transaction, await buildGasEstimate(provider, gasEstimate))
     } catch (gasError) {
       dwarn('Failed to get fee data, using default gas pricing:', gasError)
       transaction.gasPrice = ethers.parseUnits('20', 'gwei')
@@ -468,7 +464,7 @@ export class ShieldTransactionService {
         from: walletAddress,
       })
 
-      return buildGasEstimate(provider, gasLimit)
+      return buildGasEstimate(provider, gasLimit, params.feeSpeed)
     }
 
     // Shield gas estimation with conservative estimates
@@ -482,7 +478,7 @@ export class ShieldTransactionService {
     // Add 20% buffer for safety
     const bufferedGasLimit = (baseGasLimit * 120n) / 100n
 
-    return buildGasEstimate(provider, bufferedGasLimit)
+    return buildGasEstimate(provider, bufferedGasLimit, params.feeSpeed)
   }
 
   /**
@@ -515,7 +511,11 @@ export class ShieldTransactionService {
     if (!wallet.mnemonic) {
       throw new Error('Cannot sign transaction without mnemonic')
     }
-    const signer = ethers.Wallet.fromPhrase(wallet.mnemonic).connect(provider)
+    const signer = getEthereumWallet(
+      wallet.mnemonic,
+      wallet.derivationIndex,
+      wallet.passphrase
+    ).connect(provider)
 
     onProgress?.('Submitting to network...')
 
@@ -614,7 +614,7 @@ export class ShieldTransactionService {
         })
       } catch (callError: unknown) {
         console.error('Contract call would revert:', callError)
-        const decoded = this.decodeRelayAdaptRevert(callError)
+        const decoded = decodeRelayAdaptRevert(callError)
         return {
           success: false,
           error: decoded ?? (callError instanceof Error ? callError.message : 'Contract execution would revert'),
@@ -653,84 +653,6 @@ export class ShieldTransactionService {
     }
   }
 
-  /**
-   * Decode RelayAdapt CallFailed custom error and inner revert reason, if present.
-   * @param err - The error object from a failed RelayAdapt call
-   * @returns A human-readable error message, or undefined if not decodable
-   */
-  private decodeRelayAdaptRevert (err: unknown): string | undefined {
-    try {
-      const data: string | undefined =
-        (err as any)?.data ||
-        (err as any)?.error?.data ||
-        (err as any)?.info?.error?.data ||
-        (err as any)?.revert?.data
-      if (!data || typeof data !== 'string' || !data.startsWith('0x')) return undefined
-
-      // Manual decode for CallFailed selector 0x5c0dee5d
-      if (data.toLowerCase().startsWith('0x5c0dee5d')) {
-        try {
-          const abiCoder = ethers.AbiCoder.defaultAbiCoder()
-          const decoded = abiCoder.decode(
-            ['uint256', 'bytes'],
-            '0x' + data.slice(10)
-          ) as unknown as [bigint, string]
-          const innerMsg =
-            this.decodeRevertString(decoded[1]) ?? this.decodeRawRevertData(decoded[1])
-          return `RelayAdapt multicall failed at call index ${decoded[0]}: ${innerMsg}`
-        } catch {}
-      }
-
-      const iface = new ethers.Interface(RELAY_ADAPT_ABI as any)
-      try {
-        const parsed = iface.parseError(data)
-        if (parsed?.name === 'CallFailed') {
-          const inner: string = parsed.args[1]
-          const innerMsg = this.decodeRevertString(inner) ?? this.decodeRawRevertData(inner)
-          return `RelayAdapt multicall failed at call index ${Number(parsed.args[0])}: ${innerMsg}`
-        }
-      } catch {
-        const generic = this.decodeRevertString(data)
-        if (generic) return generic
-      }
-
-      return undefined
-    } catch {
-      return undefined
-    }
-  }
-
-  /**
-   * Decode a standard Solidity Error(string) revert reason from ABI-encoded data.
-   * @param revertData - The hex-encoded revert data starting with the Error(string) selector
-   * @returns The decoded revert reason string, or undefined if not decodable
-   */
-  private decodeRevertString (revertData: string): string | undefined {
-    try {
-      const lower = revertData.toLowerCase()
-      // Standard Error(string) selector 0x08c379a0
-      if (lower.startsWith('0x08c379a0') && lower.length >= 10) {
-        const abiCoder = ethers.AbiCoder.defaultAbiCoder()
-        const reason = abiCoder.decode(['string'], `0x${lower.slice(10)}`)[0] as string
-        return reason
-      }
-      return undefined
-    } catch {
-      return undefined
-    }
-  }
-
-  /**
-   * Format raw revert data as a hex string for display when no standard decoding is possible.
-   * @param revertData - The hex-encoded revert data
-   * @returns A hex-prefixed string of the raw revert data, or a message if empty
-   */
-  private decodeRawRevertData (revertData: string): string {
-    const hex = `0x${revertData.replace(/^0x/i, '')}`
-    if (hex === '0x') return 'No revert data (likely out of gas)'
-    return hex
-  }
-
   /**
    * Create shield transaction with proper RAILGUN shield requests.
    * @param params - The shield transaction parameters including token and amount
@@ -930,10 +852,10 @@ export class ShieldTransactionService {
         ...probeCall,
         from: wallet.ethereumAddress!,
       })
-      gasEstimate = await buildGasEstimate(provider, (estGas * 12n) / 10n) // +20% buffer
+      gasEstimate = await buildGasEstimate(provider, (estGas * 12n) / 10n, params.feeSpeed) // +20% buffer
     } catch {
       // Fallback: conservative estimate for RelayAdapt (wrap + shield)
-      gasEstimate = await buildGasEstimate(provider, 840_000n)
+      gasEstimate = await buildGasEstimate(provider, 840_000n, params.feeSpeed)
     }
 
     applyGasToTransaction(multicallTx, gasEstimate)
@@ -1,11 +1,16 @@
 import { poseidon } from '@railgun-community/circomlibjs'
 
+import type { PrivateBalanceScanner } from './BalanceScannerRouter'
+import type { CacheStoreSchema } from './CacheDatabase'
+import { CacheDatabase } from './CacheDatabase'
+import { DecryptionWorkerPool } from './DecryptionWorkerPool'
 import type { POIService } from './POIService'
+import { ReorgService } from './ReorgService'
 import { SentTransactionStorage } from './SentTransactionStorage'
 import { SubsquidDataFetcher } from './SubsquidDataFetcher'
 import { TokenService } from './TokenService'
+import { UTXOMerkletreeService } from './UTXOMerkletreeService'
 
-import { decodeMemoText, decryptNoteAnnotationData } from '@/core/transact-note'
 import type { NetworkName } from '@/types/network'
 import { NETWORK_CONFIG } from '@/types/network'
 import type {
@@ -16,11 +21,25 @@ import type {
   SubsquidNullifier,
   TokenBalance,
 } from '@/types/wallet'
-import { AES } from '@/utils/aes'
+import {
+  blindedCommitmentForShieldOrTransact,
+  blindedCommitmentOf,
+} from '@/utils/blinded-commitment'
+import {
+  decryptSubsquidCommitment,
+  decryptTransactNoteV2,
+  normalizeTokenType,
+} from '@/utils/commitment-decryption'
 import { ByteUtils } from '@/utils/crypto'
 import { dlog, dwarn } from '@/utils/debug'
+import {
+  getCacheItem,
+  isEncryptedCacheUnlocked,
+  onEncryptedCacheChange,
+  removeCacheItem,
+  removeCacheItemsWithPrefix,
+} from '@/utils/encryptedCache'
 import { getSharedSymmetricKey, getTokenDataHash } from '@/utils/railgun-crypto'
-import { reconstructReceiverAddress } from '@/utils/sender-address-reconstruction'
 
 /**
  * Balance Scanner Service
@@ -31,17 +50,21 @@ import { reconstructReceiverAddress } from '@/utils/sender-address-reconstructio
  * 3. Calculates token balances by type
  * 4. Applies PPOI validation for balance buckets
  */
-class SubsquidBalanceScanner {
+class SubsquidBalanceScanner implements PrivateBalanceScanner {
   /** Singleton instance of the balance scanner. */
   public static instance: SubsquidBalanceScanner
+  /** Where this scanner reads commitments from. */
+  public readonly source = 'indexer' as const
   /** Most recently decrypted commitments from the last scan. */
   public lastDecryptedCommitments: DecryptedCommitment[] = []
   /** Cached PPOI statuses keyed by blinded commitment hash. */
   public lastPOIStatuses: Record<string, POIStatus> = {}
 
   // TXO storage
-  /** Persistent TXO storage keyed by wallet ID. */
+  /** Persistent TXO storage keyed `<walletId>:<network>`. */
   public storedTXOs: Map<string, DecryptedCommitment[]> = new Map()
+  /** Serialized TXO records last written to the cache database, keyed `<walletId>:<network>` then commitment ID. */
+  private persistedTXOs: Map<string, Map<string, string>> = new Map()
 
   // Store ALL commitments from Subsquid for merkle tree population
   /** All commitments fetched from Subsquid for the last scanned network. */
@@ -67,17 +90,41 @@ class SubsquidBalanceScanner {
   /** Highest block number seen per network for incremental nullifier fetching. */
   private lastNullifierBlockNumber: Map<string, number> = new Map()
 
-  // Cache version to invalidate old data when implementation changes
-  /** Cache version string used to invalidate stale stored data. */
-  public static readonly CACHE_VERSION = 'v3_sender_address_reconstruction' // Added blindedSenderViewingKey field
-  /** LocalStorage key for persisting the cache version. */
-  public static readonly CACHE_VERSION_KEY = 'railgun_wallet_txos_version'
+  /** Wallet networks (`<walletId>:<network>`) whose spent flags must be recomputed after a reorg dropped nullifiers. */
+  private spentRecheckWallets: Set<string> = new Set()
+
+  /** Pending load of the persisted nullifier cache. */
+  private nullifierCacheLoaded: Promise<void>
+
+  // Bump a schema version (and add an upgrade) when the stored record shape changes
+  /** Cache database schema of TXO records, keyed `<walletId>:<network>:<commitmentId>`. */
+  private static readonly TXO_SCHEMA: CacheStoreSchema = {
+    store: 'txo',
+    // v2 keyed records by network; v1 records cannot be assigned one and are fetched again
+    version: 2,
+    encrypted: true,
+    upgrades: {},
+  }
+
+  /** Cache database schema of nullifier records, keyed `<network>:<nullifierId>`. */
+  private static readonly NULLIFIER_SCHEMA: CacheStoreSchema = {
+    store: 'nullifier',
+    // v2 added treeNumber; v1 records cannot be upgraded and are fetched again
+    version: 2,
+    encrypted: false,
+    upgrades: {},
+  }
+
+  /** Encrypted-cache key of the legacy whole-blob TXO cache. */
+  private static readonly LEGACY_TXO_CACHE_KEY = 'railgun_wallet_txos'
+  /** LocalStorage key of the legacy TXO cache version marker. */
+  private static readonly LEGACY_TXO_VERSION_KEY = 'railgun_wallet_txos_version'
   // Global tree math: trees are size 2^16 leaves
   /** Maximum number of leaves per merkle tree (2^16). */
   public static readonly TREE_MAX_ITEMS = 65_536
 
-  /** LocalStorage key for persisting the nullifier cache. */
-  private static readonly NULLIFIER_CACHE_KEY = 'railgun_nullifier_cache'
+  /** LocalStorage key of the legacy whole-blob nullifier cache. */
+  private static readonly LEGACY_NULLIFIER_CACHE_KEY = 'railgun_nullifier_cache'
 
   /** Lazily-resolved POIService instance to break circular dependency. */
   private _poiService: POIService | null = null
@@ -87,9 +134,23 @@ class SubsquidBalanceScanner {
    * @param subsquidFetcher - Subsquid data fetcher instance for querying commitment data
    */
   public constructor (public subsquidFetcher: SubsquidDataFetcher) {
-    // Load stored TXOs from localStorage on initialization
-    this.loadStoredTXOs()
-    this.loadNullifierCache()
+    // TXOs are only readable once the encrypted cache is unlocked; nullifiers are public
+    if (isEncryptedCacheUnlocked()) this.loadStoredTXOs()
+    this.nullifierCacheLoaded = this.loadNullifierCache()
+
+    onEncryptedCacheChange(async (unlocked) => {
+      if (unlocked) {
+        await this.loadStoredTXOs()
+      } else {
+        this.storedTXOs.clear()
+        this.persistedTXOs.clear()
+        this.lastDecryptedCommitments = []
+      }
+    })
+
+    ReorgService.getInstance().registerRollbackHandler(async (networkName, ancestorBlock) => {
+      await this.rollbackToBlock(networkName, ancestorBlock)
+    })
   }
 
   /**
@@ -145,25 +206,32 @@ class SubsquidBalanceScanner {
    * @param options - Optional scan configuration
    * @param options.startBlockNumber - Block number to start scanning from
    * @param options.incremental - Whether to merge with existing TXOs instead of replacing
+   * @param options.signal - Abort signal that cancels the scan; stored TXOs are left untouched
    * @returns Array of token balances grouped by balance bucket
    */
   async scanBalances (
     wallet: RailgunWallet,
     networkName: NetworkName,
     progressCallback?: (progress: number) => void,
-    options?: { startBlockNumber?: number; incremental?: boolean }
+    options?: { startBlockNumber?: number; incremental?: boolean; signal?: AbortSignal }
   ): Promise<TokenBalance[]> {
     try {
       if (progressCallback) progressCallback(0)
 
-      // Decide start block for incremental scans to avoid re-fetching history
+      // Decide start block for incremental scans to avoid re-fetching history.
+      // Wallets that know their first relevant block (e.g. from a viewing key bundle) skip earlier history.
+      const firstBlock = wallet.scanStartBlocks?.[networkName] ?? 0
+      // Creating the tree service registers its rollback before a reorg can be detected
+      const merkletree = UTXOMerkletreeService.getInstance()
+      // Drop data from orphaned blocks before the start block is derived from it
+      await ReorgService.getInstance().checkForReorg(networkName)
       const startBlock = (() => {
         if (options?.startBlockNumber != null) return options.startBlockNumber
         if (options?.incremental) {
-          const last = this.getLastStoredBlockNumber(wallet.id)
-          return last > 0 ? last + 1 : 0
+          const last = this.getLastStoredBlockNumber(wallet.id, networkName)
+          return last > 0 ? last + 1 : firstBlock
         }
-        return 0
+        return firstBlock
       })()
 
       // 1. Fetch commitments and nullifiers in parallel
@@ -176,6 +244,19 @@ class SubsquidBalanceScanner {
         `Fetched ${commitments.length} commitments, ${nullifiers.length} nullifiers from Subsquid`
       )
 
+      options?.signal?.throwIfAborted()
+
+      const syncedBlock = commitments.reduce(
+        (max, c) => Math.max(max, Number(c.blockNumber)),
+        this.lastNullifierBlockNumber.get(networkName) || 0
+      )
+      await ReorgService.getInstance().recordCheckpoint(networkName, syncedBlock)
+
+      // Extend the persistent merkletree used for spend proofs; it never blocks the scan
+      merkletree
+        .ingestCommitments(networkName, commitments)
+        .catch((error) => dwarn('Failed to update UTXO merkletree:', error))
+
       // Indicate we've finished initial fetch/setup (~30%) using 0–1 scale
       if (progressCallback) progressCallback(0.3)
 
@@ -185,26 +266,33 @@ class SubsquidBalanceScanner {
         wallet,
         networkName,
         progressCallback,
-        nullifiers
+        nullifiers,
+        options?.signal
       )
+      options?.signal?.throwIfAborted()
 
       dlog(`Decrypted ${decryptedCommitments.length}/${commitments.length} commitments`)
 
       // Merge with existing TXOs in incremental mode, otherwise replace
       if (options?.incremental) {
-        const existing = this.getDecryptedCommitmentsForWallet(wallet.id) || []
+        const existing = this.getDecryptedCommitmentsForWallet(wallet.id, networkName)
         const byId = new Map<string, DecryptedCommitment>()
         for (const c of existing) byId.set(c.id, c)
         for (const c of decryptedCommitments) byId.set(c.id, c)
-        const merged = Array.from(byId.values())
+        let merged = Array.from(byId.values())
+        if (this.spentRecheckWallets.delete(SubsquidBalanceScanner.txoKey(wallet.id, networkName))) {
+          // A reorg dropped nullifiers, so notes kept from earlier scans may no longer be spent
+          merged = await this.detectSpentUTXOs(merged, commitments, wallet, networkName, nullifiers)
+        }
         // Update in-memory and persistent caches
         this.lastDecryptedCommitments = merged
-        this.storeTXOsForWallet(wallet.id, merged)
+        this.storeTXOsForWallet(wallet.id, networkName, merged)
       } else {
+        this.spentRecheckWallets.delete(SubsquidBalanceScanner.txoKey(wallet.id, networkName))
         // Store the decrypted commitments for transaction history service
         this.lastDecryptedCommitments = decryptedCommitments
         // Store decrypted commitments as TXOs for this wallet (persistent storage)
-        this.storeTXOsForWallet(wallet.id, decryptedCommitments)
+        this.storeTXOsForWallet(wallet.id, networkName, decryptedCommitments)
       }
 
       dlog('Stored decrypted commitments for wallet')
@@ -215,7 +303,7 @@ class SubsquidBalanceScanner {
       // 3. Calculate token balances WITH BUCKETS (Spendable/Pending/Blocked)
       // In incremental mode, compute balances from the full merged set to avoid flicker/clearing
       const sourceForBalances = options?.incremental
-        ? this.getDecryptedCommitmentsForWallet(wallet.id)
+        ? this.getDecryptedCommitmentsForWallet(wallet.id, networkName)
         : decryptedCommitments
       const finalBalances = await this.calculateTokenBalancesWithBuckets(
         sourceForBalances,
@@ -233,21 +321,31 @@ class SubsquidBalanceScanner {
 
       return finalBalances
     } catch (error) {
-      console.error('Error scanning balances:', error)
+      if (!options?.signal?.aborted) console.error('Error scanning balances:', error)
       throw error
     }
   }
 
+  /**
+   * Get the key of a wallet's TXOs on a network in the stored TXO maps.
+   * @param walletId - The wallet ID
+   * @param networkName - The network
+   * @returns The key, `<walletId>:<network>`
+   */
+  private static txoKey (walletId: string, networkName: string): string {
+    return `${walletId}:${networkName}`
+  }
+
   /**
    * Get decrypted commitments for wallet (TXOs).
    * This is the main entry point for transaction history - similar to AbstractWallet.TXOs().
-   * @param walletId - Optional wallet ID to retrieve stored TXOs for
-   * @returns Array of decrypted commitments for the wallet
+   * @param walletId - The wallet ID to retrieve stored TXOs for
+   * @param networkName - The network the TXOs were scanned on
+   * @returns Array of decrypted commitments for the wallet on the network
    */
-  getDecryptedCommitmentsForWallet (walletId?: string): DecryptedCommitment[] {
-    // If we have stored TXOs for a specific wallet, return those
-    if (walletId && this.storedTXOs.has(walletId)) {
-      const storedCommitments = this.storedTXOs.get(walletId) || []
+  getDecryptedCommitmentsForWallet (walletId: string, networkName: NetworkName): DecryptedCommitment[] {
+    const storedCommitments = this.storedTXOs.get(SubsquidBalanceScanner.txoKey(walletId, networkName))
+    if (storedCommitments) {
       // Check for corrupted random values and auto-fix if needed
       const corruptedCount = storedCommitments.filter(
         (c) =>
@@ -263,14 +361,7 @@ class SubsquidBalanceScanner {
 
         // Also clear walletStore cache which stores balances separately
         // Clear all wallet store cache keys that match this wallet
-        const keysToRemove: string[] = []
-        for (let i = 0; i < localStorage.length; i++) {
-          const key = localStorage.key(i)
-          if (key && key.startsWith(`wallet:${walletId}:`)) {
-            keysToRemove.push(key)
-          }
-        }
-        keysToRemove.forEach((key) => localStorage.removeItem(key))
+        removeCacheItemsWithPrefix(`wallet:${walletId}:`)
 
         return [] // Force a fresh scan
       }
@@ -278,9 +369,7 @@ class SubsquidBalanceScanner {
       return storedCommitments
     }
 
-    // Otherwise, return the last decrypted commitments (for backward compatibility)
-    dlog(`Returning ${this.lastDecryptedCommitments.length} in-memory commitments`)
-    return this.lastDecryptedCommitments
+    return []
   }
 
   /**
@@ -295,78 +384,109 @@ class SubsquidBalanceScanner {
     networkName: NetworkName,
     walletAddress?: string // Optional wallet address for checking SentTransactionStorage
   ): Promise<TokenBalance[]> {
-    const txos = this.getDecryptedCommitmentsForWallet(walletId)
+    const txos = this.getDecryptedCommitmentsForWallet(walletId, networkName)
 
     // Group balances by token AND balance bucket
     return await this.calculateTokenBalancesWithBuckets(txos, networkName, walletAddress)
   }
 
   /**
-   * Check if we have stored TXOs for a wallet.
+   * Check if we have stored TXOs for a wallet on a network.
    * @param walletId - The wallet ID to check
-   * @returns True if stored TXOs exist and are non-empty for this wallet
+   * @param networkName - The network to check
+   * @returns True if stored TXOs exist and are non-empty for this wallet on the network
    */
-  hasStoredTXOs (walletId: string): boolean {
-    return this.storedTXOs.has(walletId) && (this.storedTXOs.get(walletId)?.length || 0) > 0
+  hasStoredTXOs (walletId: string, networkName: NetworkName): boolean {
+    return (this.storedTXOs.get(SubsquidBalanceScanner.txoKey(walletId, networkName))?.length || 0) > 0
+  }
+
+  /**
+   * Convert a stored TXO record back into a commitment, restoring BigInt values that were
+   * converted to strings during serialization.
+   * @param c - The stored record
+   * @returns The decrypted commitment
+   */
+  private static reviveTXO (c: any): DecryptedCommitment {
+    return {
+      ...c,
+      value: BigInt(c.value || '0'),
+      timestamp: Number(c.timestamp || 0),
+      blockNumber: Number(c.blockNumber || 0),
+      // Ensure random field is preserved
+      random: c.random || '0x0000000000000000000000000000000000000000000000000000000000000000',
+    }
   }
 
   /**
-   * Load stored TXOs from localStorage
+   * Convert a commitment into a JSON-safe TXO record.
+   * @param c - The decrypted commitment
+   * @returns The record to store
    */
-  public loadStoredTXOs (): void {
+  private static serializeTXO (c: DecryptedCommitment): Record<string, unknown> {
+    return {
+      ...c,
+      value: c.value?.toString() || '0',
+      timestamp: Number(c.timestamp || 0),
+      blockNumber: Number(c.blockNumber || 0),
+      // Ensure random field is preserved
+      random: c.random || '0x0000000000000000000000000000000000000000000000000000000000000000',
+    }
+  }
+
+  /**
+   * Drop the legacy whole-blob TXO cache. Its TXOs are not keyed by network, so they are
+   * fetched again by the next scan instead of being migrated.
+   */
+  private dropLegacyTXOs (): void {
+    if (getCacheItem(SubsquidBalanceScanner.LEGACY_TXO_CACHE_KEY)) {
+      dlog('Dropped the legacy TXO cache; TXOs are fetched again by the next scan')
+    }
+    removeCacheItem(SubsquidBalanceScanner.LEGACY_TXO_CACHE_KEY)
+    localStorage.removeItem(SubsquidBalanceScanner.LEGACY_TXO_VERSION_KEY)
+    localStorage.removeItem('railgun_wallet_balances')
+  }
+
+  /**
+   * Load stored TXOs from the cache database (nothing is readable while the encrypted cache is locked)
+   */
+  public async loadStoredTXOs (): Promise<void> {
     try {
-      // Check cache version first
-      const storedVersion = localStorage.getItem(SubsquidBalanceScanner.CACHE_VERSION_KEY)
-      if (storedVersion !== SubsquidBalanceScanner.CACHE_VERSION) {
-        dlog(
-          `Cache version mismatch (expected ${SubsquidBalanceScanner.CACHE_VERSION}, found ${storedVersion || 'none'}). Clearing caches.`
-        )
+      this.dropLegacyTXOs()
 
-        localStorage.removeItem('railgun_wallet_txos')
-        localStorage.removeItem('railgun_wallet_balances')
-        localStorage.removeItem(SubsquidBalanceScanner.NULLIFIER_CACHE_KEY)
-        localStorage.setItem(
-          SubsquidBalanceScanner.CACHE_VERSION_KEY,
-          SubsquidBalanceScanner.CACHE_VERSION
-        )
-        this.storedTXOs = new Map()
-        return
+      const records = await CacheDatabase.getInstance().loadRecords(
+        SubsquidBalanceScanner.TXO_SCHEMA
+      )
+      const storedTXOs = new Map<string, DecryptedCommitment[]>()
+      const persistedTXOs = new Map<string, Map<string, string>>()
+      for (const [key, record] of records) {
+        const txoKey = key.slice(0, key.indexOf(':', key.indexOf(':') + 1))
+        if (!storedTXOs.has(txoKey)) {
+          storedTXOs.set(txoKey, [])
+          persistedTXOs.set(txoKey, new Map())
+        }
+        storedTXOs.get(txoKey)!.push(SubsquidBalanceScanner.reviveTXO(record))
+        persistedTXOs.get(txoKey)!.set(record.id, JSON.stringify(record))
       }
 
-      const stored = localStorage.getItem('railgun_wallet_txos')
-      if (stored) {
-        const data = JSON.parse(stored) as Record<string, any[]>
-        // Restore BigInt values that were converted to strings during JSON serialization
-        this.storedTXOs = new Map(
-          Object.entries(data).map(([walletId, commitments]) => [
-            walletId,
-            commitments.map((c) => ({
-              ...c,
-              value: BigInt(c.value || '0'),
-              timestamp: Number(c.timestamp || 0),
-              blockNumber: Number(c.blockNumber || 0),
-              // Ensure random field is preserved
-              random:
-                c.random || '0x0000000000000000000000000000000000000000000000000000000000000000',
-            })),
-          ])
-        )
-        dlog(`Loaded stored TXOs for ${this.storedTXOs.size} wallets from localStorage`)
-      }
+      this.storedTXOs = storedTXOs
+      this.persistedTXOs = persistedTXOs
+      dlog(`Loaded stored TXOs for ${this.storedTXOs.size} wallet networks from the cache database`)
     } catch (error) {
       console.error('Error loading stored TXOs:', error)
       this.storedTXOs = new Map()
+      this.persistedTXOs = new Map()
     }
   }
 
   /**
-   * Return the highest blockNumber seen in stored TXOs for a wallet, or 0 if none.
+   * Return the highest blockNumber seen in stored TXOs for a wallet on a network, or 0 if none.
    * @param walletId - The wallet ID to check
+   * @param networkName - The network to check
    * @returns The highest block number among stored TXOs, or 0
    */
-  public getLastStoredBlockNumber (walletId: string): number {
+  public getLastStoredBlockNumber (walletId: string, networkName: NetworkName): number {
     try {
-      const txos = this.storedTXOs.get(walletId) || []
+      const txos = this.storedTXOs.get(SubsquidBalanceScanner.txoKey(walletId, networkName)) || []
       if (txos.length === 0) return 0
       return txos.reduce((max, c) => (c.blockNumber > max ? c.blockNumber : max), 0)
     } catch {
@@ -381,6 +501,7 @@ class SubsquidBalanceScanner {
    * @returns The full merged set of nullifier events for the network
    */
   public async fetchNullifiersIncremental (networkName: NetworkName): Promise<SubsquidNullifier[]> {
+    await this.nullifierCacheLoaded
     const cached = this.cachedNullifiers.get(networkName) || []
     const lastBlock = this.lastNullifierBlockNumber.get(networkName) || 0
     const startBlock = lastBlock > 0 ? lastBlock + 1 : 0
@@ -404,7 +525,7 @@ class SubsquidBalanceScanner {
 
       this.cachedNullifiers.set(networkName, merged)
       this.lastNullifierBlockNumber.set(networkName, highestBlock)
-      this.saveNullifierCache()
+      this.persistNullifiers(networkName, newNullifiers)
 
       dlog(
         `Nullifiers updated: ${cached.length} cached + ${newNullifiers.length} new = ${merged.length} total (up to block ${highestBlock})`
@@ -417,95 +538,175 @@ class SubsquidBalanceScanner {
   }
 
   /**
-   * Load cached nullifier events from localStorage into memory.
+   * Load cached nullifier events from the cache database into memory,
+   * migrating the legacy localStorage blob first.
    */
-  private loadNullifierCache (): void {
+  private async loadNullifierCache (): Promise<void> {
     try {
-      const stored = localStorage.getItem(SubsquidBalanceScanner.NULLIFIER_CACHE_KEY)
-      if (!stored) return
-      const data = JSON.parse(stored) as Record<
-        string,
-        { nullifiers: SubsquidNullifier[]; lastBlock: number }
-      >
-      for (const [network, entry] of Object.entries(data)) {
-        this.cachedNullifiers.set(network, entry.nullifiers)
-        this.lastNullifierBlockNumber.set(network, entry.lastBlock)
+      const cacheDb = CacheDatabase.getInstance()
+      const legacy = localStorage.getItem(SubsquidBalanceScanner.LEGACY_NULLIFIER_CACHE_KEY)
+      if (legacy) {
+        const data = JSON.parse(legacy) as Record<string, { nullifiers: SubsquidNullifier[] }>
+        for (const [network, entry] of Object.entries(data)) {
+          await this.persistNullifiers(network, entry.nullifiers)
+        }
+        localStorage.removeItem(SubsquidBalanceScanner.LEGACY_NULLIFIER_CACHE_KEY)
+        dlog('Migrated nullifier cache from localStorage to the cache database')
+      }
+
+      const records = await cacheDb.loadRecords(SubsquidBalanceScanner.NULLIFIER_SCHEMA)
+      for (const [key, nullifier] of records as Map<string, SubsquidNullifier>) {
+        const network = key.slice(0, key.indexOf(':'))
+        if (!this.cachedNullifiers.has(network)) this.cachedNullifiers.set(network, [])
+        this.cachedNullifiers.get(network)!.push(nullifier)
+        this.lastNullifierBlockNumber.set(
+          network,
+          Math.max(this.lastNullifierBlockNumber.get(network) || 0, Number(nullifier.blockNumber))
+        )
       }
-      dlog(`Loaded nullifier cache from localStorage for ${Object.keys(data).length} networks`)
+      dlog(`Loaded nullifier cache for ${this.cachedNullifiers.size} networks`)
     } catch (error) {
       console.error('Error loading nullifier cache:', error)
     }
   }
 
   /**
-   * Persist in-memory nullifier cache to localStorage.
+   * Persist nullifier events as individual records.
+   * @param network - The network the nullifiers belong to
+   * @param nullifiers - The nullifier events to write
    */
-  private saveNullifierCache (): void {
+  private async persistNullifiers (network: string, nullifiers: SubsquidNullifier[]): Promise<void> {
     try {
-      const data: Record<string, { nullifiers: SubsquidNullifier[]; lastBlock: number }> = {}
-      for (const [network, nullifiers] of this.cachedNullifiers) {
-        data[network] = {
-          nullifiers,
-          lastBlock: this.lastNullifierBlockNumber.get(network) || 0,
-        }
-      }
-      localStorage.setItem(SubsquidBalanceScanner.NULLIFIER_CACHE_KEY, JSON.stringify(data))
+      await CacheDatabase.getInstance().writeRecords(
+        SubsquidBalanceScanner.NULLIFIER_SCHEMA,
+        nullifiers.map((n) => [`${network}:${n.id}`, n])
+      )
     } catch (error) {
       console.error('Error saving nullifier cache:', error)
     }
   }
 
   /**
-   * Save TXOs to localStorage
+   * Drop TXOs and nullifiers from blocks after a reorg's common ancestor.
+   * @param networkName - The reorganized network
+   * @param ancestorBlock - The last block shared by the old and new chain
+   */
+  private async rollbackToBlock (networkName: NetworkName, ancestorBlock: number): Promise<void> {
+    if (!NETWORK_CONFIG[networkName]?.subsquidUrl) return
+    await this.nullifierCacheLoaded
+
+    for (const [txoKey, txos] of this.storedTXOs) {
+      if (!txoKey.endsWith(`:${networkName}`)) continue
+      this.storedTXOs.set(
+        txoKey,
+        txos.filter((c) => c.blockNumber <= ancestorBlock)
+      )
+      this.spentRecheckWallets.add(txoKey)
+    }
+    this.saveStoredTXOs()
+    this.lastDecryptedCommitments = []
+    if (this.lastNetworkName === networkName) {
+      this.lastAllCommitments = this.lastAllCommitments.filter(
+        (c) => Number(c.blockNumber) <= ancestorBlock
+      )
+    }
+
+    const cached = this.cachedNullifiers.get(networkName) || []
+    const orphaned = cached.filter((n) => Number(n.blockNumber) > ancestorBlock)
+    if (orphaned.length > 0) {
+      this.cachedNullifiers.set(
+        networkName,
+        cached.filter((n) => Number(n.blockNumber) <= ancestorBlock)
+      )
+      await CacheDatabase.getInstance().writeRecords(
+        SubsquidBalanceScanner.NULLIFIER_SCHEMA,
+        [],
+        orphaned.map((n) => `${networkName}:${n.id}`)
+      )
+    }
+    const lastBlock = this.lastNullifierBlockNumber.get(networkName) || 0
+    this.lastNullifierBlockNumber.set(networkName, Math.min(lastBlock, ancestorBlock))
+
+    dlog(
+      `Rolled back TXOs and ${orphaned.length} nullifiers on ${networkName} to block ${ancestorBlock}`
+    )
+  }
+
+  /**
+   * Save TXOs to the cache database, writing only records that changed since the last save
    */
   public saveStoredTXOs (): void {
+    if (!isEncryptedCacheUnlocked()) return
+
     try {
-      // Convert BigInt values to strings for JSON serialization
-      const data: Record<string, any[]> = {}
-      for (const [walletId, commitments] of this.storedTXOs) {
-        data[walletId] = commitments.map((c) => ({
-          ...c,
-          value: c.value?.toString() || '0',
-          timestamp: Number(c.timestamp || 0),
-          blockNumber: Number(c.blockNumber || 0),
-          // Ensure random field is preserved
-          random: c.random || '0x0000000000000000000000000000000000000000000000000000000000000000',
-        }))
+      const puts: Array<[string, any]> = []
+      const deletes: string[] = []
+      const txoKeys = new Set([...this.storedTXOs.keys(), ...this.persistedTXOs.keys()])
+
+      for (const txoKey of txoKeys) {
+        const previous = this.persistedTXOs.get(txoKey) || new Map<string, string>()
+        const current = new Map<string, string>()
+        for (const c of this.storedTXOs.get(txoKey) || []) {
+          const record = SubsquidBalanceScanner.serializeTXO(c)
+          const json = JSON.stringify(record)
+          current.set(c.id, json)
+          if (previous.get(c.id) !== json) puts.push([`${txoKey}:${c.id}`, record])
+        }
+        for (const id of previous.keys()) {
+          if (!current.has(id)) deletes.push(`${txoKey}:${id}`)
+        }
+
+        if (current.size > 0) {
+          this.persistedTXOs.set(txoKey, current)
+        } else {
+          this.persistedTXOs.delete(txoKey)
+        }
       }
-      localStorage.setItem('railgun_wallet_txos', JSON.stringify(data))
-      localStorage.setItem(
-        SubsquidBalanceScanner.CACHE_VERSION_KEY,
-        SubsquidBalanceScanner.CACHE_VERSION
-      )
-      dlog(`Saved TXOs for ${this.storedTXOs.size} wallets to localStorage`)
+
+      CacheDatabase.getInstance()
+        .writeRecords(SubsquidBalanceScanner.TXO_SCHEMA, puts, deletes)
+        .catch((error) => console.error('Error saving stored TXOs:', error))
+      dlog(`Saved TXOs: ${puts.length} written, ${deletes.length} deleted`)
     } catch (error) {
       console.error('Error saving stored TXOs:', error)
     }
   }
 
   /**
-   * Store decrypted commitments as TXOs for a wallet.
+   * Store decrypted commitments as TXOs for a wallet on a network.
    * @param walletId - The wallet ID to store TXOs for
+   * @param networkName - The network the commitments were scanned on
    * @param commitments - The decrypted commitments to store
    */
-  public storeTXOsForWallet (walletId: string, commitments: DecryptedCommitment[]): void {
+  public storeTXOsForWallet (
+    walletId: string,
+    networkName: NetworkName,
+    commitments: DecryptedCommitment[]
+  ): void {
     // Store commitments for this wallet
-    this.storedTXOs.set(walletId, commitments)
+    this.storedTXOs.set(SubsquidBalanceScanner.txoKey(walletId, networkName), commitments)
 
-    // Persist to localStorage
+    // Persist to the cache database
     this.saveStoredTXOs()
 
-    dlog(`Stored ${commitments.length} TXOs for wallet ${walletId}`)
+    dlog(`Stored ${commitments.length} TXOs for wallet ${walletId} on ${networkName}`)
   }
 
   /**
-   * Clear stored TXOs for a wallet (useful for testing or re-scanning).
+   * Clear stored TXOs for a wallet on every network (useful for testing or re-scanning).
+   * Works while the encrypted cache is locked.
    * @param walletId - The wallet ID to clear TXOs for
    */
   clearStoredTXOs (walletId: string): void {
-    this.storedTXOs.delete(walletId)
+    for (const txoKey of [...this.storedTXOs.keys(), ...this.persistedTXOs.keys()]) {
+      if (!txoKey.startsWith(`${walletId}:`)) continue
+      this.storedTXOs.delete(txoKey)
+      this.persistedTXOs.delete(txoKey)
+    }
     this.lastDecryptedCommitments = []
-    this.saveStoredTXOs()
+    CacheDatabase.getInstance()
+      .clearRecords(SubsquidBalanceScanner.TXO_SCHEMA, `${walletId}:`)
+      .catch((error) => console.error('Error clearing stored TXOs:', error))
     dlog(`Cleared stored TXOs for wallet ${walletId}`)
   }
 
@@ -514,14 +715,15 @@ class SubsquidBalanceScanner {
    */
   clearCache (): void {
     this.storedTXOs.clear()
-    localStorage.removeItem('railgun_wallet_txos')
-    localStorage.removeItem(SubsquidBalanceScanner.CACHE_VERSION_KEY)
+    this.persistedTXOs.clear()
+    CacheDatabase.getInstance()
+      .clearRecords(SubsquidBalanceScanner.TXO_SCHEMA)
+      .catch((error) => console.error('Error clearing stored TXOs:', error))
     this.lastDecryptedCommitments = []
     this.lastAllCommitments = []
     this.lastNetworkName = null
     this.tokenHashToTokenData.clear()
     this.txidToTransactStartPos.clear()
-    this.saveStoredTXOs()
     dlog('Cleared all Subsquid scanner cache')
   }
 
@@ -588,10 +790,11 @@ class SubsquidBalanceScanner {
 
       // Decrypt using TransactNote.decrypt pattern with isSentNote=true
       // Pass annotationData and viewingPrivateKey so MPK can be properly XOR-decoded
-      const decryptedNote = await this.tryDecryptTransactNoteV2(
+      const decryptedNote = await decryptTransactNoteV2(
         ciphertext.ciphertext,
         sharedKeySender,
         true, // isSentNote=true for sender-side decryption
+        this.tokenHashToTokenData,
         memoHex,
         wallet.masterPublicKey,
         ciphertext.annotationData,
@@ -685,12 +888,14 @@ class SubsquidBalanceScanner {
 
   /**
    * Decrypt commitments for this wallet.
-   * Similar to AbstractWallet.tryDecryptCommitments().
+   * Similar to AbstractWallet.tryDecryptCommitments(). Trial decryption runs on the
+   * DecryptionWorkerPool so the UI stays responsive.
    * @param commitments - Raw commitments from Subsquid to attempt decryption on
    * @param wallet - The RAILGUN wallet to decrypt for
    * @param networkName - The network name for nullifier detection
    * @param progressCallback - Optional callback receiving progress values from 0 to 1
    * @param nullifiers - Optional pre-fetched nullifiers to avoid redundant fetches
+   * @param signal - Optional abort signal that cancels decryption mid-way
    * @returns Array of successfully decrypted commitments with spent status applied
    */
   public async decryptCommitments (
@@ -698,45 +903,35 @@ class SubsquidBalanceScanner {
     wallet: RailgunWallet,
     networkName: NetworkName,
     progressCallback?: (progress: number) => void,
-    nullifiers?: SubsquidNullifier[]
+    nullifiers?: SubsquidNullifier[],
+    signal?: AbortSignal
   ): Promise<DecryptedCommitment[]> {
-    const decryptedCommitments: DecryptedCommitment[] = []
-    let successCount = 0
-    let failureCount = 0
-
     dlog(`Starting decryption of ${commitments.length} commitments`)
 
     // Build token-hash index from shield preimages so we can resolve transact token hashes.
     this.buildTokenHashIndexFromShields(commitments)
 
-    for (let i = 0; i < commitments.length; i++) {
-      const commitment = commitments[i]
-      if (!commitment) continue
-
-      try {
-        // Try to decrypt this commitment for our wallet
-        const decrypted = await this.tryDecryptCommitment(commitment, wallet)
-        if (decrypted) {
-          decryptedCommitments.push(decrypted)
-          successCount++
-        } else {
-          // Count failures silently; we'll log a summary at the end.
-          failureCount++
-        }
-      } catch (error) {
-        // Silently continue and count failure - not all commitments are for this wallet
-        failureCount++
-      }
-
-      // Update progress
-      if (progressCallback && i % 100 === 0) {
-        // Map decryption loop to 0.2–0.4
-        const progress = 0.2 + (i / commitments.length) * 0.2
-        progressCallback(Math.min(progress, 0.4))
+    const decryptedCommitments = await DecryptionWorkerPool.getInstance().decryptSubsquidCommitments(
+      commitments,
+      wallet,
+      this.tokenHashToTokenData,
+      {
+        signal,
+        /**
+         * Map pool progress onto this scan's decryption range.
+         * @param processed - Commitments tried so far
+         * @param total - Commitments being decrypted
+         */
+        onProgress: (processed, total) => {
+          // Map decryption loop to 0.2–0.4
+          progressCallback?.(Math.min(0.2 + (processed / total) * 0.2, 0.4))
+        },
       }
-    }
+    )
 
-    dlog(`Decryption: ${successCount} succeeded, ${failureCount} failed`)
+    dlog(
+      `Decryption: ${decryptedCommitments.length} succeeded, ${commitments.length - decryptedCommitments.length} failed`
+    )
 
     const commitmentsWithSpentStatus = await this.detectSpentUTXOs(
       decryptedCommitments,
@@ -751,10 +946,6 @@ class SubsquidBalanceScanner {
 
   /**
    * Try to decrypt a single commitment for this wallet.
-   * Create scanned DB commitments from raw commitment data.
-   *
-   *  This method only accepts commitments that can be successfully decrypted
-   * using proper cryptographic validation.
    * @param commitment - The raw Subsquid commitment to attempt decryption on
    * @param wallet - The RAILGUN wallet to decrypt for
    * @returns The decrypted commitment if it belongs to this wallet, or null otherwise
@@ -763,513 +954,7 @@ class SubsquidBalanceScanner {
     commitment: SubsquidCommitment,
     wallet: RailgunWallet
   ): Promise<DecryptedCommitment | null> {
-    try {
-      const viewingPrivateKey = ByteUtils.hexStringToBytes(wallet.viewingKey)
-
-      // Handle shield commitments - require encrypted bundle decryption
-      if (
-        commitment.commitmentType === 'ShieldCommitment' &&
-        'shieldKey' in commitment &&
-        commitment.shieldKey &&
-        'encryptedBundle' in commitment &&
-        commitment.encryptedBundle &&
-        commitment.encryptedBundle.length > 0
-      ) {
-        const blindedShieldKey = ByteUtils.hexStringToBytes(commitment.shieldKey)
-        const sharedKey = await getSharedSymmetricKey(viewingPrivateKey, blindedShieldKey)
-
-        if (!sharedKey) {
-          // Cannot derive shared key - this commitment is not for us
-          return null
-        }
-
-        try {
-          const encryptedBundle = commitment.encryptedBundle
-
-          if (!encryptedBundle || encryptedBundle.length < 2) {
-            return null
-          }
-
-          // Convert hex strings to bytes for decryption
-          // encryptedBundle elements are Uint8Array, ByteUtils.hexlify() converts bytes->hex
-          // In privacy-wallet: encryptedBundle elements are hex strings, so we convert hex->bytes->hex
-          const bundle0 = encryptedBundle[0]
-          const bundle1 = encryptedBundle[1]
-          if (!bundle0 || !bundle1) {
-            return null
-          }
-          const bundle0Bytes = ByteUtils.hexStringToBytes(bundle0)
-          const bundle1Bytes = ByteUtils.hexStringToBytes(bundle1)
-          const hexlified0 = ByteUtils.hexlify(bundle0Bytes)
-          const hexlified1 = ByteUtils.hexlify(bundle1Bytes)
-
-          let decrypted: any = null
-          try {
-            // Decrypt random from shield note
-            decrypted = AES.decryptGCM(
-              {
-                iv: hexlified0.slice(0, 32), // First 16 bytes as hex (32 chars)
-                tag: hexlified0.slice(16, 64), // OVERLAPPING: bytes 8-32 (48 hex chars)
-                data: [hexlified1.slice(0, 32)], // First 16 bytes of encrypted data
-              },
-              sharedKey
-            )
-          } catch {
-            // Continue with null decrypted
-          }
-
-          // No per-commitment failure logs; overall summary will be logged by caller.
-          if (decrypted && decrypted.length > 0) {
-            // Ownership check: compute npk = poseidon(mpk, random) and compare with preimage.npk
-            const random = ByteUtils.hexlify(decrypted[0])
-            if ('preimage' in commitment && commitment.preimage) {
-              try {
-                // masterPublicKey in our test wallet may be a decimal string. Parse safely.
-                const mpkStr = (wallet.masterPublicKey || '').toString()
-                const mpk: bigint =
-                  mpkStr.startsWith('0x') || mpkStr.startsWith('0X')
-                    ? BigInt(mpkStr)
-                    : BigInt(mpkStr) // treat as decimal when no 0x prefix
-                const computedNpk = SubsquidBalanceScanner.getNotePublicKey(mpk, random)
-                const computedNpkHex = ByteUtils.prefix0x(ByteUtils.hexlify(computedNpk))
-                const preimageNpk = ByteUtils.prefix0x(commitment.preimage.npk)
-                const match = computedNpkHex.toLowerCase() === preimageNpk.toLowerCase()
-                // If npk doesn't match, this shield is not ours.
-                if (!match) {
-                  return null
-                }
-              } catch (e) {
-                // On parse error, do not accept this shield as ours.
-                return null
-              }
-            }
-          }
-
-          // If decryption succeeds, extract the random value
-          if (
-            decrypted &&
-            decrypted.length > 0 &&
-            'preimage' in commitment &&
-            commitment.preimage
-          ) {
-            // Extract 16-byte random from decrypted shield data
-            // For shields, the random is the first 16 bytes of decrypted[0]
-            const fullDecrypted = ByteUtils.hexlify(decrypted[0])
-            const actualRandom = fullDecrypted.substring(0, 32) // Take first 16 bytes (32 hex chars)
-
-            const preImage = commitment.preimage
-            return {
-              id: commitment.id,
-              hash: commitment.hash,
-              txid: commitment.transactionHash || '',
-              blockNumber:
-                typeof commitment.blockNumber === 'string'
-                  ? parseInt(commitment.blockNumber)
-                  : commitment.blockNumber,
-              treeNumber: commitment.treeNumber,
-              batchStartTreePosition:
-                typeof commitment.batchStartTreePosition === 'string'
-                  ? parseInt(commitment.batchStartTreePosition)
-                  : commitment.batchStartTreePosition,
-              // Use the actual commitment tree position for nullifier calculation
-              position:
-                typeof commitment.treePosition === 'string'
-                  ? parseInt(commitment.treePosition)
-                  : commitment.treePosition,
-              commitmentType: commitment.commitmentType,
-              tokenAddress: preImage.token.tokenAddress,
-              tokenType: SubsquidBalanceScanner.normalizeTokenType(preImage.token.tokenType),
-              tokenSubID: preImage.token.tokenSubID,
-              value: BigInt(preImage.value),
-              npk: preImage.npk,
-              isSpent: false,
-              timestamp: parseInt(commitment.blockTimestamp || '0'),
-              random: '0x' + actualRandom, // Use actual decrypted random (16 bytes = 32 hex chars)
-            }
-          }
-        } catch (error) {
-          // Decryption failed - this commitment is not for us
-          return null
-        }
-      }
-
-      // Handle transact commitments - require ciphertext decryption
-      if (
-        commitment.commitmentType === 'TransactCommitment' &&
-        'ciphertext' in commitment &&
-        commitment.ciphertext &&
-        commitment.ciphertext.ciphertext
-      ) {
-        const ciphertext = commitment.ciphertext
-        const blindedSenderViewingKey = ByteUtils.hexStringToBytes(
-          ciphertext.blindedSenderViewingKey
-        )
-        const blindedReceiverViewingKey = ByteUtils.hexStringToBytes(
-          ciphertext.blindedReceiverViewingKey
-        )
-
-        // Try both receiver and sender decryption
-        // IMPORTANT: Receiver derives shared key with blindedSenderViewingKey.
-        const [sharedKeyReceiver, sharedKeySender] = await Promise.all([
-          getSharedSymmetricKey(viewingPrivateKey, blindedSenderViewingKey),
-          getSharedSymmetricKey(viewingPrivateKey, blindedReceiverViewingKey),
-        ])
-
-        // Handle memo: Subsquid may return it as a string or array
-        const memoHex = Array.isArray(ciphertext.memo)
-          ? ciphertext.memo[0] || '' // Legacy format: array of hex strings
-          : ciphertext.memo || '' // V2 format: single hex string
-
-        // Try to decrypt with receiver key first (derived using blindedSenderViewingKey)
-        if (sharedKeyReceiver) {
-          const decryptedNote = await this.tryDecryptTransactNoteV2(
-            ciphertext.ciphertext,
-            sharedKeyReceiver,
-            false, // isSentNote
-            memoHex,
-            wallet.masterPublicKey
-          )
-
-          if (decryptedNote) {
-            // Try to decrypt annotationData to extract outputType.
-            // annotationData is encrypted with the SENDER's viewing key.
-            // For change outputs (sent to ourselves), we ARE the sender,
-            // so we can decrypt it to determine if outputType === Change (2).
-            let outputType: number | undefined
-            const annotationRaw = ciphertext.annotationData
-            if (annotationRaw) {
-              try {
-                const annotation = decryptNoteAnnotationData(annotationRaw, viewingPrivateKey)
-                if (annotation) {
-                  outputType = annotation.outputType
-                }
-              } catch (e) {
-                // Decryption failed - not the sender of this commitment
-              }
-            }
-
-            const isChange = outputType === 2 // OutputType.Change
-            const result: DecryptedCommitment = {
-              id: commitment.id,
-              hash: commitment.hash,
-              txid: commitment.transactionHash || '',
-              blockNumber:
-                typeof commitment.blockNumber === 'string'
-                  ? parseInt(commitment.blockNumber)
-                  : commitment.blockNumber,
-              treeNumber: commitment.treeNumber,
-              batchStartTreePosition:
-                typeof commitment.batchStartTreePosition === 'string'
-                  ? parseInt(commitment.batchStartTreePosition)
-                  : commitment.batchStartTreePosition,
-              position:
-                typeof commitment.treePosition === 'string'
-                  ? parseInt(commitment.treePosition)
-                  : commitment.treePosition || 0,
-              commitmentType: commitment.commitmentType,
-              tokenAddress: decryptedNote.tokenAddress,
-              tokenType: decryptedNote.tokenType,
-              tokenSubID: decryptedNote.tokenSubID,
-              value: decryptedNote.value,
-              npk: decryptedNote.npk,
-              isSpent: false,
-              timestamp: parseInt(commitment.blockTimestamp || '0'),
-              random: '0x' + decryptedNote.random, // Use actual decrypted random (16 bytes = 32 hex chars)
-              isSentNote: isChange, // Change outputs are internal (we are the sender)
-              ...(outputType !== undefined ? { outputType } : {}),
-              ...(decryptedNote.memoText ? { memoText: decryptedNote.memoText } : {}),
-              blindedSenderViewingKey: ciphertext.blindedSenderViewingKey, // Store for sender address reconstruction
-            }
-            if (decryptedNote.senderMasterPublicKey) {
-              result.senderMasterPublicKey = decryptedNote.senderMasterPublicKey // Store sender's MPK if available
-            }
-            return result
-          }
-        }
-
-        // Try to decrypt with sender key (derived using blindedReceiverViewingKey)
-        // These represent SentCommitments (outputs we created for others or unshields)
-        // NOT included in balance (isSentToOther=true) but included for transaction history
-        if (sharedKeySender) {
-          const senderDecrypted = await this.tryDecryptTransactNoteV2(
-            ciphertext.ciphertext,
-            sharedKeySender,
-            true, // isSentNote
-            memoHex,
-            wallet.masterPublicKey,
-            ciphertext.annotationData,
-            viewingPrivateKey
-          )
-          if (senderDecrypted) {
-            // Reconstruct the receiver's 0zk address from the decrypted data
-            let receiverAddress: string | undefined
-            if (senderDecrypted.receiverMasterPublicKey) {
-              const cleanRandom = senderDecrypted.random.startsWith('0x')
-                ? senderDecrypted.random.slice(2)
-                : senderDecrypted.random
-              receiverAddress =
-                reconstructReceiverAddress(
-                  senderDecrypted.receiverMasterPublicKey,
-                  ciphertext.blindedReceiverViewingKey,
-                  cleanRandom,
-                  senderDecrypted.senderRandom
-                ) ?? undefined
-            }
-
-            return {
-              id: commitment.id,
-              hash: commitment.hash,
-              txid: commitment.transactionHash || '',
-              blockNumber:
-                typeof commitment.blockNumber === 'string'
-                  ? parseInt(commitment.blockNumber)
-                  : commitment.blockNumber,
-              treeNumber: commitment.treeNumber,
-              batchStartTreePosition:
-                typeof commitment.batchStartTreePosition === 'string'
-                  ? parseInt(commitment.batchStartTreePosition)
-                  : commitment.batchStartTreePosition,
-              position:
-                typeof commitment.treePosition === 'string'
-                  ? parseInt(commitment.treePosition)
-                  : commitment.treePosition || 0,
-              commitmentType: commitment.commitmentType,
-              tokenAddress: senderDecrypted.tokenAddress,
-              tokenType: senderDecrypted.tokenType,
-              tokenSubID: senderDecrypted.tokenSubID,
-              value: senderDecrypted.value,
-              npk: senderDecrypted.npk,
-              isSpent: false,
-              isSentToOther: true, // Excluded from balance, included in transaction history
-              timestamp: parseInt(commitment.blockTimestamp || '0'),
-              random: '0x' + senderDecrypted.random,
-              ...(senderDecrypted.memoText ? { memoText: senderDecrypted.memoText } : {}),
-              ...(receiverAddress ? { receiverAddress } : {}),
-            }
-          }
-        }
-      }
-
-      // Handle legacy commitment types (LegacyGeneratedCommitment, LegacyEncryptedCommitment)
-      // These are from deprecated RAILGUN versions and are not supported
-      // Properly rejecting them is the correct production behavior
-      if (
-        commitment.commitmentType === 'LegacyGeneratedCommitment' ||
-        commitment.commitmentType === 'LegacyEncryptedCommitment'
-      ) {
-        // Legacy commitments cannot be validated without the deprecated deserialization logic
-        // Reject them as they're not for the current wallet format
-        return null
-      }
-
-      // Reject all other unknown commitment types
-      // We only accept commitments that can be properly decrypted and validated
-      return null
-    } catch (error) {
-      // Any error during decryption means the commitment is not for us
-      return null
-    }
-  }
-
-  /**
-   * Normalize tokenType string/number to numeric enum (ERC20=0, ERC721=1, ERC1155=2).
-   * @param t - The token type as a string name or numeric value
-   * @returns The normalized numeric token type
-   */
-  private static normalizeTokenType (t: string | number): number {
-    if (typeof t === 'number') return t
-    const s = String(t).toUpperCase()
-    if (s === 'ERC20') return 0
-    if (s === 'ERC721') return 1
-    if (s === 'ERC1155') return 2
-    const n = Number(t)
-    return Number.isFinite(n) ? n : 0
-  }
-
-  /**
-   * Compute the note public key as poseidon([masterPublicKey, random]).
-   * @param masterPublicKey - The master public key as a bigint
-   * @param random - The random value as a hex string
-   * @returns The computed note public key
-   */
-  static getNotePublicKey (masterPublicKey: bigint, random: string): bigint {
-    return poseidon([masterPublicKey, ByteUtils.hexToBigInt(random)])
-  }
-
-  /**
-   * Try to decrypt a transact note using shared key.
-   * Decrypt TransactNote ciphertext using shared symmetric key.
-   * @param ciphertext - The AES-GCM encrypted ciphertext structure
-   * @param ciphertext.iv - The initialization vector
-   * @param ciphertext.tag - The authentication tag
-   * @param ciphertext.data - The encrypted data blocks
-   * @param sharedKey - The ECDH-derived shared symmetric key
-   * @param isSentNote - Whether this is a sent note (sender-side decryption)
-   * @param memoHex - Optional memo hex string appended as the 4th GCM block
-   * @param currentWalletMasterPublicKey - Optional MPK of the current wallet for NPK computation
-   * @param annotationData - Optional encrypted annotation data containing sender random
-   * @param viewingPrivateKey - Optional viewing private key for decrypting annotation data
-   * @returns The decrypted pre-image data if successful, or null on failure
-   */
-  public async tryDecryptTransactNoteV2 (
-    ciphertext: { iv: string; tag: string; data: string[] },
-    sharedKey: Uint8Array,
-    isSentNote: boolean,
-    memoHex?: string,
-    currentWalletMasterPublicKey?: string,
-    annotationData?: string,
-    viewingPrivateKey?: Uint8Array
-  ): Promise<DecryptedPreImage | null> {
-    try {
-      // Decrypt using AES-GCM  (include memo as 4th block if present)
-      // IMPORTANT: Always appends the memo block, even if empty ("0x").
-      // Omitting it breaks the GCM auth tag. Keep the 4th block as empty string when memo is 0x.
-      const dataBlocks: string[] = [
-        ...ciphertext.data.map((d) => ByteUtils.strip0x(d)),
-        ByteUtils.strip0x(memoHex || ''),
-      ]
-      const decryptedCiphertext = AES.decryptGCM(
-        {
-          iv: ByteUtils.strip0x(ciphertext.iv),
-          tag: ByteUtils.strip0x(ciphertext.tag),
-          data: dataBlocks,
-        },
-        sharedKey
-      ).map((value) => ByteUtils.hexlify(value))
-
-      if (decryptedCiphertext.length < 3) {
-        return null
-      }
-
-      // Parse values like TransactNote.getDecryptedValuesNoteCiphertextV2
-      const encodedMPKHex = decryptedCiphertext[0]
-      const tokenHashBlock = decryptedCiphertext[1]
-      const randomAndValue = decryptedCiphertext[2]
-      if (!encodedMPKHex || !tokenHashBlock || !randomAndValue || randomAndValue.length < 64) {
-        return null
-      }
-      // Token hash: 32-byte, 0x-prefixed, lowercase
-      const tokenHashHex = ByteUtils.prefix0x(
-        ByteUtils.formatToByteLength(tokenHashBlock, 32, false).toLowerCase()
-      )
-      const random = randomAndValue.substring(0, 32)
-      const value = BigInt('0x' + randomAndValue.substring(32, 64))
-
-      // Resolve token info from tokenHash index
-      let tokenInfo = this.tokenHashToTokenData.get(tokenHashHex.toLowerCase())
-      if (!tokenInfo) {
-        // For ERC20 tokens, the tokenHash IS the 32-byte padded address.
-        // Extract the address directly from the hash (last 20 bytes = 40 hex chars).
-        const stripped = ByteUtils.strip0x(tokenHashHex)
-        const leading = stripped.substring(0, stripped.length - 40)
-        if (leading === '0'.repeat(leading.length) && stripped.length === 64) {
-          const extractedAddress = '0x' + stripped.substring(stripped.length - 40)
-          tokenInfo = {
-            tokenAddress: extractedAddress.toLowerCase(),
-            tokenType: 0, // ERC20
-            tokenSubID: '0',
-          }
-        } else {
-          dwarn('TokenHash not found in map:', tokenHashHex)
-          return null
-        }
-      }
-
-      // Decode master public key to get the RECEIVER's actual MPK for NPK computation.
-      // Transact note flow:
-      //   1. For RECEIVE notes: NPK = poseidon([receiverMPK (our MPK), random])
-      //   2. For SENT notes: NPK = poseidon([decodedReceiverMPK, random])
-      //      where decodedReceiverMPK = getDecodedMasterPublicKey(senderMPK, encodedMPK, senderRandom)
-      //        - If senderRandom is defined && != MEMO_SENDER_RANDOM_NULL: return encodedMPK as-is
-      //        - Otherwise: return encodedMPK XOR senderMPK
-      const MEMO_SENDER_RANDOM_NULL = '000000000000000000000000000000'
-      const encodedMPKBigInt = BigInt('0x' + encodedMPKHex.replace(/^0x/, ''))
-      let mpkForNpk: bigint
-      let senderRandom: string | undefined // Hoisted for use in result building
-
-      if (!isSentNote && currentWalletMasterPublicKey) {
-        // RECEIVE note: use our own MPK (the receiver's MPK)
-        mpkForNpk = BigInt(String(currentWalletMasterPublicKey))
-      } else if (isSentNote && currentWalletMasterPublicKey) {
-        // SENT note: decode the receiver's MPK from encodedMPK
-        // First, try to decrypt annotationData to get senderRandom
-        if (annotationData && viewingPrivateKey) {
-          try {
-            const annotation = decryptNoteAnnotationData(annotationData, viewingPrivateKey)
-            if (annotation) {
-              senderRandom = annotation.senderRandom
-            }
-          } catch (err) {
-            dwarn('Failed to decrypt annotation data for senderRandom:', err)
-          }
-        }
-
-        // Decode master public key from ciphertext
-        if (senderRandom && senderRandom !== MEMO_SENDER_RANDOM_NULL) {
-          // Sender chose to hide their address: encodedMPK IS the receiver's MPK (unencoded)
-          mpkForNpk = encodedMPKBigInt
-        } else {
-          // Sender address is visible: encodedMPK = receiverMPK XOR senderMPK
-          // Decode: receiverMPK = encodedMPK XOR senderMPK
-          const senderMPKBigInt = BigInt(String(currentWalletMasterPublicKey))
-          mpkForNpk = encodedMPKBigInt ^ senderMPKBigInt
-        }
-      } else {
-        // Fallback: use encodedMPK directly
-        mpkForNpk = encodedMPKBigInt
-      }
-      const npk = SubsquidBalanceScanner.getNotePublicKey(mpkForNpk, random)
-
-      // Decode sender's MPK from encoded value
-      // When sender address is visible: encodedMPK = receiverMPK ^ senderMPK
-      // To get senderMPK: senderMPK = encodedMPK ^ receiverMPK
-      // When sender address is hidden: encodedMPK = receiverMPK (so XOR gives 0)
-      let decodedSenderMPK: string | undefined
-      if (!isSentNote && currentWalletMasterPublicKey) {
-        try {
-          const receiverMPKBigInt = BigInt(String(currentWalletMasterPublicKey))
-
-          // XOR to decode: senderMPK = encodedMPK ^ receiverMPK
-          const senderMPKBigInt = encodedMPKBigInt ^ receiverMPKBigInt
-
-          // If result is 0, sender chose to hide their address
-          if (senderMPKBigInt !== 0n) {
-            decodedSenderMPK = '0x' + senderMPKBigInt.toString(16).padStart(64, '0')
-          }
-        } catch (err) {
-          dwarn('Failed to decode sender MPK:', err)
-        }
-      }
-
-      // Extract memo from decrypted GCM data[3] (encoded as 30-byte hex)
-      const memoHexDecrypted = decryptedCiphertext[3]
-      const memoText = memoHexDecrypted ? decodeMemoText(memoHexDecrypted) : undefined
-
-      const result: DecryptedPreImage = {
-        tokenAddress: tokenInfo.tokenAddress,
-        tokenType: tokenInfo.tokenType,
-        tokenSubID: tokenInfo.tokenSubID,
-        value,
-        npk: ByteUtils.hexlify(npk),
-        random, // Return the actual decrypted random (16 bytes as hex string)
-        ...(memoText ? { memoText } : {}),
-      }
-      if (decodedSenderMPK) {
-        result.senderMasterPublicKey = decodedSenderMPK // Store decoded sender's MPK
-      }
-      // For sent notes, store the receiver's MPK and senderRandom for address reconstruction
-      if (isSentNote) {
-        result.receiverMasterPublicKey = '0x' + mpkForNpk.toString(16).padStart(64, '0')
-        if (senderRandom) {
-          result.senderRandom = senderRandom
-        }
-      }
-      return result
-    } catch (error) {
-      // Log the error for debugging sender decryption issues
-      dwarn('tryDecryptTransactNoteV2 failed:', error instanceof Error ? error.message : error)
-      return null
-    }
+    return decryptSubsquidCommitment(commitment, wallet, this.tokenHashToTokenData)
   }
 
   /**
@@ -1314,7 +999,7 @@ class SubsquidBalanceScanner {
     const commitmentData = decryptedCommitments
       .filter((c) => !c.isSpent && !c.isSentToOther)
       .map((c) => ({
-        blindedCommitment: this.blindedCommitmentOf(c),
+        blindedCommitment: blindedCommitmentOf(c),
         type: (c.commitmentType === 'ShieldCommitment' ? 'Shield' : 'Transact') as
           | 'Shield'
           | 'Transact'
@@ -1334,7 +1019,7 @@ class SubsquidBalanceScanner {
       if (commitment.isSpent || commitment.isSentToOther) continue
 
       // Get PPOI status from cache using blinded commitment (not raw hash)
-      const blindedCommitment = this.blindedCommitmentOf(commitment)
+      const blindedCommitment = blindedCommitmentOf(commitment)
       const poiStatus = poiStatusMap[blindedCommitment]
 
       // Determine balance bucket from commitment's PPOI status
@@ -1388,7 +1073,7 @@ class SubsquidBalanceScanner {
   ): Promise<TokenBalance[]> {
     try {
       // Prefer already-decrypted commitments from cache to avoid re-fetching.
-      const decrypted = this.getDecryptedCommitmentsForWallet(wallet.id)
+      const decrypted = this.getDecryptedCommitmentsForWallet(wallet.id, networkName)
 
       // Map token -> unspent decrypted commitments (for bucket calc)
       const tokenToCommitments = new Map<string, DecryptedCommitment[]>()
@@ -1435,7 +1120,7 @@ class SubsquidBalanceScanner {
         for (const c of comms) {
           const th = idToTypeHash.get(c.id)
           if (!th) continue
-          const blinded = this.getBlindedCommitmentForShieldOrTransact(c).toLowerCase()
+          const blinded = blindedCommitmentForShieldOrTransact(c).toLowerCase()
           if (seen.has(blinded)) continue
           seen.add(blinded)
           allCommitmentDatas.push({ blindedCommitment: blinded, type: th.type })
@@ -1483,7 +1168,7 @@ class SubsquidBalanceScanner {
 
         for (const c of comms) {
           // Look up status by the blindedCommitment we sent
-          const key = this.getBlindedCommitmentForShieldOrTransact(c).toLowerCase()
+          const key = blindedCommitmentForShieldOrTransact(c).toLowerCase()
           const norm = `0x${key.replace(/^0x/, '').padStart(64, '0')}`
           const status = poiStatuses[norm]?.status
 
@@ -1570,7 +1255,7 @@ class SubsquidBalanceScanner {
           const th = idToTypeHash.get(c.id)
           if (!th) return undefined
           return {
-            blindedCommitment: this.getBlindedCommitmentForShieldOrTransact(c),
+            blindedCommitment: blindedCommitmentForShieldOrTransact(c),
             type: th.type,
           }
         })
@@ -1612,12 +1297,12 @@ class SubsquidBalanceScanner {
     try {
       // Prefer already-decrypted commitments from cache to match UI/test enumeration exactly.
       // Fallback to fetching/decrypting if cache is empty.
-      let decryptedCommitments = this.getDecryptedCommitmentsForWallet(wallet.id)
+      let decryptedCommitments = this.getDecryptedCommitmentsForWallet(wallet.id, networkName)
       if (!decryptedCommitments || decryptedCommitments.length === 0) {
         const commitments = await this.fetchCommitmentsForWallet(wallet, networkName)
         decryptedCommitments = await this.decryptCommitments(commitments, wallet, networkName)
         // Store results for future calls
-        this.storeTXOsForWallet(wallet.id, decryptedCommitments)
+        this.storeTXOsForWallet(wallet.id, networkName, decryptedCommitments)
       }
 
       // Map ids to types/hashes
@@ -1644,7 +1329,7 @@ class SubsquidBalanceScanner {
           const th = idToTypeHash.get(c.id)
           if (!th) return undefined
           return {
-            blindedCommitment: this.getBlindedCommitmentForShieldOrTransact(c),
+            blindedCommitment: blindedCommitmentForShieldOrTransact(c),
             type: th.type,
           }
         })
@@ -1843,7 +1528,7 @@ class SubsquidBalanceScanner {
       dlog(`Getting outgoing transactions for wallet ${wallet.id}`)
 
       // 1. Get all UTXOs owned by this wallet
-      const myCommitments = this.getDecryptedCommitmentsForWallet(wallet.id)
+      const myCommitments = this.getDecryptedCommitmentsForWallet(wallet.id, networkName)
       dlog(`Wallet has ${myCommitments.length} total commitments`)
 
       if (myCommitments.length === 0) {
@@ -1922,7 +1607,7 @@ class SubsquidBalanceScanner {
       if (c.commitmentType === 'ShieldCommitment' && 'preimage' in c && c.preimage) {
         const token = c.preimage.token
         try {
-          const normalizedType = SubsquidBalanceScanner.normalizeTokenType(token.tokenType)
+          const normalizedType = normalizeTokenType(token.tokenType)
           const tokenHashBig = getTokenDataHash({
             tokenType: normalizedType,
             tokenAddress: token.tokenAddress,
@@ -1967,81 +1652,6 @@ class SubsquidBalanceScanner {
     }
   }
 
-  /**
-   * Compute the blinded commitment for an unshield commitment using the railgunTxid.
-   * @param c - The decrypted unshield commitment
-   * @returns The blinded commitment as a lowercase 0x-prefixed hex string
-   */
-  private getBlindedCommitmentForUnshield (c: DecryptedCommitment): string {
-    try {
-      // For unshield commitments, the blinded commitment is simply the railgunTxid
-      // formatted to 32 bytes (UINT_256) with 0x prefix
-      const railgunTxid = c.txid
-      if (!railgunTxid) {
-        console.error('Unshield commitment missing railgunTxid', c)
-        throw new Error('Unshield commitment missing railgunTxid')
-      }
-
-      // Format to 32 bytes with 0x prefix
-      const blinded = ByteUtils.formatToByteLength(railgunTxid, 32, true)
-
-      return blinded.toLowerCase()
-    } catch (err) {
-      console.error('Error computing unshield blinded commitment:', err)
-      // Fallback to txid if available
-      return ByteUtils.prefix0x(String(c.txid).toLowerCase())
-    }
-  }
-
-  /**
-   * Compute the blinded commitment for a shield or transact commitment using poseidon hash.
-   * @param c - The decrypted shield or transact commitment
-   * @returns The blinded commitment as a lowercase 0x-prefixed hex string
-   */
-  private getBlindedCommitmentForShieldOrTransact (c: DecryptedCommitment): string {
-    try {
-      // Normalize commitment hash to a 32-byte 0x-hex string before hashing.
-      // Subsquid may return decimal field element or 0x-hex.
-      const commitmentHashHex = (() => {
-        const h = String(c.hash).trim()
-        if (h.startsWith('0x') || h.startsWith('0X')) {
-          // Ensure 32-byte padding
-          return ByteUtils.formatToByteLength(h, 32, true)
-        }
-        // Decimal string -> 32-byte hex
-        return ByteUtils.nToHex(BigInt(h), 32, true)
-      })()
-      const commitmentHashBig = ByteUtils.hexToBigInt(commitmentHashHex)
-      const npkBig = ByteUtils.hexToBigInt(c.npk)
-      // IMPORTANT: For receive-side TXOs (both Shield and Transact), we compute
-      // blinded commitments with the ACTUAL global UTXO position (tree, position).
-      // The pre-transaction constants are only used during proof generation for sent txs.
-      const globalTreePos =
-        BigInt(c.treeNumber) * BigInt(SubsquidBalanceScanner.TREE_MAX_ITEMS) + BigInt(c.position)
-      const blinded = poseidon([commitmentHashBig, npkBig, globalTreePos])
-      return ByteUtils.prefix0x(ByteUtils.nToHex(blinded, 32, true)).toLowerCase()
-    } catch {
-      // Fallback to commitment hash if calculation fails
-      return ByteUtils.prefix0x(String(c.hash).toLowerCase())
-    }
-  }
-
-  // Public helper for UI/services to compute blinded commitment consistently
-  /**
-   * Compute the blinded commitment for any commitment type (Shield, Transact, or Unshield).
-   * @param c - The decrypted commitment to compute the blinded commitment for
-   * @returns The blinded commitment as a lowercase 0x-prefixed hex string
-   */
-  public blindedCommitmentOf (c: DecryptedCommitment): string {
-    //  Unshield commitments use a different blinded commitment calculation
-    // Unshield: formatToByteLength(railgunTxid, UINT_256, true)
-    // Shield/Transact: poseidon([commitmentHash, npk, globalTreePosition])
-    if (c.commitmentType === 'UnshieldCommitment') {
-      return this.getBlindedCommitmentForUnshield(c)
-    }
-    return this.getBlindedCommitmentForShieldOrTransact(c)
-  }
-
   /**
    * Fetch ALL commitments (not just decrypted ones) for a specific tree from Subsquid.
    * This is needed to populate the merkle tree for proof generation.
@@ -2135,19 +1745,6 @@ class SubsquidBalanceScanner {
 
 // DecryptedCommitment type is defined in @/types/wallet
 
-interface DecryptedPreImage {
-  tokenAddress: string
-  tokenType: number
-  tokenSubID: string
-  value: bigint
-  npk: string
-  random: string
-  senderMasterPublicKey?: string // Sender's MPK from encrypted note (for received notes)
-  receiverMasterPublicKey?: string // Receiver's MPK decoded from encrypted note (for sent notes)
-  senderRandom?: string // Sender random from annotation data (needed for receiver address reconstruction)
-  memoText?: string // Decrypted memo from GCM ciphertext data[3]
-}
-
 /**
  * Represents an outgoing transaction where the wallet spent UTXOs
  */
@@ -284,6 +284,7 @@ export class SubsquidDataFetcher {
           ) {
             id
             nullifier
+            treeNumber
             blockNumber
             transactionHash
             blockTimestamp
@@ -327,6 +327,85 @@ class TokenService {
     }
   }
 
+  /**
+   * Get every custom token across all networks, for backups.
+   * @returns The custom tokens as ["network:address", token] entries
+   */
+  getAllCustomTokenEntries (): Array<[string, TokenInfo]> {
+    return Array.from(this.customTokens.entries())
+  }
+
+  /**
+   * Restore custom tokens from a backup.
+   * @param entries - The ["network:address", token] entries to restore
+   * @param overwrite - Whether backup entries replace differing existing ones
+   * @returns The keys of entries that already existed with different details
+   */
+  restoreCustomTokens (entries: Array<[string, TokenInfo]>, overwrite: boolean): string[] {
+    const conflicts: string[] = []
+    for (const [key, token] of entries) {
+      const existing = this.customTokens.get(key)
+      if (existing && JSON.stringify(existing) !== JSON.stringify(token)) {
+        conflicts.push(key)
+        if (!overwrite) continue
+      }
+      this.customTokens.set(key, token)
+      this.tokenCache.set(key, token)
+    }
+    this.saveCustomTokens()
+    return conflicts
+  }
+
+  /**
+   * Decrypt a wallet's hidden token lists for every network, for backups.
+   * @param walletId - The wallet ID to read hidden tokens for
+   * @param password - The wallet password the lists are encrypted with
+   * @returns Hidden token addresses keyed by network (networks with none are omitted)
+   */
+  async exportHiddenTokens (
+    walletId: string,
+    password: string
+  ): Promise<Partial<Record<NetworkName, string[]>>> {
+    const result: Partial<Record<NetworkName, string[]>> = {}
+    for (const networkName of Object.values(NetworkName)) {
+      const encrypted = localStorage.getItem(
+        `${HIDDEN_TOKENS_STORAGE_PREFIX}:${walletId}:${networkName}`
+      )
+      if (!encrypted) continue
+      try {
+        result[networkName] = JSON.parse(await decryptWithPassword(encrypted, password))
+      } catch {
+        // Unreadable with this password — nothing to export
+      }
+    }
+    return result
+  }
+
+  /**
+   * Restore a wallet's hidden token lists from a backup and persist them encrypted.
+   * @param walletId - The wallet ID to restore hidden tokens for
+   * @param byNetwork - Hidden token addresses keyed by network
+   * @param password - The wallet password used for encryption
+   * @param overwrite - Whether the backup list replaces the existing one instead of adding to it
+   */
+  async restoreHiddenTokens (
+    walletId: string,
+    byNetwork: Partial<Record<NetworkName, string[]>>,
+    password: string,
+    overwrite: boolean
+  ): Promise<void> {
+    for (const [networkName, addresses] of Object.entries(byNetwork) as [NetworkName, string[]][]) {
+      const mapKey = `${walletId}:${networkName}`
+      if (!overwrite) {
+        await this.loadHiddenTokens(walletId, networkName, password)
+      }
+      const set = overwrite ? new Set<string>() : this.hiddenTokens.get(mapKey) || new Set<string>()
+      addresses.forEach((a) => set.add(a.toLowerCase()))
+      this.hiddenTokens.set(mapKey, set)
+      await this.saveHiddenTokens(walletId, networkName, password)
+    }
+  }
+
   /**
    * Loads custom tokens from localStorage into the in-memory maps.
    */
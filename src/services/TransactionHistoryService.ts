@@ -4,6 +4,7 @@ import { POIService } from './POIService'
 import { RailgunTxidScanner } from './RailgunTxidScanner'
 import type { SubsquidBalanceScanner as BalanceScanner } from './SubsquidBalanceScanner'
 import { TokenService } from './TokenService'
+import type { TransactionRecipientMetadata } from './TransactionMetadataService'
 import { TransactionMetadataService } from './TransactionMetadataService'
 
 import RelayAdaptABI from '@/core/abis/RelayAdapt.json'
@@ -20,6 +21,7 @@ import type {
   TransactionType,
 } from '@/types/wallet'
 import { POI_COMMITMENT_TYPES, TRANSACTION_TYPES } from '@/types/wallet'
+import { blindedCommitmentOf } from '@/utils/blinded-commitment'
 import { ByteLength, ByteUtils } from '@/utils/crypto'
 import { dlog, dwarn } from '@/utils/debug'
 import { calculateRailgunTxid } from '@/utils/poseidon'
@@ -93,7 +95,10 @@ export class TransactionHistoryService {
   }> {
     try {
       // STEP 1: Get incoming transactions (from decrypted commitments)
-      const decryptedCommitments = balanceScanner.getDecryptedCommitmentsForWallet(wallet.id)
+      const decryptedCommitments = balanceScanner.getDecryptedCommitmentsForWallet(
+        wallet.id,
+        networkName
+      )
 
       dlog(`Found ${decryptedCommitments.length} decrypted commitments for transaction history`)
 
@@ -438,7 +443,12 @@ export class TransactionHistoryService {
         : (type as KnownTransactionType)
 
     // Calculate net token movements for this wallet
-    const tokenMovements = this.calculateTokenMovements(commitments, networkName, safeType)
+    const tokenMovements = this.calculateTokenMovements(
+      commitments,
+      networkName,
+      balanceScanner,
+      safeType
+    )
 
     // Get cached PPOI statuses from BalanceScanner
     const cachedPOIStatuses = balanceScanner.getCachedPOIStatuses()
@@ -448,7 +458,7 @@ export class TransactionHistoryService {
     const blindedCommitments = commitments
       .filter((c) => !c.isSentToOther)
       .map((c) => {
-        const blindedCommitment = balanceScanner.blindedCommitmentOf(c)
+        const blindedCommitment = blindedCommitmentOf(c)
         const poiStatus = cachedPOIStatuses[ByteUtils.normalizeHex256(blindedCommitment)]
 
         return {
@@ -476,8 +486,10 @@ export class TransactionHistoryService {
     }
 
     // Load metadata if walletId provided
+    let savedRecipients: TransactionRecipientMetadata[] | undefined
     if (walletId) {
       const savedMetadata = TransactionMetadataService.getInstance().getMetadata(walletId, txid)
+      savedRecipients = savedMetadata?.recipients
       if (savedMetadata) {
         const { recipientAddress, recipientLabel, memo, tags } = savedMetadata
         const metadata: Record<string, any> = {
@@ -524,6 +536,20 @@ export class TransactionHistoryService {
       }
     }
 
+    // Received notes from a sender in hidden-sender mode carry no sender MPK at all.
+    // Flag them explicitly so the UI can say "hidden" instead of "not available".
+    if (!firstReceived) {
+      const hiddenSenderReceived = commitments.find(
+        (c) => !c.isSentToOther && !c.isSentNote && c.senderAddressHidden
+      )
+      if (hiddenSenderReceived) {
+        if (!transaction.metadata) {
+          transaction.metadata = {}
+        }
+        transaction.metadata.senderHidden = true
+      }
+    }
+
     // Reconstruct the receiver's 0zk address from on-chain data (for sent transactions).
     // The sender can decrypt the receiver's MPK and unblind their viewing key from the ciphertext.
     // This recovers who we sent funds to if the recipient address wasn't cached at send time
@@ -538,6 +564,16 @@ export class TransactionHistoryService {
       }
     }
 
+    const recipients = this.buildRecipientBreakdown(
+      commitments,
+      networkName,
+      balanceScanner,
+      savedRecipients
+    )
+    if (recipients.length > 1) {
+      transaction.recipients = recipients
+    }
+
     // Extract on-chain memo from decrypted commitments (if not already in local metadata)
     if (!transaction.metadata?.memo) {
       const memoCommitment = commitments.find((c) => c.memoText)
@@ -659,12 +695,14 @@ export class TransactionHistoryService {
    * Calculate net token movements for this wallet from commitments
    * @param commitments - Array of decrypted commitments with token and value data
    * @param networkName - The network name for resolving token symbols
+   * @param balanceScanner - Balance scanner instance for token decimal lookup
    * @param transactionType - Optional transaction type to determine direction logic (shield vs transfer)
    * @returns Array of token movement records with address, symbol, net amount, decimals, and direction
    */
   private calculateTokenMovements (
     commitments: DecryptedCommitment[],
     networkName: NetworkName,
+    balanceScanner: BalanceScanner,
     transactionType?: TransactionType
   ): Array<{
     tokenAddress: string
@@ -698,7 +736,7 @@ export class TransactionHistoryService {
           tokenAddress,
           symbol: this.tokenService.getTokenSymbol(tokenAddress, networkName),
           amount: BigInt(0),
-          decimals: 18,
+          decimals: balanceScanner.getTokenDecimals(tokenAddress, networkName),
           direction: 'received',
         }
       }
@@ -733,6 +771,44 @@ export class TransactionHistoryService {
       .filter((m) => m.amount > 0)
   }
 
+  /**
+   * Build a per-recipient list of outputs sent to other wallets.
+   * Prefers the addresses reconstructed from on-chain ciphertext, falling back to the
+   * recipients saved locally at send time when reconstruction is not available.
+   * @param commitments - The decrypted commitments belonging to the transaction
+   * @param networkName - The network used to resolve token symbols
+   * @param balanceScanner - Balance scanner instance for token decimal lookup
+   * @param savedRecipients - Optional recipients stored in local transaction metadata
+   * @returns One entry per recipient output
+   */
+  private buildRecipientBreakdown (
+    commitments: DecryptedCommitment[],
+    networkName: NetworkName,
+    balanceScanner: BalanceScanner,
+    savedRecipients?: TransactionRecipientMetadata[]
+  ): NonNullable<DetailedTransaction['recipients']> {
+    const sentOutputs = commitments.filter((c) => c.isSentToOther && c.receiverAddress)
+    if (sentOutputs.length > 0) {
+      return sentOutputs.map((c) => ({
+        recipientAddress: c.receiverAddress!,
+        tokenAddress: c.tokenAddress.toLowerCase(),
+        symbol: this.tokenService.getTokenSymbol(c.tokenAddress, networkName),
+        amount: c.value,
+        decimals: balanceScanner.getTokenDecimals(c.tokenAddress, networkName),
+        ...(c.memoText ? { memoText: c.memoText } : {}),
+      }))
+    }
+
+    return (savedRecipients ?? []).map((r) => ({
+      recipientAddress: r.recipientAddress,
+      tokenAddress: r.tokenAddress.toLowerCase(),
+      symbol: this.tokenService.getTokenSymbol(r.tokenAddress, networkName),
+      amount: BigInt(r.amount),
+      decimals: balanceScanner.getTokenDecimals(r.tokenAddress, networkName),
+      ...(r.memo ? { memoText: r.memo } : {}),
+    }))
+  }
+
   /**
    * Map commitment type to PPOI type based on ORIGINAL commitment type
    *  Use the commitment's original type (ShieldCommitment, TransactCommitment, etc.)
@@ -825,12 +901,14 @@ export class TransactionHistoryService {
    * @param transaction - The transaction to generate PPOI for
    * @param networkName - Network the transaction is on
    * @param wallet - Wallet that created the transaction (needed for proof generation)
+   * @param onStatus - Optional callback receiving progress messages (txid tree sync, proving)
    * @returns Success status and optional error message
    */
   async generatePOIProofForTransaction (
     transaction: DetailedTransaction,
     networkName: NetworkName,
-    wallet: any
+    wallet: any,
+    onStatus?: (status: string) => void
   ): Promise<{ success: boolean; error?: string; blindedCommitments?: string[] }> {
     try {
       dlog('Generating PPOI proof for transaction:', {
@@ -839,6 +917,10 @@ export class TransactionHistoryService {
         networkName,
       })
 
+      if (wallet?.watchOnly) {
+        return { success: false, error: 'Watch-only wallets cannot generate PPOI proofs' }
+      }
+
       // Validate this is a transact/unshield transaction
       if (
         transaction.type !== TRANSACTION_TYPES.TRANSFER &&
@@ -944,11 +1026,10 @@ export class TransactionHistoryService {
       // Call POIService to generate and submit the proof
       dlog('Calling POIService.generateAndSubmitPOIProof()...')
 
-      // Sync FULL txid tree from genesis
-      // This is required because the PPOI node validates against a complete merkletree.
-      // Partial syncs cause merkle root mismatches.
-      dlog('Syncing FULL txid merkletree (required for PPOI proof)...')
-      await RailgunTxidScanner.syncFullTree(networkName as any)
+      // Bring the txid tree up to date; the PPOI node validates against the complete tree
+      dlog('Syncing txid merkletree (required for PPOI proof)...')
+      await RailgunTxidScanner.syncTransactions(networkName, onStatus)
+      onStatus?.('Generating PPOI proof...')
 
       const result = await this.poiService.generateAndSubmitPOIProof(
         networkName,
@@ -2,14 +2,23 @@
  * TransactionMetadataService
  *
  * Manages local (off-chain) metadata for transactions, including:
- * - Recipient 0zk addresses for sent transactions
+ * - Recipient 0zk addresses for sent transactions (one per output for batch sends)
  * - Optional memo/notes
  * - Custom labels
  *
- * Stored locally in the browser. Does not compromise privacy.
+ * Stored locally in the browser, encrypted at rest with the session password.
+ * Does not compromise privacy.
  */
 
 import { dlog } from '@/utils/debug'
+import { getCacheItem, removeCacheItem, setCacheItem } from '@/utils/encryptedCache'
+
+interface TransactionRecipientMetadata {
+  recipientAddress: string
+  tokenAddress: string
+  amount: string // smallest units
+  memo?: string
+}
 
 interface TransactionMetadata {
   txid: string
@@ -17,6 +26,7 @@ interface TransactionMetadata {
   recipientAddress?: string
   recipientLabel?: string
   memo?: string
+  recipients?: TransactionRecipientMetadata[] // set for multi-recipient sends
   tags?: string[]
   createdAt: number
   updatedAt: number
@@ -50,13 +60,13 @@ class TransactionMetadataService {
   }
 
   /**
-   * Load all stored transaction metadata for a wallet from localStorage.
+   * Load all stored transaction metadata for a wallet from the encrypted cache.
    * @param walletId - The wallet identifier to load metadata for
    * @returns A record mapping transaction IDs to their metadata
    */
   private loadMetadataForWallet (walletId: string): Record<string, TransactionMetadata> {
     try {
-      const data = localStorage.getItem(`${STORAGE_KEY_PREFIX}${walletId}`)
+      const data = getCacheItem(`${STORAGE_KEY_PREFIX}${walletId}`)
       if (!data) return {}
       return JSON.parse(data)
     } catch (error) {
@@ -66,7 +76,7 @@ class TransactionMetadataService {
   }
 
   /**
-   * Persist all transaction metadata for a wallet to localStorage.
+   * Persist all transaction metadata for a wallet to the encrypted cache.
    * @param walletId - The wallet identifier to save metadata for
    * @param metadata - The complete metadata record to persist
    */
@@ -75,7 +85,7 @@ class TransactionMetadataService {
     metadata: Record<string, TransactionMetadata>
   ): void {
     try {
-      localStorage.setItem(`${STORAGE_KEY_PREFIX}${walletId}`, JSON.stringify(metadata))
+      setCacheItem(`${STORAGE_KEY_PREFIX}${walletId}`, JSON.stringify(metadata))
     } catch (error) {
       console.error('Error saving transaction metadata:', error)
     }
@@ -110,15 +120,52 @@ class TransactionMetadataService {
     dlog(`Saved metadata for transaction ${metadata.txid.slice(0, 10)}...`)
   }
 
+  /**
+   * Retrieve every metadata record stored for a wallet, for backups.
+   * @param walletId - The wallet identifier to read metadata for
+   * @returns A record mapping transaction IDs to their metadata
+   */
+  getAllMetadata (walletId: string): Record<string, TransactionMetadata> {
+    return this.loadMetadataForWallet(walletId)
+  }
+
+  /**
+   * Restore metadata records for a wallet from a backup.
+   * @param walletId - The wallet identifier to restore metadata for
+   * @param records - The metadata records keyed by transaction ID
+   * @param overwrite - Whether backup records replace differing existing ones
+   * @returns The transaction IDs that already had different metadata
+   */
+  restoreMetadata (
+    walletId: string,
+    records: Record<string, TransactionMetadata>,
+    overwrite: boolean
+  ): string[] {
+    const allMetadata = this.loadMetadataForWallet(walletId)
+    const conflicts: string[] = []
+
+    for (const [txid, record] of Object.entries(records)) {
+      const existing = allMetadata[txid]
+      if (existing && JSON.stringify(existing) !== JSON.stringify(record)) {
+        conflicts.push(txid)
+        if (!overwrite) continue
+      }
+      allMetadata[txid] = { ...record, walletId }
+    }
+
+    this.saveMetadataForWallet(walletId, allMetadata)
+    return conflicts
+  }
+
   /**
    * Remove all stored transaction metadata for a wallet.
    * @param walletId - The wallet identifier to clear metadata for
    */
   clearWalletMetadata (walletId: string): void {
-    localStorage.removeItem(`${STORAGE_KEY_PREFIX}${walletId}`)
+    removeCacheItem(`${STORAGE_KEY_PREFIX}${walletId}`)
     dlog(`Cleared all transaction metadata for wallet ${walletId}`)
   }
 }
 
-export type { TransactionMetadata }
+export type { TransactionMetadata, TransactionRecipientMetadata }
 export { TransactionMetadataService }
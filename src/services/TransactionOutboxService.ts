@@ -0,0 +1,516 @@
+/**
+ * TransactionOutboxService
+ *
+ * Keeps proved transactions until they are confirmed on-chain, so a failed broadcast, a dropped
+ * RPC connection or a closed tab does not throw away an expensive proof. Each entry holds the
+ * proved TransactionStructs (formatted for the contract ABI), the exact call to broadcast, the
+ * PPOI data and the wallet meant to sign it.
+ *
+ * Entries can be re-broadcast, re-priced (replacing the pending transaction at the same nonce)
+ * or discarded, as long as their merkle roots are still in the contract's root history and none
+ * of their nullifiers have been spent. Every broadcast is simulated with `eth_call` first, so a
+ * reverting call fails with its decoded reason instead of costing gas. Stored per wallet, encrypted
+ * at rest with the session password.
+ */
+
+import { ethers } from 'ethers'
+
+import { BalanceScannerRouter } from './BalanceScannerRouter'
+import type { FeeRange, TransactionFees } from './FeeService'
+import { FeeService } from './FeeService'
+import { SentTransactionStorage } from './SentTransactionStorage'
+import type { TransactionRecipientMetadata } from './TransactionMetadataService'
+import { TransactionMetadataService } from './TransactionMetadataService'
+
+import RailgunSmartWalletABI from '@/core/abis/RailgunSmartWallet.json'
+import type { FeeSpeed, NetworkName } from '@/types/network'
+import { NETWORK_CONFIG } from '@/types/network'
+import type { GasPayerWallet, RailgunWallet } from '@/types/wallet'
+import { getEthereumWallet } from '@/utils/crypto'
+import { dlog } from '@/utils/debug'
+import { getCacheItem, removeCacheItem, setCacheItem } from '@/utils/encryptedCache'
+import { decodeRelayAdaptRevert } from '@/utils/revert-reason'
+import type { TransactionPPOIData } from '@/utils/transaction-utils'
+
+type OutboxKind = 'private-send' | 'unshield' | 'unshield-native'
+
+// pending: stored, never sent; broadcast: sent, not yet confirmed; failed: last attempt errored or reverted
+type OutboxStatus = 'pending' | 'broadcast' | 'failed'
+
+interface OutboxEntry {
+  id: string
+  walletId: string
+  walletAddress: string // 0zk address, keys the sent outputs updated on confirmation
+  networkName: NetworkName
+  kind: OutboxKind
+  transactions: any[] // proved TransactionStructs, formatted for the contract ABI
+  commitments: string[] // output commitments of every transaction, matched to sent outputs on confirmation
+  to: string // contract the call is sent to
+  data: string // calldata: RailgunSmartWallet.transact or RelayAdapt.relay
+  gasLimit?: string // fixed gas limit; estimated at broadcast when absent
+  ppoiData?: TransactionPPOIData[] // one per proved transaction, in submission order
+  signer: { walletId: string; address: string } // wallet (or gas payer) meant to sign and pay gas
+  metadata: { recipientAddress: string; memo?: string; recipients?: TransactionRecipientMetadata[] }
+  status: OutboxStatus
+  txHash?: string // latest broadcast
+  nonce?: number // nonce of the latest broadcast, reused when re-pricing
+  gasPrice?: string // gas price of the latest legacy broadcast, in wei
+  maxFeePerGas?: string // fees of the latest EIP-1559 broadcast, in wei
+  maxPriorityFeePerGas?: string
+  lastError?: string
+  createdAt: number
+  updatedAt: number
+}
+
+type NewOutboxEntry = Omit<OutboxEntry, 'id' | 'commitments' | 'status' | 'createdAt' | 'updatedAt'>
+
+interface OutboxValidity {
+  valid: boolean
+  reason?: string
+}
+
+interface TransactionSimulation {
+  success: boolean
+  error?: string // decoded revert reason, or the RPC error when the call could not be simulated
+  gasEstimate?: bigint // gas used by the call
+  gasLimit?: bigint // gas limit the broadcast will use
+  fees?: TransactionFees // fees the broadcast will pay, per gas
+  feeRange?: FeeRange // expected and highest network fee, in wei
+}
+
+type OutboxSigner = Pick<RailgunWallet | GasPayerWallet, 'mnemonic' | 'derivationIndex' | 'passphrase'>
+
+const STORAGE_KEY_PREFIX = 'tx_outbox:'
+// Replacement transactions must outbid the pending one; most nodes require at least +10%
+const REPRICE_BUMP_PERCENT = 125n
+
+/**
+ * Persists proved transactions until confirmation and re-broadcasts them on request.
+ */
+class TransactionOutboxService {
+  /**
+   * Singleton instance of the service.
+   */
+  private static instance: TransactionOutboxService
+
+  /**
+   * Private constructor to enforce singleton pattern.
+   */
+  private constructor () {}
+
+  /**
+   * Get the singleton instance of TransactionOutboxService.
+   * @returns The shared TransactionOutboxService instance
+   */
+  static getInstance (): TransactionOutboxService {
+    if (!this.instance) {
+      this.instance = new TransactionOutboxService()
+    }
+    return this.instance
+  }
+
+  /**
+   * Load all outbox entries of a wallet from the encrypted cache.
+   * @param walletId - The wallet identifier
+   * @returns The entries, keyed by entry id
+   */
+  private loadEntries (walletId: string): Record<string, OutboxEntry> {
+    try {
+      const data = getCacheItem(`${STORAGE_KEY_PREFIX}${walletId}`)
+      if (!data) return {}
+      return JSON.parse(data)
+    } catch (error) {
+      console.error('Error loading transaction outbox:', error)
+      return {}
+    }
+  }
+
+  /**
+   * Persist all outbox entries of a wallet to the encrypted cache.
+   * @param walletId - The wallet identifier
+   * @param entries - The complete set of entries, keyed by entry id
+   */
+  private saveEntries (walletId: string, entries: Record<string, OutboxEntry>): void {
+    try {
+      if (Object.keys(entries).length === 0) {
+        removeCacheItem(`${STORAGE_KEY_PREFIX}${walletId}`)
+      } else {
+        setCacheItem(`${STORAGE_KEY_PREFIX}${walletId}`, JSON.stringify(entries))
+      }
+    } catch (error) {
+      console.error('Error saving transaction outbox:', error)
+    }
+  }
+
+  /**
+   * List a wallet's outbox entries, oldest first.
+   * @param walletId - The wallet identifier
+   * @param networkName - Optional network to filter by
+   * @returns The stored entries
+   */
+  getEntries (walletId: string, networkName?: NetworkName): OutboxEntry[] {
+    return Object.values(this.loadEntries(walletId))
+      .filter((entry) => !networkName || entry.networkName === networkName)
+      .sort((a, b) => a.createdAt - b.createdAt)
+  }
+
+  /**
+   * Store a proved transaction before it is broadcast.
+   * @param entry - The proved transactions, call data, PPOI data and signer
+   * @returns The stored entry
+   */
+  add (entry: NewOutboxEntry): OutboxEntry {
+    const now = Date.now()
+    const stored: OutboxEntry = {
+      ...entry,
+      id: ethers.hexlify(ethers.randomBytes(8)),
+      commitments: entry.transactions.flatMap((tx) => tx.commitments as string[]),
+      status: 'pending',
+      createdAt: now,
+      updatedAt: now,
+    }
+    const entries = this.loadEntries(entry.walletId)
+    entries[stored.id] = stored
+    this.saveEntries(entry.walletId, entries)
+    dlog(`Stored proved ${entry.kind} transaction ${stored.id} in the outbox`)
+    return stored
+  }
+
+  /**
+   * Record a broadcast so the entry can be tracked or re-priced later.
+   * @param entry - The entry that was broadcast
+   * @param tx - The submitted transaction
+   * @returns The updated entry
+   */
+  markBroadcast (entry: OutboxEntry, tx: ethers.TransactionResponse): OutboxEntry {
+    const {
+      lastError: _lastError,
+      gasPrice: _gasPrice,
+      maxFeePerGas: _maxFeePerGas,
+      maxPriorityFeePerGas: _maxPriorityFeePerGas,
+      ...rest
+    } = entry
+    return this.update({
+      ...rest,
+      status: 'broadcast',
+      txHash: tx.hash,
+      nonce: tx.nonce,
+      ...(tx.maxFeePerGas !== null && tx.maxPriorityFeePerGas !== null
+        ? {
+            maxFeePerGas: tx.maxFeePerGas.toString(),
+            maxPriorityFeePerGas: tx.maxPriorityFeePerGas.toString(),
+          }
+        : tx.gasPrice !== null
+          ? { gasPrice: tx.gasPrice.toString() }
+          : {}),
+    })
+  }
+
+  /**
+   * Record a failed broadcast or confirmation; the entry stays in the outbox.
+   * @param entry - The entry whose attempt failed
+   * @param error - The error raised by the attempt
+   * @returns The updated entry
+   */
+  markFailed (entry: OutboxEntry, error: unknown): OutboxEntry {
+    return this.update({
+      ...entry,
+      status: 'failed',
+      lastError: error instanceof Error ? error.message : String(error),
+    })
+  }
+
+  /**
+   * Remove a confirmed entry and record its local metadata: recipient, memo and, for private
+   * sends, the transaction hash of the sent outputs used for PPOI proofs.
+   * @param entry - The confirmed entry
+   * @param txHash - The confirmed transaction hash
+   */
+  complete (entry: OutboxEntry, txHash: string): void {
+    this.discard(entry.walletId, entry.id)
+
+    try {
+      TransactionMetadataService.getInstance().saveMetadata({
+        txid: txHash,
+        walletId: entry.walletId,
+        ...entry.metadata,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+      })
+    } catch {
+      // Non-fatal
+    }
+
+    if (entry.kind === 'private-send') {
+      try {
+        // Clear UTXO cache to force rescan on next balance check
+        BalanceScannerRouter.getInstance().clearStoredTXOs(entry.walletId)
+      } catch {
+        // Non-fatal
+      }
+
+      try {
+        const updated = SentTransactionStorage.getInstance().assignTransactionHash(
+          entry.walletAddress,
+          txHash,
+          entry.commitments
+        )
+        if (updated > 0) {
+          dlog(`Updated ${updated} sent outputs with txHash: ${txHash.slice(0, 10)}...`)
+        }
+      } catch (storageError) {
+        console.warn('Failed to update sent transaction storage:', storageError)
+      }
+    }
+  }
+
+  /**
+   * Delete an entry without broadcasting it.
+   * @param walletId - The wallet identifier
+   * @param id - The entry id
+   */
+  discard (walletId: string, id: string): void {
+    const entries = this.loadEntries(walletId)
+    if (!entries[id]) return
+    delete entries[id]
+    this.saveEntries(walletId, entries)
+  }
+
+  /**
+   * Check whether an entry can still be broadcast: every merkle root it was proved against
+   * must be in the contract's root history and none of its nullifiers may be spent.
+   * @param entry - The entry to check
+   * @param provider - Provider for the entry's network
+   * @returns Whether the entry is still valid, with the reason if not
+   */
+  async checkValidity (entry: OutboxEntry, provider: ethers.Provider): Promise<OutboxValidity> {
+    const network = NETWORK_CONFIG[entry.networkName]
+    const contract = new ethers.Contract(network.railgunV2Contract, RailgunSmartWalletABI, provider)
+    const rootHistoryFn = contract['rootHistory'] as (tree: number, root: string) => Promise<boolean>
+    const nullifiersFn = contract['nullifiers'] as (tree: number, nullifier: string) => Promise<boolean>
+
+    for (const tx of entry.transactions) {
+      const treeNumber = Number(tx.boundParams.treeNumber)
+      const isKnownRoot = await rootHistoryFn(treeNumber, ethers.toBeHex(BigInt(tx.merkleRoot), 32))
+      if (!isKnownRoot) {
+        return {
+          valid: false,
+          reason: `Merkle root for tree ${treeNumber} is no longer accepted by the contract`,
+        }
+      }
+      for (const nullifier of tx.nullifiers as string[]) {
+        if (await nullifiersFn(treeNumber, ethers.toBeHex(BigInt(nullifier), 32))) {
+          return { valid: false, reason: 'A note spent by this transaction has already been spent' }
+        }
+      }
+    }
+    return { valid: true }
+  }
+
+  /**
+   * Look up the latest broadcast of an entry and complete the entry if it was mined.
+   * @param entry - The entry to check
+   * @param provider - Provider for the entry's network
+   * @returns The confirmed transaction hash, or null if not (yet) confirmed
+   */
+  async checkConfirmation (entry: OutboxEntry, provider: ethers.Provider): Promise<string | null> {
+    if (!entry.txHash) return null
+    const receipt = await provider.getTransactionReceipt(entry.txHash)
+    if (!receipt) return null
+    if (receipt.status === 0) {
+      this.markFailed(entry, new Error(`Transaction reverted: ${entry.txHash}`))
+      return null
+    }
+    this.complete(entry, entry.txHash)
+    return entry.txHash
+  }
+
+  /**
+   * Simulate a proved transaction with `eth_call` from its signer, with the fees and gas limit
+   * it would be broadcast with. Nothing is sent, so a failing proof costs no gas.
+   * @param entry - The proved transaction, stored or not yet stored
+   * @param provider - Provider for the entry's network
+   * @param speed - The fee tier to price the broadcast with
+   * @param reprice - Whether the broadcast replaces the entry's pending one, which raises its fees
+   * @returns The gas estimate, fees and fee range if the call succeeds, or the decoded failure reason
+   */
+  async simulate (
+    entry: NewOutboxEntry,
+    provider: ethers.Provider,
+    speed: FeeSpeed = 'standard',
+    reprice: boolean = false
+  ): Promise<TransactionSimulation> {
+    try {
+      // The contract checks tx.gasprice >= boundParams.minGasPrice, so simulate with real fees
+      const { fees, baseFeePerGas } = await this.getBroadcastFees(entry, provider, speed, reprice)
+      const request: ethers.TransactionRequest = {
+        from: entry.signer.address,
+        to: entry.to,
+        data: entry.data,
+        ...fees,
+      }
+      const gasEstimate = await provider.estimateGas(request)
+      const gasLimit = entry.gasLimit ? BigInt(entry.gasLimit) : (gasEstimate * 120n) / 100n
+
+      // Run the exact call that would be broadcast, including its gas limit
+      await provider.call({ ...request, gasLimit })
+      dlog(`Simulated ${entry.kind} transaction: ${gasEstimate} gas`)
+
+      return {
+        success: true,
+        gasEstimate,
+        gasLimit,
+        fees,
+        feeRange: FeeService.getInstance().getFeeRange(fees, gasEstimate, baseFeePerGas),
+      }
+    } catch (error) {
+      return {
+        success: false,
+        error:
+          decodeRelayAdaptRevert(error) ??
+          (error instanceof Error ? error.message : 'Transaction would revert'),
+      }
+    }
+  }
+
+  /**
+   * Broadcast an entry again and wait for confirmation. A broadcast still pending in the mempool
+   * can only be re-priced, which replaces it at the same nonce with a higher gas price.
+   * @param entry - The entry to broadcast
+   * @param provider - Provider for the entry's network
+   * @param signerWallet - The entry's signer, unlocked
+   * @param reprice - Whether to replace the pending broadcast instead of sending a new one
+   * @param onStatus - Optional callback for status updates
+   * @param speed - The fee tier to pay
+   * @returns The confirmed transaction hash
+   */
+  async rebroadcast (
+    entry: OutboxEntry,
+    provider: ethers.Provider,
+    signerWallet: OutboxSigner,
+    reprice: boolean = false,
+    onStatus?: (s: string) => void,
+    speed: FeeSpeed = 'standard'
+  ): Promise<string> {
+    if (!signerWallet.mnemonic) throw new Error('Signer wallet has no mnemonic')
+    const signer = getEthereumWallet(
+      signerWallet.mnemonic,
+      signerWallet.derivationIndex,
+      signerWallet.passphrase
+    ).connect(provider)
+    if (signer.address.toLowerCase() !== entry.signer.address.toLowerCase()) {
+      throw new Error(`This transaction must be signed by ${entry.signer.address}`)
+    }
+
+    onStatus?.('Checking previous broadcast…')
+    const confirmedHash = await this.checkConfirmation(entry, provider)
+    if (confirmedHash) return confirmedHash
+
+    const previous = entry.txHash ? await provider.getTransaction(entry.txHash) : null
+    const isPending = previous !== null && previous.blockNumber === null
+    if (isPending && !reprice) {
+      throw new Error('The previous broadcast is still pending. Re-price it to speed it up.')
+    }
+
+    onStatus?.('Checking merkle root and nullifiers…')
+    const validity = await this.checkValidity(entry, provider)
+    if (!validity.valid) {
+      throw new Error(`${validity.reason}. Discard this transaction and create a new one.`)
+    }
+
+    try {
+      onStatus?.('Simulating transaction…')
+      const simulation = await this.simulate(entry, provider, speed, isPending && reprice)
+      if (!simulation.success) {
+        throw new Error(`Simulation failed: ${simulation.error}`)
+      }
+
+      const request: ethers.TransactionRequest = {
+        to: entry.to,
+        data: entry.data,
+        ...simulation.fees!,
+        gasLimit: simulation.gasLimit!,
+      }
+      if (isPending && entry.nonce !== undefined) request.nonce = entry.nonce
+
+      onStatus?.('Submitting to network…')
+      const tx = await signer.sendTransaction(request)
+      const broadcast = this.markBroadcast(entry, tx)
+
+      onStatus?.('Waiting for confirmation…')
+      const receipt = await tx.wait(1)
+      if (receipt?.status === 0) {
+        throw new Error(`Transaction failed: ${tx.hash}`)
+      }
+      this.complete(broadcast, tx.hash)
+      onStatus?.('Confirmed')
+      return tx.hash
+    } catch (error) {
+      const latest = this.loadEntries(entry.walletId)[entry.id]
+      if (latest) this.markFailed(latest, error)
+      throw error
+    }
+  }
+
+  /**
+   * Fees for broadcasting an entry: the chosen tier, raised to cover the minGasPrice bound into
+   * its proofs and, when replacing a pending broadcast, to outbid it.
+   * @param entry - The entry to broadcast
+   * @param provider - Provider for the entry's network
+   * @param speed - The fee tier to pay
+   * @param reprice - Whether the broadcast replaces the entry's pending one
+   * @returns The fees and the expected base fee of the next block
+   */
+  private async getBroadcastFees (
+    entry: NewOutboxEntry,
+    provider: ethers.Provider,
+    speed: FeeSpeed,
+    reprice: boolean
+  ): Promise<{ fees: TransactionFees; baseFeePerGas: bigint | null }> {
+    const feeService = FeeService.getInstance()
+    const quote = await feeService.getFeeQuote(provider)
+    const minGasPrice = entry.transactions.reduce((max: bigint, tx) => {
+      const bound = BigInt(tx.boundParams?.minGasPrice ?? 0)
+      return bound > max ? bound : max
+    }, 0n)
+    let fees = feeService.withMinGasPrice(quote.tiers[speed], minGasPrice, quote.baseFeePerGas)
+
+    if (reprice) {
+      const previous: TransactionFees | null =
+        entry.maxFeePerGas && entry.maxPriorityFeePerGas
+          ? {
+              type: 2,
+              maxFeePerGas: BigInt(entry.maxFeePerGas),
+              maxPriorityFeePerGas: BigInt(entry.maxPriorityFeePerGas),
+            }
+          : entry.gasPrice
+            ? { type: 0, gasPrice: BigInt(entry.gasPrice) }
+            : null
+      if (previous) fees = feeService.bumpFees(fees, previous, REPRICE_BUMP_PERCENT)
+    }
+    return { fees, baseFeePerGas: quote.baseFeePerGas }
+  }
+
+  /**
+   * Write an updated entry back to the outbox.
+   * @param entry - The updated entry
+   * @returns The stored entry
+   */
+  private update (entry: OutboxEntry): OutboxEntry {
+    const entries = this.loadEntries(entry.walletId)
+    const stored = { ...entry, updatedAt: Date.now() }
+    entries[entry.id] = stored
+    this.saveEntries(entry.walletId, entries)
+    return stored
+  }
+}
+
+export type {
+  NewOutboxEntry,
+  OutboxEntry,
+  OutboxKind,
+  OutboxStatus,
+  OutboxValidity,
+  TransactionSimulation,
+}
+export { TransactionOutboxService }
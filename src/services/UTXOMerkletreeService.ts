@@ -0,0 +1,373 @@
+/**
+ * UTXOMerkletreeService
+ *
+ * Keeps one persistent UTXO merkletree per network so merkle proofs for spending notes are
+ * served from local storage instead of rebuilding the spending tree before every proof.
+ *
+ * Trees are stored in IndexedDB and grow incrementally: balance scans hand over the commitments
+ * they fetch anyway, and a proof request for a position the tree has not reached yet syncs the
+ * missing commitments from Subsquid, resuming from the block of the last synced commitment.
+ * Leaves are only appended in position order, so a scan starting later than the tree is simply
+ * ignored until a sync closes the gap.
+ *
+ * The first proof from a tree in a session checks the tree's root against the contract's root
+ * history through MerkleRootValidator. A root the contract has never seen means the stored tree
+ * is incomplete or corrupt: the tail is synced, then the tree is rebuilt, and if it still does not
+ * match, callers fall back to building the tree from scratch themselves. Networks without a
+ * Subsquid indexer (Hardhat) are not served.
+ *
+ * After a chain reorganization the leaves appended from orphaned blocks are removed, using the
+ * first leaf recorded for each block, and the nodes above the cut are recomputed. The sync then
+ * resumes from the common ancestor and the trees are validated again. Trees synced before block
+ * starts were recorded cannot be cut, so they are rebuilt from scratch.
+ */
+
+import { MerkleRootValidator } from './MerkleRootValidator'
+import { ReorgService } from './ReorgService'
+import { SubsquidDataFetcher } from './SubsquidDataFetcher'
+
+import { createPersistentMerkletreeDatabase } from '@/core/merkletrees/database'
+import type { UTXOMerkleProof } from '@/core/merkletrees/types'
+import { TREE_MAX_ITEMS } from '@/core/merkletrees/types'
+import { UTXOMerkletree } from '@/core/merkletrees/UTXOMerkletree'
+import type { NetworkName } from '@/types/network'
+import { NETWORK_CONFIG } from '@/types/network'
+import { ByteLength, ByteUtils } from '@/utils/crypto'
+import { dlog, dwarn } from '@/utils/debug'
+
+/**
+ * A commitment as inserted into the tree.
+ */
+interface MerkletreeCommitment {
+  treeNumber: number | string
+  treePosition: number | string
+  blockNumber: number | string
+  hash: string // Decimal or 0x-prefixed hex
+}
+
+/**
+ * Owns the persistent UTXO merkletrees and keeps them in sync with the chain.
+ */
+class UTXOMerkletreeService {
+  /**
+   * Singleton instance of the service.
+   */
+  private static instance: UTXOMerkletreeService
+
+  /** Merkletree per network, opened on first use. */
+  private readonly merkletrees = new Map<NetworkName, UTXOMerkletree>()
+  /** Tail of each network's task queue, so syncs never interleave. */
+  private readonly queues = new Map<NetworkName, Promise<void>>()
+  /** Trees (`network:tree`) whose root has been checked against the contract this session. */
+  private readonly validatedTrees = new Set<string>()
+
+  /**
+   * Private constructor to enforce singleton pattern.
+   */
+  private constructor () {
+    // Orphaned leaves must leave the tree before the next proof or scan reads it
+    ReorgService.getInstance().registerRollbackHandler(async (networkName, ancestorBlock) => {
+      await this.rollbackToBlock(networkName, ancestorBlock)
+    })
+  }
+
+  /**
+   * Get the singleton instance of UTXOMerkletreeService.
+   * @returns The shared UTXOMerkletreeService instance
+   */
+  static getInstance (): UTXOMerkletreeService {
+    if (!this.instance) {
+      this.instance = new UTXOMerkletreeService()
+    }
+    return this.instance
+  }
+
+  /**
+   * Whether a network's commitments can be synced into a persistent tree.
+   * @param networkName - The network
+   * @returns True if the network has a Subsquid indexer
+   */
+  isSupported (networkName: NetworkName): boolean {
+    return !!NETWORK_CONFIG[networkName]?.subsquidUrl
+  }
+
+  /**
+   * Get or open the persistent merkletree of a network.
+   * @param networkName - The network
+   * @returns The network's merkletree
+   */
+  private getMerkletree (networkName: NetworkName): UTXOMerkletree {
+    let merkletree = this.merkletrees.get(networkName)
+    if (!merkletree) {
+      const db = createPersistentMerkletreeDatabase(`railgun-utxo-db:${networkName}`)
+      merkletree = new UTXOMerkletree(db)
+      this.merkletrees.set(networkName, merkletree)
+      dlog(`Initialized UTXO merkletree for ${networkName}`)
+    }
+    return merkletree
+  }
+
+  /**
+   * Run a task after every earlier task of the same network.
+   * @param networkName - The network whose tree the task touches
+   * @param task - The task
+   * @returns The task result
+   */
+  private enqueue<T>(networkName: NetworkName, task: () => Promise<T>): Promise<T> {
+    const run = (this.queues.get(networkName) ?? Promise.resolve()).then(task)
+    this.queues.set(
+      networkName,
+      run.then(
+        () => undefined,
+        () => undefined
+      )
+    )
+    return run
+  }
+
+  /**
+   * Append commitments fetched by a balance scan to the network's tree.
+   * Commitments the tree already holds are skipped; those after a gap are ignored.
+   * @param networkName - The network the commitments belong to
+   * @param commitments - The commitments, in any order
+   */
+  async ingestCommitments (
+    networkName: NetworkName,
+    commitments: MerkletreeCommitment[]
+  ): Promise<void> {
+    if (!this.isSupported(networkName) || commitments.length === 0) return
+    await this.enqueue(networkName, async () => {
+      await this.insertCommitments(networkName, commitments)
+    })
+  }
+
+  /**
+   * Remove the leaves appended from blocks after a reorg's common ancestor, resume syncing from
+   * the ancestor and re-validate the network's trees.
+   * @param networkName - The reorganized network
+   * @param ancestorBlock - The last block shared by the old and new chain
+   */
+  async rollbackToBlock (networkName: NetworkName, ancestorBlock: number): Promise<void> {
+    if (!this.isSupported(networkName)) return
+    await this.enqueue(networkName, async () => {
+      const merkletree = this.getMerkletree(networkName)
+      if ((await merkletree.getLatestSyncedBlock()) > ancestorBlock) {
+        const removed = await merkletree.rollbackToBlock(ancestorBlock)
+        if (removed === null) {
+          dwarn(`Rebuilding UTXO merkletrees on ${networkName}: orphaned leaves cannot be located`)
+          for (let tree = 0; (await merkletree.getTreeLength(tree)) > 0; tree++) {
+            await merkletree.clearTree(tree)
+          }
+          await merkletree.setLatestSyncedBlock(0)
+        } else {
+          dlog(`Removed ${removed} leaves after block ${ancestorBlock} from the UTXO merkletree on ${networkName}`)
+          await merkletree.setLatestSyncedBlock(ancestorBlock)
+        }
+      }
+      for (const key of this.validatedTrees) {
+        if (key.startsWith(`${networkName}:`)) this.validatedTrees.delete(key)
+      }
+    })
+  }
+
+  /**
+   * Get the merkle proof of a leaf from the network's persistent tree, syncing the tree first
+   * if it does not reach the leaf yet.
+   * @param networkName - The network
+   * @param tree - The tree number of the leaf
+   * @param position - The position of the leaf in its tree
+   * @returns The proof, or null if the tree cannot serve it (callers then build the tree themselves)
+   */
+  async getMerkleProof (
+    networkName: NetworkName,
+    tree: number,
+    position: number
+  ): Promise<UTXOMerkleProof | null> {
+    if (!this.isSupported(networkName)) return null
+
+    return this.enqueue(networkName, async () => {
+      const merkletree = this.getMerkletree(networkName)
+
+      if (position >= (await merkletree.getTreeLength(tree))) {
+        await this.sync(networkName)
+        if (position >= (await merkletree.getTreeLength(tree))) {
+          dwarn(`UTXO merkletree ${tree} on ${networkName} does not reach position ${position}`)
+          return null
+        }
+      }
+
+      if (!(await this.validateTree(networkName, tree)).isValid) return null
+
+      return merkletree.getUTXOMerkleProof(tree, position)
+    })
+  }
+
+  /**
+   * Check a tree's root against the contract once per session, repairing the tree if needed.
+   * @param networkName - The network
+   * @param tree - The tree number
+   * @returns Whether the tree's root is known to the contract, with the error if it could not be checked
+   */
+  private async validateTree (
+    networkName: NetworkName,
+    tree: number
+  ): Promise<{ isValid: boolean; error?: string }> {
+    const key = `${networkName}:${tree}`
+    if (this.validatedTrees.has(key)) return { isValid: true }
+
+    const merkletree = this.getMerkletree(networkName)
+    const validator = MerkleRootValidator.getInstance()
+    /**
+     * Look up the tree's current root in the contract's root history.
+     * @returns The validation result
+     */
+    const check = async () => {
+      return validator.isKnownRoot(tree, await merkletree.getRoot(tree), networkName)
+    }
+
+    let result = await check()
+    if (!result.isValid && !result.error) {
+      // A scan may have stopped in the middle of a batch; finish it first
+      await this.sync(networkName)
+      result = await check()
+    }
+    if (!result.isValid && !result.error) {
+      dwarn(`Rebuilding UTXO merkletree ${tree} on ${networkName}: root unknown to the contract`)
+      await merkletree.clearTree(tree)
+      await merkletree.setLatestSyncedBlock(0)
+      await this.sync(networkName)
+      result = await check()
+    }
+
+    if (result.isValid) this.validatedTrees.add(key)
+    return result
+  }
+
+  /**
+   * Replay the indexer's commitments into the network's trees and check every tree's root
+   * against the contract: the newest tree against the current merkle root, older trees (and a
+   * newest tree the indexer has not caught up on) against the root history.
+   * Trees whose root the contract never saw are rebuilt once before they are reported.
+   * @param networkName - The network
+   * @returns One result per tree, oldest first
+   */
+  async verifyRoots (
+    networkName: NetworkName
+  ): Promise<Array<{ tree: number; isValid: boolean; error?: string }>> {
+    if (!this.isSupported(networkName)) return []
+
+    return this.enqueue(networkName, async () => {
+      const merkletree = this.getMerkletree(networkName)
+      await this.sync(networkName)
+
+      let treeCount = 0
+      while ((await merkletree.getTreeLength(treeCount)) > 0) treeCount++
+
+      const results: Array<{ tree: number; isValid: boolean; error?: string }> = []
+      for (let tree = 0; tree < treeCount; tree++) {
+        const key = `${networkName}:${tree}`
+        if (tree === treeCount - 1) {
+          const current = await MerkleRootValidator.getInstance().validateMerkleRoot(
+            tree,
+            await merkletree.getRoot(tree),
+            networkName
+          )
+          if (current.isValid) {
+            this.validatedTrees.add(key)
+            results.push({ tree, isValid: true })
+            continue
+          }
+        }
+        this.validatedTrees.delete(key)
+        results.push({ tree, ...(await this.validateTree(networkName, tree)) })
+      }
+      return results
+    })
+  }
+
+  /**
+   * Fetch commitments from Subsquid until the network's trees reach the chain head.
+   * @param networkName - The network
+   */
+  private async sync (networkName: NetworkName): Promise<void> {
+    const merkletree = this.getMerkletree(networkName)
+    const fetcher = SubsquidDataFetcher.getInstance()
+
+    while (true) {
+      // Refetch the last synced block: a page may have ended in the middle of it
+      const fromBlock = await merkletree.getLatestSyncedBlock()
+      const commitments = await fetcher.fetchCommitments(networkName, fromBlock)
+      const inserted = await this.insertCommitments(networkName, commitments)
+      if (inserted === 0) break
+    }
+
+    dlog(`UTXO merkletree on ${networkName} synced to block ${await merkletree.getLatestSyncedBlock()}`)
+  }
+
+  /**
+   * Append the commitments that extend each tree without a gap.
+   * @param networkName - The network
+   * @param commitments - The commitments, in any order
+   * @returns The number of leaves inserted
+   */
+  private async insertCommitments (
+    networkName: NetworkName,
+    commitments: MerkletreeCommitment[]
+  ): Promise<number> {
+    const merkletree = this.getMerkletree(networkName)
+
+    const byTree = new Map<number, Map<number, MerkletreeCommitment>>()
+    for (const commitment of commitments) {
+      const tree = Number(commitment.treeNumber)
+      const positions = byTree.get(tree) ?? new Map<number, MerkletreeCommitment>()
+      positions.set(Number(commitment.treePosition), commitment)
+      byTree.set(tree, positions)
+    }
+
+    let inserted = 0
+    let gap = false
+    let latestBlock = await merkletree.getLatestSyncedBlock()
+    // First leaf appended from each block, so a reorg can cut the trees back to a block
+    const blockStarts = new Map<number, { blockNumber: number; tree: number; position: number }>()
+    for (const [tree, positions] of byTree) {
+      const startIndex = await merkletree.getTreeLength(tree)
+      const leaves: { hash: string }[] = []
+      for (let position = startIndex; position < TREE_MAX_ITEMS; position++) {
+        const commitment = positions.get(position)
+        if (!commitment) break
+        leaves.push({ hash: this.normalizeHash(commitment.hash) })
+        const blockNumber = Number(commitment.blockNumber)
+        latestBlock = Math.max(latestBlock, blockNumber)
+        const start = blockStarts.get(blockNumber)
+        if (!start || tree < start.tree || (tree === start.tree && position < start.position)) {
+          blockStarts.set(blockNumber, { blockNumber, tree, position })
+        }
+      }
+      if (startIndex + leaves.length < Math.max(...positions.keys()) + 1) gap = true
+      if (leaves.length === 0) continue
+
+      await merkletree.queueLeaves(tree, startIndex, leaves)
+      inserted += leaves.length
+    }
+
+    if (inserted === 0) return 0
+    await merkletree.updateTreesFromWriteQueue()
+    await merkletree.recordBlockStarts(Array.from(blockStarts.values()))
+    // Blocks past a gap are not fully in the trees yet, so a sync must start before them
+    if (!gap) await merkletree.setLatestSyncedBlock(latestBlock)
+    dlog(`Appended ${inserted} leaves to the UTXO merkletree on ${networkName}`)
+    return inserted
+  }
+
+  /**
+   * Convert a decimal commitment hash, as returned by Subsquid, to 32-byte hex.
+   * @param hash - Decimal or 0x-prefixed hex hash
+   * @returns The hex hash
+   */
+  private normalizeHash (hash: string): string {
+    return hash.startsWith('0x') ? hash : ByteUtils.nToHex(BigInt(hash), ByteLength.UINT_256)
+  }
+}
+
+export type { MerkletreeCommitment }
+export { UTXOMerkletreeService }
@@ -1,8 +1,10 @@
 import { AbiCoder, ethers, keccak256 } from 'ethers'
 
+import { BalanceScannerRouter } from './BalanceScannerRouter'
+import { FeeService } from './FeeService'
 import { POIService } from './POIService'
-import { SubsquidBalanceScanner } from './SubsquidBalanceScanner'
-import { TransactionMetadataService } from './TransactionMetadataService'
+import type { NewOutboxEntry, TransactionSimulation } from './TransactionOutboxService'
+import { TransactionOutboxService } from './TransactionOutboxService'
 
 import RailgunSmartWalletABI from '@/core/abis/RailgunSmartWallet.json'
 import RelayAdaptABI from '@/core/abis/RelayAdapt.json'
@@ -10,24 +12,27 @@ import { InMemoryDatabase } from '@/core/merkletrees/database'
 import { TokenType } from '@/core/transact-note'
 import type { TransactionStruct } from '@/core/transaction'
 import { Transaction } from '@/core/transaction'
-import type { SpendingSolutionGroup } from '@/core/transaction-batch'
+import type { OfflineNote, SpendingSolutionGroup } from '@/core/transaction-batch'
 import { TransactionBatch } from '@/core/transaction-batch'
-import type { NetworkName } from '@/types/network'
+import type { FeeSpeed, NetworkName } from '@/types/network'
 import { NETWORK_CONFIG } from '@/types/network'
-import type { RailgunWallet } from '@/types/wallet'
-import { ByteUtils } from '@/utils/crypto'
-import { formatTransactionForContract } from '@/utils/transaction-utils'
+import type { GasPayerWallet, RailgunWallet, UTXOReference } from '@/types/wallet'
+import { blindedCommitmentOf } from '@/utils/blinded-commitment'
+import { ByteUtils, getEthereumWallet } from '@/utils/crypto'
+import type { TransactionPPOIData } from '@/utils/transaction-utils'
+import { formatTransactionForContract, getPPOIData } from '@/utils/transaction-utils'
 
 type UnshieldParams = {
   tokenAddress: string
   amount: string // smallest units
   recipient: string // 0x address
+  selectedUTXOs?: UTXOReference[] // manual coin control; omit for automatic selection
 }
 
 /**
  * Service for executing RAILGUN unshield transactions that move funds from private to public addresses.
  */
-export class UnshieldService {
+class UnshieldService {
   /**
    * Singleton instance of the UnshieldService.
    */
@@ -49,7 +54,10 @@ export class UnshieldService {
    * @param params - Unshield parameters including token address, amount, and recipient
    * @param provider - Ethers provider for blockchain interaction
    * @param onStatus - Optional callback for reporting transaction progress status
-   * @param gasPayerMnemonic - Optional mnemonic for a separate gas-paying wallet for privacy
+   * @param gasPayer - Optional separate gas-paying wallet for privacy
+   * @param signal - Optional abort signal that cancels proof generation before submission
+   * @param onSimulated - Optional callback shown the simulation result; broadcasts only if it resolves true
+   * @param feeSpeed - The fee tier to pay
    * @returns The transaction hash and optional PPOI data for immediate proof submission
    */
   async executeUnshield (
@@ -58,13 +66,14 @@ export class UnshieldService {
     params: UnshieldParams,
     provider: ethers.Provider,
     onStatus?: (s: string) => void,
-    gasPayerMnemonic?: string // Optional: Use different wallet for gas payment (privacy feature)
-  ): Promise<{
-    txHash: string
-    ppoiData?: { nullifiers: string[]; commitments: string[]; boundParamsHash: string }
-  }> {
+    gasPayer?: GasPayerWallet, // Optional: Use different wallet for gas payment (privacy feature)
+    signal?: AbortSignal,
+    onSimulated?: (simulation: TransactionSimulation) => Promise<boolean>,
+    feeSpeed: FeeSpeed = 'standard'
+  ): Promise<{ txHash: string; ppoiData?: TransactionPPOIData[] }> {
     const network = NETWORK_CONFIG[networkName]
     if (!network) throw new Error(`Unsupported network: ${networkName}`)
+    if (wallet.watchOnly) throw new Error('Watch-only wallets cannot unshield')
     if (!wallet.mnemonic) throw new Error('Wallet missing mnemonic for signing')
 
     // Fast-fail: verify PPOI-valid balance before expensive proof generation
@@ -75,23 +84,31 @@ export class UnshieldService {
       BigInt(params.amount)
     )
 
-    onStatus?.('Generating unshield proof…')
+    // Minimum gas price bound into the proofs, from current network fees
+    const { minGasPrice } = await FeeService.getInstance().getFeeQuote(provider)
 
-    // Build V2 unshield transaction — returns the proved transaction object
-    const provedTransaction = await this.buildV2UnshieldTransaction(wallet, params, networkName)
+    onStatus?.('Generating unshield proof…')
 
-    onStatus?.('Submitting to network…')
-    // Create signer - use gasPayerMnemonic if provided, otherwise wallet's mnemonic
-    const signerMnemonic = gasPayerMnemonic || wallet.mnemonic
-    const signer = ethers.Wallet.fromPhrase(signerMnemonic).connect(provider)
+    // Build V2 unshield transactions — one per spending solution group, submitted together
+    const provedTransactions = await this.buildV2UnshieldTransactions(
+      wallet,
+      params,
+      networkName,
+      minGasPrice,
+      (progress) => onStatus?.(`Generating unshield proof: ${progress}%`),
+      signal
+    )
+    signal?.throwIfAborted()
 
-    // Get gas price with buffer (same approach as PrivateSendService)
-    const feeData = await provider.getFeeData()
-    const gasPrice = feeData.gasPrice
-      ? (feeData.gasPrice * 150n) / 100n
-      : ethers.parseUnits('50', 'gwei')
+    // Create signer - use gasPayer if provided, otherwise the wallet's own account
+    const signerSource = gasPayer || wallet
+    const signer = getEthereumWallet(
+      signerSource.mnemonic!,
+      signerSource.derivationIndex,
+      signerSource.passphrase
+    ).connect(provider)
 
-    // Use contract interface for gas estimation and submission (like PrivateSendService)
+    // Use contract interface for submission (like PrivateSendService)
     const contract = new ethers.Contract(network.railgunV2Contract, RailgunSmartWalletABI, signer)
 
     const transactFn = contract['transact'] as ethers.BaseContractMethod
@@ -99,53 +116,55 @@ export class UnshieldService {
       throw new Error('Contract does not have transact function')
     }
 
-    // Format proved transaction for contract call (convert BigInts to strings for ethers.js ABI)
-    const formattedTransactions = [formatTransactionForContract(provedTransaction)]
+    // Format proved transactions for contract call (convert BigInts to strings for ethers.js ABI)
+    const formattedTransactions = provedTransactions.map((tx) => formatTransactionForContract(tx))
+    const ppoiData = getPPOIData(provedTransactions)
 
-    const gasEstimate = await transactFn.estimateGas(formattedTransactions, {
-      gasPrice,
-    })
-
-    const tx = await transactFn(formattedTransactions, {
-      gasLimit: Math.floor(Number(gasEstimate) * 1.2),
-      gasPrice,
-    })
-
-    onStatus?.('Waiting for confirmation…')
-    const receipt = await tx.wait(1)
-
-    if (receipt?.status === 0) {
-      throw new Error(`Transaction failed: ${tx.hash}`)
+    const newEntry: NewOutboxEntry = {
+      walletId: wallet.id,
+      walletAddress: wallet.address,
+      networkName,
+      kind: 'unshield',
+      transactions: formattedTransactions,
+      to: network.railgunV2Contract,
+      data: contract.interface.encodeFunctionData('transact', [formattedTransactions]),
+      ...(ppoiData ? { ppoiData } : {}),
+      signer: { walletId: signerSource.id, address: signer.address },
+      metadata: { recipientAddress: params.recipient },
     }
+    const simulation = await this.simulate(newEntry, provider, onStatus, onSimulated, feeSpeed)
 
-    onStatus?.('Confirmed')
+    onStatus?.('Submitting to network…')
+    // Keep the proof until it is confirmed so a failed broadcast can be retried without re-proving
+    const outbox = TransactionOutboxService.getInstance()
+    let outboxEntry = outbox.add(newEntry)
 
-    // Cache recipient address so it appears in history without Subsquid lookup
+    let tx: ethers.TransactionResponse
     try {
-      TransactionMetadataService.getInstance().saveMetadata({
-        txid: tx.hash,
-        walletId: wallet.id,
-        recipientAddress: params.recipient,
-        createdAt: Date.now(),
-        updatedAt: Date.now(),
+      tx = await transactFn(formattedTransactions, {
+        gasLimit: simulation.gasLimit!,
+        ...simulation.fees!,
       })
-    } catch {
-      // Non-fatal
-    }
-
-    // Extract PPOI data from proved transaction for immediate PPOI submission
-    if (provedTransaction.boundParamsHash) {
-      return {
-        txHash: tx.hash,
-        ppoiData: {
-          nullifiers: provedTransaction.nullifiers,
-          commitments: provedTransaction.commitments,
-          boundParamsHash: provedTransaction.boundParamsHash,
-        },
+      outboxEntry = outbox.markBroadcast(outboxEntry, tx)
+
+      onStatus?.('Waiting for confirmation…')
+      const receipt = await tx.wait(1)
+
+      if (receipt?.status === 0) {
+        throw new Error(`Transaction failed: ${tx.hash}`)
       }
+    } catch (error) {
+      outbox.markFailed(outboxEntry, error)
+      throw error
     }
 
-    return { txHash: tx.hash }
+    onStatus?.('Confirmed')
+
+    // Drop the outbox entry and cache the recipient address so it appears in history without Subsquid lookup
+    outbox.complete(outboxEntry, tx.hash)
+
+    // Return PPOI data of every proved transaction for immediate PPOI submission
+    return { txHash: tx.hash, ...(ppoiData ? { ppoiData } : {}) }
   }
 
   /**
@@ -162,7 +181,10 @@ export class UnshieldService {
    * @param params - Unshield parameters including WETH token address, amount, and ETH recipient
    * @param provider - Ethers provider for blockchain interaction
    * @param onStatus - Optional callback for reporting transaction progress status
-   * @param gasPayerMnemonic - Optional mnemonic for a separate gas-paying wallet for privacy
+   * @param gasPayer - Optional separate gas-paying wallet for privacy
+   * @param signal - Optional abort signal that cancels proof generation before submission
+   * @param onSimulated - Optional callback shown the simulation result; broadcasts only if it resolves true
+   * @param feeSpeed - The fee tier to pay
    * @returns The transaction hash and optional PPOI data for immediate proof submission
    */
   async executeUnshieldToNative (
@@ -171,13 +193,14 @@ export class UnshieldService {
     params: UnshieldParams,
     provider: ethers.Provider,
     onStatus?: (s: string) => void,
-    gasPayerMnemonic?: string
-  ): Promise<{
-    txHash: string
-    ppoiData?: { nullifiers: string[]; commitments: string[]; boundParamsHash: string }
-  }> {
+    gasPayer?: GasPayerWallet,
+    signal?: AbortSignal,
+    onSimulated?: (simulation: TransactionSimulation) => Promise<boolean>,
+    feeSpeed: FeeSpeed = 'standard'
+  ): Promise<{ txHash: string; ppoiData?: TransactionPPOIData[] }> {
     const network = NETWORK_CONFIG[networkName]
     if (!network) throw new Error(`Unsupported network: ${networkName}`)
+    if (wallet.watchOnly) throw new Error('Watch-only wallets cannot unshield')
     if (!wallet.mnemonic) throw new Error('Wallet missing mnemonic for signing')
 
     const relayAdaptAddress = NETWORK_CONFIG[networkName]?.relayAdaptContract
@@ -193,6 +216,9 @@ export class UnshieldService {
       BigInt(params.amount)
     )
 
+    // Minimum gas price bound into the proof, from current network fees
+    const { minGasPrice } = await FeeService.getInstance().getFeeQuote(provider)
+
     onStatus?.('Building atomic unshield-to-ETH transaction…')
 
     // Build the proved transaction + relay call data
@@ -200,60 +226,98 @@ export class UnshieldService {
       wallet,
       params,
       networkName,
-      relayAdaptAddress
+      relayAdaptAddress,
+      minGasPrice,
+      (progress) => onStatus?.(`Generating unshield proof: ${progress}%`),
+      signal
     )
-
-    onStatus?.('Submitting to network…')
-    const signerMnemonic = gasPayerMnemonic || wallet.mnemonic
-    const signer = ethers.Wallet.fromPhrase(signerMnemonic).connect(provider)
-
-    const feeData = await provider.getFeeData()
-    const gasPrice = feeData.gasPrice
-      ? (feeData.gasPrice * 150n) / 100n
-      : ethers.parseUnits('50', 'gwei')
-
-    // Send the populated relay transaction to the RelayAdapt contract
-    const tx = await signer.sendTransaction({
+    signal?.throwIfAborted()
+
+    const signerSource = gasPayer || wallet
+    const signer = getEthereumWallet(
+      signerSource.mnemonic!,
+      signerSource.derivationIndex,
+      signerSource.passphrase
+    ).connect(provider)
+
+    const ppoiData = getPPOIData([provedTransaction])
+    const newEntry: NewOutboxEntry = {
+      walletId: wallet.id,
+      walletAddress: wallet.address,
+      networkName,
+      kind: 'unshield-native',
+      transactions: [formatTransactionForContract(provedTransaction)],
       to: relayAdaptAddress,
       data: relayCallData,
-      gasLimit: 5_000_000n, // RelayAdapt needs higher gas limit
-      gasPrice,
-    })
-
-    onStatus?.('Waiting for confirmation…')
-    const receipt = await tx.wait(1)
-
-    if (receipt?.status === 0) {
-      throw new Error(`Unshield-to-ETH transaction failed: ${tx.hash}`)
+      ...(ppoiData ? { ppoiData } : {}),
+      signer: { walletId: signerSource.id, address: signer.address },
+      // The real ETH recipient, not the RelayAdapt intermediary, for history display
+      metadata: { recipientAddress: params.recipient },
     }
+    const simulation = await this.simulate(newEntry, provider, onStatus, onSimulated, feeSpeed)
 
-    onStatus?.('Confirmed')
+    onStatus?.('Submitting to network…')
+    // Keep the proof until it is confirmed so a failed broadcast can be retried without re-proving
+    const outbox = TransactionOutboxService.getInstance()
+    let outboxEntry = outbox.add(newEntry)
 
-    // Cache the real ETH recipient (not the RelayAdapt intermediary) for history display
+    let tx: ethers.TransactionResponse
     try {
-      TransactionMetadataService.getInstance().saveMetadata({
-        txid: tx.hash,
-        walletId: wallet.id,
-        recipientAddress: params.recipient,
-        createdAt: Date.now(),
-        updatedAt: Date.now(),
+      // Send the populated relay transaction to the RelayAdapt contract
+      tx = await signer.sendTransaction({
+        to: relayAdaptAddress,
+        data: relayCallData,
+        gasLimit: simulation.gasLimit!,
+        ...simulation.fees!,
       })
-    } catch {
-      // Non-fatal
-    }
+      outboxEntry = outbox.markBroadcast(outboxEntry, tx)
 
-    if (provedTransaction.boundParamsHash) {
-      return {
-        txHash: tx.hash,
-        ppoiData: {
-          nullifiers: provedTransaction.nullifiers,
-          commitments: provedTransaction.commitments,
-          boundParamsHash: provedTransaction.boundParamsHash,
-        },
+      onStatus?.('Waiting for confirmation…')
+      const receipt = await tx.wait(1)
+
+      if (receipt?.status === 0) {
+        throw new Error(`Unshield-to-ETH transaction failed: ${tx.hash}`)
       }
+    } catch (error) {
+      outbox.markFailed(outboxEntry, error)
+      throw error
     }
 
-    return { txHash: tx.hash }
+    onStatus?.('Confirmed')
+    outbox.complete(outboxEntry, tx.hash)
+
+    return { txHash: tx.hash, ...(ppoiData ? { ppoiData } : {}) }
+  }
+
+  /**
+   * Simulate a proved unshield before it is broadcast and let the caller confirm it.
+   * @param entry - The proved transaction as it would be stored in the outbox
+   * @param provider - Ethers provider for the simulation
+   * @param onStatus - Optional callback for reporting progress
+   * @param onSimulated - Optional callback shown the simulation result; broadcasts only if it resolves true
+   * @param feeSpeed - The fee tier to pay
+   * @returns The successful simulation, with the gas limit and fees to broadcast with
+   */
+  private async simulate (
+    entry: NewOutboxEntry,
+    provider: ethers.Provider,
+    onStatus?: (s: string) => void,
+    onSimulated?: (simulation: TransactionSimulation) => Promise<boolean>,
+    feeSpeed: FeeSpeed = 'standard'
+  ): Promise<TransactionSimulation> {
+    onStatus?.('Simulating transaction…')
+    const simulation = await TransactionOutboxService.getInstance().simulate(
+      entry,
+      provider,
+      feeSpeed
+    )
+    if (!simulation.success) {
+      throw new Error(`Simulation failed: ${simulation.error}`)
+    }
+    if (onSimulated && !(await onSimulated(simulation))) {
+      throw new Error('Transaction cancelled before broadcast')
+    }
+    return simulation
   }
 
   /**
@@ -269,14 +333,16 @@ export class UnshieldService {
     tokenAddress: string,
     amount: bigint
   ): void {
-    const scanner = SubsquidBalanceScanner.getInstance()
-    const allCommitments = scanner.getDecryptedCommitmentsForWallet(walletId)
+    const allCommitments = BalanceScannerRouter.getInstance().getDecryptedCommitmentsForWallet(
+      walletId,
+      networkName
+    )
     const poiService = POIService.getInstance()
 
     const validTxos = allCommitments.filter((c) => {
       if (c.isSpent || c.isSentToOther || c.tokenAddress.toLowerCase() !== tokenAddress.toLowerCase()) return false
 
-      const blindedCommitment = scanner.blindedCommitmentOf(c)
+      const blindedCommitment = blindedCommitmentOf(c)
       const commitmentType = c.commitmentType === 'ShieldCommitment' ? 'Shield' : 'Transact'
       const cachedStatus = poiService.getPOIStatusForCommitmentsFromCacheOnly(networkName, [
         { blindedCommitment, type: commitmentType as 'Shield' | 'Transact' | 'Unshield' },
@@ -299,18 +365,62 @@ export class UnshieldService {
   }
 
   /**
-   * Build a standard V2 unshield transaction (WETH/ERC20 directly to recipient).
-   * @param wallet - The RAILGUN wallet providing spending keys and UTXOs
+   * Select the notes an unshield would spend, without proving anything. Only viewing keys
+   * are needed, so a watch-only wallet can export an offline signing request.
+   * @param wallet - The RAILGUN wallet holding the private balance
    * @param params - Unshield parameters including token, amount, and recipient address
-   * @param networkName - The network to build the transaction for
-   * @returns The proved transaction struct ready for on-chain submission
+   * @param networkName - The network to unshield on
+   * @returns The spending solution groups, one transaction each
    */
-  private async buildV2UnshieldTransaction (
+  async selectUnshieldNotes (
     wallet: RailgunWallet,
     params: UnshieldParams,
     networkName: NetworkName
-  ): Promise<TransactionStruct> {
-    const transactionBatch = new TransactionBatch(networkName, 1000000000n)
+  ): Promise<SpendingSolutionGroup[]> {
+    // Note selection does not depend on the minimum gas price
+    const transactionBatch = new TransactionBatch(networkName)
+    transactionBatch.addUnshieldData({
+      toAddress: params.recipient,
+      value: BigInt(params.amount),
+      tokenData: {
+        tokenType: TokenType.ERC20,
+        tokenAddress: params.tokenAddress,
+        tokenSubID: '0x00',
+      },
+    })
+    if (params.selectedUTXOs?.length) {
+      transactionBatch.setPinnedUTXOs(params.selectedUTXOs)
+    }
+
+    const spendingSolutionGroups = await transactionBatch.generateSpendingSolutionGroups(wallet)
+    if (!spendingSolutionGroups.length) {
+      throw new Error('No valid spending solutions found for unshield')
+    }
+    return spendingSolutionGroups
+  }
+
+  /**
+   * Build standard V2 unshield transactions (WETH/ERC20 directly to recipient).
+   * Usually one transaction; several when the spent notes span merkle trees or circuit sizes.
+   * @param wallet - The RAILGUN wallet providing spending keys and UTXOs
+   * @param params - Unshield parameters including token, amount, and recipient address
+   * @param networkName - The network to build the transactions for
+   * @param minGasPrice - The minimum gas price bound into the proofs, in wei
+   * @param onProgress - Optional callback receiving proof generation progress percentage
+   * @param signal - Optional abort signal that cancels proof generation
+   * @param offlineNotes - Notes and merkle proofs from an offline signing request
+   * @returns The proved transaction structs ready for on-chain submission in one call
+   */
+  async buildV2UnshieldTransactions (
+    wallet: RailgunWallet,
+    params: UnshieldParams,
+    networkName: NetworkName,
+    minGasPrice: bigint,
+    onProgress?: (progress: number) => void,
+    signal?: AbortSignal,
+    offlineNotes?: OfflineNote[]
+  ): Promise<TransactionStruct[]> {
+    const transactionBatch = new TransactionBatch(networkName, minGasPrice)
 
     const unshieldTokenData = {
       tokenType: TokenType.ERC20,
@@ -323,26 +433,17 @@ export class UnshieldService {
       value: BigInt(params.amount),
       tokenData: unshieldTokenData,
     })
+    if (params.selectedUTXOs?.length) {
+      transactionBatch.setPinnedUTXOs(params.selectedUTXOs)
+    }
+    if (offlineNotes) {
+      transactionBatch.setOfflineNotes(offlineNotes)
+    }
 
     const spendingSolutionGroups = await transactionBatch.generateSpendingSolutionGroups(wallet)
     if (!spendingSolutionGroups.length) {
       throw new Error('No valid spending solutions found for unshield')
     }
-    const spendingSolutionGroup = spendingSolutionGroups[0]!
-
-    const changeOutput = TransactionBatch.getChangeOutput(wallet, spendingSolutionGroup)
-
-    const transaction = this.createTransactionForUnshield(
-      spendingSolutionGroup,
-      changeOutput,
-      networkName,
-      params.recipient,
-      BigInt(params.amount),
-      {
-        contract: '0x0000000000000000000000000000000000000000',
-        parameters: '0x0000000000000000000000000000000000000000000000000000000000000000',
-      }
-    )
 
     const globalBoundParams = {
       minGasPrice: transactionBatch.getOverallBatchMinGasPrice(),
@@ -352,17 +453,33 @@ export class UnshieldService {
       data: '0x',
     }
 
-    const transactionRequest = await transaction.generateTransactionRequest(
-      wallet,
-      globalBoundParams
-    )
+    const provedTransactions: TransactionStruct[] = []
+    for (const spendingSolutionGroup of spendingSolutionGroups) {
+      const changeOutput = TransactionBatch.getChangeOutput(wallet, spendingSolutionGroup)
+
+      const transaction = this.createTransactionForUnshield(
+        spendingSolutionGroup,
+        changeOutput,
+        networkName,
+        params.recipient,
+        spendingSolutionGroup.unshieldValue,
+        {
+          contract: '0x0000000000000000000000000000000000000000',
+          parameters: '0x0000000000000000000000000000000000000000000000000000000000000000',
+        }
+      )
 
-    const provedTransaction = await transaction.generateProvedTransaction(
-      transactionRequest,
-      () => {}
-    )
+      const transactionRequest = await transaction.generateTransactionRequest(
+        wallet,
+        globalBoundParams
+      )
 
-    return provedTransaction
+      provedTransactions.push(
+        await transaction.generateProvedTransaction(transactionRequest, onProgress, signal)
+      )
+    }
+
+    return provedTransactions
   }
 
   /**
@@ -377,13 +494,21 @@ export class UnshieldService {
    * @param params - Unshield parameters including WETH token address, amount, and ETH recipient
    * @param networkName - The network to build the transaction for
    * @param relayAdaptAddress - The deployed RelayAdapt contract address for this network
+   * @param minGasPrice - The minimum gas price bound into the proof, in wei
+   * @param onProgress - Optional callback receiving proof generation progress percentage
+   * @param signal - Optional abort signal that cancels proof generation
+   * @param offlineNotes - Notes and merkle proofs from an offline signing request
    * @returns The relay call data for the RelayAdapt contract and the proved transaction struct
    */
-  private async buildV2UnshieldBaseTokenTransaction (
+  async buildV2UnshieldBaseTokenTransaction (
     wallet: RailgunWallet,
     params: UnshieldParams,
     networkName: NetworkName,
-    relayAdaptAddress: string
+    relayAdaptAddress: string,
+    minGasPrice: bigint,
+    onProgress?: (progress: number) => void,
+    signal?: AbortSignal,
+    offlineNotes?: OfflineNote[]
   ): Promise<{ relayCallData: string; provedTransaction: TransactionStruct }> {
     const unshieldValue = BigInt(params.amount)
     const unshieldTokenData = {
@@ -394,33 +519,23 @@ export class UnshieldService {
 
     // Step 1: Build dummy proof to compute relayAdaptParams hash
     // The unshield recipient is the RelayAdapt contract (not the user)
-    const dummyBatch = new TransactionBatch(networkName, 1000000000n)
+    const dummyBatch = new TransactionBatch(networkName, minGasPrice)
     dummyBatch.addUnshieldData({
       toAddress: relayAdaptAddress,
       value: unshieldValue,
       tokenData: unshieldTokenData,
     })
+    if (params.selectedUTXOs?.length) {
+      dummyBatch.setPinnedUTXOs(params.selectedUTXOs)
+    }
+    if (offlineNotes) {
+      dummyBatch.setOfflineNotes(offlineNotes)
+    }
 
     const spendingSolutionGroups = await dummyBatch.generateSpendingSolutionGroups(wallet)
     if (!spendingSolutionGroups.length) {
       throw new Error('No valid spending solutions found for unshield base token')
     }
-    const ssg = spendingSolutionGroups[0]!
-
-    const changeOutput = TransactionBatch.getChangeOutput(wallet, ssg)
-
-    // Create dummy transaction with zero adaptID to get serialized structure
-    const dummyTransaction = this.createTransactionForUnshield(
-      ssg,
-      changeOutput,
-      networkName,
-      relayAdaptAddress,
-      unshieldValue,
-      {
-        contract: '0x0000000000000000000000000000000000000000',
-        parameters: '0x0000000000000000000000000000000000000000000000000000000000000000',
-      }
-    )
 
     const dummyGlobalBoundParams = {
       minGasPrice: dummyBatch.getOverallBatchMinGasPrice(),
@@ -430,14 +545,33 @@ export class UnshieldService {
       data: '0x',
     }
 
-    const dummyRequest = await dummyTransaction.generateTransactionRequest(
-      wallet,
-      dummyGlobalBoundParams
-    )
-    // Use dummy proof (zero proof) — we only need nullifiers for relayAdaptParams hash,
-    // not a real ZK proof. This avoids a ~2GB WASM allocation that would exhaust browser memory
-    // before the real proof generation.
-    const dummyProved = await dummyTransaction.generateDummyProvedTransaction(dummyRequest)
+    // One dummy transaction per spending solution group; the relay params commit to all nullifiers
+    const dummyProvedTransactions: TransactionStruct[] = []
+    for (const ssg of spendingSolutionGroups) {
+      const changeOutput = TransactionBatch.getChangeOutput(wallet, ssg)
+
+      // Create dummy transaction with zero adaptID to get serialized structure
+      const dummyTransaction = this.createTransactionForUnshield(
+        ssg,
+        changeOutput,
+        networkName,
+        relayAdaptAddress,
+        ssg.unshieldValue,
+        {
+          contract: '0x0000000000000000000000000000000000000000',
+          parameters: '0x0000000000000000000000000000000000000000000000000000000000000000',
+        }
+      )
+
+      const dummyRequest = await dummyTransaction.generateTransactionRequest(
+        wallet,
+        dummyGlobalBoundParams
+      )
+      // Use dummy proof (zero proof) — we only need nullifiers for relayAdaptParams hash,
+      // not a real ZK proof. This avoids a ~2GB WASM allocation that would exhaust browser memory
+      // before the real proof generation.
+      dummyProvedTransactions.push(await dummyTransaction.generateDummyProvedTransaction(dummyRequest))
+    }
 
     // Step 2: Build the ordered calls for RelayAdapt (unwrapBase + transfer)
     const relayAdaptContract = new ethers.Contract(relayAdaptAddress, RelayAdaptABI)
@@ -478,8 +612,9 @@ export class UnshieldService {
     }
 
     // Hash: keccak256(encode(nullifiers[][], transactionsLength, actionData))
-    const dummyFormatted = formatTransactionForContract(dummyProved)
-    const nullifiers = [dummyFormatted.nullifiers || []]
+    const nullifiers = dummyProvedTransactions.map(
+      (dummyProved) => formatTransactionForContract(dummyProved).nullifiers || []
+    )
 
     const relayAdaptParams = keccak256(
       AbiCoder.defaultAbiCoder().encode(
@@ -490,7 +625,7 @@ export class UnshieldService {
         ],
         [
           nullifiers,
-          1, // one transaction
+          dummyProvedTransactions.length,
           actionData,
         ]
       )
@@ -503,29 +638,27 @@ export class UnshieldService {
     }
 
     // Need a fresh TransactionBatch since we can't reuse spent solution groups
-    const realBatch = new TransactionBatch(networkName, 1000000000n)
+    const realBatch = new TransactionBatch(networkName, minGasPrice)
     realBatch.setAdaptID(realAdaptID)
     realBatch.addUnshieldData({
       toAddress: relayAdaptAddress,
       value: unshieldValue,
       tokenData: unshieldTokenData,
     })
+    if (params.selectedUTXOs?.length) {
+      realBatch.setPinnedUTXOs(params.selectedUTXOs)
+    }
+    if (offlineNotes) {
+      realBatch.setOfflineNotes(offlineNotes)
+    }
 
     const realSSGs = await realBatch.generateSpendingSolutionGroups(wallet)
     if (!realSSGs.length) {
       throw new Error('No valid spending solutions for real proof')
     }
-    const realSSG = realSSGs[0]!
-    const realChangeOutput = TransactionBatch.getChangeOutput(wallet, realSSG)
-
-    const realTransaction = this.createTransactionForUnshield(
-      realSSG,
-      realChangeOutput,
-      networkName,
-      relayAdaptAddress,
-      unshieldValue,
-      realAdaptID
-    )
+    if (realSSGs.length !== dummyProvedTransactions.length) {
+      throw new Error('Spendable notes changed while building the unshield. Please try again.')
+    }
 
     const realGlobalBoundParams = {
       minGasPrice: realBatch.getOverallBatchMinGasPrice(),
@@ -535,21 +668,37 @@ export class UnshieldService {
       data: '0x',
     }
 
-    const realRequest = await realTransaction.generateTransactionRequest(
-      wallet,
-      realGlobalBoundParams
-    )
-    const realProved = await realTransaction.generateProvedTransaction(realRequest, () => {})
+    const realProvedTransactions: TransactionStruct[] = []
+    for (const realSSG of realSSGs) {
+      const realChangeOutput = TransactionBatch.getChangeOutput(wallet, realSSG)
+
+      const realTransaction = this.createTransactionForUnshield(
+        realSSG,
+        realChangeOutput,
+        networkName,
+        relayAdaptAddress,
+        realSSG.unshieldValue,
+        realAdaptID
+      )
+
+      const realRequest = await realTransaction.generateTransactionRequest(
+        wallet,
+        realGlobalBoundParams
+      )
+      realProvedTransactions.push(
+        await realTransaction.generateProvedTransaction(realRequest, onProgress, signal)
+      )
+    }
 
     // Step 5: Populate the RelayAdapt.relay() call
-    const formattedRealTx = formatTransactionForContract(realProved)
+    const formattedRealTxs = realProvedTransactions.map((tx) => formatTransactionForContract(tx))
 
     const relayFn = relayAdaptContract['relay'] as ethers.BaseContractMethod
-    const relayTx = await relayFn.populateTransaction([formattedRealTx], actionData)
+    const relayTx = await relayFn.populateTransaction(formattedRealTxs, actionData)
 
     return {
       relayCallData: relayTx.data as string,
-      provedTransaction: realProved,
+      provedTransaction: realProvedTransactions[0]!,
     }
   }
 
@@ -595,15 +744,21 @@ export class UnshieldService {
       db
     )
 
-    transaction.addUnshieldData(
-      {
-        toAddress: unshieldRecipient,
-        tokenData,
-        value: unshieldValue,
-      },
-      unshieldValue
-    )
+    // A group funded only by surplus pinned notes carries no unshield, just change
+    if (unshieldValue > 0n) {
+      transaction.addUnshieldData(
+        {
+          toAddress: unshieldRecipient,
+          tokenData,
+          value: unshieldValue,
+        },
+        unshieldValue
+      )
+    }
 
     return transaction
   }
 }
+
+export type { UnshieldParams }
+export { UnshieldService }
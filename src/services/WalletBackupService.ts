@@ -0,0 +1,334 @@
+import { SentTransactionStorage } from './SentTransactionStorage'
+import { TokenService } from './TokenService'
+import type { TransactionMetadata } from './TransactionMetadataService'
+import { TransactionMetadataService } from './TransactionMetadataService'
+
+import { useSettingsStore } from '@/stores/settingsStore'
+import type { NetworkName, ScannerPolicy } from '@/types/network'
+import type { TokenInfo } from '@/types/wallet'
+import { dlog } from '@/utils/debug'
+import { decryptWithPassword, encryptWithPassword } from '@/utils/passwordEncryption'
+
+const BACKUP_FORMAT = 'railgun-wallet-backup'
+const BACKUP_VERSION = 1
+
+/**
+ * One wallet in a backup, with its secrets in plaintext (the whole payload is encrypted).
+ */
+type BackupWallet = {
+  id: string
+  nickname: string
+  address: string
+  ethereumAddress: string
+  createdAt: number
+  derivationIndex?: number
+  scanStartBlocks?: Partial<Record<NetworkName, number>>
+  watchOnly?: boolean
+  mnemonic?: string // Full wallets
+  passphrase?: string // Full wallets with a BIP39 passphrase
+  viewingKey?: string // Watch-only wallets
+  nullifyingKey?: string // Watch-only wallets
+}
+
+type SerializedSentOutput = {
+  transactionHash: string
+  railgunTxid?: string
+  commitmentHash: string
+  npk: string
+  value: string // bigint as decimal string
+  tokenHash: string
+  tokenAddress: string
+  tokenType: number
+  tokenSubID: string
+  recipientAddress: string
+  memoText?: string
+  timestamp: number
+}
+
+/**
+ * Everything a backup restores. Stored encrypted inside a BackupFile.
+ */
+type BackupPayload = {
+  wallets: BackupWallet[]
+  customTokens: Array<[string, TokenInfo]>
+  hiddenTokens: Record<string, Partial<Record<NetworkName, string[]>>> // walletId -> network -> addresses
+  transactionMetadata: Record<string, Record<string, TransactionMetadata>> // walletId -> txid -> metadata
+  sentOutputs: Record<string, SerializedSentOutput[]> // 0zk address -> outputs
+  settings: {
+    customRpcUrls: Partial<Record<NetworkName, string>>
+    hideSenderAddressByDefault: boolean
+    debugEnabled: boolean
+    scannerPolicies: Partial<Record<NetworkName, ScannerPolicy>>
+  }
+}
+
+/**
+ * The backup file as written to disk. The header stays readable so the version can be
+ * checked before asking for the password.
+ */
+type BackupFile = {
+  format: typeof BACKUP_FORMAT
+  version: number
+  createdAt: number
+  walletCount: number
+  payload: string // encryptWithPassword(JSON.stringify(BackupPayload))
+}
+
+// Both modes add everything in the backup and keep data the backup does not have; they differ
+// only in which side wins a conflict ('merge': existing data, 'overwrite': the backup)
+type BackupRestoreMode = 'merge' | 'overwrite'
+
+type BackupConflict = {
+  category: 'wallet' | 'customToken' | 'transactionMetadata' | 'setting'
+  key: string
+  resolution: 'kept-existing' | 'replaced'
+}
+
+type BackupRestoreReport = {
+  walletsAdded: number
+  walletsUpdated: number
+  customTokensRestored: number
+  transactionMetadataRestored: number
+  sentOutputsAdded: number
+  conflicts: BackupConflict[]
+}
+
+/**
+ * Builds and restores full, password-encrypted backups of wallets and their local data.
+ *
+ * Wallet secrets are handled by walletStore, which decrypts them for export and
+ * re-encrypts them on restore; this service covers everything stored alongside them.
+ */
+class WalletBackupService {
+  /**
+   * Singleton instance of the service.
+   */
+  private static instance: WalletBackupService
+
+  /**
+   * Get the singleton instance of WalletBackupService.
+   * @returns The shared WalletBackupService instance
+   */
+  static getInstance (): WalletBackupService {
+    if (!this.instance) this.instance = new WalletBackupService()
+    return this.instance
+  }
+
+  /**
+   * Collect all local data for the given wallets and encrypt it into a backup file.
+   * @param wallets - The wallets to include, with decrypted secrets
+   * @param walletPassword - The wallet password, used to read encrypted hidden-token lists
+   * @param backupPassword - The password that will protect the backup file
+   * @returns The backup file contents as a JSON string
+   */
+  async createBackup (
+    wallets: BackupWallet[],
+    walletPassword: string,
+    backupPassword: string
+  ): Promise<string> {
+    const tokenService = TokenService.getInstance()
+    const metadataService = TransactionMetadataService.getInstance()
+    const sentStorage = SentTransactionStorage.getInstance()
+    const settings = useSettingsStore.getState()
+
+    const payload: BackupPayload = {
+      wallets,
+      customTokens: tokenService.getAllCustomTokenEntries(),
+      hiddenTokens: {},
+      transactionMetadata: {},
+      sentOutputs: {},
+      settings: {
+        customRpcUrls: settings.customRpcUrls,
+        hideSenderAddressByDefault: settings.hideSenderAddressByDefault,
+        debugEnabled: settings.debugEnabled,
+        scannerPolicies: settings.scannerPolicies,
+      },
+    }
+
+    for (const wallet of wallets) {
+      const hidden = await tokenService.exportHiddenTokens(wallet.id, walletPassword)
+      if (Object.keys(hidden).length > 0) payload.hiddenTokens[wallet.id] = hidden
+
+      const metadata = metadataService.getAllMetadata(wallet.id)
+      if (Object.keys(metadata).length > 0) payload.transactionMetadata[wallet.id] = metadata
+
+      const outputs = sentStorage.getSentOutputs(wallet.address)
+      if (outputs.length > 0) {
+        payload.sentOutputs[wallet.address] = outputs.map((o) => ({
+          ...o,
+          value: o.value.toString(),
+        }))
+      }
+    }
+
+    const file: BackupFile = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      createdAt: Date.now(),
+      walletCount: wallets.length,
+      payload: await encryptWithPassword(JSON.stringify(payload), backupPassword),
+    }
+
+    dlog(`Created backup with ${wallets.length} wallet(s)`)
+    return JSON.stringify(file, null, 2)
+  }
+
+  /**
+   * Parse and decrypt a backup file.
+   * @param contents - The backup file contents
+   * @param backupPassword - The backup password
+   * @returns The decrypted payload
+   * @throws Error if the file is not a backup, the version is unsupported, or the password is wrong
+   */
+  async readBackup (contents: string, backupPassword: string): Promise<BackupPayload> {
+    let file: Partial<BackupFile>
+    try {
+      file = JSON.parse(contents)
+    } catch {
+      throw new Error('Not a wallet backup file')
+    }
+
+    if (file.format !== BACKUP_FORMAT || typeof file.payload !== 'string') {
+      throw new Error('Not a wallet backup file')
+    }
+    if (file.version !== BACKUP_VERSION) {
+      throw new Error(`Unsupported backup version: ${file.version}`)
+    }
+
+    let payload: BackupPayload
+    try {
+      payload = JSON.parse(await decryptWithPassword(file.payload, backupPassword))
+    } catch {
+      throw new Error('Incorrect backup password or corrupted backup')
+    }
+
+    if (!Array.isArray(payload.wallets)) {
+      throw new Error('Backup is missing its wallet list')
+    }
+
+    return {
+      wallets: payload.wallets,
+      customTokens: payload.customTokens || [],
+      hiddenTokens: payload.hiddenTokens || {},
+      transactionMetadata: payload.transactionMetadata || {},
+      sentOutputs: payload.sentOutputs || {},
+      settings: {
+        customRpcUrls: payload.settings?.customRpcUrls || {},
+        hideSenderAddressByDefault: !!payload.settings?.hideSenderAddressByDefault,
+        debugEnabled: !!payload.settings?.debugEnabled,
+        scannerPolicies: payload.settings?.scannerPolicies || {},
+      },
+    }
+  }
+
+  /**
+   * Restore everything in a backup except the wallets themselves.
+   * In merge mode existing values win on conflict; in overwrite mode the backup wins.
+   * Either way, data missing from the backup is kept and every conflict is reported.
+   * @param payload - The decrypted backup payload
+   * @param mode - Whether existing data or the backup wins on conflict
+   * @param walletPassword - The wallet password used to encrypt restored hidden-token lists
+   * @returns The restore report (wallet counts are left at zero for the caller to fill in)
+   */
+  async restoreData (
+    payload: BackupPayload,
+    mode: BackupRestoreMode,
+    walletPassword: string
+  ): Promise<BackupRestoreReport> {
+    const overwrite = mode === 'overwrite'
+    const resolution = overwrite ? 'replaced' : 'kept-existing'
+    const report: BackupRestoreReport = {
+      walletsAdded: 0,
+      walletsUpdated: 0,
+      customTokensRestored: payload.customTokens.length,
+      transactionMetadataRestored: 0,
+      sentOutputsAdded: 0,
+      conflicts: [],
+    }
+
+    const tokenService = TokenService.getInstance()
+    for (const key of tokenService.restoreCustomTokens(payload.customTokens, overwrite)) {
+      report.conflicts.push({ category: 'customToken', key, resolution })
+    }
+
+    for (const [walletId, byNetwork] of Object.entries(payload.hiddenTokens)) {
+      await tokenService.restoreHiddenTokens(walletId, byNetwork, walletPassword, overwrite)
+    }
+
+    const metadataService = TransactionMetadataService.getInstance()
+    for (const [walletId, records] of Object.entries(payload.transactionMetadata)) {
+      report.transactionMetadataRestored += Object.keys(records).length
+      for (const txid of metadataService.restoreMetadata(walletId, records, overwrite)) {
+        report.conflicts.push({ category: 'transactionMetadata', key: txid, resolution })
+      }
+    }
+
+    const sentStorage = SentTransactionStorage.getInstance()
+    for (const [address, outputs] of Object.entries(payload.sentOutputs)) {
+      report.sentOutputsAdded += sentStorage.restoreSentOutputs(
+        address,
+        outputs.map((o) => ({ ...o, value: BigInt(o.value) })),
+        overwrite
+      )
+    }
+
+    report.conflicts.push(...this.restoreSettings(payload.settings, overwrite))
+
+    dlog(`Restored backup data with ${report.conflicts.length} conflict(s)`)
+    return report
+  }
+
+  /**
+   * Restore settings, reporting values that differ from the current ones.
+   * @param settings - The settings from the backup
+   * @param overwrite - Whether backup values replace differing current ones
+   * @returns The conflicting settings
+   */
+  private restoreSettings (settings: BackupPayload['settings'], overwrite: boolean): BackupConflict[] {
+    const store = useSettingsStore.getState()
+    const resolution = overwrite ? 'replaced' : 'kept-existing'
+    const conflicts: BackupConflict[] = []
+
+    for (const [network, url] of Object.entries(settings.customRpcUrls) as [NetworkName, string][]) {
+      const existing = store.customRpcUrls[network]
+      if (existing && existing !== url) {
+        conflicts.push({ category: 'setting', key: `customRpcUrls.${network}`, resolution })
+        if (!overwrite) continue
+      }
+      store.setCustomRpcUrl(network, url)
+    }
+
+    for (const [network, policy] of Object.entries(settings.scannerPolicies) as [
+      NetworkName,
+      ScannerPolicy
+    ][]) {
+      const existing = store.scannerPolicies[network]
+      if (existing && existing !== policy) {
+        conflicts.push({ category: 'setting', key: `scannerPolicies.${network}`, resolution })
+        if (!overwrite) continue
+      }
+      store.setScannerPolicy(network, policy)
+    }
+
+    if (store.hideSenderAddressByDefault !== settings.hideSenderAddressByDefault) {
+      conflicts.push({ category: 'setting', key: 'hideSenderAddressByDefault', resolution })
+      if (overwrite) store.setHideSenderAddressByDefault(settings.hideSenderAddressByDefault)
+    }
+
+    if (store.debugEnabled !== settings.debugEnabled) {
+      conflicts.push({ category: 'setting', key: 'debugEnabled', resolution })
+      if (overwrite) store.setDebugEnabled(settings.debugEnabled)
+    }
+
+    return conflicts
+  }
+}
+
+export type {
+  BackupConflict,
+  BackupPayload,
+  BackupRestoreMode,
+  BackupRestoreReport,
+  BackupWallet,
+}
+export { WalletBackupService }
@@ -1,16 +1,22 @@
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
 
-import type { NetworkName } from '@/types/network'
+import type { NetworkName, ScannerPolicy } from '@/types/network'
 
 interface SettingsStore {
   debugEnabled: boolean
   customRpcUrls: Partial<Record<NetworkName, string>>
+  hideSenderAddressByDefault: boolean
+  verifyIndexerData: boolean
+  scannerPolicies: Partial<Record<NetworkName, ScannerPolicy>>
 
   // Actions
   setDebugEnabled: (enabled: boolean) => void
+  setHideSenderAddressByDefault: (hidden: boolean) => void
+  setVerifyIndexerData: (enabled: boolean) => void
   setCustomRpcUrl: (network: NetworkName, url: string) => void
   clearCustomRpcUrl: (network: NetworkName) => void
+  setScannerPolicy: (network: NetworkName, policy: ScannerPolicy) => void
 }
 
 const SETTINGS_STORAGE_KEY = 'privacy-wallet-settings'
@@ -20,6 +26,9 @@ export const useSettingsStore = create<SettingsStore>()(
     (set) => ({
       debugEnabled: false,
       customRpcUrls: {},
+      hideSenderAddressByDefault: false,
+      verifyIndexerData: false,
+      scannerPolicies: {},
 
       /**
        * Enables or disables debug logging throughout the application.
@@ -29,6 +38,22 @@ export const useSettingsStore = create<SettingsStore>()(
         set({ debugEnabled: enabled })
       },
 
+      /**
+       * Sets whether private sends hide the sender's 0zk address from recipients by default.
+       * @param hidden - Whether new private sends should hide the sender address
+       */
+      setHideSenderAddressByDefault: (hidden: boolean) => {
+        set({ hideSenderAddressByDefault: hidden })
+      },
+
+      /**
+       * Sets whether private balance scans are cross-checked against the RAILGUN contract.
+       * @param enabled - Whether indexer data should be verified after each scan
+       */
+      setVerifyIndexerData: (enabled: boolean) => {
+        set({ verifyIndexerData: enabled })
+      },
+
       /**
        * Sets a custom RPC URL for a specific network, overriding the default.
        * @param network - The network to configure
@@ -51,6 +76,17 @@ export const useSettingsStore = create<SettingsStore>()(
           return { customRpcUrls: updated }
         })
       },
+
+      /**
+       * Sets where private balances are scanned from on a network.
+       * @param network - The network to configure
+       * @param policy - Indexer first, RPC only, or indexer with RPC failover
+       */
+      setScannerPolicy: (network: NetworkName, policy: ScannerPolicy) => {
+        set((state) => ({
+          scannerPolicies: { ...state.scannerPolicies, [network]: policy },
+        }))
+      },
     }),
     {
       name: SETTINGS_STORAGE_KEY,
@@ -2,7 +2,13 @@ import { ethers } from 'ethers'
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
 
-import { OnChainBalanceScanner } from '@/services/OnChainBalanceScanner'
+import { useSettingsStore } from './settingsStore'
+
+import type { AccountDiscoveryOptions, DiscoveredAccount } from '@/services/AccountDiscoveryService'
+import { AccountDiscoveryService } from '@/services/AccountDiscoveryService'
+import { BalanceScannerRouter } from '@/services/BalanceScannerRouter'
+import type { IndexerVerificationResult } from '@/services/IndexerVerificationService'
+import { IndexerVerificationService } from '@/services/IndexerVerificationService'
 import { POIService } from '@/services/POIService'
 import { PublicBalanceService } from '@/services/PublicBalanceService'
 import { PublicTransactionService } from '@/services/PublicTransactionService'
@@ -10,6 +16,13 @@ import { ShieldTransactionService } from '@/services/ShieldTransactionService'
 import { SubsquidBalanceScanner as BalanceScanner } from '@/services/SubsquidBalanceScanner'
 import { TokenService } from '@/services/TokenService'
 import { TransactionHistoryService } from '@/services/TransactionHistoryService'
+import type {
+  BackupConflict,
+  BackupRestoreMode,
+  BackupRestoreReport,
+  BackupWallet,
+} from '@/services/WalletBackupService'
+import { WalletBackupService } from '@/services/WalletBackupService'
 import { NETWORK_CONFIG, NetworkName, getEffectiveRpcUrl } from '@/types/network'
 import type {
   DetailedTransaction,
@@ -18,24 +31,35 @@ import type {
   RailgunWallet,
   SavedWalletMetadata,
   ShieldTransactionParams,
-  WalletState
+  WalletState,
+  WatchOnlyKeys
 } from '@/types/wallet'
+import { blindedCommitmentOf } from '@/utils/blinded-commitment'
 import {
-  ByteUtils,
   generateMnemonic as cryptoGenerateMnemonic,
-  deriveRailgunKeys,
-  generateRailgunAddress,
-  getEthereumAddress,
+  deriveWalletFromMnemonic,
+  getEthereumWallet,
   validateMnemonic,
 } from '@/utils/crypto'
 import { dlog, dwarn } from '@/utils/debug'
+import {
+  getCacheItem,
+  isEncryptedCacheUnlocked,
+  lockEncryptedCache,
+  rekeyEncryptedCache,
+  removeCacheItemsWithPrefix,
+  setCacheItem,
+  unlockEncryptedCache,
+} from '@/utils/encryptedCache'
 import {
   decryptWithPassword,
   encryptWithPassword,
   resetRateLimit,
   validatePassword,
 } from '@/utils/passwordEncryption'
+import { verifyWatchOnlyKeys } from '@/utils/railgun-address'
 import { secureLog } from '@/utils/security'
+import { decryptViewingKeyBundle } from '@/utils/viewing-key-bundle'
 
 /**
  * Revive BigInt fields in deserialized transactions.
@@ -51,6 +75,10 @@ function reviveTransactionBigInts (transactions: any[]): DetailedTransaction[] {
         ...t,
         amount: typeof t.amount === 'bigint' ? t.amount : BigInt(t.amount || '0'),
       })) || [],
+    recipients: tx.recipients?.map((r: any) => ({
+      ...r,
+      amount: typeof r.amount === 'bigint' ? r.amount : BigInt(r.amount || '0'),
+    })),
     shieldFee: tx.shieldFee != null ? BigInt(tx.shieldFee) : undefined,
     unshieldFee: tx.unshieldFee != null ? BigInt(tx.unshieldFee) : undefined,
     relayerFee: tx.relayerFee != null ? BigInt(tx.relayerFee) : undefined,
@@ -58,6 +86,53 @@ function reviveTransactionBigInts (transactions: any[]): DetailedTransaction[] {
   }))
 }
 
+/**
+ * Get the encrypted secret that unlocks a saved wallet: the mnemonic, or the viewing keys
+ * for watch-only wallets.
+ * @param metadata - The saved wallet metadata.
+ * @returns The encrypted secret, or an empty string if none is stored.
+ */
+function getEncryptedSecret (metadata: SavedWalletMetadata): string {
+  return (metadata.watchOnly ? metadata.encryptedViewingKeys : metadata.encryptedMnemonic) || ''
+}
+
+/** Controller of the balance scan in progress, if any. */
+let scanAbortController: AbortController | null = null
+
+/**
+ * Start a cancellable balance scan, cancelling any scan still in progress.
+ * @returns The abort signal of the new scan.
+ */
+function beginScan (): AbortSignal {
+  scanAbortController?.abort()
+  scanAbortController = new AbortController()
+  return scanAbortController.signal
+}
+
+/**
+ * Unlock the encrypted wallet caches for this session if they are still locked.
+ * @param password - The session password.
+ */
+async function unlockCachesForSession (password: string): Promise<void> {
+  if (!isEncryptedCacheUnlocked()) {
+    await unlockEncryptedCache(password)
+  }
+}
+
+/**
+ * Decrypt a saved wallet's BIP39 passphrase, if it was created with one.
+ * @param metadata - The saved wallet metadata.
+ * @param password - The password the wallet is encrypted with.
+ * @returns The passphrase, or undefined if the wallet has none.
+ */
+async function decryptPassphrase (
+  metadata: SavedWalletMetadata,
+  password: string
+): Promise<string | undefined> {
+  if (!metadata.encryptedPassphrase) return undefined
+  return decryptWithPassword(metadata.encryptedPassphrase, password)
+}
+
 /** Default POI-related state used by lockWallet and resetWallet. */
 const DEFAULT_POI_STATE = {
   commitmentPOIStatus: {} as Record<string, POIStatus>,
@@ -79,13 +154,46 @@ interface WalletStore extends WalletState {
   // Actions
   setCurrentNetwork: (network: NetworkName) => void
   setBalanceMode: (mode: 'private' | 'public') => void
-  createWallet: (nickname?: string, password?: string) => Promise<RailgunWallet>
+  createWallet: (nickname?: string, password?: string, passphrase?: string) => Promise<RailgunWallet>
   importWallet: (
     mnemonic: string,
     nickname?: string,
     password?: string,
-    options?: { skipClearTXOs?: boolean },
+    options?: { skipClearTXOs?: boolean; derivationIndex?: number; passphrase?: string },
+  ) => Promise<RailgunWallet>
+  addAccount: (
+    sourceWalletId: string,
+    derivationIndex: number,
+    nickname?: string,
+  ) => Promise<RailgunWallet>
+  discoverAccounts: (
+    sourceWalletId: string,
+    options?: AccountDiscoveryOptions,
+    onProgress?: (derivationIndex: number) => void,
+  ) => Promise<DiscoveredAccount[]>
+  importWatchOnlyWallet: (
+    address: string,
+    viewingKey: string,
+    nullifyingKey: string,
+    nickname?: string,
+    password?: string,
+    options?: {
+      skipClearTXOs?: boolean
+      scanStartBlocks?: Partial<Record<NetworkName, number>>
+    },
+  ) => Promise<RailgunWallet>
+  importViewingKeyBundle: (
+    bundle: string,
+    bundlePassword: string,
+    nickname?: string,
+    password?: string,
   ) => Promise<RailgunWallet>
+  exportBackup: (backupPassword: string) => Promise<string>
+  restoreBackup: (
+    contents: string,
+    backupPassword: string,
+    mode: BackupRestoreMode,
+  ) => Promise<BackupRestoreReport>
   switchWallet: (walletId: string, password?: string) => Promise<void>
   deleteWallet: (walletId: string) => void
   updateWalletNickname: (walletId: string, nickname: string) => void
@@ -104,6 +212,7 @@ interface WalletStore extends WalletState {
   getGasPayerWallet: () => GasPayerWallet | null
   refreshBalances: () => Promise<void>
   forceRescanBalances: () => Promise<void>
+  cancelScan: () => void
   resetWallet: () => void
   // Wallet scoped state helpers
   loadWalletScopedState: () => void
@@ -144,7 +253,12 @@ interface WalletStore extends WalletState {
 
   // Sync state
   isSyncing: boolean
+  scanProgress: number | null // 0-1 while a private balance scan runs
   lastError?: string
+
+  // Indexer verification state (only populated when verification is enabled in settings)
+  indexerVerification: IndexerVerificationResult | null
+  isVerifyingIndexer: boolean
 }
 
 export const useWalletStore = create<WalletStore>()(
@@ -158,6 +272,9 @@ export const useWalletStore = create<WalletStore>()(
       balanceMode: 'private',
       ...DEFAULT_POI_STATE,
       isSyncing: false,
+      scanProgress: null,
+      indexerVerification: null,
+      isVerifyingIndexer: false,
       savedWallets: [],
       isPasswordSet: false,
       unlockedGasWallets: [],
@@ -186,6 +303,7 @@ export const useWalletStore = create<WalletStore>()(
        * @param mode - Either 'private' for shielded balances or 'public' for on-chain balances.
        */
       setBalanceMode: (mode: 'private' | 'public') => {
+        if (mode === 'public' && get().currentWallet?.watchOnly) return
         set({ balanceMode: mode, balances: [], transactions: [], ...DEFAULT_POI_STATE })
         try {
           get().loadWalletScopedState()
@@ -193,7 +311,7 @@ export const useWalletStore = create<WalletStore>()(
       },
 
       /**
-       * Load cached balances, transactions, and POI status from localStorage for the current wallet, network, and balance mode.
+       * Load cached balances, transactions, and POI status from the encrypted cache for the current wallet, network, and balance mode.
        */
       loadWalletScopedState: () => {
         const { currentWallet, currentNetwork, balanceMode } = get()
@@ -201,7 +319,7 @@ export const useWalletStore = create<WalletStore>()(
 
         try {
           const key = `wallet:${currentWallet.id}:state:${balanceMode}:${currentNetwork}`
-          const saved = localStorage.getItem(key)
+          const saved = getCacheItem(key)
           if (!saved) return
 
           const parsed = JSON.parse(saved)
@@ -234,7 +352,7 @@ export const useWalletStore = create<WalletStore>()(
       },
 
       /**
-       * Persist current balances, transactions, and POI status to localStorage for the current wallet, network, and balance mode.
+       * Persist current balances, transactions, and POI status to the encrypted cache for the current wallet, network, and balance mode.
        */
       saveWalletScopedState: () => {
         const {
@@ -262,7 +380,7 @@ export const useWalletStore = create<WalletStore>()(
             })
           )
 
-          localStorage.setItem(
+          setCacheItem(
             key,
             JSON.stringify({
               balances: serializedBalances,
@@ -301,19 +419,39 @@ export const useWalletStore = create<WalletStore>()(
           const { sessionPassword } = get()
           const passwordToUse = password || sessionPassword
 
-          if (!passwordToUse || !wallet.mnemonic) {
+          if (!passwordToUse || (!wallet.mnemonic && !wallet.watchOnly)) {
             throw new Error('Password is required to save wallet')
           }
 
-          const encryptedMnemonic = await encryptWithPassword(wallet.mnemonic, passwordToUse)
-
           const metadata: SavedWalletMetadata = {
             id: wallet.id,
             nickname: wallet.nickname || `Wallet ${wallet.address.slice(0, 10)}...`,
             address: wallet.address,
             ethereumAddress: wallet.ethereumAddress,
             createdAt: wallet.createdAt,
-            encryptedMnemonic,
+            encryptedMnemonic: '',
+            ...(wallet.scanStartBlocks && { scanStartBlocks: wallet.scanStartBlocks }),
+            ...(wallet.derivationIndex > 0 && { derivationIndex: wallet.derivationIndex }),
+          }
+
+          if (wallet.watchOnly) {
+            const keys: WatchOnlyKeys = {
+              viewingKey: wallet.viewingKey,
+              nullifyingKey: wallet.nullifyingKey,
+            }
+            metadata.watchOnly = true
+            metadata.encryptedViewingKeys = await encryptWithPassword(
+              JSON.stringify(keys),
+              passwordToUse
+            )
+          } else {
+            metadata.encryptedMnemonic = await encryptWithPassword(wallet.mnemonic!, passwordToUse)
+            if (wallet.passphrase) {
+              metadata.encryptedPassphrase = await encryptWithPassword(
+                wallet.passphrase,
+                passwordToUse
+              )
+            }
           }
 
           const saved = localStorage.getItem('railgun-wallets')
@@ -351,7 +489,7 @@ export const useWalletStore = create<WalletStore>()(
             throw new Error('Wallet not found')
           }
 
-          if (!walletMetadata.encryptedMnemonic) {
+          if (!getEncryptedSecret(walletMetadata)) {
             throw new Error(
               'This wallet was created before password encryption was enabled. Please delete it and re-import it with a password to enable wallet switching.'
             )
@@ -361,17 +499,36 @@ export const useWalletStore = create<WalletStore>()(
             throw new Error('Password is required to switch wallets')
           }
 
-          const mnemonic = await decryptWithPassword(
-            walletMetadata.encryptedMnemonic,
-            passwordToUse
-          )
-
-          const wallet = await get().importWallet(
-            mnemonic,
-            walletMetadata.nickname,
-            passwordToUse,
-            { skipClearTXOs: true }
-          )
+          let wallet: RailgunWallet
+          if (walletMetadata.watchOnly) {
+            const keys = JSON.parse(
+              await decryptWithPassword(walletMetadata.encryptedViewingKeys!, passwordToUse)
+            ) as WatchOnlyKeys
+            wallet = await get().importWatchOnlyWallet(
+              walletMetadata.address,
+              keys.viewingKey,
+              keys.nullifyingKey,
+              walletMetadata.nickname,
+              passwordToUse,
+              {
+                skipClearTXOs: true,
+                ...(walletMetadata.scanStartBlocks && {
+                  scanStartBlocks: walletMetadata.scanStartBlocks,
+                }),
+              }
+            )
+          } else {
+            const mnemonic = await decryptWithPassword(
+              walletMetadata.encryptedMnemonic,
+              passwordToUse
+            )
+            const passphrase = await decryptPassphrase(walletMetadata, passwordToUse)
+            wallet = await get().importWallet(mnemonic, walletMetadata.nickname, passwordToUse, {
+              skipClearTXOs: true,
+              derivationIndex: walletMetadata.derivationIndex ?? 0,
+              ...(passphrase && { passphrase }),
+            })
+          }
 
           if (wallet.id !== walletId) {
             throw new Error('Wallet ID mismatch')
@@ -414,14 +571,10 @@ export const useWalletStore = create<WalletStore>()(
           }
 
           // Clear all cached data for this wallet
-          for (const key of Object.keys(localStorage)) {
-            if (key.startsWith(`wallet:${walletId}:`)) {
-              localStorage.removeItem(key)
-            }
-          }
+          removeCacheItemsWithPrefix(`wallet:${walletId}:`)
 
           try {
-            BalanceScanner.getInstance().clearStoredTXOs(walletId)
+            BalanceScannerRouter.getInstance().clearStoredTXOs(walletId)
           } catch (e) {
             dwarn('Could not clear TXO cache:', e)
           }
@@ -490,26 +643,34 @@ export const useWalletStore = create<WalletStore>()(
 
         // Decrypt all mnemonics first to validate the current password.
         // If any wallet fails, abort before writing anything.
-        const decrypted: { index: number; mnemonic: string }[] = []
+        const decrypted: { index: number; secret: string; passphrase: string | undefined }[] = []
         for (let i = 0; i < savedWallets.length; i++) {
           const w = savedWallets[i]!
           try {
-            const mnemonic = await decryptWithPassword(w.encryptedMnemonic, currentPassword)
-            decrypted.push({ index: i, mnemonic })
+            const secret = await decryptWithPassword(getEncryptedSecret(w), currentPassword)
+            const passphrase = await decryptPassphrase(w, currentPassword)
+            decrypted.push({ index: i, secret, passphrase })
           } catch {
             throw new Error('Current password is incorrect.')
           }
         }
 
         const updatedWallets = [...savedWallets]
-        for (const { index, mnemonic } of decrypted) {
-          updatedWallets[index] = {
-            ...updatedWallets[index]!,
-            encryptedMnemonic: await encryptWithPassword(mnemonic, newPassword),
+        for (const { index, secret, passphrase } of decrypted) {
+          const encrypted = await encryptWithPassword(secret, newPassword)
+          updatedWallets[index] = updatedWallets[index]!.watchOnly
+            ? { ...updatedWallets[index]!, encryptedViewingKeys: encrypted }
+            : { ...updatedWallets[index]!, encryptedMnemonic: encrypted }
+          if (passphrase) {
+            updatedWallets[index]!.encryptedPassphrase = await encryptWithPassword(
+              passphrase,
+              newPassword
+            )
           }
         }
 
         localStorage.setItem('railgun-wallets', JSON.stringify(updatedWallets))
+        await rekeyEncryptedCache(newPassword)
         set({ savedWallets: updatedWallets, sessionPassword: newPassword })
       },
 
@@ -526,7 +687,7 @@ export const useWalletStore = create<WalletStore>()(
           const walletMetadata = savedWallets.find((w) => w.id === walletId)
           if (!walletMetadata) return false
 
-          return await validatePassword(walletMetadata.encryptedMnemonic, sessionPassword)
+          return await validatePassword(getEncryptedSecret(walletMetadata), sessionPassword)
         } catch {
           return false
         }
@@ -538,7 +699,9 @@ export const useWalletStore = create<WalletStore>()(
       lockWallet: () => {
         secureLog.log('Locking wallet - clearing all sensitive data from memory')
 
+        scanAbortController?.abort()
         TokenService.getInstance().clearHiddenTokensCache()
+        lockEncryptedCache()
         resetRateLimit()
 
         set((state) => {
@@ -570,12 +733,17 @@ export const useWalletStore = create<WalletStore>()(
           throw new Error('Wallet not found')
         }
 
+        if (walletMetadata.watchOnly) {
+          throw new Error('Watch-only wallets cannot pay for gas')
+        }
+
         if (!walletMetadata.encryptedMnemonic) {
           throw new Error('This wallet does not have an encrypted mnemonic')
         }
 
         // Validate password by attempting decryption (throws on wrong password)
         const mnemonic = await decryptWithPassword(walletMetadata.encryptedMnemonic, password)
+        const passphrase = await decryptPassphrase(walletMetadata, password)
 
         if (unlockedGasWallets.some((w) => w.id === walletId)) {
           return
@@ -586,6 +754,8 @@ export const useWalletStore = create<WalletStore>()(
           nickname: walletMetadata.nickname,
           ethereumAddress: walletMetadata.ethereumAddress,
           mnemonic,
+          derivationIndex: walletMetadata.derivationIndex ?? 0,
+          ...(passphrase && { passphrase }),
         }
 
         set({ unlockedGasWallets: [...unlockedGasWallets, gasWallet] })
@@ -636,11 +806,16 @@ export const useWalletStore = create<WalletStore>()(
        * Generate a new mnemonic and create a wallet from it.
        * @param nickname - Optional display name for the wallet.
        * @param password - Optional password to encrypt the mnemonic.
+       * @param passphrase - Optional BIP39 passphrase protecting the new mnemonic.
        * @returns The newly created RAILGUN wallet.
        */
-      createWallet: async (nickname?: string, password?: string): Promise<RailgunWallet> => {
+      createWallet: async (
+        nickname?: string,
+        password?: string,
+        passphrase?: string
+      ): Promise<RailgunWallet> => {
         const mnemonic = cryptoGenerateMnemonic()
-        return get().importWallet(mnemonic, nickname, password)
+        return get().importWallet(mnemonic, nickname, password, passphrase ? { passphrase } : undefined)
       },
 
       /**
@@ -650,39 +825,27 @@ export const useWalletStore = create<WalletStore>()(
        * @param password - Optional password to encrypt and persist the mnemonic.
        * @param options - Optional import settings.
        * @param options.skipClearTXOs - Skip clearing TXO cache (used during wallet switching).
+       * @param options.derivationIndex - Account index within the mnemonic (defaults to 0).
+       * @param options.passphrase - Optional BIP39 passphrase used with the mnemonic.
        * @returns The imported RAILGUN wallet.
        */
       importWallet: async (
         mnemonic: string,
         nickname?: string,
         password?: string,
-        options?: { skipClearTXOs?: boolean }
+        options?: { skipClearTXOs?: boolean; derivationIndex?: number; passphrase?: string }
       ): Promise<RailgunWallet> => {
         try {
           if (!validateMnemonic(mnemonic)) {
             throw new Error('Invalid mnemonic phrase')
           }
 
-          const derivationIndex = 0
-          const keys = await deriveRailgunKeys(mnemonic, derivationIndex)
-
-          const railgunAddress = generateRailgunAddress(keys.masterPublicKey, keys.viewingPublicKey)
-
-          const ethereumAddress = getEthereumAddress(mnemonic, derivationIndex)
-
-          const railgunWallet: RailgunWallet = {
-            id: ethers.id(railgunAddress),
-            address: railgunAddress,
-            viewingKey: ByteUtils.hexlify(keys.viewingKey),
-            spendingKey: ByteUtils.hexlify(keys.spendingKey),
-            nullifyingKey: keys.nullifyingKey.toString(),
-            masterPublicKey: keys.masterPublicKey.toString(),
+          const railgunWallet = await deriveWalletFromMnemonic(
             mnemonic,
-            derivationIndex,
-            ethereumAddress,
-            createdAt: Date.now(),
-            ...(nickname && { nickname }),
-          }
+            options?.derivationIndex ?? 0,
+            nickname,
+            options?.passphrase || undefined
+          )
 
           set({
             currentWallet: railgunWallet,
@@ -693,6 +856,7 @@ export const useWalletStore = create<WalletStore>()(
 
           if (password) {
             set({ sessionPassword: password })
+            await unlockCachesForSession(password)
             await get().saveWalletMetadata(railgunWallet, password)
           } else {
             const { sessionPassword } = get()
@@ -703,7 +867,7 @@ export const useWalletStore = create<WalletStore>()(
 
           if (!options?.skipClearTXOs) {
             try {
-              BalanceScanner.getInstance().clearStoredTXOs(railgunWallet.id)
+              BalanceScannerRouter.getInstance().clearStoredTXOs(railgunWallet.id)
             } catch (e) {
               dwarn('Could not clear TXO cache for new wallet:', e)
             }
@@ -716,6 +880,340 @@ export const useWalletStore = create<WalletStore>()(
         }
       },
 
+      /**
+       * Derive another account from a saved wallet's mnemonic and save it without switching to it.
+       * @param sourceWalletId - A saved wallet whose mnemonic is reused.
+       * @param derivationIndex - The account index to derive.
+       * @param nickname - Optional display name for the new account.
+       * @returns The derived account.
+       */
+      addAccount: async (
+        sourceWalletId: string,
+        derivationIndex: number,
+        nickname?: string
+      ): Promise<RailgunWallet> => {
+        const { savedWallets, sessionPassword } = get()
+        const source = savedWallets.find((w) => w.id === sourceWalletId)
+        if (!source || source.watchOnly || !source.encryptedMnemonic) {
+          throw new Error('Accounts can only be added from a wallet with a seed phrase')
+        }
+        if (!sessionPassword) {
+          throw new Error('Password is required to add an account')
+        }
+        if (!Number.isInteger(derivationIndex) || derivationIndex < 0) {
+          throw new Error('Account index must be a non-negative integer')
+        }
+
+        const mnemonic = await decryptWithPassword(source.encryptedMnemonic, sessionPassword)
+        const passphrase = await decryptPassphrase(source, sessionPassword)
+        const account = await deriveWalletFromMnemonic(
+          mnemonic,
+          derivationIndex,
+          nickname || `${source.nickname} #${derivationIndex}`,
+          passphrase
+        )
+
+        if (savedWallets.some((w) => w.id === account.id)) {
+          throw new Error(`Account #${derivationIndex} is already saved`)
+        }
+
+        await get().saveWalletMetadata(account, sessionPassword)
+        return account
+      },
+
+      /**
+       * Search a saved wallet's mnemonic for derivation indices with on-chain history.
+       * @param sourceWalletId - A saved wallet whose mnemonic is searched.
+       * @param options - Optional search limits.
+       * @param onProgress - Optional callback with the index currently being checked.
+       * @returns The used accounts found on the current network.
+       */
+      discoverAccounts: async (
+        sourceWalletId: string,
+        options?: AccountDiscoveryOptions,
+        onProgress?: (derivationIndex: number) => void
+      ): Promise<DiscoveredAccount[]> => {
+        const { savedWallets, sessionPassword, currentNetwork } = get()
+        const source = savedWallets.find((w) => w.id === sourceWalletId)
+        if (!source || source.watchOnly || !source.encryptedMnemonic) {
+          throw new Error('Accounts can only be discovered for a wallet with a seed phrase')
+        }
+        if (!sessionPassword) {
+          throw new Error('Password is required to discover accounts')
+        }
+
+        const mnemonic = await decryptWithPassword(source.encryptedMnemonic, sessionPassword)
+        const passphrase = await decryptPassphrase(source, sessionPassword)
+        return AccountDiscoveryService.getInstance().discoverAccounts(
+          mnemonic,
+          currentNetwork,
+          new ethers.JsonRpcProvider(getEffectiveRpcUrl(currentNetwork)),
+          { ...options, ...(passphrase && { passphrase }) },
+          onProgress
+        )
+      },
+
+      /**
+       * Import a watch-only wallet from a 0zk address and its viewing and nullifying keys.
+       * The wallet can scan balances and history but has no spending key or 0x account.
+       * @param address - The 0zk address to watch.
+       * @param viewingKey - The private viewing key (hex).
+       * @param nullifyingKey - The nullifying key (decimal or 0x hex).
+       * @param nickname - Optional display name for the wallet.
+       * @param password - Optional password to encrypt and persist the keys.
+       * @param options - Optional import settings.
+       * @param options.skipClearTXOs - Skip clearing TXO cache (used during wallet switching).
+       * @param options.scanStartBlocks - First block worth scanning on each network.
+       * @returns The imported watch-only wallet.
+       */
+      importWatchOnlyWallet: async (
+        address: string,
+        viewingKey: string,
+        nullifyingKey: string,
+        nickname?: string,
+        password?: string,
+        options?: {
+          skipClearTXOs?: boolean
+          scanStartBlocks?: Partial<Record<NetworkName, number>>
+        }
+      ): Promise<RailgunWallet> => {
+        try {
+          const trimmedAddress = address.trim()
+          const keys = await verifyWatchOnlyKeys(trimmedAddress, viewingKey, nullifyingKey)
+
+          // Wallet IDs derive from the 0zk address, so a watch-only copy would replace a full wallet
+          const existing = get().savedWallets.find((w) => w.id === ethers.id(trimmedAddress))
+          if (existing && !existing.watchOnly) {
+            throw new Error('This address is already saved as a full wallet')
+          }
+
+          const railgunWallet: RailgunWallet = {
+            id: ethers.id(trimmedAddress),
+            address: trimmedAddress,
+            viewingKey: keys.viewingKey,
+            spendingKey: '',
+            nullifyingKey: keys.nullifyingKey,
+            masterPublicKey: keys.masterPublicKey,
+            derivationIndex: 0,
+            ethereumAddress: '',
+            createdAt: Date.now(),
+            watchOnly: true,
+            ...(options?.scanStartBlocks && { scanStartBlocks: options.scanStartBlocks }),
+            ...(nickname && { nickname }),
+          }
+
+          // Watch-only wallets have no 0x account, so only the private view applies
+          set({
+            currentWallet: railgunWallet,
+            isInitialized: true,
+            balanceMode: 'private',
+          })
+
+          localStorage.setItem('railgun-last-wallet-id', railgunWallet.id)
+
+          const passwordToUse = password || get().sessionPassword
+          if (password) {
+            set({ sessionPassword: password })
+            await unlockCachesForSession(password)
+          }
+          if (passwordToUse) {
+            await get().saveWalletMetadata(railgunWallet, passwordToUse)
+          }
+
+          if (!options?.skipClearTXOs) {
+            try {
+              BalanceScannerRouter.getInstance().clearStoredTXOs(railgunWallet.id)
+            } catch (e) {
+              dwarn('Could not clear TXO cache for new wallet:', e)
+            }
+          }
+
+          return railgunWallet
+        } catch (error) {
+          console.error('Error importing watch-only wallet:', error)
+          throw error
+        }
+      },
+
+      /**
+       * Open an encrypted viewing key bundle and add it as a watch-only wallet on the bundle's network.
+       * @param bundle - The bundle string produced by a wallet's viewing key export.
+       * @param bundlePassword - The password the bundle was encrypted with.
+       * @param nickname - Optional display name for the wallet.
+       * @param password - Optional password to encrypt and persist the keys locally.
+       * @returns The imported watch-only wallet.
+       */
+      importViewingKeyBundle: async (
+        bundle: string,
+        bundlePassword: string,
+        nickname?: string,
+        password?: string
+      ): Promise<RailgunWallet> => {
+        const contents = await decryptViewingKeyBundle(bundle, bundlePassword)
+
+        if (get().currentNetwork !== contents.network) {
+          get().setCurrentNetwork(contents.network)
+        }
+
+        return get().importWatchOnlyWallet(
+          contents.address,
+          contents.viewingKey,
+          contents.nullifyingKey,
+          nickname,
+          password,
+          { scanStartBlocks: { [contents.network]: contents.scanStartBlock } }
+        )
+      },
+
+      /**
+       * Export every saved wallet and its local data as a password-encrypted backup file.
+       * @param backupPassword - The password that will protect the backup.
+       * @returns The backup file contents.
+       */
+      exportBackup: async (backupPassword: string): Promise<string> => {
+        const { savedWallets, sessionPassword } = get()
+        if (!sessionPassword) {
+          throw new Error('Unlock your wallets before creating a backup')
+        }
+        if (!savedWallets.length) {
+          throw new Error('No wallets saved')
+        }
+
+        const wallets: BackupWallet[] = []
+        for (const w of savedWallets) {
+          const secret = await decryptWithPassword(getEncryptedSecret(w), sessionPassword)
+          const passphrase = await decryptPassphrase(w, sessionPassword)
+          const watchOnlyKeys = w.watchOnly ? (JSON.parse(secret) as WatchOnlyKeys) : null
+          wallets.push({
+            id: w.id,
+            nickname: w.nickname,
+            address: w.address,
+            ethereumAddress: w.ethereumAddress,
+            createdAt: w.createdAt,
+            ...(w.derivationIndex && { derivationIndex: w.derivationIndex }),
+            ...(w.scanStartBlocks && { scanStartBlocks: w.scanStartBlocks }),
+            ...(watchOnlyKeys
+              ? { watchOnly: true, ...watchOnlyKeys }
+              : { mnemonic: secret, ...(passphrase && { passphrase }) }),
+          })
+        }
+
+        return WalletBackupService.getInstance().createBackup(
+          wallets,
+          sessionPassword,
+          backupPassword
+        )
+      },
+
+      /**
+       * Restore wallets and their local data from a backup file.
+       * Restored secrets are re-encrypted with the current session password, or with the
+       * backup password when no wallets exist yet.
+       * @param contents - The backup file contents.
+       * @param backupPassword - The password protecting the backup.
+       * @param mode - 'merge' keeps existing data on conflict; 'overwrite' lets the backup win.
+       * Wallets and data missing from the backup are kept in both modes.
+       * @returns What was restored and every conflict found.
+       */
+      restoreBackup: async (
+        contents: string,
+        backupPassword: string,
+        mode: BackupRestoreMode
+      ): Promise<BackupRestoreReport> => {
+        const { savedWallets, sessionPassword, currentWallet, currentNetwork } = get()
+        if (savedWallets.length > 0 && !sessionPassword) {
+          throw new Error('Unlock your wallets before restoring a backup')
+        }
+        const walletPassword = sessionPassword || backupPassword
+
+        const backupService = WalletBackupService.getInstance()
+        const payload = await backupService.readBackup(contents, backupPassword)
+
+        const updatedWallets = [...savedWallets]
+        const walletConflicts: BackupConflict[] = []
+        let walletsAdded = 0
+        let walletsUpdated = 0
+
+        for (const backupWallet of payload.wallets) {
+          const metadata: SavedWalletMetadata = {
+            id: backupWallet.id,
+            nickname: backupWallet.nickname,
+            address: backupWallet.address,
+            ethereumAddress: backupWallet.ethereumAddress,
+            createdAt: backupWallet.createdAt,
+            encryptedMnemonic: '',
+            ...(backupWallet.derivationIndex && { derivationIndex: backupWallet.derivationIndex }),
+            ...(backupWallet.scanStartBlocks && { scanStartBlocks: backupWallet.scanStartBlocks }),
+          }
+          if (backupWallet.watchOnly) {
+            const keys: WatchOnlyKeys = {
+              viewingKey: backupWallet.viewingKey || '',
+              nullifyingKey: backupWallet.nullifyingKey || '',
+            }
+            metadata.watchOnly = true
+            metadata.encryptedViewingKeys = await encryptWithPassword(
+              JSON.stringify(keys),
+              walletPassword
+            )
+          } else {
+            if (!backupWallet.mnemonic) continue
+            metadata.encryptedMnemonic = await encryptWithPassword(
+              backupWallet.mnemonic,
+              walletPassword
+            )
+            if (backupWallet.passphrase) {
+              metadata.encryptedPassphrase = await encryptWithPassword(
+                backupWallet.passphrase,
+                walletPassword
+              )
+            }
+          }
+
+          const existingIndex = updatedWallets.findIndex((w) => w.id === backupWallet.id)
+          if (existingIndex < 0) {
+            updatedWallets.push(metadata)
+            walletsAdded++
+            continue
+          }
+
+          const existing = updatedWallets[existingIndex]!
+          const differs =
+            existing.nickname !== metadata.nickname || !!existing.watchOnly !== !!metadata.watchOnly
+          if (differs) {
+            walletConflicts.push({
+              category: 'wallet',
+              key: `${existing.nickname} (${existing.address.slice(0, 12)}...)`,
+              resolution: mode === 'overwrite' ? 'replaced' : 'kept-existing',
+            })
+          }
+          if (mode === 'overwrite') {
+            updatedWallets[existingIndex] = metadata
+            walletsUpdated++
+          }
+        }
+
+        localStorage.setItem('railgun-wallets', JSON.stringify(updatedWallets))
+        set({ savedWallets: updatedWallets, isPasswordSet: true })
+
+        // Restored notes and sent outputs live in the encrypted cache, which must be open to write
+        await unlockCachesForSession(walletPassword)
+        const report = await backupService.restoreData(payload, mode, walletPassword)
+        if (currentWallet) {
+          await TokenService.getInstance().loadHiddenTokens(
+            currentWallet.id,
+            currentNetwork,
+            walletPassword
+          )
+        }
+
+        return {
+          ...report,
+          walletsAdded,
+          walletsUpdated,
+          conflicts: [...walletConflicts, ...report.conflicts],
+        }
+      },
+
       /**
        * Refresh token balances and transaction history for the current wallet and balance mode.
        */
@@ -741,6 +1239,7 @@ export const useWalletStore = create<WalletStore>()(
           }
         } catch {}
 
+        const signal = beginScan()
         try {
           set({ isSyncing: true })
 
@@ -751,6 +1250,7 @@ export const useWalletStore = create<WalletStore>()(
             secureLog.log('Fetching PRIVATE balances via BalanceScanner (manual)')
 
             const scanner = BalanceScanner.getInstance()
+            const router = BalanceScannerRouter.getInstance()
             // Load cached balances instantly (no network)
             try {
               const cachedBalances = await scanner.getBalancesFromStoredTXOs(
@@ -763,27 +1263,36 @@ export const useWalletStore = create<WalletStore>()(
               }
             } catch {}
 
-            // Incremental scan for new commitments
-            balances = await scanner.scanBalances(currentWallet, currentNetwork, () => {}, {
-              incremental: true,
-            })
+            // Incremental scan for new commitments, from the indexer or RPC per the network's policy
+            balances = await router.scanBalances(
+              currentWallet,
+              currentNetwork,
+              (progress) => set({ scanProgress: progress }),
+              { incremental: true, signal }
+            )
 
-            // Fetch transaction history using scanned TXOs
-            try {
-              secureLog.log('Fetching transaction history using scanned TXOs...')
-              const transactionHistoryService = TransactionHistoryService.getInstance()
-              const cachedNullifiers = scanner.cachedNullifiers.get(currentNetwork)
-              const result = await transactionHistoryService.getTransactionHistory(
-                currentWallet,
-                currentNetwork,
-                scanner,
-                0,
-                50,
-                cachedNullifiers
-              )
-              transactions = result.transactions.sort((a, b) => b.timestamp - a.timestamp)
-            } catch (txError) {
-              console.error('Error fetching transactions during balance refresh:', txError)
+            // Fetch transaction history using scanned TXOs; it needs the indexer
+            const servedByIndexer =
+              router.getScanner(currentWallet.id, currentNetwork).source === 'indexer'
+            if (servedByIndexer) {
+              try {
+                secureLog.log('Fetching transaction history using scanned TXOs...')
+                const transactionHistoryService = TransactionHistoryService.getInstance()
+                const cachedNullifiers = scanner.cachedNullifiers.get(currentNetwork)
+                const result = await transactionHistoryService.getTransactionHistory(
+                  currentWallet,
+                  currentNetwork,
+                  scanner,
+                  0,
+                  50,
+                  cachedNullifiers
+                )
+                transactions = result.transactions.sort((a, b) => b.timestamp - a.timestamp)
+              } catch (txError) {
+                console.error('Error fetching transactions during balance refresh:', txError)
+              }
+            } else {
+              dlog('Skipping transaction history: balances were scanned over RPC')
             }
           } else {
             const publicBalanceService = PublicBalanceService.getInstance()
@@ -819,15 +1328,40 @@ export const useWalletStore = create<WalletStore>()(
             transactions,
             lastBalanceUpdate: Date.now(),
             isSyncing: false,
+            scanProgress: null,
           })
           try {
             get().saveWalletScopedState()
           } catch {}
           get().loadCachedPOIStatus()
+
+          // Only indexer data needs verifying; RPC scans read the contract directly
+          const scannedSource = BalanceScannerRouter.getInstance().getScanner(
+            currentWallet.id,
+            currentNetwork
+          ).source
+          if (
+            balanceMode === 'private' &&
+            scannedSource === 'indexer' &&
+            useSettingsStore.getState().verifyIndexerData
+          ) {
+            set({ isVerifyingIndexer: true })
+            IndexerVerificationService.getInstance()
+              .verifyWalletData(currentWallet, currentNetwork)
+              .then((result) => set({ indexerVerification: result }))
+              .catch((error) => dwarn('Indexer verification failed:', error))
+              .finally(() => set({ isVerifyingIndexer: false }))
+          }
         } catch (error) {
+          if (signal.aborted) {
+            secureLog.log('Balance scan cancelled')
+            set({ isSyncing: false, scanProgress: null })
+            return
+          }
           console.error('Error refreshing balances:', error)
           set({
             isSyncing: false,
+            scanProgress: null,
             lastError: error instanceof Error ? error.message : 'Unknown error',
           })
         }
@@ -840,45 +1374,52 @@ export const useWalletStore = create<WalletStore>()(
         const { currentWallet, currentNetwork, balanceMode } = get()
         if (!currentWallet) return
 
+        const signal = beginScan()
+        /**
+         * Report scan progress to the UI.
+         * @param progress - Scan progress from 0 to 1.
+         */
+        const onProgress = (progress: number) => {
+          set({ scanProgress: progress })
+        }
         try {
           set({ isSyncing: true })
 
           if (balanceMode === 'private') {
             secureLog.log('Force rescanning PRIVATE balances - clearing caches')
 
-            const scanner = BalanceScanner.getInstance()
-            scanner.clearStoredTXOs(currentWallet.id)
+            const router = BalanceScannerRouter.getInstance()
+            router.clearStoredTXOs(currentWallet.id)
 
-            try {
-              await scanner.scanBalances(currentWallet, currentNetwork, () => {}, {
-                incremental: false,
-              })
-            } catch (balanceScannerError) {
-              dwarn(
-                'BalanceScanner force rescan failed, falling back to OnChainBalanceScanner:',
-                balanceScannerError
-              )
-
-              const onChainScanner = OnChainBalanceScanner.getInstance()
-              const provider = new ethers.JsonRpcProvider(getEffectiveRpcUrl(currentNetwork))
-
-              await onChainScanner.scanBalances(currentWallet, currentNetwork, () => {}, {
-                provider,
-              })
-            }
+            // The router fails over to RPC when the network's policy allows it
+            await router.scanBalances(currentWallet, currentNetwork, onProgress, {
+              incremental: false,
+              signal,
+            })
 
             await get().refreshBalances()
           } else {
             await get().refreshBalances()
           }
         } catch (error) {
+          if (signal.aborted) {
+            secureLog.log('Balance rescan cancelled')
+            return
+          }
           console.error('Error in force rescan:', error)
           set({ lastError: error instanceof Error ? error.message : 'Force rescan failed' })
         } finally {
-          set({ isSyncing: false })
+          set({ isSyncing: false, scanProgress: null })
         }
       },
 
+      /**
+       * Cancel the balance scan in progress.
+       */
+      cancelScan: () => {
+        scanAbortController?.abort()
+      },
+
       /**
        * Reset the wallet state to defaults and remove persisted data from localStorage.
        */
@@ -911,14 +1452,16 @@ export const useWalletStore = create<WalletStore>()(
         if (!currentWallet) return
 
         try {
-          const scanner = BalanceScanner.getInstance()
           const poiService = POIService.getInstance()
 
-          const commitments = scanner.getDecryptedCommitmentsForWallet(currentWallet.id)
+          const commitments = BalanceScannerRouter.getInstance().getDecryptedCommitmentsForWallet(
+            currentWallet.id,
+            currentNetwork
+          )
           const unspent = commitments.filter((c) => !c.isSpent && !c.isSentToOther)
 
           const commitmentData = unspent.map((c) => ({
-            blindedCommitment: scanner.blindedCommitmentOf(c),
+            blindedCommitment: blindedCommitmentOf(c),
             type: (c.commitmentType === 'ShieldCommitment' ? 'Shield' : 'Transact') as
               | 'Shield'
               | 'Transact'
@@ -968,17 +1511,19 @@ export const useWalletStore = create<WalletStore>()(
        * @returns The number of unvalidated or non-valid commitments.
        */
       getUncheckedPOICount: () => {
-        const { currentWallet, commitmentPOIStatus, transactions } = get()
+        const { currentWallet, currentNetwork, commitmentPOIStatus, transactions } = get()
         if (!currentWallet) return 0
 
         const unchecked = new Set<string>()
 
         try {
-          const scanner = BalanceScanner.getInstance()
-          const commitments = scanner.getDecryptedCommitmentsForWallet(currentWallet.id)
+          const commitments = BalanceScannerRouter.getInstance().getDecryptedCommitmentsForWallet(
+            currentWallet.id,
+            currentNetwork
+          )
           for (const c of commitments) {
             if (c.isSpent || c.isSentToOther) continue
-            const bc = scanner.blindedCommitmentOf(c)
+            const bc = blindedCommitmentOf(c)
             const status = commitmentPOIStatus[bc]
             if (!status || status.status !== 'valid') {
               unchecked.add(bc)
@@ -1008,10 +1553,12 @@ export const useWalletStore = create<WalletStore>()(
         set({ isCheckingPOI: true, poiCheckProgress: { checked: 0, total: 0 } })
 
         try {
-          const scanner = BalanceScanner.getInstance()
           const poiService = POIService.getInstance()
 
-          const commitments = scanner.getDecryptedCommitmentsForWallet(currentWallet.id)
+          const commitments = BalanceScannerRouter.getInstance().getDecryptedCommitmentsForWallet(
+            currentWallet.id,
+            currentNetwork
+          )
           const unspent = commitments.filter((c) => !c.isSpent && !c.isSentToOther)
 
           const currentStatus = get().commitmentPOIStatus
@@ -1021,7 +1568,7 @@ export const useWalletStore = create<WalletStore>()(
           }> = []
 
           for (const c of unspent) {
-            const bc = scanner.blindedCommitmentOf(c)
+            const bc = blindedCommitmentOf(c)
             const existing = currentStatus[bc]
             if (!existing || existing.status !== 'valid') {
               poiService.clearCommitmentCache(currentNetwork, bc)
@@ -1289,6 +1836,9 @@ export const useWalletStore = create<WalletStore>()(
         if (!currentWallet) {
           throw new Error('No wallet available')
         }
+        if (currentWallet.watchOnly) {
+          throw new Error('Watch-only wallets cannot sign transactions')
+        }
 
         try {
           set({ isSyncing: true })
@@ -1297,7 +1847,11 @@ export const useWalletStore = create<WalletStore>()(
           const shieldService = ShieldTransactionService.getInstance()
 
           secureLog.log('Creating and simulating approval transaction...')
-          const signer = ethers.Wallet.fromPhrase(currentWallet.mnemonic!).connect(provider)
+          const signer = getEthereumWallet(
+            currentWallet.mnemonic!,
+            currentWallet.derivationIndex,
+            currentWallet.passphrase
+          ).connect(provider)
           const approvalTx = await shieldService.createTokenApprovalTransaction(
             tokenAddress,
             amount || ethers.MaxUint256.toString(),
@@ -1,5 +1,6 @@
 export type { Chain, AddressData, CommitmentCiphertextStruct } from './core'
 export type {
+  FeeSpeed,
   NetworkConfig,
 } from './network'
 export {
@@ -25,6 +25,15 @@ interface NetworkConfig {
   }
 }
 
+// Fee tier picked by the user: how much priority fee and base fee headroom a transaction pays
+type FeeSpeed = 'slow' | 'standard' | 'fast'
+
+/**
+ * Where private balances are scanned from: the Subsquid indexer, the RAILGUN contract's events
+ * over RPC, or the indexer with RPC as the fallback when it fails.
+ */
+type ScannerPolicy = 'indexer-first' | 'rpc-only' | 'auto-failover'
+
 const NETWORK_CONFIG: Record<NetworkName, NetworkConfig> = {
   [NetworkName.EthereumSepolia]: {
     chainId: 11155111,
@@ -135,7 +144,7 @@ enum BalanceBucket {
   Spent = 'Spent',
 }
 
-export type { NetworkConfig }
+export type { FeeSpeed, NetworkConfig, ScannerPolicy }
 export {
   NetworkName,
   NETWORK_CONFIG,
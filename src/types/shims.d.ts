@@ -13,6 +13,7 @@ declare module 'snarkjs' {
       witness: Record<string, unknown>,
       wasm: string | Uint8Array,
       zkey: string | Uint8Array,
+      logger?: object,
     ) => Promise<{ proof: any; publicSignals: string[] }>
     verify: (
       vkey: object,
@@ -1,4 +1,4 @@
-import type { BalanceBucket, NetworkName } from '@/types/network'
+import type { BalanceBucket, FeeSpeed, NetworkName } from '@/types/network'
 
 // Core wallet types for minimal implementation
 
@@ -26,14 +26,17 @@ interface RailgunWallet {
   id: string
   address: string // 0zk address
   viewingKey: string
-  spendingKey: string
+  spendingKey: string // Empty for watch-only wallets
   nullifyingKey: string // For nullifier generation (required)
   masterPublicKey: string
   mnemonic?: string // Optional for imported wallets
+  passphrase?: string // BIP39 passphrase ("25th word"), if the mnemonic uses one
   derivationIndex: number
-  ethereumAddress: string
+  ethereumAddress: string // Empty for watch-only wallets (no 0x key without a mnemonic)
   createdAt: number
   nickname?: string
+  watchOnly?: boolean // Imported from viewing + nullifying keys: can scan, cannot spend
+  scanStartBlocks?: Partial<Record<NetworkName, number>> // First block worth scanning, per network
 }
 
 // Metadata for saved wallets (stored in localStorage)
@@ -43,7 +46,20 @@ interface SavedWalletMetadata {
   address: string // 0zk address (first 20 chars for display)
   ethereumAddress: string // 0x address
   createdAt: number
-  encryptedMnemonic: string // AES encrypted mnemonic
+  encryptedMnemonic: string // AES encrypted mnemonic (empty for watch-only wallets)
+  encryptedPassphrase?: string // AES encrypted BIP39 passphrase (absent when none is used)
+  watchOnly?: boolean
+  encryptedViewingKeys?: string // AES encrypted WatchOnlyKeys JSON (watch-only wallets only)
+  scanStartBlocks?: Partial<Record<NetworkName, number>>
+  derivationIndex?: number // Account index within the mnemonic (0 when absent)
+}
+
+/**
+ * Keys that let a watch-only wallet decrypt notes and detect spends without spending power.
+ */
+interface WatchOnlyKeys {
+  viewingKey: string // Private viewing key (hex)
+  nullifyingKey: string // Nullifying key (decimal)
 }
 
 /**
@@ -56,6 +72,8 @@ interface GasPayerWallet {
   nickname: string
   ethereumAddress: string
   mnemonic: string
+  derivationIndex?: number
+  passphrase?: string
 }
 
 interface TokenBalance {
@@ -107,6 +125,16 @@ interface DetailedTransaction {
   version: number
   walletSource?: string
 
+  // Per-recipient breakdown for sends with more than one recipient output
+  recipients?: Array<{
+    recipientAddress: string
+    tokenAddress: string
+    symbol: string
+    amount: bigint
+    decimals: number
+    memoText?: string
+  }>
+
   // Local metadata (stored off-chain, not available from blockchain)
   metadata?: {
     recipientAddress?: string // 0zk address of recipient (for sent transactions)
@@ -115,6 +143,7 @@ interface DetailedTransaction {
     tags?: string[] // Custom tags
     senderMasterPublicKey?: string // Sender's MPK (for received transactions, extracted from decrypted note)
     senderAddress?: string // Reconstructed full 0zk address of sender (for received transactions in normal mode)
+    senderHidden?: boolean // Sender chose to hide their address (for received transactions in hidden-sender mode)
   }
 }
 
@@ -238,6 +267,7 @@ type SubsquidCommitment =
 interface SubsquidNullifier {
   id: string
   nullifier: string
+  treeNumber: number
   blockNumber: number
   transactionHash: string
   blockTimestamp: number
@@ -294,6 +324,7 @@ interface DecryptedCommitment {
   timestamp: number
   random: string
   senderMasterPublicKey?: string
+  senderAddressHidden?: boolean // True when the sender hid their 0zk address (unencoded MPK in note)
   blindedSenderViewingKey?: string
   isSentNote?: boolean
   isSentToOther?: boolean // True if this commitment was sent to another wallet (not change, not our UTXO)
@@ -304,6 +335,12 @@ interface DecryptedCommitment {
   poisPerList?: Record<string, 'Valid' | 'Invalid' | 'Missing' | 'ProofSubmitted' | 'ShieldBlocked'>
 }
 
+// Identifies a single note by its merkle tree location (used for manual coin control)
+interface UTXOReference {
+  treeNumber: number
+  position: number
+}
+
 // Token information from on-chain or cached data
 interface TokenInfo {
   address: string
@@ -317,6 +354,7 @@ interface ShieldTransactionParams {
   tokenAddress: string
   amount: string // Amount in token's smallest unit (wei for ETH, etc.)
   recipientRailgunAddress: string
+  feeSpeed?: FeeSpeed // defaults to 'standard'
 }
 
 export type {
@@ -325,6 +363,7 @@ export type {
   POICommitmentType,
   RailgunWallet,
   SavedWalletMetadata,
+  WatchOnlyKeys,
   GasPayerWallet,
   TokenBalance,
   DetailedTransaction,
@@ -340,6 +379,7 @@ export type {
   POIStatus,
   WalletState,
   DecryptedCommitment,
+  UTXOReference,
   TokenInfo,
   ShieldTransactionParams,
 }
@@ -0,0 +1,86 @@
+/**
+ * Blinded commitments identify notes to the PPOI node without revealing them.
+ * They depend only on a note's own fields, so notes from either balance scanner
+ * (indexer or RPC) produce the same value.
+ */
+
+import { ByteUtils } from './crypto'
+import { poseidon } from './poseidon'
+
+import { TREE_MAX_ITEMS } from '@/core/merkletrees/types'
+import type { DecryptedCommitment } from '@/types/wallet'
+
+/**
+ * Compute the blinded commitment for an unshield commitment using the railgunTxid.
+ * @param c - The decrypted unshield commitment
+ * @returns The blinded commitment as a lowercase 0x-prefixed hex string
+ */
+function blindedCommitmentForUnshield (c: DecryptedCommitment): string {
+  try {
+    // For unshield commitments, the blinded commitment is simply the railgunTxid
+    // formatted to 32 bytes (UINT_256) with 0x prefix
+    const railgunTxid = c.txid
+    if (!railgunTxid) {
+      console.error('Unshield commitment missing railgunTxid', c)
+      throw new Error('Unshield commitment missing railgunTxid')
+    }
+
+    // Format to 32 bytes with 0x prefix
+    const blinded = ByteUtils.formatToByteLength(railgunTxid, 32, true)
+
+    return blinded.toLowerCase()
+  } catch (err) {
+    console.error('Error computing unshield blinded commitment:', err)
+    // Fallback to txid if available
+    return ByteUtils.prefix0x(String(c.txid).toLowerCase())
+  }
+}
+
+/**
+ * Compute the blinded commitment for a shield or transact commitment using poseidon hash.
+ * @param c - The decrypted shield or transact commitment
+ * @returns The blinded commitment as a lowercase 0x-prefixed hex string
+ */
+function blindedCommitmentForShieldOrTransact (c: DecryptedCommitment): string {
+  try {
+    // Normalize commitment hash to a 32-byte 0x-hex string before hashing.
+    // Subsquid may return decimal field element or 0x-hex.
+    const commitmentHashHex = (() => {
+      const h = String(c.hash).trim()
+      if (h.startsWith('0x') || h.startsWith('0X')) {
+        // Ensure 32-byte padding
+        return ByteUtils.formatToByteLength(h, 32, true)
+      }
+      // Decimal string -> 32-byte hex
+      return ByteUtils.nToHex(BigInt(h), 32, true)
+    })()
+    const commitmentHashBig = ByteUtils.hexToBigInt(commitmentHashHex)
+    const npkBig = ByteUtils.hexToBigInt(c.npk)
+    // IMPORTANT: For receive-side TXOs (both Shield and Transact), we compute
+    // blinded commitments with the ACTUAL global UTXO position (tree, position).
+    // The pre-transaction constants are only used during proof generation for sent txs.
+    const globalTreePos = BigInt(c.treeNumber) * BigInt(TREE_MAX_ITEMS) + BigInt(c.position)
+    const blinded = poseidon([commitmentHashBig, npkBig, globalTreePos])
+    return ByteUtils.prefix0x(ByteUtils.nToHex(blinded, 32, true)).toLowerCase()
+  } catch {
+    // Fallback to commitment hash if calculation fails
+    return ByteUtils.prefix0x(String(c.hash).toLowerCase())
+  }
+}
+
+/**
+ * Compute the blinded commitment for any commitment type (Shield, Transact, or Unshield).
+ * @param c - The decrypted commitment to compute the blinded commitment for
+ * @returns The blinded commitment as a lowercase 0x-prefixed hex string
+ */
+function blindedCommitmentOf (c: DecryptedCommitment): string {
+  //  Unshield commitments use a different blinded commitment calculation
+  // Unshield: formatToByteLength(railgunTxid, UINT_256, true)
+  // Shield/Transact: poseidon([commitmentHash, npk, globalTreePosition])
+  if (c.commitmentType === 'UnshieldCommitment') {
+    return blindedCommitmentForUnshield(c)
+  }
+  return blindedCommitmentForShieldOrTransact(c)
+}
+
+export { blindedCommitmentForShieldOrTransact, blindedCommitmentOf }
@@ -0,0 +1,612 @@
+import { poseidon } from '@railgun-community/circomlibjs'
+
+import { decodeMemoText, decryptNoteAnnotationData } from '@/core/transact-note'
+import type { DecryptedCommitment, RailgunWallet, SubsquidCommitment } from '@/types/wallet'
+import { AES } from '@/utils/aes'
+import { ByteUtils } from '@/utils/crypto'
+import { dwarn } from '@/utils/debug'
+import { getSharedSymmetricKey } from '@/utils/railgun-crypto'
+import { reconstructReceiverAddress } from '@/utils/sender-address-reconstruction'
+
+/**
+ * Trial decryption of RAILGUN commitments.
+ *
+ * Pure functions with no storage or service dependencies, so they can run both on the
+ * main thread and inside the commitment decryption workers.
+ */
+
+/**
+ * The wallet keys needed to trial-decrypt commitments.
+ */
+type DecryptionKeys = Pick<RailgunWallet, 'viewingKey' | 'masterPublicKey'>
+
+/**
+ * Token data resolved from a token hash.
+ */
+type TokenData = { tokenAddress: string; tokenType: number; tokenSubID: string }
+
+/**
+ * Maps lowercase 0x-prefixed token hashes to their token data, built from shield preimages.
+ */
+type TokenHashIndex = Map<string, TokenData>
+
+interface DecryptedPreImage {
+  tokenAddress: string
+  tokenType: number
+  tokenSubID: string
+  value: bigint
+  npk: string
+  random: string
+  senderMasterPublicKey?: string // Sender's MPK from encrypted note (for received notes)
+  senderAddressHidden?: boolean // True when the sender chose to hide their address (received notes)
+  receiverMasterPublicKey?: string // Receiver's MPK decoded from encrypted note (for sent notes)
+  senderRandom?: string // Sender random from annotation data (needed for receiver address reconstruction)
+  memoText?: string // Decrypted memo from GCM ciphertext data[3]
+}
+
+/**
+ * Normalize tokenType string/number to numeric enum (ERC20=0, ERC721=1, ERC1155=2).
+ * @param t - The token type as a string name or numeric value
+ * @returns The normalized numeric token type
+ */
+function normalizeTokenType (t: string | number): number {
+  if (typeof t === 'number') return t
+  const s = String(t).toUpperCase()
+  if (s === 'ERC20') return 0
+  if (s === 'ERC721') return 1
+  if (s === 'ERC1155') return 2
+  const n = Number(t)
+  return Number.isFinite(n) ? n : 0
+}
+
+/**
+ * Compute the note public key as poseidon([masterPublicKey, random]).
+ * @param masterPublicKey - The master public key as a bigint
+ * @param random - The random value as a hex string
+ * @returns The computed note public key
+ */
+function getNotePublicKey (masterPublicKey: bigint, random: string): bigint {
+  return poseidon([masterPublicKey, ByteUtils.hexToBigInt(random)])
+}
+
+/**
+ * Try to decrypt a transact note using shared key.
+ * Decrypt TransactNote ciphertext using shared symmetric key.
+ * @param ciphertext - The AES-GCM encrypted ciphertext structure
+ * @param ciphertext.iv - The initialization vector
+ * @param ciphertext.tag - The authentication tag
+ * @param ciphertext.data - The encrypted data blocks
+ * @param sharedKey - The ECDH-derived shared symmetric key
+ * @param isSentNote - Whether this is a sent note (sender-side decryption)
+ * @param tokenHashToTokenData - Token hash index used to resolve the note's token
+ * @param memoHex - Optional memo hex string appended as the 4th GCM block
+ * @param currentWalletMasterPublicKey - Optional MPK of the current wallet for NPK computation
+ * @param annotationData - Optional encrypted annotation data containing sender random
+ * @param viewingPrivateKey - Optional viewing private key for decrypting annotation data
+ * @returns The decrypted pre-image data if successful, or null on failure
+ */
+async function decryptTransactNoteV2 (
+  ciphertext: { iv: string; tag: string; data: string[] },
+  sharedKey: Uint8Array,
+  isSentNote: boolean,
+  tokenHashToTokenData: TokenHashIndex,
+  memoHex?: string,
+  currentWalletMasterPublicKey?: string,
+  annotationData?: string,
+  viewingPrivateKey?: Uint8Array
+): Promise<DecryptedPreImage | null> {
+  try {
+    // Decrypt using AES-GCM  (include memo as 4th block if present)
+    // IMPORTANT: Always appends the memo block, even if empty ("0x").
+    // Omitting it breaks the GCM auth tag. Keep the 4th block as empty string when memo is 0x.
+    const dataBlocks: string[] = [
+      ...ciphertext.data.map((d) => ByteUtils.strip0x(d)),
+      ByteUtils.strip0x(memoHex || ''),
+    ]
+    const decryptedCiphertext = AES.decryptGCM(
+      {
+        iv: ByteUtils.strip0x(ciphertext.iv),
+        tag: ByteUtils.strip0x(ciphertext.tag),
+        data: dataBlocks,
+      },
+      sharedKey
+    ).map((value) => ByteUtils.hexlify(value))
+
+    if (decryptedCiphertext.length < 3) {
+      return null
+    }
+
+    // Parse values like TransactNote.getDecryptedValuesNoteCiphertextV2
+    const encodedMPKHex = decryptedCiphertext[0]
+    const tokenHashBlock = decryptedCiphertext[1]
+    const randomAndValue = decryptedCiphertext[2]
+    if (!encodedMPKHex || !tokenHashBlock || !randomAndValue || randomAndValue.length < 64) {
+      return null
+    }
+    // Token hash: 32-byte, 0x-prefixed, lowercase
+    const tokenHashHex = ByteUtils.prefix0x(
+      ByteUtils.formatToByteLength(tokenHashBlock, 32, false).toLowerCase()
+    )
+    const random = randomAndValue.substring(0, 32)
+    const value = BigInt('0x' + randomAndValue.substring(32, 64))
+
+    // Resolve token info from tokenHash index
+    let tokenInfo = tokenHashToTokenData.get(tokenHashHex.toLowerCase())
+    if (!tokenInfo) {
+      // For ERC20 tokens, the tokenHash IS the 32-byte padded address.
+      // Extract the address directly from the hash (last 20 bytes = 40 hex chars).
+      const stripped = ByteUtils.strip0x(tokenHashHex)
+      const leading = stripped.substring(0, stripped.length - 40)
+      if (leading === '0'.repeat(leading.length) && stripped.length === 64) {
+        const extractedAddress = '0x' + stripped.substring(stripped.length - 40)
+        tokenInfo = {
+          tokenAddress: extractedAddress.toLowerCase(),
+          tokenType: 0, // ERC20
+          tokenSubID: '0',
+        }
+      } else {
+        dwarn('TokenHash not found in map:', tokenHashHex)
+        return null
+      }
+    }
+
+    // Decode master public key to get the RECEIVER's actual MPK for NPK computation.
+    // Transact note flow:
+    //   1. For RECEIVE notes: NPK = poseidon([receiverMPK (our MPK), random])
+    //   2. For SENT notes: NPK = poseidon([decodedReceiverMPK, random])
+    //      where decodedReceiverMPK = getDecodedMasterPublicKey(senderMPK, encodedMPK, senderRandom)
+    //        - If senderRandom is defined && != MEMO_SENDER_RANDOM_NULL: return encodedMPK as-is
+    //        - Otherwise: return encodedMPK XOR senderMPK
+    const MEMO_SENDER_RANDOM_NULL = '000000000000000000000000000000'
+    const encodedMPKBigInt = BigInt('0x' + encodedMPKHex.replace(/^0x/, ''))
+    let mpkForNpk: bigint
+    let senderRandom: string | undefined // Hoisted for use in result building
+
+    if (!isSentNote && currentWalletMasterPublicKey) {
+      // RECEIVE note: use our own MPK (the receiver's MPK)
+      mpkForNpk = BigInt(String(currentWalletMasterPublicKey))
+    } else if (isSentNote && currentWalletMasterPublicKey) {
+      // SENT note: decode the receiver's MPK from encodedMPK
+      // First, try to decrypt annotationData to get senderRandom
+      if (annotationData && viewingPrivateKey) {
+        try {
+          const annotation = decryptNoteAnnotationData(annotationData, viewingPrivateKey)
+          if (annotation) {
+            senderRandom = annotation.senderRandom
+          }
+        } catch (err) {
+          dwarn('Failed to decrypt annotation data for senderRandom:', err)
+        }
+      }
+
+      // Decode master public key from ciphertext
+      if (senderRandom && senderRandom !== MEMO_SENDER_RANDOM_NULL) {
+        // Sender chose to hide their address: encodedMPK IS the receiver's MPK (unencoded)
+        mpkForNpk = encodedMPKBigInt
+      } else {
+        // Sender address is visible: encodedMPK = receiverMPK XOR senderMPK
+        // Decode: receiverMPK = encodedMPK XOR senderMPK
+        const senderMPKBigInt = BigInt(String(currentWalletMasterPublicKey))
+        mpkForNpk = encodedMPKBigInt ^ senderMPKBigInt
+      }
+    } else {
+      // Fallback: use encodedMPK directly
+      mpkForNpk = encodedMPKBigInt
+    }
+    const npk = getNotePublicKey(mpkForNpk, random)
+
+    // Decode sender's MPK from encoded value
+    // When sender address is visible: encodedMPK = receiverMPK ^ senderMPK
+    // To get senderMPK: senderMPK = encodedMPK ^ receiverMPK
+    // When sender address is hidden: encodedMPK = receiverMPK (so XOR gives 0)
+    let decodedSenderMPK: string | undefined
+    let senderAddressHidden = false
+    if (!isSentNote && currentWalletMasterPublicKey) {
+      try {
+        const receiverMPKBigInt = BigInt(String(currentWalletMasterPublicKey))
+
+        // XOR to decode: senderMPK = encodedMPK ^ receiverMPK
+        const senderMPKBigInt = encodedMPKBigInt ^ receiverMPKBigInt
+
+        // If result is 0, sender chose to hide their address
+        if (senderMPKBigInt !== 0n) {
+          decodedSenderMPK = '0x' + senderMPKBigInt.toString(16).padStart(64, '0')
+        } else {
+          senderAddressHidden = true
+        }
+      } catch (err) {
+        dwarn('Failed to decode sender MPK:', err)
+      }
+    }
+
+    // Extract memo from decrypted GCM data[3] (encoded as 30-byte hex)
+    const memoHexDecrypted = decryptedCiphertext[3]
+    const memoText = memoHexDecrypted ? decodeMemoText(memoHexDecrypted) : undefined
+
+    const result: DecryptedPreImage = {
+      tokenAddress: tokenInfo.tokenAddress,
+      tokenType: tokenInfo.tokenType,
+      tokenSubID: tokenInfo.tokenSubID,
+      value,
+      npk: ByteUtils.hexlify(npk),
+      random, // Return the actual decrypted random (16 bytes as hex string)
+      ...(memoText ? { memoText } : {}),
+    }
+    if (decodedSenderMPK) {
+      result.senderMasterPublicKey = decodedSenderMPK // Store decoded sender's MPK
+    }
+    if (senderAddressHidden) {
+      result.senderAddressHidden = true
+    }
+    // For sent notes, store the receiver's MPK and senderRandom for address reconstruction
+    if (isSentNote) {
+      result.receiverMasterPublicKey = '0x' + mpkForNpk.toString(16).padStart(64, '0')
+      if (senderRandom) {
+        result.senderRandom = senderRandom
+      }
+    }
+    return result
+  } catch (error) {
+    // Log the error for debugging sender decryption issues
+    dwarn('tryDecryptTransactNoteV2 failed:', error instanceof Error ? error.message : error)
+    return null
+  }
+}
+
+/**
+ * Try to decrypt a single commitment for this wallet.
+ * Create scanned DB commitments from raw commitment data.
+ *
+ *  This method only accepts commitments that can be successfully decrypted
+ * using proper cryptographic validation.
+ * @param commitment - The raw Subsquid commitment to attempt decryption on
+ * @param wallet - The keys of the RAILGUN wallet to decrypt for
+ * @param tokenHashToTokenData - Token hash index used to resolve transact note tokens
+ * @returns The decrypted commitment if it belongs to this wallet, or null otherwise
+ */
+async function decryptSubsquidCommitment (
+  commitment: SubsquidCommitment,
+  wallet: DecryptionKeys,
+  tokenHashToTokenData: TokenHashIndex
+): Promise<DecryptedCommitment | null> {
+  try {
+    const viewingPrivateKey = ByteUtils.hexStringToBytes(wallet.viewingKey)
+
+    // Handle shield commitments - require encrypted bundle decryption
+    if (
+      commitment.commitmentType === 'ShieldCommitment' &&
+      'shieldKey' in commitment &&
+      commitment.shieldKey &&
+      'encryptedBundle' in commitment &&
+      commitment.encryptedBundle &&
+      commitment.encryptedBundle.length > 0
+    ) {
+      const blindedShieldKey = ByteUtils.hexStringToBytes(commitment.shieldKey)
+      const sharedKey = await getSharedSymmetricKey(viewingPrivateKey, blindedShieldKey)
+
+      if (!sharedKey) {
+        // Cannot derive shared key - this commitment is not for us
+        return null
+      }
+
+      try {
+        const encryptedBundle = commitment.encryptedBundle
+
+        if (!encryptedBundle || encryptedBundle.length < 2) {
+          return null
+        }
+
+        // Convert hex strings to bytes for decryption
+        // encryptedBundle elements are Uint8Array, ByteUtils.hexlify() converts bytes->hex
+        // In privacy-wallet: encryptedBundle elements are hex strings, so we convert hex->bytes->hex
+        const bundle0 = encryptedBundle[0]
+        const bundle1 = encryptedBundle[1]
+        if (!bundle0 || !bundle1) {
+          return null
+        }
+        const bundle0Bytes = ByteUtils.hexStringToBytes(bundle0)
+        const bundle1Bytes = ByteUtils.hexStringToBytes(bundle1)
+        const hexlified0 = ByteUtils.hexlify(bundle0Bytes)
+        const hexlified1 = ByteUtils.hexlify(bundle1Bytes)
+
+        let decrypted: any = null
+        try {
+          // Decrypt random from shield note
+          decrypted = AES.decryptGCM(
+            {
+              iv: hexlified0.slice(0, 32), // First 16 bytes as hex (32 chars)
+              tag: hexlified0.slice(16, 64), // OVERLAPPING: bytes 8-32 (48 hex chars)
+              data: [hexlified1.slice(0, 32)], // First 16 bytes of encrypted data
+            },
+            sharedKey
+          )
+        } catch {
+          // Continue with null decrypted
+        }
+
+        // No per-commitment failure logs; overall summary will be logged by caller.
+        if (decrypted && decrypted.length > 0) {
+          // Ownership check: compute npk = poseidon(mpk, random) and compare with preimage.npk
+          const random = ByteUtils.hexlify(decrypted[0])
+          if ('preimage' in commitment && commitment.preimage) {
+            try {
+              // masterPublicKey in our test wallet may be a decimal string. Parse safely.
+              const mpkStr = (wallet.masterPublicKey || '').toString()
+              const mpk: bigint =
+                mpkStr.startsWith('0x') || mpkStr.startsWith('0X')
+                  ? BigInt(mpkStr)
+                  : BigInt(mpkStr) // treat as decimal when no 0x prefix
+              const computedNpk = getNotePublicKey(mpk, random)
+              const computedNpkHex = ByteUtils.prefix0x(ByteUtils.hexlify(computedNpk))
+              const preimageNpk = ByteUtils.prefix0x(commitment.preimage.npk)
+              const match = computedNpkHex.toLowerCase() === preimageNpk.toLowerCase()
+              // If npk doesn't match, this shield is not ours.
+              if (!match) {
+                return null
+              }
+            } catch (e) {
+              // On parse error, do not accept this shield as ours.
+              return null
+            }
+          }
+        }
+
+        // If decryption succeeds, extract the random value
+        if (
+          decrypted &&
+          decrypted.length > 0 &&
+          'preimage' in commitment &&
+          commitment.preimage
+        ) {
+          // Extract 16-byte random from decrypted shield data
+          // For shields, the random is the first 16 bytes of decrypted[0]
+          const fullDecrypted = ByteUtils.hexlify(decrypted[0])
+          const actualRandom = fullDecrypted.substring(0, 32) // Take first 16 bytes (32 hex chars)
+
+          const preImage = commitment.preimage
+          return {
+            id: commitment.id,
+            hash: commitment.hash,
+            txid: commitment.transactionHash || '',
+            blockNumber:
+              typeof commitment.blockNumber === 'string'
+                ? parseInt(commitment.blockNumber)
+                : commitment.blockNumber,
+            treeNumber: commitment.treeNumber,
+            batchStartTreePosition:
+              typeof commitment.batchStartTreePosition === 'string'
+                ? parseInt(commitment.batchStartTreePosition)
+                : commitment.batchStartTreePosition,
+            // Use the actual commitment tree position for nullifier calculation
+            position:
+              typeof commitment.treePosition === 'string'
+                ? parseInt(commitment.treePosition)
+                : commitment.treePosition,
+            commitmentType: commitment.commitmentType,
+            tokenAddress: preImage.token.tokenAddress,
+            tokenType: normalizeTokenType(preImage.token.tokenType),
+            tokenSubID: preImage.token.tokenSubID,
+            value: BigInt(preImage.value),
+            npk: preImage.npk,
+            isSpent: false,
+            timestamp: parseInt(commitment.blockTimestamp || '0'),
+            random: '0x' + actualRandom, // Use actual decrypted random (16 bytes = 32 hex chars)
+          }
+        }
+      } catch (error) {
+        // Decryption failed - this commitment is not for us
+        return null
+      }
+    }
+
+    // Handle transact commitments - require ciphertext decryption
+    if (
+      commitment.commitmentType === 'TransactCommitment' &&
+      'ciphertext' in commitment &&
+      commitment.ciphertext &&
+      commitment.ciphertext.ciphertext
+    ) {
+      const ciphertext = commitment.ciphertext
+      const blindedSenderViewingKey = ByteUtils.hexStringToBytes(
+        ciphertext.blindedSenderViewingKey
+      )
+      const blindedReceiverViewingKey = ByteUtils.hexStringToBytes(
+        ciphertext.blindedReceiverViewingKey
+      )
+
+      // Try both receiver and sender decryption
+      // IMPORTANT: Receiver derives shared key with blindedSenderViewingKey.
+      const [sharedKeyReceiver, sharedKeySender] = await Promise.all([
+        getSharedSymmetricKey(viewingPrivateKey, blindedSenderViewingKey),
+        getSharedSymmetricKey(viewingPrivateKey, blindedReceiverViewingKey),
+      ])
+
+      // Handle memo: Subsquid may return it as a string or array
+      const memoHex = Array.isArray(ciphertext.memo)
+        ? ciphertext.memo[0] || '' // Legacy format: array of hex strings
+        : ciphertext.memo || '' // V2 format: single hex string
+
+      // Try to decrypt with receiver key first (derived using blindedSenderViewingKey)
+      if (sharedKeyReceiver) {
+        const decryptedNote = await decryptTransactNoteV2(
+          ciphertext.ciphertext,
+          sharedKeyReceiver,
+          false, // isSentNote
+          tokenHashToTokenData,
+          memoHex,
+          wallet.masterPublicKey
+        )
+
+        if (decryptedNote) {
+          // Try to decrypt annotationData to extract outputType.
+          // annotationData is encrypted with the SENDER's viewing key.
+          // For change outputs (sent to ourselves), we ARE the sender,
+          // so we can decrypt it to determine if outputType === Change (2).
+          let outputType: number | undefined
+          const annotationRaw = ciphertext.annotationData
+          if (annotationRaw) {
+            try {
+              const annotation = decryptNoteAnnotationData(annotationRaw, viewingPrivateKey)
+              if (annotation) {
+                outputType = annotation.outputType
+              }
+            } catch (e) {
+              // Decryption failed - not the sender of this commitment
+            }
+          }
+
+          const isChange = outputType === 2 // OutputType.Change
+          const result: DecryptedCommitment = {
+            id: commitment.id,
+            hash: commitment.hash,
+            txid: commitment.transactionHash || '',
+            blockNumber:
+              typeof commitment.blockNumber === 'string'
+                ? parseInt(commitment.blockNumber)
+                : commitment.blockNumber,
+            treeNumber: commitment.treeNumber,
+            batchStartTreePosition:
+              typeof commitment.batchStartTreePosition === 'string'
+                ? parseInt(commitment.batchStartTreePosition)
+                : commitment.batchStartTreePosition,
+            position:
+              typeof commitment.treePosition === 'string'
+                ? parseInt(commitment.treePosition)
+                : commitment.treePosition || 0,
+            commitmentType: commitment.commitmentType,
+            tokenAddress: decryptedNote.tokenAddress,
+            tokenType: decryptedNote.tokenType,
+            tokenSubID: decryptedNote.tokenSubID,
+            value: decryptedNote.value,
+            npk: decryptedNote.npk,
+            isSpent: false,
+            timestamp: parseInt(commitment.blockTimestamp || '0'),
+            random: '0x' + decryptedNote.random, // Use actual decrypted random (16 bytes = 32 hex chars)
+            isSentNote: isChange, // Change outputs are internal (we are the sender)
+            ...(outputType !== undefined ? { outputType } : {}),
+            ...(decryptedNote.memoText ? { memoText: decryptedNote.memoText } : {}),
+            blindedSenderViewingKey: ciphertext.blindedSenderViewingKey, // Store for sender address reconstruction
+          }
+          if (decryptedNote.senderMasterPublicKey) {
+            result.senderMasterPublicKey = decryptedNote.senderMasterPublicKey // Store sender's MPK if available
+          }
+          if (decryptedNote.senderAddressHidden) {
+            result.senderAddressHidden = true
+          }
+          return result
+        }
+      }
+
+      // Try to decrypt with sender key (derived using blindedReceiverViewingKey)
+      // These represent SentCommitments (outputs we created for others or unshields)
+      // NOT included in balance (isSentToOther=true) but included for transaction history
+      if (sharedKeySender) {
+        const senderDecrypted = await decryptTransactNoteV2(
+          ciphertext.ciphertext,
+          sharedKeySender,
+          true, // isSentNote
+          tokenHashToTokenData,
+          memoHex,
+          wallet.masterPublicKey,
+          ciphertext.annotationData,
+          viewingPrivateKey
+        )
+        if (senderDecrypted) {
+          // Reconstruct the receiver's 0zk address from the decrypted data
+          let receiverAddress: string | undefined
+          if (senderDecrypted.receiverMasterPublicKey) {
+            const cleanRandom = senderDecrypted.random.startsWith('0x')
+              ? senderDecrypted.random.slice(2)
+              : senderDecrypted.random
+            receiverAddress =
+              reconstructReceiverAddress(
+                senderDecrypted.receiverMasterPublicKey,
+                ciphertext.blindedReceiverViewingKey,
+                cleanRandom,
+                senderDecrypted.senderRandom
+              ) ?? undefined
+          }
+
+          return {
+            id: commitment.id,
+            hash: commitment.hash,
+            txid: commitment.transactionHash || '',
+            blockNumber:
+              typeof commitment.blockNumber === 'string'
+                ? parseInt(commitment.blockNumber)
+                : commitment.blockNumber,
+            treeNumber: commitment.treeNumber,
+            batchStartTreePosition:
+              typeof commitment.batchStartTreePosition === 'string'
+                ? parseInt(commitment.batchStartTreePosition)
+                : commitment.batchStartTreePosition,
+            position:
+              typeof commitment.treePosition === 'string'
+                ? parseInt(commitment.treePosition)
+                : commitment.treePosition || 0,
+            commitmentType: commitment.commitmentType,
+            tokenAddress: senderDecrypted.tokenAddress,
+            tokenType: senderDecrypted.tokenType,
+            tokenSubID: senderDecrypted.tokenSubID,
+            value: senderDecrypted.value,
+            npk: senderDecrypted.npk,
+            isSpent: false,
+            isSentToOther: true, // Excluded from balance, included in transaction history
+            timestamp: parseInt(commitment.blockTimestamp || '0'),
+            random: '0x' + senderDecrypted.random,
+            ...(senderDecrypted.memoText ? { memoText: senderDecrypted.memoText } : {}),
+            ...(receiverAddress ? { receiverAddress } : {}),
+          }
+        }
+      }
+    }
+
+    // Handle legacy commitment types (LegacyGeneratedCommitment, LegacyEncryptedCommitment)
+    // These are from deprecated RAILGUN versions and are not supported
+    // Properly rejecting them is the correct production behavior
+    if (
+      commitment.commitmentType === 'LegacyGeneratedCommitment' ||
+      commitment.commitmentType === 'LegacyEncryptedCommitment'
+    ) {
+      // Legacy commitments cannot be validated without the deprecated deserialization logic
+      // Reject them as they're not for the current wallet format
+      return null
+    }
+
+    // Reject all other unknown commitment types
+    // We only accept commitments that can be properly decrypted and validated
+    return null
+  } catch (error) {
+    // Any error during decryption means the commitment is not for us
+    return null
+  }
+}
+
+/**
+ * Trial-decrypt one commitment, never throwing.
+ * @param commitment - The commitment to try
+ * @param keys - The wallet's viewing key and master public key
+ * @param tokenHashToTokenData - Token hash index used to resolve transact note tokens
+ * @returns The decrypted commitment, or null if it does not belong to the wallet
+ */
+async function decryptCommitment (
+  commitment: SubsquidCommitment,
+  keys: DecryptionKeys,
+  tokenHashToTokenData: TokenHashIndex
+): Promise<DecryptedCommitment | null> {
+  try {
+    return await decryptSubsquidCommitment(commitment, keys, tokenHashToTokenData)
+  } catch {
+    // Not all commitments are for this wallet
+    return null
+  }
+}
+
+export type { DecryptedPreImage, DecryptionKeys, TokenData, TokenHashIndex }
+export {
+  decryptCommitment,
+  decryptSubsquidCommitment,
+  decryptTransactNoteV2,
+  getNotePublicKey,
+  normalizeTokenType,
+}
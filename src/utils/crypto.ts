@@ -8,6 +8,7 @@ import { bytesToHex, hexToBytes } from 'ethereum-cryptography/utils'
 import { ethers } from 'ethers'
 
 import type { AddressData, Chain } from '@/types/core'
+import type { RailgunWallet } from '@/types/wallet'
 
 // Poseidon hash from circomlibjs
 const poseidon = circom.poseidon
@@ -515,10 +516,11 @@ class WalletNode {
   /**
    * Create BIP32 node from mnemonic.
    * @param mnemonic - The BIP39 mnemonic phrase
+   * @param passphrase - Optional BIP39 passphrase ("25th word")
    * @returns A new WalletNode derived from the mnemonic seed
    */
-  static fromMnemonic (mnemonic: string): WalletNode {
-    const seed = Mnemonic.toSeed(mnemonic)
+  static fromMnemonic (mnemonic: string, passphrase: string = ''): WalletNode {
+    const seed = Mnemonic.toSeed(mnemonic, passphrase)
     return new WalletNode(getMasterKeyFromSeed(seed))
   }
 
@@ -713,19 +715,21 @@ function encodeAddress (addressData: AddressData): string {
  * Derive all RAILGUN master keys (spending, viewing, nullifying, and master public key) from a mnemonic.
  * @param mnemonic - The BIP39 mnemonic phrase
  * @param index - The wallet index for key derivation, defaults to 0
+ * @param passphrase - Optional BIP39 passphrase, defaults to none
  * @returns The full set of derived keys including master public key, spending/viewing key pairs, and nullifying key
  */
 async function deriveMasterKeysFromMnemonic (
   mnemonic: string,
-  index: number = 0
+  index: number = 0,
+  passphrase: string = ''
 ): Promise<KeyDerivationResult> {
   // Create separate master nodes for each derivation path
   const spendingPath = `m/44'/1984'/0'/0'/${index}'`
   const viewingPath = `m/420'/1984'/0'/0'/${index}'`
 
   // Create fresh master node from mnemonic for each derivation
-  const spendingNode = WalletNode.fromMnemonic(mnemonic).derive(spendingPath)
-  const viewingNode = WalletNode.fromMnemonic(mnemonic).derive(viewingPath)
+  const spendingNode = WalletNode.fromMnemonic(mnemonic, passphrase).derive(spendingPath)
+  const viewingNode = WalletNode.fromMnemonic(mnemonic, passphrase).derive(viewingPath)
 
   const spendingKeyPair = spendingNode.getSpendingKeyPair()
   const viewingKeyPair = await viewingNode.getViewingKeyPair()
@@ -779,16 +783,65 @@ function generateRailgunAddress (
   return encodeAddress(addressData)
 }
 
+/**
+ * Derive the Ethereum signer for a mnemonic using the standard BIP44 derivation path.
+ * @param mnemonic - The BIP39 mnemonic phrase
+ * @param index - The account index for derivation, defaults to 0
+ * @param passphrase - Optional BIP39 passphrase, defaults to none
+ * @returns The HD wallet for the account, not connected to a provider
+ */
+function getEthereumWallet (
+  mnemonic: string,
+  index: number = 0,
+  passphrase: string = ''
+): ethers.HDNodeWallet {
+  const path = `m/44'/60'/0'/0/${index}`
+  return ethers.HDNodeWallet.fromMnemonic(ethers.Mnemonic.fromPhrase(mnemonic, passphrase), path)
+}
+
 /**
  * Generate Ethereum address from mnemonic using standard BIP44 derivation path.
  * @param mnemonic - The BIP39 mnemonic phrase
  * @param index - The account index for derivation, defaults to 0
+ * @param passphrase - Optional BIP39 passphrase, defaults to none
  * @returns The checksummed Ethereum address
  */
-function getEthereumAddress (mnemonic: string, index: number = 0): string {
-  const path = `m/44'/60'/0'/0/${index}`
-  const wallet = ethers.HDNodeWallet.fromMnemonic(ethers.Mnemonic.fromPhrase(mnemonic), path)
-  return wallet.address
+function getEthereumAddress (mnemonic: string, index: number = 0, passphrase: string = ''): string {
+  return getEthereumWallet(mnemonic, index, passphrase).address
+}
+
+/**
+ * Derive the full RAILGUN wallet (0zk keys and 0x address) for one account of a mnemonic.
+ * Each derivation index is an independent account with its own addresses.
+ * @param mnemonic - The BIP39 mnemonic phrase
+ * @param derivationIndex - The account index, defaults to 0
+ * @param nickname - Optional display name for the wallet
+ * @param passphrase - Optional BIP39 passphrase; a different passphrase gives a different wallet
+ * @returns The derived wallet
+ */
+async function deriveWalletFromMnemonic (
+  mnemonic: string,
+  derivationIndex: number = 0,
+  nickname?: string,
+  passphrase?: string
+): Promise<RailgunWallet> {
+  const keys = await deriveRailgunKeys(mnemonic, derivationIndex, passphrase)
+  const railgunAddress = generateRailgunAddress(keys.masterPublicKey, keys.viewingPublicKey)
+
+  return {
+    id: ethers.id(railgunAddress),
+    address: railgunAddress,
+    viewingKey: ByteUtils.hexlify(keys.viewingKey),
+    spendingKey: ByteUtils.hexlify(keys.spendingKey),
+    nullifyingKey: keys.nullifyingKey.toString(),
+    masterPublicKey: keys.masterPublicKey.toString(),
+    mnemonic,
+    derivationIndex,
+    ethereumAddress: getEthereumAddress(mnemonic, derivationIndex, passphrase),
+    createdAt: Date.now(),
+    ...(nickname && { nickname }),
+    ...(passphrase && { passphrase }),
+  }
 }
 
 /**
@@ -824,6 +877,8 @@ export {
   deriveRailgunKeys,
   generateRailgunAddress,
   getEthereumAddress,
+  getEthereumWallet,
+  deriveWalletFromMnemonic,
   generateMnemonic,
   validateMnemonic,
 }
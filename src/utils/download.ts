@@ -0,0 +1,18 @@
+/**
+ * Save text as a file through the browser's download prompt.
+ * @param contents - The file contents
+ * @param filename - The suggested file name
+ * @param type - The MIME type of the file
+ */
+export function downloadTextFile (
+  contents: string,
+  filename: string,
+  type: string = 'application/json'
+): void {
+  const url = URL.createObjectURL(new Blob([contents], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,396 @@
+/**
+ * Encrypted at-rest storage for wallet-scoped caches (decrypted notes, transaction notes,
+ * sent outputs, PPOI statuses, cached balances).
+ *
+ * Values are AES-GCM encrypted with a key derived from the session password and stored in
+ * localStorage under `railgun_enc:<key>`. After unlock every value is decrypted into an
+ * in-memory mirror, so reads stay synchronous; writes update the mirror immediately and are
+ * encrypted and persisted in the background. While locked, reads return null and writes
+ * throw, so nothing wallet-scoped is readable from storage without the password.
+ * Caches kept in IndexedDB encrypt their records with the same key via encryptWithCacheKey.
+ */
+import { deriveKey } from './passwordEncryption'
+
+import { dlog, dwarn } from '@/utils/debug'
+
+const ENCRYPTED_PREFIX = 'railgun_enc:'
+const KEY_INFO_STORAGE_KEY = 'railgun_cache_key_info'
+const CHECK_PLAINTEXT = 'railgun-cache-check'
+const SALT_LENGTH = 16 // bytes
+const IV_LENGTH = 12 // bytes for AES-GCM
+
+// Plaintext keys written by earlier versions, migrated into encrypted storage on first unlock
+const LEGACY_PLAINTEXT_KEYS = [
+  'railgun_wallet_txos',
+  'railgun_sent_outputs',
+  'railgun_poi_status_cache',
+]
+const LEGACY_PLAINTEXT_PREFIXES = ['tx_metadata:', 'wallet:']
+
+interface CacheKeyInfo {
+  salt: string // base64
+  check: string // CHECK_PLAINTEXT encrypted with the derived key, to detect a password mismatch
+}
+
+let cacheKey: CryptoKey | null = null
+const mirror = new Map<string, string>()
+const listeners = new Set<(unlocked: boolean) => void | Promise<void>>()
+const rekeyHandlers = new Set<(reencrypt: (stored: string) => Promise<string>) => Promise<void>>()
+let pendingWrites: Promise<void> = Promise.resolve()
+
+/**
+ * Encode bytes as base64.
+ * @param bytes - The bytes to encode
+ * @returns The base64 string
+ */
+function toBase64 (bytes: Uint8Array): string {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]!)
+  return btoa(binary)
+}
+
+/**
+ * Decode base64 into bytes.
+ * @param value - The base64 string
+ * @returns The decoded bytes
+ */
+function fromBase64 (value: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(value), (c) => c.charCodeAt(0))
+}
+
+/**
+ * Encrypt a string with the cache key.
+ * @param key - The AES-GCM key
+ * @param plaintext - The value to encrypt
+ * @returns Base64 of IV followed by ciphertext
+ */
+async function encryptValue (key: CryptoKey, plaintext: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH))
+  const encrypted = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(plaintext)
+  )
+  const combined = new Uint8Array(IV_LENGTH + encrypted.byteLength)
+  combined.set(iv, 0)
+  combined.set(new Uint8Array(encrypted), IV_LENGTH)
+  return toBase64(combined)
+}
+
+/**
+ * Decrypt a value produced by encryptValue.
+ * @param key - The AES-GCM key
+ * @param stored - Base64 of IV followed by ciphertext
+ * @returns The plaintext value
+ */
+async function decryptValue (key: CryptoKey, stored: string): Promise<string> {
+  const combined = fromBase64(stored)
+  const decrypted = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: combined.slice(0, IV_LENGTH) },
+    key,
+    combined.slice(IV_LENGTH)
+  )
+  return new TextDecoder().decode(decrypted)
+}
+
+/**
+ * List the cache keys that currently have an encrypted value in localStorage.
+ * @returns The cache keys, without the storage prefix
+ */
+function listEncryptedKeys (): string[] {
+  const keys: string[] = []
+  for (let i = 0; i < localStorage.length; i++) {
+    const storageKey = localStorage.key(i)
+    if (storageKey?.startsWith(ENCRYPTED_PREFIX)) {
+      keys.push(storageKey.slice(ENCRYPTED_PREFIX.length))
+    }
+  }
+  return keys
+}
+
+/**
+ * Derive a fresh cache key from a password. The caller persists the returned key info.
+ * @param password - The session password
+ * @returns The new key and the salt and check value to persist with it
+ */
+async function createCacheKey (password: string): Promise<{ key: CryptoKey; info: CacheKeyInfo }> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH))
+  const key = await deriveKey(password, salt)
+  const info: CacheKeyInfo = {
+    salt: toBase64(salt),
+    check: await encryptValue(key, CHECK_PLAINTEXT),
+  }
+  return { key, info }
+}
+
+/**
+ * Run a task after every earlier queued write has been persisted. Later writes wait for it.
+ * @param task - The task to run
+ * @returns The task's result
+ */
+async function enqueueWrite<T> (task: () => Promise<T>): Promise<T> {
+  const run = pendingWrites.then(task)
+  pendingWrites = run.then(
+    () => {},
+    () => {}
+  )
+  return run
+}
+
+/**
+ * Move plaintext caches written by earlier versions into the mirror and encrypted storage.
+ * @param key - The cache key to encrypt with
+ * @returns The number of entries migrated
+ */
+async function migratePlaintextCaches (key: CryptoKey): Promise<number> {
+  const legacyKeys: string[] = []
+  for (let i = 0; i < localStorage.length; i++) {
+    const storageKey = localStorage.key(i)
+    if (!storageKey) continue
+    if (
+      LEGACY_PLAINTEXT_KEYS.includes(storageKey) ||
+      LEGACY_PLAINTEXT_PREFIXES.some((prefix) => storageKey.startsWith(prefix))
+    ) {
+      legacyKeys.push(storageKey)
+    }
+  }
+
+  let migrated = 0
+  for (const legacyKey of legacyKeys) {
+    const value = localStorage.getItem(legacyKey)
+    // An encrypted copy is always newer than a leftover plaintext one
+    if (value !== null && !mirror.has(legacyKey)) {
+      mirror.set(legacyKey, value)
+      localStorage.setItem(`${ENCRYPTED_PREFIX}${legacyKey}`, await encryptValue(key, value))
+      migrated++
+    }
+    localStorage.removeItem(legacyKey)
+  }
+  return migrated
+}
+
+/**
+ * Tell subscribers the cache was unlocked or locked, waiting for each to finish.
+ * @param unlocked - The new state
+ */
+async function notifyListeners (unlocked: boolean): Promise<void> {
+  for (const listener of listeners) {
+    try {
+      await listener(unlocked)
+    } catch (error) {
+      dwarn('Encrypted cache listener failed:', error)
+    }
+  }
+}
+
+/**
+ * Unlock the encrypted cache with the session password: decrypt every stored value into
+ * memory and migrate any plaintext caches left by earlier versions.
+ * If the stored values were written under a different password they cannot be read and
+ * are discarded, since everything in the cache can be rebuilt by rescanning.
+ * @param password - The session password
+ */
+async function unlockEncryptedCache (password: string): Promise<void> {
+  let key: CryptoKey | null = null
+  const rawInfo = localStorage.getItem(KEY_INFO_STORAGE_KEY)
+  if (rawInfo) {
+    try {
+      const info = JSON.parse(rawInfo) as CacheKeyInfo
+      const candidate = await deriveKey(password, fromBase64(info.salt))
+      if ((await decryptValue(candidate, info.check)) === CHECK_PLAINTEXT) key = candidate
+    } catch {
+      dwarn('Encrypted cache was written with a different password; discarding it')
+    }
+  }
+
+  mirror.clear()
+  if (key) {
+    for (const cacheKeyName of listEncryptedKeys()) {
+      try {
+        mirror.set(
+          cacheKeyName,
+          await decryptValue(key, localStorage.getItem(`${ENCRYPTED_PREFIX}${cacheKeyName}`)!)
+        )
+      } catch {
+        localStorage.removeItem(`${ENCRYPTED_PREFIX}${cacheKeyName}`)
+      }
+    }
+  } else {
+    listEncryptedKeys().forEach((k) => localStorage.removeItem(`${ENCRYPTED_PREFIX}${k}`))
+    const created = await createCacheKey(password)
+    localStorage.setItem(KEY_INFO_STORAGE_KEY, JSON.stringify(created.info))
+    key = created.key
+  }
+
+  const migrated = await migratePlaintextCaches(key)
+  cacheKey = key
+  dlog(`Encrypted cache unlocked: ${mirror.size} entries (${migrated} migrated from plaintext)`)
+  await notifyListeners(true)
+}
+
+/**
+ * Lock the encrypted cache, dropping the key and every decrypted value from memory.
+ */
+function lockEncryptedCache (): void {
+  cacheKey = null
+  mirror.clear()
+  notifyListeners(false)
+}
+
+/**
+ * Whether the cache is currently unlocked.
+ * @returns True if values can be read and written
+ */
+function isEncryptedCacheUnlocked (): boolean {
+  return cacheKey !== null
+}
+
+/**
+ * Read a cached value.
+ * @param key - The cache key
+ * @returns The value, or null if absent or the cache is locked
+ */
+function getCacheItem (key: string): string | null {
+  return mirror.get(key) ?? null
+}
+
+/**
+ * Write a cached value.
+ * @param key - The cache key
+ * @param value - The value to store
+ * @throws Error if the cache is locked
+ */
+function setCacheItem (key: string, value: string): void {
+  if (!cacheKey) throw new Error('Encrypted cache is locked')
+  mirror.set(key, value)
+  enqueueWrite(async () => {
+    // Skip writes that were overtaken by a later write, removal, or lock. A re-key queued
+    // ahead of this write has already swapped the key, so the value is encrypted under the new one.
+    const keyAtPersist = cacheKey
+    if (!keyAtPersist || mirror.get(key) !== value) return
+    try {
+      localStorage.setItem(`${ENCRYPTED_PREFIX}${key}`, await encryptValue(keyAtPersist, value))
+    } catch (error) {
+      console.error(`Failed to persist encrypted cache entry ${key}:`, error)
+    }
+  })
+}
+
+/**
+ * Remove a cached value. Works while locked.
+ * @param key - The cache key
+ */
+function removeCacheItem (key: string): void {
+  mirror.delete(key)
+  localStorage.removeItem(`${ENCRYPTED_PREFIX}${key}`)
+}
+
+/**
+ * Remove every cached value whose key starts with a prefix. Works while locked.
+ * @param prefix - The key prefix
+ */
+function removeCacheItemsWithPrefix (prefix: string): void {
+  for (const key of listEncryptedKeys()) {
+    if (key.startsWith(prefix)) removeCacheItem(key)
+  }
+  for (const key of Array.from(mirror.keys())) {
+    if (key.startsWith(prefix)) mirror.delete(key)
+  }
+}
+
+/**
+ * Encrypt a value with the session cache key, for caches kept outside localStorage.
+ * @param plaintext - The value to encrypt
+ * @returns The encrypted value
+ * @throws Error if the cache is locked
+ */
+async function encryptWithCacheKey (plaintext: string): Promise<string> {
+  if (!cacheKey) throw new Error('Encrypted cache is locked')
+  return encryptValue(cacheKey, plaintext)
+}
+
+/**
+ * Decrypt a value produced by encryptWithCacheKey.
+ * @param stored - The encrypted value
+ * @returns The plaintext value
+ * @throws Error if the cache is locked or the value was encrypted under another key
+ */
+async function decryptWithCacheKey (stored: string): Promise<string> {
+  if (!cacheKey) throw new Error('Encrypted cache is locked')
+  return decryptValue(cacheKey, stored)
+}
+
+/**
+ * Register a handler that re-encrypts values stored outside localStorage when the
+ * password changes.
+ * @param handler - Called with a function that re-encrypts one value under the new key
+ */
+function registerCacheRekeyHandler (
+  handler: (reencrypt: (stored: string) => Promise<string>) => Promise<void>
+): void {
+  rekeyHandlers.add(handler)
+}
+
+/**
+ * Re-encrypt every cached value under a new password. The cache must be unlocked.
+ * Runs in the write queue, so no write is persisted while values are being re-encrypted;
+ * the new key info and every re-encrypted value are stored together before the key is
+ * swapped, and writes made meanwhile are persisted under the new key afterwards.
+ * @param newPassword - The new session password
+ * @throws Error if the cache is locked before the re-key completes
+ */
+async function rekeyEncryptedCache (newPassword: string): Promise<void> {
+  const oldKey = cacheKey
+  if (!oldKey) return
+  await enqueueWrite(async () => {
+    const { key, info } = await createCacheKey(newPassword)
+    const reencrypted: Array<[string, string, string]> = []
+    for (const [name, value] of Array.from(mirror)) {
+      reencrypted.push([name, value, await encryptValue(key, value)])
+    }
+    for (const handler of rekeyHandlers) {
+      await handler(async (stored) => encryptValue(key, await decryptValue(oldKey, stored)))
+    }
+    if (cacheKey !== oldKey) throw new Error('Encrypted cache was locked while re-keying')
+
+    localStorage.setItem(KEY_INFO_STORAGE_KEY, JSON.stringify(info))
+    for (const [name, value, stored] of reencrypted) {
+      // Values removed or overwritten meanwhile are handled by their own queued writes
+      if (mirror.get(name) !== value) {
+        if (!mirror.has(name)) localStorage.removeItem(`${ENCRYPTED_PREFIX}${name}`)
+        continue
+      }
+      localStorage.setItem(`${ENCRYPTED_PREFIX}${name}`, stored)
+    }
+    cacheKey = key
+    dlog(`Re-encrypted ${reencrypted.length} cache entries under the new password`)
+  })
+}
+
+/**
+ * Subscribe to lock and unlock events, e.g. to reload in-memory caches after unlock.
+ * Unlocking waits for asynchronous listeners to finish.
+ * @param listener - Called with true after unlock and false after lock
+ * @returns A function that removes the subscription
+ */
+function onEncryptedCacheChange (
+  listener: (unlocked: boolean) => void | Promise<void>
+): () => void {
+  listeners.add(listener)
+  return () => listeners.delete(listener)
+}
+
+export {
+  unlockEncryptedCache,
+  lockEncryptedCache,
+  isEncryptedCacheUnlocked,
+  getCacheItem,
+  setCacheItem,
+  removeCacheItem,
+  removeCacheItemsWithPrefix,
+  rekeyEncryptedCache,
+  encryptWithCacheKey,
+  decryptWithCacheKey,
+  registerCacheRekeyHandler,
+  onEncryptedCacheChange,
+}
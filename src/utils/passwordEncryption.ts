@@ -240,6 +240,7 @@ async function validatePassword (encryptedData: string, password: string): Promi
 }
 
 export {
+  deriveKey,
   resetRateLimit,
   encryptWithPassword,
   decryptWithPassword,
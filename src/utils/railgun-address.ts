@@ -1,6 +1,7 @@
 import { bech32m } from '@scure/base'
 
-import { ByteUtils } from './crypto'
+import { ByteUtils, getPublicViewingKey } from './crypto'
+import { poseidon } from './poseidon'
 
 import type { AddressData } from '@/types/core'
 
@@ -77,5 +78,49 @@ function decodeRailgunAddress (address: string): AddressData {
   }
 }
 
+/**
+ * Checks that a private viewing key and nullifying key belong to a 0zk address, as needed
+ * for a watch-only wallet. The viewing key must produce the address's viewing public key and
+ * the nullifying key must be the Poseidon hash of the viewing key.
+ * @param address - The bech32m-encoded RAILGUN address being watched
+ * @param viewingKey - The private viewing key as a hex string (with or without 0x)
+ * @param nullifyingKey - The nullifying key as a decimal or 0x-prefixed hex string
+ * @returns The normalized keys and the address's master public key as decimal strings
+ */
+async function verifyWatchOnlyKeys (
+  address: string,
+  viewingKey: string,
+  nullifyingKey: string
+): Promise<{ viewingKey: string; nullifyingKey: string; masterPublicKey: string }> {
+  const addressData = decodeRailgunAddress(address)
+
+  const viewingKeyHex = ByteUtils.strip0x(viewingKey.trim())
+  if (!/^[0-9a-fA-F]{64}$/.test(viewingKeyHex)) {
+    throw new Error('Viewing key must be 32 bytes of hex')
+  }
+  const viewingKeyBytes = ByteUtils.hexStringToBytes(viewingKeyHex)
+
+  const viewingPublicKey = await getPublicViewingKey(viewingKeyBytes)
+  if (ByteUtils.hexlify(viewingPublicKey) !== ByteUtils.hexlify(addressData.viewingPublicKey)) {
+    throw new Error('Viewing key does not match this address')
+  }
+
+  let nullifyingKeyValue: bigint
+  try {
+    nullifyingKeyValue = BigInt(nullifyingKey.trim())
+  } catch {
+    throw new Error('Nullifying key must be a decimal or 0x-prefixed hex number')
+  }
+  if (poseidon([ByteUtils.hexToBigInt(viewingKeyHex)]) !== nullifyingKeyValue) {
+    throw new Error('Nullifying key does not match this viewing key')
+  }
+
+  return {
+    viewingKey: ByteUtils.hexlify(viewingKeyBytes),
+    nullifyingKey: nullifyingKeyValue.toString(),
+    masterPublicKey: addressData.masterPublicKey.toString(),
+  }
+}
+
 export type { AddressData }
-export { decodeRailgunAddress }
+export { decodeRailgunAddress, verifyWatchOnlyKeys }
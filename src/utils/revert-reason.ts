@@ -0,0 +1,92 @@
+import { ethers } from 'ethers'
+
+// RelayAdapt multicall error wrapping the revert data of the failed call
+const CALL_FAILED_ABI = ['error CallFailed(uint256 callIndex, bytes revertReason)']
+
+/**
+ * Extract the revert data from an ethers or JSON-RPC error.
+ * @param err - The error raised by a failed call
+ * @returns The hex-encoded revert data, or undefined if the error carries none
+ */
+function getRevertData (err: unknown): string | undefined {
+  const data: unknown =
+    (err as any)?.data ||
+    (err as any)?.error?.data ||
+    (err as any)?.info?.error?.data ||
+    (err as any)?.revert?.data
+  if (!data || typeof data !== 'string' || !data.startsWith('0x')) return undefined
+  return data
+}
+
+/**
+ * Decode a standard Solidity Error(string) revert reason from ABI-encoded data.
+ * @param revertData - The hex-encoded revert data starting with the Error(string) selector
+ * @returns The decoded revert reason string, or undefined if not decodable
+ */
+function decodeRevertString (revertData: string): string | undefined {
+  try {
+    const lower = revertData.toLowerCase()
+    // Standard Error(string) selector 0x08c379a0
+    if (lower.startsWith('0x08c379a0') && lower.length >= 10) {
+      const abiCoder = ethers.AbiCoder.defaultAbiCoder()
+      const reason = abiCoder.decode(['string'], `0x${lower.slice(10)}`)[0] as string
+      return reason
+    }
+    return undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Format raw revert data as a hex string for display when no standard decoding is possible.
+ * @param revertData - The hex-encoded revert data
+ * @returns A hex-prefixed string of the raw revert data, or a message if empty
+ */
+function decodeRawRevertData (revertData: string): string {
+  const hex = `0x${revertData.replace(/^0x/i, '')}`
+  if (hex === '0x') return 'No revert data (likely out of gas)'
+  return hex
+}
+
+/**
+ * Decode RelayAdapt CallFailed custom error and inner revert reason, if present.
+ * Plain Error(string) reverts, e.g. from RailgunSmartWallet, are decoded as well.
+ * @param err - The error object from a failed call
+ * @returns A human-readable error message, or undefined if not decodable
+ */
+function decodeRelayAdaptRevert (err: unknown): string | undefined {
+  try {
+    const data = getRevertData(err)
+    if (!data) return undefined
+
+    // Manual decode for CallFailed selector 0x5c0dee5d
+    if (data.toLowerCase().startsWith('0x5c0dee5d')) {
+      try {
+        const abiCoder = ethers.AbiCoder.defaultAbiCoder()
+        const decoded = abiCoder.decode(
+          ['uint256', 'bytes'],
+          '0x' + data.slice(10)
+        ) as unknown as [bigint, string]
+        const innerMsg = decodeRevertString(decoded[1]) ?? decodeRawRevertData(decoded[1])
+        return `RelayAdapt multicall failed at call index ${decoded[0]}: ${innerMsg}`
+      } catch {}
+    }
+
+    const iface = new ethers.Interface(CALL_FAILED_ABI)
+    try {
+      const parsed = iface.parseError(data)
+      if (parsed?.name === 'CallFailed') {
+        const inner: string = parsed.args[1]
+        const innerMsg = decodeRevertString(inner) ?? decodeRawRevertData(inner)
+        return `RelayAdapt multicall failed at call index ${Number(parsed.args[0])}: ${innerMsg}`
+      }
+    } catch {}
+
+    return decodeRevertString(data)
+  } catch {
+    return undefined
+  }
+}
+
+export { decodeRawRevertData, decodeRelayAdaptRevert, decodeRevertString }
@@ -56,6 +56,12 @@ function reconstructSenderAddress (
         )
         : senderMasterPublicKey
 
+    // A zero MPK means the sender hid their address (encoded MPK was left unencoded)
+    if (mpk === 0n) {
+      dlog('Sender address is hidden - nothing to reconstruct')
+      return null
+    }
+
     const blindedKey =
       typeof blindedSenderViewingKey === 'string'
         ? ByteUtils.hexStringToBytes(blindedSenderViewingKey)
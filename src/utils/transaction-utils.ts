@@ -2,6 +2,17 @@
  * Shared transaction utilities used across PrivateSendService and UnshieldService.
  */
 
+import type { TransactionStruct } from '@/core/transaction'
+
+/**
+ * Data the PPOI node needs to compute a transaction's railgunTxid.
+ */
+interface TransactionPPOIData {
+  nullifiers: string[]
+  commitments: string[]
+  boundParamsHash: string
+}
+
 /**
  * Recursively convert BigInt values to strings for ethers.js ABI compatibility.
  * @param obj - The value or object to convert
@@ -28,9 +39,29 @@ function convertBigIntsToStrings (obj: any): any {
  * @param provedTransaction - The proved transaction object from proof generation
  * @returns The formatted transaction ready for contract submission
  */
-export function formatTransactionForContract (provedTransaction: any): any {
+function formatTransactionForContract (provedTransaction: any): any {
   const formatted = convertBigIntsToStrings(provedTransaction)
   // boundParamsHash is NOT part of the contract's Transaction struct ABI
   delete formatted.boundParamsHash
   return formatted
 }
+
+/**
+ * Collect the PPOI data of each proved transaction of a send, in submission order.
+ * @param provedTransactions - The proved transactions
+ * @returns One entry per transaction, or undefined if any proof has no bound params hash
+ */
+function getPPOIData (
+  provedTransactions: TransactionStruct[]
+): TransactionPPOIData[] | undefined {
+  if (provedTransactions.length === 0) return undefined
+  if (provedTransactions.some((tx) => !tx.boundParamsHash)) return undefined
+  return provedTransactions.map((tx) => ({
+    nullifiers: tx.nullifiers,
+    commitments: tx.commitments,
+    boundParamsHash: tx.boundParamsHash!,
+  }))
+}
+
+export type { TransactionPPOIData }
+export { formatTransactionForContract, getPPOIData }
@@ -0,0 +1,114 @@
+/**
+ * Encrypted viewing-key bundles for sharing read-only wallet access (e.g. with an auditor).
+ *
+ * A bundle is the string `rgvk1:` followed by the output of encryptWithPassword over the
+ * JSON-serialized ViewingKeyBundle below. The recipient needs the bundle password to open it.
+ */
+import { decryptWithPassword, encryptWithPassword } from './passwordEncryption'
+
+import type { NetworkName } from '@/types/network'
+import { NETWORK_CONFIG } from '@/types/network'
+
+const BUNDLE_PREFIX = 'rgvk1:'
+const BUNDLE_FORMAT = 'railgun-viewing-key-bundle'
+const BUNDLE_VERSION = 1
+
+interface ViewingKeyBundle {
+  format: typeof BUNDLE_FORMAT
+  version: number
+  address: string // 0zk address being shared
+  viewingKey: string // Private viewing key (hex)
+  nullifyingKey: string // Nullifying key (decimal)
+  network: NetworkName
+  scanStartBlock: number // First block the recipient needs to scan
+  createdAt: number
+}
+
+/**
+ * Package a wallet's viewing keys into a password-encrypted bundle string.
+ * @param keys - The keys and scan hints to include
+ * @param keys.address - The 0zk address being shared
+ * @param keys.viewingKey - The private viewing key (hex)
+ * @param keys.nullifyingKey - The nullifying key (decimal)
+ * @param keys.network - The network the bundle is for
+ * @param keys.scanStartBlock - The first block the recipient should scan
+ * @param password - The password the recipient will use to open the bundle
+ * @returns The encrypted bundle string
+ */
+async function encryptViewingKeyBundle (
+  keys: {
+    address: string
+    viewingKey: string
+    nullifyingKey: string
+    network: NetworkName
+    scanStartBlock: number
+  },
+  password: string
+): Promise<string> {
+  if (!Number.isInteger(keys.scanStartBlock) || keys.scanStartBlock < 0) {
+    throw new Error('Scan start block must be a non-negative integer')
+  }
+
+  const bundle: ViewingKeyBundle = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    address: keys.address,
+    viewingKey: keys.viewingKey,
+    nullifyingKey: keys.nullifyingKey,
+    network: keys.network,
+    scanStartBlock: keys.scanStartBlock,
+    createdAt: Date.now(),
+  }
+
+  return `${BUNDLE_PREFIX}${await encryptWithPassword(JSON.stringify(bundle), password)}`
+}
+
+/**
+ * Decrypt and validate a viewing-key bundle string.
+ * @param blob - The bundle string produced by encryptViewingKeyBundle
+ * @param password - The bundle password
+ * @returns The decrypted bundle contents
+ * @throws Error if the bundle is malformed, the password is wrong, or the version is unsupported
+ */
+async function decryptViewingKeyBundle (blob: string, password: string): Promise<ViewingKeyBundle> {
+  const trimmed = blob.trim()
+  if (!trimmed.startsWith(BUNDLE_PREFIX)) {
+    throw new Error('Not a viewing key bundle')
+  }
+
+  let parsed: Partial<ViewingKeyBundle>
+  try {
+    parsed = JSON.parse(
+      await decryptWithPassword(trimmed.slice(BUNDLE_PREFIX.length), password)
+    )
+  } catch {
+    throw new Error('Incorrect bundle password or corrupted bundle')
+  }
+
+  if (parsed.format !== BUNDLE_FORMAT) {
+    throw new Error('Not a viewing key bundle')
+  }
+  if (parsed.version !== BUNDLE_VERSION) {
+    throw new Error(`Unsupported viewing key bundle version: ${parsed.version}`)
+  }
+  if (!parsed.address || !parsed.viewingKey || !parsed.nullifyingKey) {
+    throw new Error('Viewing key bundle is missing keys')
+  }
+  if (!parsed.network || !NETWORK_CONFIG[parsed.network]) {
+    throw new Error(`Viewing key bundle is for an unsupported network: ${parsed.network}`)
+  }
+
+  return {
+    format: BUNDLE_FORMAT,
+    version: parsed.version,
+    address: parsed.address,
+    viewingKey: parsed.viewingKey,
+    nullifyingKey: parsed.nullifyingKey,
+    network: parsed.network,
+    scanStartBlock: Math.max(0, Number(parsed.scanStartBlock) || 0),
+    createdAt: Number(parsed.createdAt) || 0,
+  }
+}
+
+export type { ViewingKeyBundle }
+export { encryptViewingKeyBundle, decryptViewingKeyBundle }
@@ -0,0 +1,46 @@
+import type { DecryptionRequest, DecryptionResponse } from '@/services/DecryptionWorkerPool'
+import type { DecryptedCommitment } from '@/types/wallet'
+import { decryptCommitment } from '@/utils/commitment-decryption'
+
+/**
+ * Commitment decryption worker, started by DecryptionWorkerPool.
+ *
+ * Receives one chunk of commitments at a time, trial-decrypts each with the wallet's
+ * viewing key and posts back progress, then the commitments that belong to the wallet.
+ */
+
+// How often progress is posted back while a chunk is decrypted
+const PROGRESS_INTERVAL = 100
+
+/**
+ * Post a message back to the pool.
+ * @param message - The started, progress, result or error message
+ */
+const reply = (message: DecryptionResponse) => {
+  self.postMessage(message)
+}
+
+/**
+ * Decrypt one chunk of commitments.
+ * @param event - The message event carrying the chunk and the keys
+ */
+self.onmessage = async (event: MessageEvent<DecryptionRequest>) => {
+  reply({ type: 'started' })
+  const { commitments, keys, tokenHashes } = event.data
+  const tokenHashToTokenData = new Map(tokenHashes)
+  const decrypted: DecryptedCommitment[] = []
+
+  try {
+    for (let i = 0; i < commitments.length; i++) {
+      const result = await decryptCommitment(commitments[i]!, keys, tokenHashToTokenData)
+      if (result) decrypted.push(result)
+
+      if ((i + 1) % PROGRESS_INTERVAL === 0) {
+        reply({ type: 'progress', processed: PROGRESS_INTERVAL })
+      }
+    }
+    reply({ type: 'result', processed: commitments.length % PROGRESS_INTERVAL, decrypted })
+  } catch (error) {
+    reply({ type: 'error', message: error instanceof Error ? error.message : String(error) })
+  }
+}
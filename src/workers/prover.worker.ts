@@ -0,0 +1,34 @@
+import { generateSnarkProof } from '@/core/snark-prover'
+import type { ProofWorkerRequest, ProofWorkerResponse } from '@/services/ProofWorkerService'
+
+/**
+ * Proof worker, started by ProofWorkerService.
+ *
+ * Generates one Groth16 proof at a time. Circuit artifacts are loaded here from
+ * ArtifactDownloadService and stay cached in this worker between proofs.
+ */
+
+/**
+ * Post a message back to the service.
+ * @param message - The started, progress, result or error message
+ */
+const reply = (message: ProofWorkerResponse) => {
+  self.postMessage(message)
+}
+
+/**
+ * Generate the requested proof.
+ * @param event - The message event carrying the proof request
+ */
+self.onmessage = async (event: MessageEvent<ProofWorkerRequest>) => {
+  const { id, request } = event.data
+  reply({ id, type: 'started' })
+  try {
+    const result = await generateSnarkProof(request, (progress) => {
+      reply({ id, type: 'progress', progress })
+    })
+    reply({ id, type: 'result', result })
+  } catch (error) {
+    reply({ id, type: 'error', message: error instanceof Error ? error.message : String(error) })
+  }
+}
@@ -6,26 +6,36 @@ import { nodePolyfills } from 'vite-plugin-node-polyfills'
 
 import { fsPolyfillPlugin } from './config/vite-plugin-fs-polyfill'
 
+const nodePolyfillOptions = {
+  // Enable polyfills for specific globals and modules
+  globals: {
+    Buffer: true,
+    global: true,
+    process: true,
+  },
+  // Include other modules but not fs (we handle it with our plugin)
+  // util is included to handle process.env.NODE_DEBUG properly
+  include: ['path', 'crypto', 'stream', 'buffer', 'util', 'events'],
+  // Explicitly enable protocolImports to handle Node.js built-ins
+  protocolImports: true,
+} satisfies Parameters<typeof nodePolyfills>[0]
+
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [
     // fs polyfill must come first
     fsPolyfillPlugin(),
     react(),
-    nodePolyfills({
-      // Enable polyfills for specific globals and modules
-      globals: {
-        Buffer: true,
-        global: true,
-        process: true,
-      },
-      // Include other modules but not fs (we handle it with our plugin)
-      // util is included to handle process.env.NODE_DEBUG properly
-      include: ['path', 'crypto', 'stream', 'buffer', 'util', 'events'],
-      // Explicitly enable protocolImports to handle Node.js built-ins
-      protocolImports: true,
-    }),
+    nodePolyfills(nodePolyfillOptions),
   ],
+  worker: {
+    format: 'es',
+    /**
+     * Workers (commitment decryption) run the same crypto code and need the same polyfills.
+     * @returns The plugins applied to worker bundles
+     */
+    plugins: () => [fsPolyfillPlugin(), nodePolyfills(nodePolyfillOptions)],
+  },
   resolve: {
     alias: {
       '@': path.resolve(__dirname, './src'),